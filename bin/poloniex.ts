@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { runCli } from '../src/cli';
+
+// Skip the node binary and the script
+//tslint:disable-next-line:no-magic-numbers
+runCli(process.argv.slice(2)).then((code) => { process.exitCode = code; },
+                                   (err: Error) => {
+                                       console.error(err);
+                                       process.exitCode = 1;
+                                   });
@@ -2,6 +2,24 @@ import * as axiosDefault from 'axios';
 import { AxiosRequestConfig, AxiosResponse } from 'axios';
 import * as crypto from 'crypto';
 import * as qs from 'qs';
+import {
+    errorFromException,
+    errorFromResponse,
+    AuthenticationError,
+    InvalidNonceError,
+    PoloniexApiError,
+    RequestCancelledError,
+} from './src/errors';
+import { getFixturePlayer, IFixtureConfig } from './src/fixtures';
+import { withMarketGuards, IMarkets } from './src/markets';
+import { getMiddlewareChain, IMiddleware, IRequestContext } from './src/middleware';
+import { defaultNonceProvider, parseExpectedNonce, INonceProvider } from './src/nonce';
+import { formatDecimal, serializeOrderFlags, DecimalValue, OrderFlag, TimeInForce } from './src/orderParams';
+import { withOrderValidation, IOrderValidationConfig } from './src/orderValidation';
+import { withPublicCache, ICachePolicy } from './src/publicCache';
+import { defaultRateLimitBudget, getRateLimiter, resolvePriority, IRateLimitPolicy } from './src/rateLimiter';
+import { withRetryPolicy, IRetryPolicy } from './src/retry';
+import { withWithdrawalPolicy, IWithdrawalPolicy } from './src/withdrawalPolicy';
 
 /**
  * Just an alias.
@@ -17,7 +35,8 @@ const defaultConfig = {
 };
 
 /**
- * Default HTTP agent configuration.
+ * Default HTTP agent configuration.  Every status is accepted by axios so that error responses can be inspected and
+ * mapped to the error hierarchy in src/errors.
  */
 const defaultAgentConfig = {
     baseURL       : defaultConfig.rootUrl,
@@ -48,23 +67,29 @@ const privateAgentConfig = {
     method: 'POST',
 };
 
+/**
+ * Anything Poloniex expects to be signed carries at least a nonce.
+ */
+export interface ISignablePayload {
+    nonce: number;
+}
+
 /**
  * The post body shape.
  */
-export interface IPostBody {
+export interface IPostBody extends ISignablePayload {
     command: string;
-    nonce: number;
 }
 
 /**
  * This function is exported so that a user can experiment with/understand how Poloniex wants requests to be signed.
  * Essentially, for user edification ;).
  *
- * @param {IPostBody} postBody
+ * @param {ISignablePayload} postBody
  * @param {string} privateKey
  * @returns {string}
  */
-export const signMessage = (postBody: IPostBody, privateKey: string): string => {
+export const signMessage = (postBody: ISignablePayload, privateKey: string): string => {
 
     // Stringify the post data
     const message = qs.stringify(postBody);
@@ -76,7 +101,7 @@ export const signMessage = (postBody: IPostBody, privateKey: string): string =>
 };
 
 /**
- * Generates a new nonce.
+ * Generates a new nonce.  Requests are re-stamped by the raw agent's nonce provider as they are sent.
  *
  * @returns {number}
  */
@@ -97,116 +122,295 @@ export interface IQueryParams {
     command: string;
 }
 
+/**
+ * Options for the raw agent.
+ */
+export interface IRawAgentConfig {
+    fixtures?: IFixtureConfig;
+    middleware?: IMiddleware[];
+    nonceProvider?: INonceProvider;
+    rateLimit?: IRateLimitPolicy;
+}
+
+/**
+ * Number of calls waiting in each rate limit queue.
+ */
+export interface IQueueDepth {
+    public: number;
+    private: number;
+}
+
 export interface IRawAgent {
     auth?: IApiAuth;
 
     isUpgraded(): boolean;
 
+    getQueueDepth(): IQueueDepth;
+
+    clearQueue(reason?: string): void;
+
     getPublicEndpoint(queryParams?: IQueryParams, configOverride?: IPoloniexRequestConfig): Promise<AxiosResponse>;
 
     postToPrivateEndpoint(data: IPostBody, configOverride?: IPoloniexRequestConfig): Promise<AxiosResponse>;
 
-    signMessage(postBody: IPostBody, privateKey: string): string;
+    signMessage(postBody: ISignablePayload, privateKey: string): string;
 
     upgrade(newAuth: IApiAuth): void;
 }
 
-const getRawAgent = (auth?: IApiAuth): IRawAgent => ({
+/**
+ * Maps anything thrown while sending a request to the error hierarchy.
+ *
+ * @param err
+ * @param {string} command
+ * @param {{}} params
+ * @returns {Error}
+ */
+const toPoloniexError = (err: Error, command: string, params: {}): Error =>
+    axios.isCancel(err) ?
+    new RequestCancelledError(err.message, { command, params }) :
+    errorFromException(err, command, params);
 
-    /**
-     * This holds the user's API keys.
-     */
-    auth,
+const isGiven = (value: {}): boolean => value !== undefined && value !== null;
 
-    /**
-     * Fetches data from the public (unauthenticated) endpoints.
-     *
-     * @param {{}} queryParams
-     * @param configOverride
-     * @returns {Promise<IPoloniexResponse>}
-     */
-    async getPublicEndpoint(queryParams?: IQueryParams,
-                            configOverride?: IPoloniexRequestConfig): Promise<AxiosResponse> {
+const orDefault = <T>(value: T, fallback: T): T => isGiven(value) ? value : fallback;
 
-        // Construct local config object
-        const config = { ...defaultConfig, ...configOverride };
+/**
+ * Factory function to get a new raw agent.
+ *
+ * @param {IApiAuth} auth
+ * @param {IRawAgentConfig} rawAgentConfig
+ * @returns {IRawAgent}
+ */
+export const getRawAgent = (auth?: IApiAuth, rawAgentConfig: IRawAgentConfig = null): IRawAgent => {
 
+    // Construct local config object
+    const agentOptions = { ...rawAgentConfig };
 
-        // The uri is a relative path to the publicAgentConfig,baseUrl
-        const uri = `/public?${qs.stringify(queryParams)}`;
+    const rateLimit     = orDefault(agentOptions.rateLimit, null);
+    const nonceProvider = orDefault(agentOptions.nonceProvider, defaultNonceProvider);
 
-        // Construct the actual config to be used
-        const agentConfig = { ...publicAgentConfig, url: uri, ...config };
+    const fixtures = isGiven(agentOptions.fixtures) ? getFixturePlayer(agentOptions.fixtures) : null;
 
-        try {
-            // Finally, send the request and return the response
-            return Promise.resolve(await axios(agentConfig));
-        } catch (err) {
-            return Promise.reject(err);
-        }
-    },
+    const middleware = getMiddlewareChain(orDefault(agentOptions.middleware, []));
+
+    // Public and private endpoints draw from separate budgets
+    const limiters = rateLimit !== null ? {
+        private: getRateLimiter(orDefault(rateLimit.private, defaultRateLimitBudget)),
+        public : getRateLimiter(orDefault(rateLimit.public, defaultRateLimitBudget)),
+    } : null;
 
     /**
-     * Checks if the user has supplied API keys.
-     *
-     * @returns {boolean}
+     * Runs a request through the endpoint's rate limiter (if there is one).  Calls over the budget wait in a priority
+     * queue.
      */
-    isUpgraded(): boolean { return this.auth; },
+    const throttle = <T>(endpoint: 'public' | 'private',
+                         command: string,
+                         config: IPoloniexRequestConfig,
+                         task: () => Promise<T>): Promise<T> => {
+        if (limiters === null) return task();
+
+        const options = {
+            cancelToken : config.cancelToken,
+            command,
+            priority    : config.priority,
+            queueTimeout: config.queueTimeout !== undefined ? config.queueTimeout : rateLimit.queueTimeout,
+        };
+
+        return limiters[endpoint].schedule(task, { ...options, priority: resolvePriority(rateLimit, options) });
+    };
 
     /**
-     * Posts to the private (authenticated) endpoints.  If no API keys have been provided, this function will fail.
-     *
-     * @param {IPostBody} data
-     * @param configOverride
-     * @returns {Promise<IPoloniexResponse>}
+     * Sends a request, unless fixtures are being recorded (send and save) or replayed (serve the saved response), and
+     * runs it through the middleware.  Rejects on HTTP errors and on Poloniex error bodies.
      */
-    async postToPrivateEndpoint(data: IPostBody,
-                                configOverride?: IPoloniexRequestConfig): Promise<AxiosResponse> {
-
-        // Ensure the user has credentials
-        if (!this.isUpgraded()) return Promise.reject(`not authenticated`);
+    const transport = async (endpoint: 'public' | 'private',
+                             command: string,
+                             params: {},
+                             config: AxiosRequestConfig): Promise<AxiosResponse> => {
+        const context: IRequestContext = { command, endpoint, params, request: config, startedAt: 0, state: {} };
 
-        // Construct local config object
-        const config = { ...defaultConfig, ...configOverride };
+        try {
+            await middleware.beforeRequest(context);
+        } catch (err) {
+            // A request stopped by middleware was never sent, so it must not look like a (retryable) network failure
+            if (err instanceof PoloniexApiError) return Promise.reject(err);
 
-        // The uri is a relative path to the privateAgentConfig baseUrl
-        const uri = `/tradingApi`;
+            return Promise.reject(new PoloniexApiError(err.message, { command, params }));
+        }
 
-        const headersOverride = config ? config.headers : null;
+        const send = (): Promise<AxiosResponse> => axios(context.request);
 
-        // Add the appropriate POST request headers (API-Key and API-Sign)
-        const headers = {
-            ...privateAgentConfig.headers,
-            Key : this.auth.publicKey,
-            Sign: this.signMessage(data, this.auth.privateKey),
-            ...headersOverride,
-        };
+        let response: AxiosResponse;
+        try {
+            context.startedAt = Date.now();
+            response          = await (fixtures === null ? send() : fixtures.handle(endpoint, params, send));
+        } catch (err) {
+            const exception = toPoloniexError(err, command, params);
+            await middleware.onError(context, exception);
 
-        // Construct the actual config to be used
-        const agentConfig = { ...privateAgentConfig, headers, url: uri, data: qs.stringify(data), ...config };
+            return Promise.reject(exception);
+        }
 
-        try {
-            const response = await axios(agentConfig);
+        const error = errorFromResponse(response, command, params);
+        if (error !== null) {
+            await middleware.onError(context, error);
 
-            // Finally, send the request and return the response
-            return Promise.resolve(response);
-        } catch (err) {
-            return Promise.reject(err);
+            return Promise.reject(error);
         }
-    },
 
-    /**
-     * Include the exported #signMessage function for convenience.
-     */
-    signMessage,
+        await middleware.afterResponse(context, response);
+
+        return response;
+    };
+
+    return {
+
+        /**
+         * This holds the user's API keys.
+         */
+        auth,
+
+        /**
+         * Rejects every call still waiting in a rate limit queue.
+         *
+         * @param {string} reason
+         */
+        clearQueue(reason?: string): void {
+            if (limiters === null) return;
+
+            limiters.public.clear(reason);
+            limiters.private.clear(reason);
+        },
+
+        /**
+         * Fetches data from the public (unauthenticated) endpoints.
+         *
+         * @param {{}} queryParams
+         * @param configOverride
+         * @returns {Promise<IPoloniexResponse>}
+         */
+        async getPublicEndpoint(queryParams?: IQueryParams,
+                                configOverride?: IPoloniexRequestConfig): Promise<AxiosResponse> {
 
-    /**
-     * Upgrades a client with new credentials.
-     *
-     * @param {IApiAuth} newAuth
-     */
-    upgrade(newAuth: IApiAuth): void { this.auth = newAuth; },
-});
+            // Construct local config object
+            const config = { ...defaultConfig, ...configOverride };
+
+
+            // The uri is a relative path to the publicAgentConfig,baseUrl
+            const uri = `/public?${qs.stringify(queryParams)}`;
+
+            // Construct the actual config to be used
+            const agentConfig = { ...publicAgentConfig, url: uri, ...config };
+
+            const command = isGiven(queryParams) ? queryParams.command : undefined;
+
+            try {
+                // Finally, send the request (once the rate limiter allows it)
+                return await throttle('public', command, config,
+                                      () => transport('public', command, queryParams, agentConfig));
+            } catch (err) {
+                return Promise.reject(toPoloniexError(err, command, queryParams));
+            }
+        },
+
+        /**
+         * Returns the number of calls waiting in each rate limit queue.
+         *
+         * @returns {IQueueDepth}
+         */
+        getQueueDepth(): IQueueDepth {
+            return limiters === null ?
+                   { private: 0, public: 0 } :
+                   { private: limiters.private.getQueueDepth(), public: limiters.public.getQueueDepth() };
+        },
+
+        /**
+         * Checks if the user has supplied API keys.
+         *
+         * @returns {boolean}
+         */
+        isUpgraded(): boolean { return this.auth; },
+
+        /**
+         * Posts to the private (authenticated) endpoints.  If no API keys have been provided, this function will fail.
+         *
+         * @param {IPostBody} data
+         * @param configOverride
+         * @returns {Promise<IPoloniexResponse>}
+         */
+        async postToPrivateEndpoint(data: IPostBody,
+                                    configOverride?: IPoloniexRequestConfig): Promise<AxiosResponse> {
+
+            // Ensure the user has credentials
+            if (!this.isUpgraded()) {
+                const details = { command: data.command, params: data };
+
+                return Promise.reject(new AuthenticationError(`not authenticated`, details));
+            }
+
+            // Construct local config object
+            const config = { ...defaultConfig, ...configOverride };
+
+            // The uri is a relative path to the privateAgentConfig baseUrl
+            const uri = `/tradingApi`;
+
+            const headersOverride = config ? config.headers : null;
+
+            const send = async (minimumNonce?: number): Promise<AxiosResponse> => {
+
+                // Nonces must increase in the order requests reach Poloniex, so issue one as the request leaves
+                // the queue
+                const nonce = await nonceProvider.getNonce(this.auth.publicKey, minimumNonce);
+                const body  = { ...data, nonce };
+
+                // Add the appropriate POST request headers (API-Key and API-Sign)
+                const headers = {
+                    ...privateAgentConfig.headers,
+                    Key : this.auth.publicKey,
+                    Sign: this.signMessage(body, this.auth.privateKey),
+                    ...headersOverride,
+                };
+
+                // Construct the actual config to be used
+                const agentConfig = { ...privateAgentConfig, headers, url: uri, data: qs.stringify(body), ...config };
+
+                return transport('private', data.command, body, agentConfig);
+            };
+
+            const attempt = async (minimumNonce?: number): Promise<AxiosResponse> => {
+                try {
+                    // Finally, send the request (once the rate limiter allows it)
+                    return await throttle('private', data.command, config, () => send(minimumNonce));
+                } catch (err) {
+                    return Promise.reject(toPoloniexError(err, data.command, data));
+                }
+            };
+
+            try {
+                return Promise.resolve(await attempt());
+            } catch (err) {
+                if (!(err instanceof InvalidNonceError)) return Promise.reject(err);
+
+                // Someone else using the key got ahead of us.  A rejected nonce means the request was not executed,
+                // so it is safe to send it once more with a nonce above the one Poloniex expects.
+                return attempt(parseExpectedNonce(err.message));
+            }
+        },
+
+        /**
+         * Include the exported #signMessage function for convenience.
+         */
+        signMessage,
+
+        /**
+         * Upgrades a client with new credentials.
+         *
+         * @param {IApiAuth} newAuth
+         */
+        upgrade(newAuth: IApiAuth): void { this.auth = newAuth; },
+    };
+};
 
 export type IReturnOrderBookParams = { currencyPair: string, depth?: string };
 export type IReturnPublicTradeHistoryParams = { currencyPair: string, start?: string, end?: string };
@@ -221,34 +425,44 @@ export type IReturnPrivateTradeHistoryParams = { currencyPair: string, start?: s
 export type IReturnOrderTradesParams = { orderNumber: string; };
 export type IBuyParams = {
     currencyPair: string,
-    rate: number,
-    amount: number,
-    fillOrKill: string,
-    immediateOrCancel: string,
-    postOnly: string,
+    rate: DecimalValue,
+    amount: DecimalValue,
+    fillOrKill?: OrderFlag,
+    immediateOrCancel?: OrderFlag,
+    postOnly?: OrderFlag,
+    timeInForce?: TimeInForce,
 };
 
 export type ISellParams = {
     currencyPair: string,
-    rate: number,
-    amount: number,
-    fillOrKill: string,
-    immediateOrCancel: string,
-    postOnly: string,
+    rate: DecimalValue,
+    amount: DecimalValue,
+    fillOrKill?: OrderFlag,
+    immediateOrCancel?: OrderFlag,
+    postOnly?: OrderFlag,
+    timeInForce?: TimeInForce,
 };
 
 export type ICancelOrderParams = { orderNumber: string; };
-export type IMoveOrderParams =
-    { orderNumber: string, rate: number, amount?: number, immediateOrCancel: string, postOnly: string };
+export type IMoveOrderParams = {
+    orderNumber: string,
+    rate: DecimalValue,
+    amount?: DecimalValue,
+    immediateOrCancel?: OrderFlag,
+    postOnly?: OrderFlag,
+    timeInForce?: TimeInForce,
+};
 export type IWithdrawParams = { currency: string, amount: number, address: string, paymentId?: string };
 export type IAvailableBalancesParams = { account: string };
 export type ITransferBalanceParams = { currency: string, amount: number, fromAddress: string, toAddress: string };
-export type IMarginBuyParams = { currencyPair: string, rate: number, amount: number, lendingRate?: number };
-export type IMarginSellParams = { currencyPair: string, rate: number, amount: number, lendingRate?: number };
+export type IMarginBuyParams =
+    { currencyPair: string, rate: DecimalValue, amount: DecimalValue, lendingRate?: DecimalValue };
+export type IMarginSellParams =
+    { currencyPair: string, rate: DecimalValue, amount: DecimalValue, lendingRate?: DecimalValue };
 export type IGetMarginPositionParams = { currencyPair: string };
 export type ICloseMarginPositionParams = { currencyPair: string };
 export type ICreateLoanOfferParams =
-    { currency: string, amount: number, duration: number, autoRenew: number, lendingRate: number };
+    { currency: string, amount: DecimalValue, duration: number, autoRenew: number, lendingRate: DecimalValue };
 export type ICancelLoanOfferParams = { orderNumber: string };
 export type IReturnLendingHistoryParams = { start: string, end: string, limit?: number };
 export type IToggleAutoRenvewParams = { orderNumber: string };
@@ -264,75 +478,104 @@ export interface IPoloniexClient {
 
     upgrade(newAuth: IApiAuth): void;
 
-    returnTicker(): Promise<IPoloniexResponse>;
+    returnTicker(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    return24Volume(): Promise<IPoloniexResponse>;
+    return24Volume(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnOrderBook(queryParams?: IReturnOrderBookParams): Promise<IPoloniexResponse>;
+    returnOrderBook(queryParams?: IReturnOrderBookParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnPublicTradeHistory(queryParams: IReturnPublicTradeHistoryParams): Promise<IPoloniexResponse>;
+    returnPublicTradeHistory(queryParams: IReturnPublicTradeHistoryParams,
+                             configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnChartData(queryParams: IReturnChartDataParams): Promise<IPoloniexResponse>;
+    returnChartData(queryParams: IReturnChartDataParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnCurrencies(): Promise<IPoloniexResponse>;
+    returnCurrencies(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnLoanOrders(queryParams: IReturnLoanOrdersParams): Promise<IPoloniexResponse>;
+    returnLoanOrders(queryParams: IReturnLoanOrdersParams,
+                     configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnBalances(): Promise<IPoloniexResponse>;
+    returnBalances(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnCompleteBalances(queryParams?: IReturnCompleteBalancesParams): Promise<IPoloniexResponse>;
+    returnCompleteBalances(queryParams?: IReturnCompleteBalancesParams,
+                           configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnDepositAddress(): Promise<IPoloniexResponse>;
+    returnDepositAddress(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    generateNewAddress(queryParams: IGenerateNewAddressParams): Promise<IPoloniexResponse>;
+    generateNewAddress(queryParams: IGenerateNewAddressParams,
+                       configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnDepositsWithdrawals(queryParams: IReturnDepositsWithdrawalsParams): Promise<IPoloniexResponse>;
+    returnDepositsWithdrawals(queryParams: IReturnDepositsWithdrawalsParams,
+                              configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnOpenOrders(queryParams?: IReturnOpenOrdersParams): Promise<IPoloniexResponse>;
+    returnOpenOrders(queryParams?: IReturnOpenOrdersParams,
+                     configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnPrivateTradeHistory(queryParams?: IReturnPrivateTradeHistoryParams): Promise<IPoloniexResponse>;
+    returnPrivateTradeHistory(queryParams?: IReturnPrivateTradeHistoryParams,
+                              configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnOrderTrades(queryParams?: IReturnOrderTradesParams): Promise<IPoloniexResponse>;
+    returnOrderTrades(queryParams?: IReturnOrderTradesParams,
+                      configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    buy(queryParams: IBuyParams): Promise<IPoloniexResponse>;
+    buy(queryParams: IBuyParams, configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    sell(queryParams: ISellParams): Promise<IPoloniexResponse>;
+    sell(queryParams: ISellParams, configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    cancelOrder(queryParams: ICancelOrderParams): Promise<IPoloniexResponse>;
+    cancelOrder(queryParams: ICancelOrderParams, configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    moveOrder(queryParams: IMoveOrderParams): Promise<IPoloniexResponse>;
+    moveOrder(queryParams: IMoveOrderParams, configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    withdraw(queryParams: IWithdrawParams): Promise<IPoloniexResponse>;
+    withdraw(queryParams: IWithdrawParams, configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnFeeInfo(): Promise<IPoloniexResponse>;
+    returnFeeInfo(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnAvailableAccountBalances(queryParams?: IAvailableBalancesParams): Promise<IPoloniexResponse>;
+    returnAvailableAccountBalances(queryParams?: IAvailableBalancesParams,
+                                   configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnTradableBalances(): Promise<IPoloniexResponse>;
+    returnTradableBalances(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    transferBalance(queryParams: ITransferBalanceParams): Promise<IPoloniexResponse>;
+    transferBalance(queryParams: ITransferBalanceParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnMarginAccountSummary(): Promise<IPoloniexResponse>;
+    returnMarginAccountSummary(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    marginBuy(queryParams: IMarginBuyParams): Promise<IPoloniexResponse>;
+    marginBuy(queryParams: IMarginBuyParams, configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    marginSell(queryParams: IMarginSellParams): Promise<IPoloniexResponse>;
+    marginSell(queryParams: IMarginSellParams, configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    getMarginPosition(queryParams?: IGetMarginPositionParams): Promise<IPoloniexResponse>;
+    getMarginPosition(queryParams?: IGetMarginPositionParams,
+                      configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    closeMarginPosition(queryParams: ICloseMarginPositionParams): Promise<IPoloniexResponse>;
+    closeMarginPosition(queryParams: ICloseMarginPositionParams,
+                        configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    createLoanOffer(queryParams: ICreateLoanOfferParams): Promise<IPoloniexResponse>;
+    createLoanOffer(queryParams: ICreateLoanOfferParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    cancelLoanOffer(queryParams: ICancelLoanOfferParams): Promise<IPoloniexResponse>;
+    cancelLoanOffer(queryParams: ICancelLoanOfferParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnOpenLoanOffers(): Promise<IPoloniexResponse>;
+    returnOpenLoanOffers(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnActiveLoans(): Promise<IPoloniexResponse>;
+    returnActiveLoans(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    returnLendingHistory(queryParams: IReturnLendingHistoryParams): Promise<IPoloniexResponse>;
+    returnLendingHistory(queryParams: IReturnLendingHistoryParams,
+                         configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
 
-    toggleAutoRenew(queryParams: IToggleAutoRenvewParams): Promise<IPoloniexResponse>;
+    toggleAutoRenew(queryParams: IToggleAutoRenvewParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse>;
+}
+
+/**
+ * Options for the client.
+ */
+export interface IClientConfig extends IRawAgentConfig {
+    cache?: ICachePolicy;
+    markets?: IMarkets;
+    retry?: IRetryPolicy;
+    validation?: IOrderValidationConfig;
+    withdrawalPolicy?: IWithdrawalPolicy;
 }
 
 /**
@@ -340,31 +583,69 @@ export interface IPoloniexClient {
  *
  * @param {IApiAuth} auth
  * @param requestConfig
+ * @param {IClientConfig} clientConfig
  * @returns {IPoloniexClient}
  */
-export const getClient = (auth?: IApiAuth, requestConfig: IPoloniexRequestConfig = null): IPoloniexClient => ({
+export const getClient = (auth?: IApiAuth,
+                          requestConfig: IPoloniexRequestConfig = null,
+                          clientConfig: IClientConfig = null): IPoloniexClient => {
+    let client = getBaseClient(auth, requestConfig, clientConfig);
+
+    if (clientConfig === null) return client;
+
+    if (clientConfig.retry !== undefined) client = withRetryPolicy(client, clientConfig.retry);
+
+    // Cache outside the retries, so that callers sharing a request also share its retries
+    if (clientConfig.cache !== undefined) client = withPublicCache(client, clientConfig.cache);
+
+    // Validate outside the retries, so that an order is checked once
+    if (clientConfig.validation !== undefined) client = withOrderValidation(client, clientConfig.validation);
 
-    rawAgent: getRawAgent(auth),
+    // Check withdrawals outside the retries too, so that each one is confirmed and counted once
+    if (clientConfig.withdrawalPolicy !== undefined) {
+        client = withWithdrawalPolicy(client, clientConfig.withdrawalPolicy);
+    }
+
+    // Refuse orders and withdrawals on unavailable markets and currencies before anything else is checked
+    if (clientConfig.markets !== undefined) client = withMarketGuards(client, clientConfig.markets);
+
+    return client;
+};
+
+/**
+ * Factory function to get the client without any of the optional layers (retries, validation, ...) applied.
+ *
+ * @param {IApiAuth} auth
+ * @param requestConfig
+ * @param {IClientConfig} clientConfig
+ * @returns {IPoloniexClient}
+ */
+const getBaseClient = (auth?: IApiAuth,
+                       requestConfig: IPoloniexRequestConfig = null,
+                       clientConfig: IClientConfig = null): IPoloniexClient => ({
+
+    rawAgent: getRawAgent(auth, clientConfig),
 
     isUpgraded(): boolean { return this.rawAgent.isUpgraded(); },
 
     upgrade(newAuth: IApiAuth): void { this.rawAgent.upgrade(newAuth); },
 
-    async returnTicker(): Promise<IPoloniexResponse> {
+    async returnTicker(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnTicker';
         const params  = { command };
 
-        return this.rawAgent.getPublicEndpoint(params, requestConfig);
+        return this.rawAgent.getPublicEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async return24Volume(): Promise<IPoloniexResponse> {
+    async return24Volume(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'return24hVolume';
         const params  = { command };
 
-        return this.rawAgent.getPublicEndpoint(params, requestConfig);
+        return this.rawAgent.getPublicEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnOrderBook(queryParams?: IReturnOrderBookParams): Promise<IPoloniexResponse> {
+    async returnOrderBook(queryParams?: IReturnOrderBookParams,
+                          configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command  = 'returnOrderBook';
         const required = { command };
         const optional = queryParams ?
@@ -372,49 +653,53 @@ export const getClient = (auth?: IApiAuth, requestConfig: IPoloniexRequestConfig
                          { currencyPair: 'all' };
         const params   = { ...required, ...optional };
 
-        return this.rawAgent.getPublicEndpoint(params, requestConfig);
+        return this.rawAgent.getPublicEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnPublicTradeHistory(queryParams: IReturnPublicTradeHistoryParams): Promise<IPoloniexResponse> {
+    async returnPublicTradeHistory(queryParams: IReturnPublicTradeHistoryParams,
+                                   configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnTradeHistory';
         const params  = (({ currencyPair, start, end }) =>
             ({ command, currencyPair, start, end }))(queryParams);
 
-        return this.rawAgent.getPublicEndpoint(params, requestConfig);
+        return this.rawAgent.getPublicEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnChartData(queryParams: IReturnChartDataParams): Promise<IPoloniexResponse> {
+    async returnChartData(queryParams: IReturnChartDataParams,
+                          configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnChartData';
         const params  = (({ currencyPair, start, end, period }) =>
             ({ command, currencyPair, start, end, period }))(queryParams);
 
-        return this.rawAgent.getPublicEndpoint(params, requestConfig);
+        return this.rawAgent.getPublicEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnCurrencies(): Promise<IPoloniexResponse> {
+    async returnCurrencies(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnCurrencies';
         const params  = { command };
 
-        return this.rawAgent.getPublicEndpoint(params, requestConfig);
+        return this.rawAgent.getPublicEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnLoanOrders(queryParams: IReturnLoanOrdersParams): Promise<IPoloniexResponse> {
+    async returnLoanOrders(queryParams: IReturnLoanOrdersParams,
+                           configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnLoanOrders';
         const params  = (({ currency }) =>
             ({ command, currency }))(queryParams);
 
-        return this.rawAgent.getPublicEndpoint(params, requestConfig);
+        return this.rawAgent.getPublicEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnBalances(): Promise<IPoloniexResponse> {
+    async returnBalances(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnBalances';
         const nonce   = generateNonce();
         const params  = { command, nonce };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnCompleteBalances(queryParams?: IReturnCompleteBalancesParams): Promise<IPoloniexResponse> {
+    async returnCompleteBalances(queryParams?: IReturnCompleteBalancesParams,
+                                 configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command  = 'returnCompleteBalances';
         const nonce    = generateNonce();
         const required = { command, nonce };
@@ -423,36 +708,39 @@ export const getClient = (auth?: IApiAuth, requestConfig: IPoloniexRequestConfig
                          { account: 'all' };
         const params   = { ...required, ...optional };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnDepositAddress(): Promise<IPoloniexResponse> {
+    async returnDepositAddress(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnDepositAddress';
         const nonce   = generateNonce();
         const params  = { command, nonce };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async generateNewAddress(queryParams: IGenerateNewAddressParams): Promise<IPoloniexResponse> {
+    async generateNewAddress(queryParams: IGenerateNewAddressParams,
+                             configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'generateNewAddress';
         const nonce   = generateNonce();
         const params  = (({ currency }) =>
             ({ command, nonce, currency }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnDepositsWithdrawals(queryParams: IReturnDepositsWithdrawalsParams): Promise<IPoloniexResponse> {
+    async returnDepositsWithdrawals(queryParams: IReturnDepositsWithdrawalsParams,
+                                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnDepositsWithdrawals';
         const nonce   = generateNonce();
         const params  = (({ start, end }) =>
             ({ command, nonce, start, end }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnOpenOrders(queryParams?: IReturnOpenOrdersParams): Promise<IPoloniexResponse> {
+    async returnOpenOrders(queryParams?: IReturnOpenOrdersParams,
+                           configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command  = 'returnOpenOrders';
         const nonce    = generateNonce();
         const required = { command, nonce };
@@ -461,10 +749,11 @@ export const getClient = (auth?: IApiAuth, requestConfig: IPoloniexRequestConfig
                          { currencyPair: 'all' };
         const params   = { ...required, ...optional };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnPrivateTradeHistory(queryParams?: IReturnPrivateTradeHistoryParams): Promise<IPoloniexResponse> {
+    async returnPrivateTradeHistory(queryParams?: IReturnPrivateTradeHistoryParams,
+                                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command  = 'returnTradeHistory';
         const nonce    = generateNonce();
         const required = { command, nonce };
@@ -474,72 +763,90 @@ export const getClient = (auth?: IApiAuth, requestConfig: IPoloniexRequestConfig
                          { currencyPair: 'all' };
         const params   = { ...required, ...optional };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnOrderTrades(queryParams: IReturnOrderTradesParams): Promise<IPoloniexResponse> {
+    async returnOrderTrades(queryParams: IReturnOrderTradesParams,
+                            configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnOrderTrades';
         const nonce   = generateNonce();
         const params  = (({ orderNumber }) =>
             ({ command, nonce, orderNumber }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async buy(queryParams: IBuyParams): Promise<IPoloniexResponse> {
+    async buy(queryParams: IBuyParams,
+              configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'buy';
         const nonce   = generateNonce();
-        const params  = (({ currencyPair, rate, amount, fillOrKill, immediateOrCancel, postOnly }) =>
-            ({ command, nonce, currencyPair, rate, amount, fillOrKill, immediateOrCancel, postOnly }))(queryParams);
+        const rate    = formatDecimal(queryParams.rate);
+        const amount  = formatDecimal(queryParams.amount);
+        const flags   = serializeOrderFlags(queryParams);
+        const params  = (({ currencyPair }) =>
+            ({ command, nonce, currencyPair, rate, amount, ...flags }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async sell(queryParams: ISellParams): Promise<IPoloniexResponse> {
+    async sell(queryParams: ISellParams,
+               configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'sell';
         const nonce   = generateNonce();
-        const params  = (({ currencyPair, rate, amount, fillOrKill, immediateOrCancel, postOnly }) =>
-            ({ command, nonce, currencyPair, rate, amount, fillOrKill, immediateOrCancel, postOnly }))(queryParams);
+        const rate    = formatDecimal(queryParams.rate);
+        const amount  = formatDecimal(queryParams.amount);
+        const flags   = serializeOrderFlags(queryParams);
+        const params  = (({ currencyPair }) =>
+            ({ command, nonce, currencyPair, rate, amount, ...flags }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async cancelOrder(queryParams: ICancelOrderParams): Promise<IPoloniexResponse> {
+    async cancelOrder(queryParams: ICancelOrderParams,
+                      configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'cancelOrder';
         const nonce   = generateNonce();
         const params  = (({ orderNumber }) =>
             ({ command, nonce, orderNumber }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async moveOrder(queryParams: IMoveOrderParams): Promise<IPoloniexResponse> {
+    async moveOrder(queryParams: IMoveOrderParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'moveOrder';
         const nonce   = generateNonce();
-        const params  = (({ orderNumber, rate, amount, immediateOrCancel, postOnly }) =>
+        const rate    = formatDecimal(queryParams.rate);
+        const amount  = formatDecimal(queryParams.amount);
+
+        const { immediateOrCancel, postOnly } = serializeOrderFlags(queryParams);
+
+        const params = (({ orderNumber }) =>
             ({ command, nonce, orderNumber, rate, amount, immediateOrCancel, postOnly }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async withdraw(queryParams: IWithdrawParams): Promise<IPoloniexResponse> {
+    async withdraw(queryParams: IWithdrawParams,
+                   configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'withdraw';
         const nonce   = generateNonce();
         const params  = (({ currency, amount, address, paymentId }) =>
             ({ command, nonce, currency, amount, address, paymentId }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnFeeInfo(): Promise<IPoloniexResponse> {
+    async returnFeeInfo(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnFeeInfo';
         const nonce   = generateNonce();
         const params  = { command, nonce };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnAvailableAccountBalances(queryParams?: IAvailableBalancesParams): Promise<IPoloniexResponse> {
+    async returnAvailableAccountBalances(queryParams?: IAvailableBalancesParams,
+                                         configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command  = 'returnAvailableAccountBalances';
         const nonce    = generateNonce();
         const required = { command, nonce };
@@ -549,53 +856,63 @@ export const getClient = (auth?: IApiAuth, requestConfig: IPoloniexRequestConfig
                          null;
         const params   = { ...required, ...optional };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnTradableBalances(): Promise<IPoloniexResponse> {
+    async returnTradableBalances(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnTradableBalances';
         const nonce   = generateNonce();
         const params  = { command, nonce };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async transferBalance(queryParams: ITransferBalanceParams): Promise<IPoloniexResponse> {
+    async transferBalance(queryParams: ITransferBalanceParams,
+                          configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'transferBalance';
         const nonce   = generateNonce();
         const params  = (({ currency, amount, fromAddress, toAddress }) =>
             ({ command, nonce, currency, amount, fromAddress, toAddress }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnMarginAccountSummary(): Promise<IPoloniexResponse> {
+    async returnMarginAccountSummary(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnMarginAccountSummary';
         const nonce   = generateNonce();
         const params  = { command, nonce };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async marginBuy(queryParams: IMarginBuyParams): Promise<IPoloniexResponse> {
-        const command = 'marginBuy';
-        const nonce   = generateNonce();
-        const params  = (({ currencyPair, rate, amount, lendingRate }) =>
+    async marginBuy(queryParams: IMarginBuyParams,
+                    configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
+        const command     = 'marginBuy';
+        const nonce       = generateNonce();
+        const rate        = formatDecimal(queryParams.rate);
+        const amount      = formatDecimal(queryParams.amount);
+        const lendingRate = formatDecimal(queryParams.lendingRate);
+        const params      = (({ currencyPair }) =>
             ({ command, nonce, currencyPair, rate, amount, lendingRate }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async marginSell(queryParams: IMarginSellParams): Promise<IPoloniexResponse> {
-        const command = 'marginSell';
-        const nonce   = generateNonce();
-        const params  = (({ currencyPair, rate, amount, lendingRate }) =>
+    async marginSell(queryParams: IMarginSellParams,
+                     configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
+        const command     = 'marginSell';
+        const nonce       = generateNonce();
+        const rate        = formatDecimal(queryParams.rate);
+        const amount      = formatDecimal(queryParams.amount);
+        const lendingRate = formatDecimal(queryParams.lendingRate);
+        const params      = (({ currencyPair }) =>
             ({ command, nonce, currencyPair, rate, amount, lendingRate }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async getMarginPosition(queryParams?: IGetMarginPositionParams): Promise<IPoloniexResponse> {
+    async getMarginPosition(queryParams?: IGetMarginPositionParams,
+                            configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command  = 'getMarginPosition';
         const nonce    = generateNonce();
         const required = { command, nonce };
@@ -605,77 +922,117 @@ export const getClient = (auth?: IApiAuth, requestConfig: IPoloniexRequestConfig
                          { currencyPair: 'all' };
         const params   = { ...required, ...optional };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async closeMarginPosition(queryParams: ICloseMarginPositionParams): Promise<IPoloniexResponse> {
+    async closeMarginPosition(queryParams: ICloseMarginPositionParams,
+                              configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'closeMarginPosition';
         const nonce   = generateNonce();
         const params  = (({ currencyPair }) =>
             ({ command, nonce, currencyPair }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async createLoanOffer(queryParams: ICreateLoanOfferParams): Promise<IPoloniexResponse> {
-        const command = 'createLoanOffer';
-        const nonce   = generateNonce();
-        const params  = (({ currency, amount, duration, autoRenew, lendingRate }) =>
+    async createLoanOffer(queryParams: ICreateLoanOfferParams,
+                          configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
+        const command     = 'createLoanOffer';
+        const nonce       = generateNonce();
+        const amount      = formatDecimal(queryParams.amount);
+        const lendingRate = formatDecimal(queryParams.lendingRate);
+        const params      = (({ currency, duration, autoRenew }) =>
             ({ command, nonce, currency, amount, duration, autoRenew, lendingRate }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async cancelLoanOffer(queryParams: ICancelLoanOfferParams): Promise<IPoloniexResponse> {
+    async cancelLoanOffer(queryParams: ICancelLoanOfferParams,
+                          configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'cancelLoanOffer';
         const nonce   = generateNonce();
         const params  = (({ orderNumber }) =>
             ({ command, nonce, orderNumber }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnOpenLoanOffers(): Promise<IPoloniexResponse> {
+    async returnOpenLoanOffers(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnOpenLoanOffers';
         const nonce   = generateNonce();
         const params  = { command, nonce };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnActiveLoans(): Promise<IPoloniexResponse> {
+    async returnActiveLoans(configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnActiveLoans';
         const nonce   = generateNonce();
         const params  = { command, nonce };
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async returnLendingHistory(queryParams: IReturnLendingHistoryParams): Promise<IPoloniexResponse> {
+    async returnLendingHistory(queryParams: IReturnLendingHistoryParams,
+                               configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'returnLendingHistory';
         const nonce   = generateNonce();
         const params  = (({ start, end, limit }) =>
             ({ command, nonce, start, end, limit }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 
-    async toggleAutoRenew(queryParams: IToggleAutoRenvewParams): Promise<IPoloniexResponse> {
+    async toggleAutoRenew(queryParams: IToggleAutoRenvewParams,
+                          configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
         const command = 'toggleAutoRenew';
         const nonce   = generateNonce();
         const params  = (({ orderNumber }) =>
             ({ command, nonce, orderNumber }))(queryParams);
 
-        return this.rawAgent.postToPrivateEndpoint(params, requestConfig);
+        return this.rawAgent.postToPrivateEndpoint(params, { ...requestConfig, ...configOverride });
     },
 });
 
 /**
- * Alias for Axios request config.
+ * Axios request config, plus the per-call rate limit queue options.
  */
-export interface IPoloniexRequestConfig extends AxiosRequestConfig {}
+export interface IPoloniexRequestConfig extends AxiosRequestConfig {
+    priority?: number;
+    queueTimeout?: number;
+}
 
 /**
  * Alias for Axios response.
  */
 export interface IPoloniexResponse extends AxiosResponse {}
+
+export * from './src/accounting';
+export * from './src/accountPool';
+export * from './src/candles';
+export * from './src/credentials';
+export * from './src/errors';
+export * from './src/execution';
+export * from './src/fixtures';
+export * from './src/lendingEngine';
+export * from './src/marginMonitor';
+export * from './src/markets';
+export * from './src/metrics';
+export * from './src/middleware';
+export * from './src/nonce';
+export * from './src/orderParams';
+export * from './src/orderValidation';
+export * from './src/publicCache';
+export * from './src/pushClient';
+export * from './src/rateLimiter';
+export * from './src/simulatedClient';
+export * from './src/retry';
+export * from './src/withdrawalPolicy';
+export * from './src/wrapClient';
+export * from './src/orderBook';
+export * from './src/orderBookAnalytics';
+export * from './src/orderManager';
+export * from './src/models';
+export * from './src/pagination';
+export * from './src/portfolio';
+export * from './src/typedClient';
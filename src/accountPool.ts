@@ -0,0 +1,194 @@
+import {
+    parseBalances, parseCompleteBalances, parseOpenOrders, IClientConfig, ICompleteBalances, IOpenOrder, IOpenOrders,
+    IPoloniexClient, IPoloniexRequestConfig,
+} from '../index';
+import { getRotatingClient, ICredentialProvider, IRotationConfig } from './credentials';
+import { IDecimals } from './models';
+
+/**
+ * The outcome of a call made on several accounts.  Accounts whose call failed are in `errors` instead of `results`.
+ */
+export interface IFanOutResult<T> {
+    results: { [account: string]: T };
+    errors: { [account: string]: Error };
+}
+
+/**
+ * Balances summed over all accounts, along with each account's own.
+ */
+export interface IPooledBalances {
+    total: IDecimals;
+    byAccount: { [account: string]: IDecimals };
+    errors: { [account: string]: Error };
+}
+
+/**
+ * Complete balances summed over all accounts, along with each account's own.
+ */
+export interface IPooledCompleteBalances {
+    total: ICompleteBalances;
+    byAccount: { [account: string]: ICompleteBalances };
+    errors: { [account: string]: Error };
+}
+
+/**
+ * An open order and the account it belongs to.
+ */
+export interface IPooledOpenOrder extends IOpenOrder {
+    account: string;
+}
+
+/**
+ * Open orders of all accounts, by currency pair.
+ */
+export interface IPooledOpenOrders {
+    orders: { [currencyPair: string]: IPooledOpenOrder[] };
+    errors: { [account: string]: Error };
+}
+
+/**
+ * Clients for several accounts, by label.
+ */
+export interface IAccountPool {
+    accounts(): string[];
+    add(account: string, client: IPoloniexClient): IAccountPool;
+    client(account: string): IPoloniexClient;
+    fanOut<T>(call: (client: IPoloniexClient, account: string) => Promise<T>,
+              accounts?: string[]): Promise<IFanOutResult<T>>;
+    remove(account: string): IAccountPool;
+    returnBalances(accounts?: string[]): Promise<IPooledBalances>;
+    returnCompleteBalances(accounts?: string[]): Promise<IPooledCompleteBalances>;
+    returnOpenOrders(currencyPair?: string, accounts?: string[]): Promise<IPooledOpenOrders>;
+}
+
+const sumBalances = (total: IDecimals, balances: IDecimals): IDecimals =>
+    Object.keys(balances).reduce((acc, currency) => {
+        acc[currency] = acc[currency] !== undefined ? acc[currency].plus(balances[currency]) : balances[currency];
+
+        return acc;
+    }, total);
+
+const sumCompleteBalances = (total: ICompleteBalances, balances: ICompleteBalances): ICompleteBalances =>
+    Object.keys(balances).reduce((acc, currency) => {
+        const [sum, balance] = [acc[currency], balances[currency]];
+
+        acc[currency] = sum === undefined ? { ...balance } : {
+            available: sum.available.plus(balance.available),
+            btcValue : sum.btcValue.plus(balance.btcValue),
+            currency,
+            onOrders : sum.onOrders.plus(balance.onOrders),
+        };
+
+        return acc;
+    }, total);
+
+/**
+ * Factory function to get a pool of clients for several accounts.  Calls go to one account with #client, or to all of
+ * them (or the ones listed) with #fanOut, which waits for every account and keeps failures apart from results.
+ *
+ * @param clients clients by account label
+ * @returns {IAccountPool}
+ */
+export const getAccountPool = (clients: { [account: string]: IPoloniexClient } = {}): IAccountPool => {
+    const pool = new Map<string, IPoloniexClient>();
+
+    Object.keys(clients).forEach((account) => pool.set(account, clients[account]));
+
+    const accountPool: IAccountPool = {
+        accounts(): string[] {
+            return Array.from(pool.keys());
+        },
+
+        add(account: string, client: IPoloniexClient): IAccountPool {
+            pool.set(account, client);
+
+            return accountPool;
+        },
+
+        client(account: string): IPoloniexClient {
+            if (!pool.has(account)) throw new Error(`unknown account ${account}`);
+
+            return pool.get(account);
+        },
+
+        async fanOut<T>(call: (client: IPoloniexClient, account: string) => Promise<T>,
+                        accounts: string[] = accountPool.accounts()): Promise<IFanOutResult<T>> {
+            const result: IFanOutResult<T> = { errors: {}, results: {} };
+
+            await Promise.all(accounts.map(async (account) => {
+                try {
+                    result.results[account] = await call(accountPool.client(account), account);
+                } catch (err) {
+                    result.errors[account] = err;
+                }
+            }));
+
+            return result;
+        },
+
+        remove(account: string): IAccountPool {
+            pool.delete(account);
+
+            return accountPool;
+        },
+
+        async returnBalances(accounts?: string[]): Promise<IPooledBalances> {
+            const { errors, results } = await accountPool.fanOut<IDecimals>(
+                async (client) => parseBalances((await client.returnBalances()).data), accounts);
+
+            const total = Object.keys(results)
+                .reduce<IDecimals>((acc, account) => sumBalances(acc, results[account]), {});
+
+            return { byAccount: results, errors, total };
+        },
+
+        async returnCompleteBalances(accounts?: string[]): Promise<IPooledCompleteBalances> {
+            const { errors, results } = await accountPool.fanOut<ICompleteBalances>(
+                async (client) => parseCompleteBalances((await client.returnCompleteBalances()).data), accounts);
+
+            const total = Object.keys(results)
+                .reduce<ICompleteBalances>((acc, account) => sumCompleteBalances(acc, results[account]), {});
+
+            return { byAccount: results, errors, total };
+        },
+
+        async returnOpenOrders(currencyPair: string = 'all', accounts?: string[]): Promise<IPooledOpenOrders> {
+            const { errors, results } = await accountPool.fanOut<IOpenOrders>(
+                async (client) => parseOpenOrders((await client.returnOpenOrders({ currencyPair })).data, currencyPair),
+                accounts);
+
+            const orders: { [currencyPair: string]: IPooledOpenOrder[] } = {};
+
+            Object.keys(results).forEach((account) => Object.keys(results[account]).forEach((pair) => {
+                const tagged = results[account][pair].map((order) => ({ ...order, account }));
+                orders[pair] = [...(orders[pair] !== undefined ? orders[pair] : []), ...tagged];
+            }));
+
+            return { errors, orders };
+        },
+    };
+
+    return accountPool;
+};
+
+/**
+ * Builds a pool of rotating clients (see #getRotatingClient), one for each credential provider.
+ *
+ * @param providers credential providers by account label
+ * @param {IPoloniexRequestConfig} requestConfig
+ * @param {IClientConfig} clientConfig
+ * @param {IRotationConfig} rotationConfig
+ * @returns {Promise<IAccountPool>}
+ */
+export const loadAccountPool = async (providers: { [account: string]: ICredentialProvider },
+                                      requestConfig: IPoloniexRequestConfig = null,
+                                      clientConfig: IClientConfig = null,
+                                      rotationConfig: IRotationConfig = null): Promise<IAccountPool> => {
+    const pool = getAccountPool();
+
+    for (const account of Object.keys(providers)) {
+        pool.add(account, await getRotatingClient(providers[account], requestConfig, clientConfig, rotationConfig));
+    }
+
+    return pool;
+};
@@ -0,0 +1,362 @@
+import { Decimal } from 'decimal.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { IPoloniexClient } from '../index';
+import { ILendingHistoryEntry, ITrade, IWithdrawal } from './models';
+import {
+    iterateDepositsWithdrawals, iterateLendingHistory, iteratePrivateTradeHistory, IDepositOrWithdrawal,
+    IPaginationOptions, TimeBound,
+} from './pagination';
+
+const writeFile = promisify(fs.writeFile);
+
+/**
+ * How sold amounts are matched against earlier purchases.
+ */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export type LedgerEntryType = 'buy' | 'sell' | 'deposit' | 'withdrawal' | 'interest';
+
+export type AccountingFormat = 'csv' | 'json';
+
+/**
+ * A single movement of `asset`.  `amount` is signed: positive for what came in, negative for what went out.  For
+ * trades, `counterAsset` and `counterAmount` are the other side (the market's base currency), and `fee` is charged in
+ * `feeAsset`: in the bought currency for buys and in the base currency for sells.  Interest is the lending earnings
+ * after fees.
+ */
+export interface ILedgerEntry {
+    date: Date;
+    type: LedgerEntryType;
+    asset: string;
+    amount: Decimal;
+    fee: Decimal;
+    feeAsset: string;
+    counterAsset: string;
+    counterAmount: Decimal;
+    rate: Decimal;
+    reference: string;
+}
+
+/**
+ * The gain realized by a sale, in `counterAsset`.  `proceeds` are net of fees, and `costBasis` includes the fees paid
+ * on the purchases it was matched against.  Whatever was sold beyond the purchases seen in the same market (e.g.
+ * deposited coins, or coins bought in another market) is reported as `unmatchedAmount`, and leaves the sale without a
+ * `costBasis` or `gain` (both null) rather than counting it at no cost.
+ */
+export interface IRealizedGain {
+    date: Date;
+    asset: string;
+    counterAsset: string;
+    amount: Decimal;
+    proceeds: Decimal;
+    costBasis: Decimal;
+    gain: Decimal;
+    unmatchedAmount: Decimal;
+    reference: string;
+}
+
+/**
+ * `basisStart` is where trade history is read from to establish cost basis (`start` by default), so that sales in the
+ * range can be matched against purchases made before it.
+ */
+export interface IAccountingExportParams {
+    start: TimeBound;
+    end?: TimeBound;
+    method?: CostBasisMethod;
+    basisStart?: TimeBound;
+}
+
+/**
+ * `totals` are the realized gains by counter asset, of the sales that were matched in full.
+ */
+export interface IAccountingExport {
+    start: Date;
+    end: Date;
+    method: CostBasisMethod;
+    ledger: ILedgerEntry[];
+    gains: IRealizedGain[];
+    totals: { [counterAsset: string]: Decimal };
+}
+
+/**
+ * Purchased amounts not sold yet, with what they cost per unit.
+ */
+interface ILot {
+    amount: Decimal;
+    unitCost: Decimal;
+}
+
+const zero = new Decimal(0);
+
+const toDate = (bound: TimeBound): Date => bound instanceof Date ? bound : new Date(bound);
+
+const isComplete = (status: string): boolean => /^COMPLETE/i.test(status);
+
+const byDate = (a: { date: Date }, b: { date: Date }): number => a.date.getTime() - b.date.getTime();
+
+const tradeEntry = (trade: ITrade): ILedgerEntry => {
+    const [base, quote] = trade.currencyPair.split('_');
+    const isBuy         = trade.type === 'buy';
+
+    // Poloniex reports the fee as a fraction of what was received
+    const fee = isBuy ? trade.amount.times(trade.fee) : trade.total.times(trade.fee);
+
+    return {
+        amount       : isBuy ? trade.amount : trade.amount.negated(),
+        asset        : quote,
+        counterAmount: isBuy ? trade.total.negated() : trade.total,
+        counterAsset : base,
+        date         : trade.date,
+        fee,
+        feeAsset     : isBuy ? quote : base,
+        rate         : trade.rate,
+        reference    : trade.tradeID,
+        type         : trade.type,
+    };
+};
+
+const transferEntry = (row: IDepositOrWithdrawal): ILedgerEntry => {
+    const isWithdrawal = 'withdrawalNumber' in row;
+
+    return {
+        amount       : isWithdrawal ? row.amount.negated() : row.amount,
+        asset        : row.currency,
+        counterAmount: null,
+        counterAsset : null,
+        date         : row.timestamp,
+        fee          : zero,
+        feeAsset     : row.currency,
+        rate         : null,
+        reference    : isWithdrawal ? (row as IWithdrawal).withdrawalNumber : (row as { txid: string }).txid,
+        type         : isWithdrawal ? 'withdrawal' : 'deposit',
+    };
+};
+
+const interestEntry = (loan: ILendingHistoryEntry): ILedgerEntry => ({
+    amount       : loan.earned,
+    asset        : loan.currency,
+    counterAmount: null,
+    counterAsset : null,
+    date         : loan.close,
+    fee          : loan.fee.abs(),
+    feeAsset     : loan.currency,
+    rate         : loan.rate,
+    reference    : loan.id,
+    type         : 'interest',
+});
+
+/**
+ * Builds a ledger, oldest first, from exchange trades, completed deposits and withdrawals, and closed loans.  Margin
+ * trades and settlements are left out, as they do not move the account's own holdings one for one.
+ *
+ * @param {ITrade[]} trades
+ * @param {IDepositOrWithdrawal[]} depositsWithdrawals
+ * @param {ILendingHistoryEntry[]} lendingHistory
+ * @returns {ILedgerEntry[]}
+ */
+export const buildLedger = (trades: ITrade[],
+                            depositsWithdrawals: IDepositOrWithdrawal[] = [],
+                            lendingHistory: ILendingHistoryEntry[] = []): ILedgerEntry[] => [
+    ...trades.filter((trade) => trade.category === undefined || trade.category === 'exchange').map(tradeEntry),
+    ...depositsWithdrawals.filter((row) => isComplete(row.status)).map(transferEntry),
+    ...lendingHistory.map(interestEntry),
+].sort(byDate);
+
+/**
+ * Takes `amount` out of `lots` by `method`, returning its cost and whatever could not be matched.
+ */
+const dispose = (lots: ILot[], amount: Decimal, method: CostBasisMethod): { cost: Decimal, unmatched: Decimal } => {
+    let remaining = amount;
+    let cost      = zero;
+
+    if (method === 'average' && lots.length > 0) {
+        const [lot] = lots;
+        const taken = Decimal.min(lot.amount, remaining);
+
+        lot.amount = lot.amount.minus(taken);
+        if (lot.amount.isZero()) lots.pop();
+
+        return { cost: taken.times(lot.unitCost), unmatched: remaining.minus(taken) };
+    }
+
+    while (remaining.gt(0) && lots.length > 0) {
+        const lot   = method === 'lifo' ? lots[lots.length - 1] : lots[0];
+        const taken = Decimal.min(lot.amount, remaining);
+
+        cost       = cost.plus(taken.times(lot.unitCost));
+        remaining  = remaining.minus(taken);
+        lot.amount = lot.amount.minus(taken);
+
+        if (lot.amount.isZero()) {
+            if (method === 'lifo') lots.pop();
+            else lots.shift();
+        }
+    }
+
+    return { cost, unmatched: remaining };
+};
+
+/**
+ * Adds a purchase to `lots`.  With average cost there is a single lot, at the average unit cost.
+ */
+const acquire = (lots: ILot[], lot: ILot, method: CostBasisMethod): void => {
+    if (method !== 'average' || lots.length === 0) {
+        lots.push(lot);
+
+        return;
+    }
+
+    const [held]  = lots;
+    const amount  = held.amount.plus(lot.amount);
+    held.unitCost = held.amount.times(held.unitCost).plus(lot.amount.times(lot.unitCost)).dividedBy(amount);
+    held.amount   = amount;
+};
+
+/**
+ * Works out the gain realized by every sale in the ledger.  Purchases and sales are matched within a market (e.g. ETH
+ * bought and sold for BTC), so gains are in the market's base currency.  A sale that is not matched in full has no
+ * gain (see #IRealizedGain).
+ *
+ * @param {ILedgerEntry[]} ledger
+ * @param {CostBasisMethod} method
+ * @returns {IRealizedGain[]}
+ */
+export const computeGains = (ledger: ILedgerEntry[], method: CostBasisMethod = 'fifo'): IRealizedGain[] => {
+    const lotsByMarket = new Map<string, ILot[]>();
+    const gains: IRealizedGain[] = [];
+
+    [...ledger].sort(byDate).forEach((entry) => {
+        const market = `${entry.counterAsset}_${entry.asset}`;
+        if (!lotsByMarket.has(market)) lotsByMarket.set(market, []);
+
+        const lots = lotsByMarket.get(market);
+
+        if (entry.type === 'buy') {
+            // The fee is taken from what was bought, so the amount received carries the whole cost
+            const received = entry.amount.minus(entry.fee);
+            const unitCost = received.gt(0) ? entry.counterAmount.abs().dividedBy(received) : null;
+
+            if (unitCost !== null) acquire(lots, { amount: received, unitCost }, method);
+        }
+
+        if (entry.type !== 'sell') return;
+
+        const amount              = entry.amount.abs();
+        const proceeds            = entry.counterAmount.minus(entry.fee);
+        const { cost, unmatched } = dispose(lots, amount, method);
+        const matched             = unmatched.isZero();
+
+        gains.push({
+            amount,
+            asset          : entry.asset,
+            costBasis      : matched ? cost : null,
+            counterAsset   : entry.counterAsset,
+            date           : entry.date,
+            gain           : matched ? proceeds.minus(cost) : null,
+            proceeds,
+            reference      : entry.reference,
+            unmatchedAmount: unmatched,
+        });
+    });
+
+    return gains;
+};
+
+const collect = async <T>(rows: AsyncIterableIterator<T>): Promise<T[]> => {
+    const collected: T[] = [];
+
+    for await (const row of rows) collected.push(row);
+
+    return collected;
+};
+
+/**
+ * Reads the account's trade, deposit/withdrawal and lending history for a date range, and builds its ledger and
+ * realized gains.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IAccountingExportParams} params
+ * @param {IPaginationOptions} paginationOptions
+ * @returns {Promise<IAccountingExport>}
+ */
+export const exportAccounting = async (client: IPoloniexClient,
+                                       params: IAccountingExportParams,
+                                       paginationOptions: IPaginationOptions = null): Promise<IAccountingExport> => {
+    const start      = toDate(params.start);
+    const end        = params.end !== undefined ? toDate(params.end) : new Date();
+    const basisStart = params.basisStart !== undefined ? toDate(params.basisStart) : start;
+    const method     = params.method !== undefined ? params.method : 'fifo';
+
+    const [trades, depositsWithdrawals, lendingHistory] = await Promise.all([
+        collect(iteratePrivateTradeHistory(client, { currencyPair: 'all', end, start: basisStart }, paginationOptions)),
+        collect(iterateDepositsWithdrawals(client, { end, start }, paginationOptions)),
+        collect(iterateLendingHistory(client, { end, start }, paginationOptions)),
+    ]);
+
+    const inRange = (row: { date: Date }): boolean => row.date >= start && row.date <= end;
+    const ledger  = buildLedger(trades, depositsWithdrawals, lendingHistory);
+    const gains   = computeGains(ledger, method).filter(inRange);
+
+    const totals = gains
+        .filter((sale) => sale.gain !== null)
+        .reduce<{ [counterAsset: string]: Decimal }>((acc, { counterAsset, gain }) => {
+            acc[counterAsset] = (acc[counterAsset] !== undefined ? acc[counterAsset] : zero).plus(gain);
+
+            return acc;
+        }, {});
+
+    return { end, gains, ledger: ledger.filter(inRange), method, start, totals };
+};
+
+const cellOf = (value: Date | Decimal | string): string =>
+    value === null || value === undefined ? '' : value instanceof Date ? value.toISOString() : `${value}`;
+
+const toCsv = (rows: Array<ILedgerEntry | IRealizedGain>, columns: string[]): string => {
+    const escape = (cell: string): string => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    const lines  = rows.map((row) => {
+        const cells = row as {} as { [column: string]: Date | Decimal | string };
+
+        return columns.map((column) => escape(cellOf(cells[column]))).join(',');
+    });
+
+    return [columns.join(','), ...lines].join('\n') + '\n';
+};
+
+/**
+ * @param {ILedgerEntry[]} ledger
+ * @returns {string} the ledger as CSV, with a header row
+ */
+export const ledgerToCsv = (ledger: ILedgerEntry[]): string => toCsv(ledger, [
+    'date', 'type', 'asset', 'amount', 'fee', 'feeAsset', 'counterAsset', 'counterAmount', 'rate', 'reference',
+]);
+
+/**
+ * @param {IRealizedGain[]} gains
+ * @returns {string} the gains as CSV, with a header row
+ */
+export const gainsToCsv = (gains: IRealizedGain[]): string => toCsv(gains, [
+    'date', 'asset', 'counterAsset', 'amount', 'proceeds', 'costBasis', 'gain', 'unmatchedAmount', 'reference',
+]);
+
+/**
+ * Writes an export as JSON to `target`, or as CSV to ledger.csv and gains.csv in the `target` directory.  Decimals are
+ * written as strings, so that no precision is lost.
+ *
+ * @param {IAccountingExport} accountingExport
+ * @param {string} target
+ * @param {AccountingFormat} format
+ * @returns {Promise<void>}
+ */
+export const writeAccountingExport = async (accountingExport: IAccountingExport,
+                                            target: string,
+                                            format: AccountingFormat = 'json'): Promise<void> => {
+    if (format === 'json') {
+        //tslint:disable-next-line:no-magic-numbers
+        return writeFile(target, JSON.stringify(accountingExport, null, 2));
+    }
+
+    await writeFile(path.join(target, 'ledger.csv'), ledgerToCsv(accountingExport.ledger));
+    await writeFile(path.join(target, 'gains.csv'), gainsToCsv(accountingExport.gains));
+};
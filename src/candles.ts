@@ -0,0 +1,384 @@
+import { Decimal } from 'decimal.js';
+import { EventEmitter } from 'events';
+import { IPoloniexClient } from '../index';
+import { ICandle } from './models';
+import { DecimalValue } from './orderParams';
+import { iterateTradeHistory, IIterateTradeHistoryParams, IPaginationOptions } from './pagination';
+import { IPushClient, ITradeEvent } from './pushClient';
+
+/**
+ * Default candle builder configuration.
+ */
+const defaultCandleBuilderConfig = {
+    closeDelay: 1000,
+    fillGaps  : false,
+    interval  : 60,
+};
+
+/**
+ * What makes a bar.  Give one of:
+ *  - `interval`: time bars of that many seconds, aligned to the UNIX epoch (the default, 60),
+ *  - `volume`: volume bars, closed by the trade that brings the volume (in the base currency) to at least `volume`,
+ *  - `ticks`: tick bars of that many trades.
+ *
+ * `fillGaps` emits flat, zero-volume time bars for intervals without trades.  Live time bars are closed `closeDelay`
+ * milliseconds after their interval ends, to leave room for trades that arrive late.
+ */
+export interface ICandleBuilderConfig {
+    interval?: number;
+    volume?: DecimalValue;
+    ticks?: number;
+    fillGaps?: boolean;
+    closeDelay?: number;
+}
+
+/**
+ * A trade to build bars from.  IPublicTrade will do.
+ */
+export interface IBarTrade {
+    date: Date;
+    rate: DecimalValue;
+    amount: DecimalValue;
+    tradeID?: string;
+}
+
+/**
+ * A candle as returned by #returnChartData, plus when it closed and how many trades it has.  For time bars, `date` and
+ * `closeDate` are the bounds of the interval; for volume and tick bars, the dates of the first and last trades.
+ */
+export interface IBar extends ICandle {
+    closeDate: Date;
+    trades: number;
+}
+
+/**
+ * The shape of a live candle builder.
+ */
+export interface ICandleBuilder {
+
+    currencyPair: string;
+
+    start(): Promise<void>;
+
+    stop(): Promise<void>;
+
+    addTrade(trade: IBarTrade): void;
+
+    flush(until?: Date): void;
+
+    currentBar(): IBar;
+
+    on(event: 'bar', listener: (bar: IBar) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+/**
+ * Builds bars from trades in chronological order and hands each closed bar to `emit`.
+ */
+interface IBarAggregator {
+    add(trade: IBarTrade): void;
+    flush(until: number): void;
+    current(): IBar;
+}
+
+const MS_PER_SECOND = 1000;
+
+const copyBar = (bar: IBar): IBar => ({ ...bar });
+
+const isGiven = (value: {}): boolean => value !== undefined && value !== null;
+
+const isTimeBars = (config: ICandleBuilderConfig): boolean => !isGiven(config.volume) && !isGiven(config.ticks);
+
+const intervalOf = (config: ICandleBuilderConfig): number =>
+    (isGiven(config.interval) ? config.interval : defaultCandleBuilderConfig.interval) * MS_PER_SECOND;
+
+const getAggregator = (config: ICandleBuilderConfig, emit: (bar: IBar) => void): IBarAggregator => {
+    if ([config.interval, config.volume, config.ticks].filter(isGiven).length > 1) {
+        throw new Error('only one of interval, volume and ticks may be given');
+    }
+
+    const kind       = isTimeBars(config) ? 'time' : isGiven(config.ticks) ? 'tick' : 'volume';
+    const intervalMs = intervalOf(config);
+    const fillGaps   = config.fillGaps === true;
+
+    let bar: IBar          = null;
+    let lastClose: Decimal = null;
+
+    // Start of the first time bar that has not been emitted yet
+    let nextStart: number = null;
+
+    const openBar = (date: Date, closeDate: Date, rate: Decimal): IBar => ({
+        close          : rate,
+        closeDate,
+        date,
+        high           : rate,
+        low            : rate,
+        open           : rate,
+        quoteVolume    : new Decimal(0),
+        trades         : 0,
+        volume         : new Decimal(0),
+        weightedAverage: rate,
+    });
+
+    const close = (): void => {
+        bar.weightedAverage = bar.quoteVolume.isZero() ? bar.close : bar.volume.dividedBy(bar.quoteVolume);
+        lastClose           = bar.close;
+        nextStart           = bar.closeDate.getTime();
+
+        const closed = bar;
+        bar          = null;
+        emit(closed);
+    };
+
+    const flush = (until: number): void => {
+        if (kind !== 'time') return;
+
+        if (bar !== null && bar.closeDate.getTime() <= until) close();
+        if (!fillGaps || bar !== null || lastClose === null) return;
+
+        while (nextStart + intervalMs <= until) {
+            bar = openBar(new Date(nextStart), new Date(nextStart + intervalMs), lastClose);
+            close();
+        }
+    };
+
+    const add = (trade: IBarTrade): void => {
+        const time   = trade.date.getTime();
+        const rate   = new Decimal(trade.rate);
+        const amount = new Decimal(trade.amount);
+
+        if (kind === 'time') {
+            const start = Math.floor(time / intervalMs) * intervalMs;
+
+            // Too late, its bar has been emitted already
+            if (bar !== null ? start < bar.date.getTime() : nextStart !== null && start < nextStart) return;
+
+            flush(start);
+            if (bar === null) bar = openBar(new Date(start), new Date(start + intervalMs), rate);
+        } else if (bar === null) {
+            bar = openBar(trade.date, trade.date, rate);
+        }
+
+        bar.high        = Decimal.max(bar.high, rate);
+        bar.low         = Decimal.min(bar.low, rate);
+        bar.close       = rate;
+        bar.quoteVolume = bar.quoteVolume.plus(amount);
+        bar.volume      = bar.volume.plus(rate.times(amount));
+        bar.trades     += 1;
+        if (kind !== 'time') bar.closeDate = trade.date;
+
+        if (kind === 'tick' && bar.trades >= config.ticks) close();
+        if (kind === 'volume' && bar.volume.gte(config.volume)) close();
+    };
+
+    const current = (): IBar => bar !== null ? copyBar(bar) : null;
+
+    return { add, current, flush };
+};
+
+const byDateAndTradeId = (a: IBarTrade, b: IBarTrade): number => {
+    const byDate = a.date.getTime() - b.date.getTime();
+    if (byDate !== 0 || a.tradeID === undefined || b.tradeID === undefined) return byDate;
+
+    return Number(a.tradeID) - Number(b.tradeID);
+};
+
+/**
+ * Builds bars from a list of trades, e.g. a #returnPublicTradeHistory response (which is newest first; trades are
+ * sorted before use).  The last bar is included even if it has not closed.
+ *
+ * @param {IBarTrade[]} trades
+ * @param {ICandleBuilderConfig} candleConfig
+ * @returns {IBar[]}
+ */
+export const buildCandles = (trades: IBarTrade[], candleConfig: ICandleBuilderConfig = null): IBar[] => {
+    const bars: IBar[] = [];
+    const aggregator   = getAggregator({ ...candleConfig }, (bar) => bars.push(bar));
+
+    [...trades].sort(byDateAndTradeId).forEach((trade) => aggregator.add(trade));
+
+    const last = aggregator.current();
+
+    return last !== null ? [...bars, last] : bars;
+};
+
+/**
+ * Builds bars from the public trades of a currency pair between `start` and `end`, paging through the history with
+ * #iterateTradeHistory.  The last bar is included even if it has not closed.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IIterateTradeHistoryParams} params
+ * @param {ICandleBuilderConfig} candleConfig
+ * @param {IPaginationOptions} paginationOptions
+ * @returns {Promise<IBar[]>}
+ */
+export const fetchCandles = async (client: IPoloniexClient,
+                                   params: IIterateTradeHistoryParams,
+                                   candleConfig: ICandleBuilderConfig = null,
+                                   paginationOptions: IPaginationOptions = null): Promise<IBar[]> => {
+    const bars: IBar[] = [];
+    const aggregator   = getAggregator({ ...candleConfig }, (bar) => bars.push(bar));
+
+    for await (const trade of iterateTradeHistory(client, params, paginationOptions)) aggregator.add(trade);
+
+    if (params.end === undefined) {
+        aggregator.flush(Date.now());
+    } else {
+        aggregator.flush(params.end instanceof Date ? params.end.getTime() : params.end * MS_PER_SECOND);
+    }
+
+    const last = aggregator.current();
+
+    return last !== null ? [...bars, last] : bars;
+};
+
+/**
+ * Merges candles into candles of `period` seconds (a multiple of theirs), aligned to the UNIX epoch.
+ *
+ * @param {ICandle[]} candles
+ * @param {number} period
+ * @returns {ICandle[]}
+ */
+export const resampleCandles = (candles: ICandle[], period: number): ICandle[] => {
+    const periodMs = period * MS_PER_SECOND;
+    const sorted   = [...candles].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    return sorted.reduce<ICandle[]>((acc, candle) => {
+        const start = Math.floor(candle.date.getTime() / periodMs) * periodMs;
+        const last  = acc.length > 0 ? acc[acc.length - 1] : null;
+
+        if (last === null || last.date.getTime() !== start) {
+            acc.push({ ...candle, date: new Date(start) });
+
+            return acc;
+        }
+
+        last.high            = Decimal.max(last.high, candle.high);
+        last.low             = Decimal.min(last.low, candle.low);
+        last.close           = candle.close;
+        last.volume          = last.volume.plus(candle.volume);
+        last.quoteVolume     = last.quoteVolume.plus(candle.quoteVolume);
+        last.weightedAverage = last.quoteVolume.isZero() ? last.close : last.volume.dividedBy(last.quoteVolume);
+
+        return acc;
+    }, []);
+};
+
+/**
+ * Factory function to get a live candle builder for a single currency pair.  Trades come from the push client (if
+ * any) once started, or from #addTrade.  A 'bar' event is emitted for every bar that closes.
+ *
+ * @param {string} currencyPair
+ * @param {IPushClient} pushClient
+ * @param {ICandleBuilderConfig} candleConfig
+ * @returns {ICandleBuilder}
+ */
+export const getCandleBuilder = (currencyPair: string,
+                                 pushClient?: IPushClient,
+                                 candleConfig: ICandleBuilderConfig = null): ICandleBuilder => {
+
+    // Construct local config object
+    const config = { closeDelay: defaultCandleBuilderConfig.closeDelay, ...candleConfig };
+
+    const emitter       = new EventEmitter();
+    const hasPushClient = pushClient !== undefined && pushClient !== null;
+    const aggregator    = getAggregator(config, (bar) => emitter.emit('bar', copyBar(bar)));
+    const intervalMs    = intervalOf(config);
+
+    let running                  = false;
+    let closeTimer: NodeJS.Timer = null;
+
+    const onTrade = (trade: ITradeEvent): void => {
+        if (trade.currencyPair !== currencyPair) return;
+
+        const date = new Date(trade.timestamp * MS_PER_SECOND);
+        builder.addTrade({ amount: trade.amount, date, rate: trade.rate, tradeID: trade.tradeID });
+    };
+
+    /**
+     * Closes each time bar `closeDelay` ms after its interval ends, whether or not another trade has come in.
+     */
+    const scheduleClose = (): void => {
+        if (!running || !isTimeBars(config)) return;
+
+        const now    = Date.now();
+        const nextAt = (Math.floor((now - config.closeDelay) / intervalMs) + 1) * intervalMs + config.closeDelay;
+
+        closeTimer = setTimeout(() => {
+            builder.flush();
+            scheduleClose();
+        }, nextAt - now);
+    };
+
+    const builder: ICandleBuilder = {
+
+        currencyPair,
+
+        /**
+         * Adds a trade.  Trades for bars that have already been emitted are ignored.
+         *
+         * @param {IBarTrade} trade
+         */
+        addTrade(trade: IBarTrade): void { aggregator.add(trade); },
+
+        currentBar(): IBar { return aggregator.current(); },
+
+        /**
+         * Closes the time bars that ended by `until` (by default, `closeDelay` ms ago).
+         *
+         * @param {Date} until
+         */
+        flush(until?: Date): void {
+            aggregator.flush(until !== undefined ? until.getTime() : Date.now() - config.closeDelay);
+        },
+
+        on(event: string, listener: Function): ICandleBuilder {
+            emitter.on(event, listener as (...args: Array<{}>) => void);
+
+            return builder;
+        },
+
+        removeListener(event: string, listener: (...args: Array<{}>) => void): ICandleBuilder {
+            emitter.removeListener(event, listener);
+
+            return builder;
+        },
+
+        /**
+         * Starts closing time bars on schedule, and attaches the builder to the push client (if any), subscribing to
+         * the pair's channel, which carries its trades.
+         *
+         * @returns {Promise<void>}
+         */
+        async start(): Promise<void> {
+            if (running) return Promise.resolve();
+
+            running = true;
+            scheduleClose();
+
+            if (hasPushClient) {
+                pushClient.on('trade', onTrade);
+                await pushClient.subscribeOrderBook(currencyPair);
+            }
+        },
+
+        /**
+         * Stops the schedule and detaches the builder from the push client.  The bar in progress is kept.
+         *
+         * @returns {Promise<void>}
+         */
+        async stop(): Promise<void> {
+            running = false;
+            clearTimeout(closeTimer);
+
+            if (!hasPushClient) return Promise.resolve();
+
+            pushClient.removeListener('trade', onTrade);
+
+            return pushClient.unsubscribeOrderBook(currencyPair);
+        },
+    };
+
+    return builder;
+};
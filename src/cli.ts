@@ -0,0 +1,400 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { getClient, IApiAuth, IPoloniexClient, IPoloniexResponse, IPostBody } from '../index';
+import { ClientMethod } from './wrapClient';
+
+const USAGE_ERROR = 2;
+
+/**
+ * A CLI command and the client method it calls.  `args` are positional parameters (a trailing '?' makes one
+ * optional), and `options` the parameters taken as `--kebab-case` options.  `flags` are order flags, set to 1 when
+ * given.  `numbers` are parameters the client expects as numbers rather than strings.
+ */
+interface ICliCommand {
+    name: string;
+    method: string;
+    summary: string;
+    args?: string[];
+    options?: string[];
+    flags?: string[];
+    numbers?: string[];
+    defaults?: { [param: string]: number | string };
+    confirm?: boolean;
+    isPrivate?: boolean;
+}
+
+/**
+ * What the CLI needs from its surroundings, so that it can be driven from something other than a terminal.
+ */
+export interface ICliEnvironment {
+    env: { [name: string]: string };
+    write(text: string): void;
+    writeError(text: string): void;
+    confirm(question: string): Promise<boolean>;
+    getClient(auth: IApiAuth): IPoloniexClient;
+}
+
+export type CliFormat = 'json' | 'table' | 'csv';
+
+type Row = { [column: string]: string };
+
+const orderFlags = ['fillOrKill', 'immediateOrCancel', 'postOnly'];
+
+//tslint:disable:max-line-length
+const commands: ICliCommand[] = [
+    { name: 'ticker', method: 'returnTicker', summary: 'Ticker of every market' },
+    { name: 'volume', method: 'return24Volume', summary: '24 hour volumes' },
+    { name: 'orderbook', method: 'returnOrderBook', args: ['currencyPair?'], options: ['depth'], summary: 'Order book of a market (or all)' },
+    { name: 'trades', method: 'returnPublicTradeHistory', args: ['currencyPair'], options: ['start', 'end'], summary: 'Recent trades in a market' },
+    { name: 'chart', method: 'returnChartData', args: ['currencyPair', 'period', 'start', 'end'], summary: 'Candlesticks' },
+    { name: 'currencies', method: 'returnCurrencies', summary: 'Currencies and their status' },
+    { name: 'loanorders', method: 'returnLoanOrders', args: ['currency'], summary: 'Loan offers and demands' },
+    { name: 'balances', method: 'returnBalances', isPrivate: true, summary: 'Available balances' },
+    { name: 'completebalances', method: 'returnCompleteBalances', options: ['account'], isPrivate: true, summary: 'Balances with amounts on orders and BTC values' },
+    { name: 'depositaddresses', method: 'returnDepositAddress', isPrivate: true, summary: 'Deposit addresses' },
+    { name: 'newaddress', method: 'generateNewAddress', args: ['currency'], isPrivate: true, summary: 'Generate a deposit address' },
+    { name: 'depositswithdrawals', method: 'returnDepositsWithdrawals', args: ['start', 'end'], isPrivate: true, summary: 'Deposits and withdrawals' },
+    { name: 'openorders', method: 'returnOpenOrders', args: ['currencyPair?'], isPrivate: true, summary: 'Open orders in a market (or all)' },
+    { name: 'tradehistory', method: 'returnPrivateTradeHistory', args: ['currencyPair?'], options: ['start', 'end', 'limit'], isPrivate: true, summary: 'Own trades' },
+    { name: 'ordertrades', method: 'returnOrderTrades', args: ['orderNumber'], isPrivate: true, summary: 'Trades of an order' },
+    { name: 'buy', method: 'buy', args: ['currencyPair', 'rate', 'amount'], options: ['timeInForce'], flags: orderFlags, confirm: true, isPrivate: true, summary: 'Place a buy order' },
+    { name: 'sell', method: 'sell', args: ['currencyPair', 'rate', 'amount'], options: ['timeInForce'], flags: orderFlags, confirm: true, isPrivate: true, summary: 'Place a sell order' },
+    { name: 'cancel', method: 'cancelOrder', args: ['orderNumber'], isPrivate: true, summary: 'Cancel an order' },
+    { name: 'move', method: 'moveOrder', args: ['orderNumber', 'rate'], options: ['amount', 'timeInForce'], flags: ['immediateOrCancel', 'postOnly'], confirm: true, isPrivate: true, summary: 'Move an order to a new rate' },
+    { name: 'withdraw', method: 'withdraw', args: ['currency', 'amount', 'address'], options: ['paymentId'], numbers: ['amount'], confirm: true, isPrivate: true, summary: 'Withdraw to an address' },
+    { name: 'feeinfo', method: 'returnFeeInfo', isPrivate: true, summary: 'Fee schedule and 30 day volume' },
+    { name: 'accountbalances', method: 'returnAvailableAccountBalances', options: ['account'], isPrivate: true, summary: 'Balances by account' },
+    { name: 'tradablebalances', method: 'returnTradableBalances', isPrivate: true, summary: 'Tradable margin balances' },
+    { name: 'transfer', method: 'transferBalance', args: ['currency', 'amount', 'fromAddress', 'toAddress'], numbers: ['amount'], confirm: true, isPrivate: true, summary: 'Transfer between accounts' },
+    { name: 'marginsummary', method: 'returnMarginAccountSummary', isPrivate: true, summary: 'Margin account summary' },
+    { name: 'marginbuy', method: 'marginBuy', args: ['currencyPair', 'rate', 'amount'], options: ['lendingRate'], confirm: true, isPrivate: true, summary: 'Place a margin buy order' },
+    { name: 'marginsell', method: 'marginSell', args: ['currencyPair', 'rate', 'amount'], options: ['lendingRate'], confirm: true, isPrivate: true, summary: 'Place a margin sell order' },
+    { name: 'marginposition', method: 'getMarginPosition', args: ['currencyPair?'], isPrivate: true, summary: 'Margin position in a market (or all)' },
+    { name: 'closeposition', method: 'closeMarginPosition', args: ['currencyPair'], confirm: true, isPrivate: true, summary: 'Close a margin position' },
+    { name: 'createloanoffer', method: 'createLoanOffer', args: ['currency', 'amount', 'duration', 'lendingRate'], flags: ['autoRenew'], numbers: ['amount', 'duration', 'lendingRate'], defaults: { autoRenew: 0 }, confirm: true, isPrivate: true, summary: 'Offer a loan' },
+    { name: 'cancelloanoffer', method: 'cancelLoanOffer', args: ['orderNumber'], isPrivate: true, summary: 'Cancel a loan offer' },
+    { name: 'openloanoffers', method: 'returnOpenLoanOffers', isPrivate: true, summary: 'Open loan offers' },
+    { name: 'activeloans', method: 'returnActiveLoans', isPrivate: true, summary: 'Active loans' },
+    { name: 'lendinghistory', method: 'returnLendingHistory', args: ['start', 'end'], options: ['limit'], numbers: ['limit'], isPrivate: true, summary: 'Lending history' },
+    { name: 'toggleautorenew', method: 'toggleAutoRenew', args: ['orderNumber'], isPrivate: true, summary: 'Toggle auto-renew of a loan' },
+];
+//tslint:enable:max-line-length
+
+/**
+ * Options the CLI itself takes, next to the command's own.
+ */
+const globalFlags   = ['dryRun', 'help', 'yes'];
+const globalOptions = ['config', 'format'];
+
+const toCamelCase = (name: string): string => name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const toKebabCase = (name: string): string => name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+const pad = (text: string, width: number): string => text + ' '.repeat(Math.max(0, width - text.length));
+
+const isOptional = (arg: string): boolean => arg.endsWith('?');
+
+const argName = (arg: string): string => isOptional(arg) ? arg.slice(0, -1) : arg;
+
+const listOf = (values: string[]): string[] => values !== undefined ? values : [];
+
+const findCommand = (name: string): ICliCommand =>
+    commands.find((command) => command.name === name.toLowerCase() || command.method === name);
+
+/**
+ * Splits the command line into positional arguments and `--options` (camel-cased).  Flags take no value.
+ */
+const parseArgv = (argv: string[], flags: string[]): { positional: string[], options: { [name: string]: string } } => {
+    const positional: string[]                = [];
+    const options: { [name: string]: string } = {};
+
+    for (let i = 0; i < argv.length; i += 1) {
+        const token = argv[i];
+
+        if (token === '-h') options.help = 'true';
+        else if (token === '-y') options.yes = 'true';
+        else if (!token.startsWith('--')) positional.push(token);
+        else if (token.indexOf('=') !== -1) {
+            const [name, ...value] = token.slice('--'.length).split('=');
+            options[toCamelCase(name)] = value.join('=');
+        } else {
+            const name = toCamelCase(token.slice('--'.length));
+            const next = argv[i + 1];
+
+            if (flags.indexOf(name) !== -1 || next === undefined || next.startsWith('--')) options[name] = 'true';
+            else options[name] = argv[i += 1];
+        }
+    }
+
+    return { options, positional };
+};
+
+/**
+ * Builds the query parameters of a command from its arguments.
+ */
+const toQueryParams = (command: ICliCommand,
+                       positional: string[],
+                       options: { [name: string]: string }): { [param: string]: number | string } => {
+    const args    = listOf(command.args);
+    const allowed = [...listOf(command.options), ...listOf(command.flags), ...globalFlags, ...globalOptions];
+
+    const unknown = Object.keys(options).filter((name) => allowed.indexOf(name) === -1);
+    if (unknown.length > 0) throw new Error(`Unknown option ${unknown.map((name) => `--${toKebabCase(name)}`)[0]}`);
+
+    const required = args.filter((arg) => !isOptional(arg));
+    if (positional.length < required.length || positional.length > args.length) {
+        throw new Error(`Usage: ${usageOf(command)}`);
+    }
+
+    const params: { [param: string]: number | string } = { ...command.defaults };
+
+    positional.forEach((value, i) => { params[argName(args[i])] = value; });
+    listOf(command.options).filter((name) => options[name] !== undefined).forEach((name) => {
+        params[name] = options[name];
+    });
+    listOf(command.flags).filter((name) => options[name] !== undefined).forEach((name) => {
+        params[name] = options[name] === 'false' ? 0 : 1;
+    });
+    listOf(command.numbers).filter((name) => params[name] !== undefined).forEach((name) => {
+        params[name] = Number(params[name]);
+        if (isNaN(params[name] as number)) throw new Error(`${name} must be a number`);
+    });
+
+    return params;
+};
+
+const usageOf = (command: ICliCommand): string => {
+    const args    = listOf(command.args).map((arg) => isOptional(arg) ? `[${argName(arg)}]` : `<${arg}>`);
+    const options = listOf(command.options).map((name) => `[--${toKebabCase(name)} <${name}>]`);
+    const flags   = listOf(command.flags).map((name) => `[--${toKebabCase(name)}]`);
+
+    return ['poloniex', command.name, ...args, ...options, ...flags].join(' ');
+};
+
+const helpText = (): string => [
+    'Usage: poloniex <command> [arguments] [--format json|table|csv] [--config <file>] [--dry-run] [--yes]',
+    '',
+    'Commands:',
+    ...commands.map((command) => `  ${pad(command.name, 'depositswithdrawals'.length)}  ${command.summary}`),
+    '',
+    'Keys are read from POLONIEX_PUBLIC_KEY and POLONIEX_PRIVATE_KEY, or from a JSON config file ({ "publicKey",',
+    '"privateKey" }) given with --config or POLONIEX_CONFIG (~/.poloniex.json by default).',
+    '',
+].join('\n');
+
+/**
+ * Reads the API keys from the environment, or else from the config file.
+ */
+const readAuth = (environment: ICliEnvironment, configFile: string): IApiAuth => {
+    const { POLONIEX_PUBLIC_KEY: publicKey, POLONIEX_PRIVATE_KEY: privateKey } = environment.env;
+    if (publicKey !== undefined && privateKey !== undefined) return { privateKey, publicKey };
+
+    const file = configFile !== undefined ? configFile :
+                 environment.env.POLONIEX_CONFIG !== undefined ? environment.env.POLONIEX_CONFIG :
+                 path.join(os.homedir(), '.poloniex.json');
+
+    if (configFile === undefined && !fs.existsSync(file)) return undefined;
+
+    const config = JSON.parse(fs.readFileSync(file, 'utf8')) as IApiAuth;
+    if (typeof config.publicKey !== 'string' || typeof config.privateKey !== 'string') {
+        throw new Error(`${file} must contain publicKey and privateKey`);
+    }
+
+    return { privateKey: config.privateKey, publicKey: config.publicKey };
+};
+
+/**
+ * Returns a copy of the client whose private requests are returned instead of sent.
+ */
+const withDryRun = (client: IPoloniexClient): IPoloniexClient => {
+    const postToPrivateEndpoint = (data: IPostBody): Promise<IPoloniexResponse> => Promise.resolve({
+        config    : {},
+        data      : { dryRun: true, request: data },
+        headers   : {},
+        status    : 0,
+        statusText: 'dry run',
+    });
+
+    return { ...client, rawAgent: { ...client.rawAgent, postToPrivateEndpoint } };
+};
+
+const cellOf = (value: {}): string =>
+    value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+
+const isRecord = (value: {}): boolean => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const toRow = (value: {}, key?: string): Row => {
+    const row: Row = key !== undefined ? { key } : {};
+    const entries  = isRecord(value) || Array.isArray(value) ? value as { [column: string]: {} } : { value };
+
+    Object.keys(entries).forEach((column) => { row[column] = cellOf(entries[column]); });
+
+    return row;
+};
+
+/**
+ * Flattens a response into rows: arrays are a row per element, and objects a row per key (tagged with a 'key'
+ * column), with arrays under a key spread over several rows.
+ */
+const toRows = (data: {}): Row[] => {
+    if (Array.isArray(data)) return data.map((value: {}) => toRow(value));
+    if (!isRecord(data)) return [toRow(data)];
+
+    const record = data as { [key: string]: {} };
+
+    return Object.keys(record).reduce<Row[]>((rows, key) => {
+        const value = record[key];
+
+        return Array.isArray(value) ?
+               [...rows, ...value.map((element: {}) => toRow(element, key))] :
+               [...rows, toRow(value, key)];
+    }, []);
+};
+
+const columnsOf = (rows: Row[]): string[] => rows.reduce<string[]>((columns, row) =>
+    [...columns, ...Object.keys(row).filter((column) => columns.indexOf(column) === -1)], []);
+
+const formatTable = (rows: Row[]): string => {
+    if (rows.length === 0) return '';
+
+    const columns = columnsOf(rows);
+    const widths  = columns.map((column) => Math.max(column.length, ...rows.map((row) => cellOf(row[column]).length)));
+    const line    = (cells: string[]): string =>
+        cells.map((cell, i) => pad(cell, widths[i])).join('  ').replace(/\s+$/, '');
+
+    return [line(columns), line(widths.map((width) => '-'.repeat(width))),
+            ...rows.map((row) => line(columns.map((column) => cellOf(row[column]))))].join('\n');
+};
+
+const formatCsv = (rows: Row[]): string => {
+    if (rows.length === 0) return '';
+
+    const columns = columnsOf(rows);
+    const escape  = (cell: string): string => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+    return [columns, ...rows.map((row) => columns.map((column) => cellOf(row[column])))]
+        .map((cells) => cells.map(escape).join(','))
+        .join('\n');
+};
+
+/**
+ * @param data a response body
+ * @param {CliFormat} format
+ * @returns {string}
+ */
+export const formatOutput = (data: {}, format: CliFormat): string => {
+    switch (format) {
+        case 'table':
+            return formatTable(toRows(data));
+        case 'csv':
+            return formatCsv(toRows(data));
+        default:
+            //tslint:disable-next-line:no-magic-numbers
+            return JSON.stringify(data, null, 2);
+    }
+};
+
+/**
+ * The terminal: standard output and error, and confirmation on standard input (refused when it is not a terminal).
+ */
+const defaultEnvironment: ICliEnvironment = {
+    confirm(question: string): Promise<boolean> {
+        if (!process.stdin.isTTY) return Promise.resolve(false);
+
+        const prompt = readline.createInterface({ input: process.stdin, output: process.stderr });
+
+        return new Promise<boolean>((resolve) => prompt.question(`${question} [y/N] `, (answer) => {
+            prompt.close();
+            resolve(/^y(es)?$/i.test(answer.trim()));
+        }));
+    },
+    env       : process.env,
+    getClient : (auth: IApiAuth): IPoloniexClient => getClient(auth),
+    write     : (text: string): void => { process.stdout.write(`${text}\n`); },
+    writeError: (text: string): void => { process.stderr.write(`${text}\n`); },
+};
+
+const describeRequest = (command: ICliCommand, params: { [param: string]: number | string }): string =>
+    `${command.name} ${Object.keys(params).map((name) => `${name}=${params[name]}`).join(' ')}`;
+
+/**
+ * Sends a command (or, with --dry-run, just builds it) and writes the response.
+ */
+const runCommand = async (environment: ICliEnvironment,
+                          command: ICliCommand,
+                          positional: string[],
+                          options: { [name: string]: string }): Promise<number> => {
+    const format = (options.format !== undefined ? options.format : 'json') as CliFormat;
+    const dryRun = options.dryRun !== undefined && options.dryRun !== 'false';
+
+    if (['json', 'table', 'csv'].indexOf(format) === -1) throw new Error(`Unknown format ${format}`);
+
+    const params = toQueryParams(command, positional, options);
+
+    // Public commands need no keys, so a missing or broken config file does not get in their way
+    const auth = command.isPrivate === true ? readAuth(environment, options.config) : undefined;
+
+    if (command.isPrivate === true && auth === undefined) {
+        throw new Error('No API keys, set POLONIEX_PUBLIC_KEY and POLONIEX_PRIVATE_KEY or use a config file');
+    }
+
+    const needsConfirmation = command.confirm === true && !dryRun && options.yes === undefined;
+    if (needsConfirmation && !await environment.confirm(`${describeRequest(command, params)}?`)) {
+        environment.writeError('Not confirmed, nothing was sent (use --yes to skip confirmation)');
+
+        return 1;
+    }
+
+    const client   = dryRun ? withDryRun(environment.getClient(auth)) : environment.getClient(auth);
+    const method   = (client as {} as { [method: string]: ClientMethod })[command.method];
+    const { data } = await method.call(client, Object.keys(params).length > 0 ? params : undefined);
+
+    environment.write(formatOutput(data, dryRun ? 'json' : format));
+
+    return 0;
+};
+
+/**
+ * Runs the `poloniex` command line, e.g. ['orderbook', 'BTC_ETH', '--depth', '20'].
+ *
+ * @param {string[]} argv the arguments after the program name
+ * @param {ICliEnvironment} cliEnvironment
+ * @returns {Promise<number>} the exit code
+ */
+export const runCli = async (argv: string[], cliEnvironment: Partial<ICliEnvironment> = null): Promise<number> => {
+
+    // Construct local environment object
+    const environment = { ...defaultEnvironment, ...cliEnvironment };
+
+    if (argv.length === 0 || argv[0] === 'help' || argv[0] === '--help' || argv[0] === '-h') {
+        environment.write(helpText());
+
+        return 0;
+    }
+
+    const command = findCommand(argv[0]);
+
+    if (command === undefined) {
+        environment.writeError(`Unknown command ${argv[0]}, see poloniex help`);
+
+        return USAGE_ERROR;
+    }
+
+    const { positional, options } = parseArgv(argv.slice(1), [...globalFlags, ...listOf(command.flags)]);
+
+    if (options.help !== undefined) {
+        environment.write(usageOf(command));
+
+        return 0;
+    }
+
+    try {
+        return await runCommand(environment, command, positional, options);
+    } catch (err) {
+        environment.writeError(err instanceof Error ? err.message : `${err}`);
+
+        return 1;
+    }
+};
@@ -0,0 +1,281 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import {
+    getClient, IApiAuth, IClientConfig, IPoloniexClient, IPoloniexRequestConfig, IPoloniexResponse,
+} from '../index';
+import { AuthenticationError } from './errors';
+import { wrapClient, ClientMethod } from './wrapClient';
+
+const readFile = promisify(fs.readFile);
+const pbkdf2   = promisify(crypto.pbkdf2);
+
+const KEYSTORE_VERSION = 1;
+const KEY_LENGTH       = 32;
+const SALT_LENGTH      = 16;
+const IV_LENGTH        = 12;
+const CIPHER           = 'aes-256-gcm';
+const DIGEST           = 'sha512';
+
+/**
+ * A source of API keys.  Providers are asked again whenever keys may have been rotated, so they should read their
+ * source every time rather than once.
+ */
+export interface ICredentialProvider {
+    getCredentials(): Promise<IApiAuth>;
+}
+
+/**
+ * API keys encrypted with a passphrase (AES-256-GCM, with the key derived by PBKDF2).  Binary fields are hex.
+ */
+export interface IKeystore {
+    version: number;
+    kdf: 'pbkdf2';
+    digest: string;
+    iterations: number;
+    salt: string;
+    iv: string;
+    tag: string;
+    ciphertext: string;
+}
+
+/**
+ * `refreshInterval` is how often (ms) the provider is asked for new keys (0 to only ask when Poloniex rejects the
+ * current ones).  `onError` is told about failed refreshes.
+ */
+export interface IRotationConfig {
+    refreshInterval?: number;
+    onError?(err: Error): void;
+}
+
+/**
+ * A client whose keys come from a credential provider.  `rotateCredentials` asks the provider again, and resolves to
+ * true if the keys changed.
+ */
+export interface IRotatingClient extends IPoloniexClient {
+    rotateCredentials(): Promise<boolean>;
+    stopRotation(): void;
+}
+
+/**
+ * Default rotation configuration.
+ */
+const defaultRotationConfig: IRotationConfig = {
+    refreshInterval: 0,
+};
+
+const defaultKeystoreIterations = 200000;
+
+const isCredentials = (value: {}): boolean => {
+    const auth = value as IApiAuth;
+
+    return auth !== null && typeof auth === 'object' &&
+           typeof auth.publicKey === 'string' && typeof auth.privateKey === 'string';
+};
+
+const toCredentials = (value: {}, source: string): IApiAuth => {
+    if (!isCredentials(value)) throw new AuthenticationError(`no publicKey and privateKey in ${source}`);
+
+    const { publicKey, privateKey } = value as IApiAuth;
+
+    return { privateKey, publicKey };
+};
+
+/**
+ * Picks the keys for `label` out of a file holding several accounts ({ label: { publicKey, privateKey }, ... }), or
+ * takes the file as it is.
+ */
+const selectAccount = (contents: {}, label: string, source: string): IApiAuth =>
+    label !== undefined ?
+    toCredentials((contents as { [label: string]: {} })[label], `${source} (${label})`) :
+    toCredentials(contents, source);
+
+const deriveKey = (passphrase: string, salt: Buffer, iterations: number, digest: string): Promise<Buffer> =>
+    pbkdf2(passphrase, salt, iterations, KEY_LENGTH, digest);
+
+/**
+ * Factory function to get a provider reading `<prefix>_PUBLIC_KEY` and `<prefix>_PRIVATE_KEY` from the environment.
+ *
+ * @param {string} prefix
+ * @param env
+ * @returns {ICredentialProvider}
+ */
+export const getEnvCredentialProvider = (prefix: string = 'POLONIEX',
+                                         env: { [name: string]: string } = process.env): ICredentialProvider => ({
+    getCredentials(): Promise<IApiAuth> {
+        const [publicKey, privateKey] = [env[`${prefix}_PUBLIC_KEY`], env[`${prefix}_PRIVATE_KEY`]];
+
+        if (publicKey === undefined || privateKey === undefined) {
+            const message = `${prefix}_PUBLIC_KEY and ${prefix}_PRIVATE_KEY are not set`;
+
+            return Promise.reject(new AuthenticationError(message));
+        }
+
+        return Promise.resolve({ privateKey, publicKey });
+    },
+});
+
+/**
+ * Factory function to get a provider reading a JSON file with `publicKey` and `privateKey`, or, given a `label`, the
+ * keys stored under that label.  The file is read on every call, so keys can be rotated by replacing it.
+ *
+ * @param {string} path
+ * @param {string} label
+ * @returns {ICredentialProvider}
+ */
+export const getFileCredentialProvider = (path: string, label?: string): ICredentialProvider => ({
+    async getCredentials(): Promise<IApiAuth> {
+        return selectAccount(JSON.parse(await readFile(path, 'utf8')), label, path);
+    },
+});
+
+/**
+ * Encrypts API keys (or several accounts' keys, by label) with a passphrase.
+ *
+ * @param {{}} credentials
+ * @param {string} passphrase
+ * @param {number} iterations
+ * @returns {Promise<IKeystore>}
+ */
+export const encryptCredentials = async (credentials: IApiAuth | { [label: string]: IApiAuth },
+                                         passphrase: string,
+                                         iterations: number = defaultKeystoreIterations): Promise<IKeystore> => {
+    const salt   = crypto.randomBytes(SALT_LENGTH);
+    const iv     = crypto.randomBytes(IV_LENGTH);
+    const key    = await deriveKey(passphrase, salt, iterations, DIGEST);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+
+    return {
+        ciphertext: ciphertext.toString('hex'),
+        digest    : DIGEST,
+        iterations,
+        iv        : iv.toString('hex'),
+        kdf       : 'pbkdf2',
+        salt      : salt.toString('hex'),
+        tag       : cipher.getAuthTag().toString('hex'),
+        version   : KEYSTORE_VERSION,
+    };
+};
+
+/**
+ * Decrypts a keystore.  A wrong passphrase (or a tampered keystore) rejects with an AuthenticationError.
+ *
+ * @param {IKeystore} keystore
+ * @param {string} passphrase
+ * @returns {Promise<{}>} the keys, or the keys by label
+ */
+export const decryptCredentials = async (keystore: IKeystore, passphrase: string): Promise<{}> => {
+    if (keystore.version !== KEYSTORE_VERSION || keystore.kdf !== 'pbkdf2') {
+        return Promise.reject(new AuthenticationError(`unsupported keystore version ${keystore.version}`));
+    }
+
+    const salt     = Buffer.from(keystore.salt, 'hex');
+    const key      = await deriveKey(passphrase, salt, keystore.iterations, keystore.digest);
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(keystore.iv, 'hex'));
+
+    decipher.setAuthTag(Buffer.from(keystore.tag, 'hex'));
+
+    try {
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()]);
+
+        return JSON.parse(plaintext.toString('utf8'));
+    } catch (err) {
+        return Promise.reject(new AuthenticationError('wrong passphrase or corrupt keystore'));
+    }
+};
+
+/**
+ * Factory function to get a provider reading a keystore file written from #encryptCredentials.  Like the JSON file
+ * provider, it takes an optional `label` and reads the file on every call.
+ *
+ * @param {string} path
+ * @param {string} passphrase
+ * @param {string} label
+ * @returns {ICredentialProvider}
+ */
+export const getKeystoreCredentialProvider = (path: string,
+                                              passphrase: string,
+                                              label?: string): ICredentialProvider => ({
+    async getCredentials(): Promise<IApiAuth> {
+        const keystore: IKeystore = JSON.parse(await readFile(path, 'utf8'));
+
+        return selectAccount(await decryptCredentials(keystore, passphrase), label, path);
+    },
+});
+
+/**
+ * Factory function to get a client whose keys come from a provider and can be rotated while it runs.  When Poloniex
+ * rejects the keys, the provider is asked for new ones, and if they changed the request is sent once more with them
+ * (rejected requests were not executed, so this is safe for orders too).
+ *
+ * @param {ICredentialProvider} provider
+ * @param {IPoloniexRequestConfig} requestConfig
+ * @param {IClientConfig} clientConfig
+ * @param {IRotationConfig} rotationConfig
+ * @returns {Promise<IRotatingClient>}
+ */
+export const getRotatingClient = async (provider: ICredentialProvider,
+                                        requestConfig: IPoloniexRequestConfig = null,
+                                        clientConfig: IClientConfig = null,
+                                        rotationConfig: IRotationConfig = null): Promise<IRotatingClient> => {
+
+    // Construct local config object
+    const config = { ...defaultRotationConfig, ...rotationConfig };
+
+    let current                     = await provider.getCredentials();
+    let rotating: Promise<boolean>  = null;
+    let timer: NodeJS.Timer         = null;
+
+    const client = getClient(current, requestConfig, clientConfig);
+
+    const rotateCredentials = (): Promise<boolean> => {
+        if (rotating !== null) return rotating;
+
+        rotating = provider.getCredentials().then((auth) => {
+            rotating = null;
+
+            if (auth.publicKey === current.publicKey && auth.privateKey === current.privateKey) return false;
+
+            current = auth;
+            client.upgrade(auth);
+
+            return true;
+        }, (err: Error) => {
+            rotating = null;
+
+            return Promise.reject(err);
+        });
+
+        return rotating;
+    };
+
+    const wrapped = wrapClient(client, (method: string, original: ClientMethod): ClientMethod =>
+        async (...args: Array<{}>): Promise<IPoloniexResponse> => {
+            try {
+                return await original(...args);
+            } catch (err) {
+                if (!(err instanceof AuthenticationError) || !client.isUpgraded()) return Promise.reject(err);
+                if (!await rotateCredentials()) return Promise.reject(err);
+
+                return original(...args);
+            }
+        });
+
+    if (config.refreshInterval > 0) {
+        timer = setInterval(() => {
+            rotateCredentials().catch((err: Error) => {
+                if (config.onError !== undefined) config.onError(err);
+            });
+        }, config.refreshInterval);
+
+        // Rotation alone should not keep the process alive
+        timer.unref();
+    }
+
+    return Object.assign(wrapped, {
+        rotateCredentials,
+        stopRotation: (): void => { clearInterval(timer); },
+    });
+};
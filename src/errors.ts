@@ -0,0 +1,231 @@
+/**
+ * Parameter names whose values must never end up in an error (or a log line).  Matched case-insensitively.
+ */
+const secretParamNames = ['apikey', 'key', 'passphrase', 'password', 'privatekey', 'publickey', 'secret', 'sign'];
+
+/**
+ * Placeholder for redacted values.
+ */
+const redacted = '[REDACTED]';
+
+/**
+ * HTTP status codes with a dedicated error class.
+ */
+enum HttpStatus {
+    Unauthorized    = 401,
+    Forbidden       = 403,
+    TooManyRequests = 429,
+}
+
+export interface IRedactedParams {
+    [param: string]: {};
+}
+
+/**
+ * Everything known about a failed call.
+ */
+export interface IPoloniexErrorDetails {
+    command?: string;
+    params?: {};
+    status?: number;
+    body?: {};
+}
+
+/**
+ * Returns a shallow copy of the params with secret values replaced.
+ *
+ * @param {{}} params
+ * @returns {IRedactedParams}
+ */
+export const redactParams = (params: {}): IRedactedParams => {
+    if (params === undefined || params === null) return {};
+
+    const source = params as IRedactedParams;
+
+    return Object.keys(source).reduce<IRedactedParams>((acc, param) => {
+        acc[param] = secretParamNames.indexOf(param.toLowerCase()) === -1 ? source[param] : redacted;
+
+        return acc;
+    }, {});
+};
+
+/**
+ * Base class for every error this library rejects with.
+ */
+export class PoloniexApiError extends Error {
+    public command: string;
+    public params: IRedactedParams;
+    public status: number;
+    public body: {};
+
+    constructor(message: string, details: IPoloniexErrorDetails = {}) {
+        super(message);
+
+        this.name    = new.target.name;
+        this.command = details.command;
+        this.params  = redactParams(details.params);
+        this.status  = details.status;
+        this.body    = details.body;
+    }
+}
+
+/**
+ * Missing, invalid or insufficiently permissioned API keys.
+ */
+export class AuthenticationError extends PoloniexApiError {}
+
+/**
+ * The nonce was not greater than the last one Poloniex saw for the key.
+ */
+export class InvalidNonceError extends PoloniexApiError {}
+
+/**
+ * Not enough balance for the requested order, withdrawal, transfer or loan offer.
+ */
+export class InsufficientFundsError extends PoloniexApiError {}
+
+/**
+ * Poloniex is throttling the caller.
+ */
+export class RateLimitError extends PoloniexApiError {}
+
+/**
+ * No response was received (connection refused/reset, DNS failure, ...).
+ */
+export class NetworkError extends PoloniexApiError {}
+
+/**
+ * The request did not complete in time.  For order placement the outcome is unknown.
+ */
+export class TimeoutError extends PoloniexApiError {}
+
+/**
+ * The request waited too long in the rate limiter's queue and was never sent, so it is always safe to resend.
+ */
+export class QueueTimeoutError extends PoloniexApiError {}
+
+/**
+ * The caller cancelled the request before it completed.
+ */
+export class RequestCancelledError extends PoloniexApiError {}
+
+/**
+ * An order failed pre-flight validation and was not sent.
+ */
+export class OrderValidationError extends PoloniexApiError {}
+
+/**
+ * A withdrawal or transfer broke the withdrawal policy (or was not confirmed) and was not sent.
+ */
+export class WithdrawalPolicyError extends PoloniexApiError {}
+
+/**
+ * A currency pair is malformed, or a market or currency is unknown, disabled, delisted or frozen.
+ */
+export class MarketUnavailableError extends PoloniexApiError {}
+
+/**
+ * Replay mode found no recorded response for the request.
+ */
+export class FixtureNotFoundError extends PoloniexApiError {}
+
+type PoloniexErrorClass = typeof PoloniexApiError;
+
+/**
+ * Known Poloniex error messages, checked in order.
+ */
+const knownErrors: Array<[RegExp, PoloniexErrorClass]> = [
+    [/nonce must be greater/i, InvalidNonceError],
+    [/invalid api key|permission denied|not authenticated|invalid sign/i, AuthenticationError],
+    [/not enough|insufficient/i, InsufficientFundsError],
+    [/api calls per second|too many requests|rate limit/i, RateLimitError],
+    [/timed out/i, TimeoutError],
+];
+
+/**
+ * Picks the error class for a Poloniex error message and/or HTTP status.
+ *
+ * @param {string} message
+ * @param {number} status
+ * @returns {PoloniexErrorClass}
+ */
+const classify = (message: string, status?: number): PoloniexErrorClass => {
+    const known = knownErrors.find(([pattern]) => pattern.test(message));
+    if (known !== undefined) return known[1];
+
+    switch (status) {
+        case HttpStatus.Unauthorized:
+        case HttpStatus.Forbidden:
+            return AuthenticationError;
+        case HttpStatus.TooManyRequests:
+            return RateLimitError;
+        default:
+            return PoloniexApiError;
+    }
+};
+
+/**
+ * Builds the matching error for a Poloniex error message.
+ *
+ * @param {string} message
+ * @param {IPoloniexErrorDetails} details
+ * @returns {PoloniexApiError}
+ */
+export const createPoloniexError = (message: string, details: IPoloniexErrorDetails = {}): PoloniexApiError => {
+    const ErrorClass: PoloniexErrorClass = classify(message, details.status);
+
+    return new ErrorClass(message, details);
+};
+
+/**
+ * Inspects a response and returns the matching error if it is a failure (non-2xx status or an `{ error }` body), or
+ * null if it is a success.
+ *
+ * @param {{status: number, data: {}}} response
+ * @param {string} command
+ * @param {{}} params
+ * @returns {PoloniexApiError}
+ */
+export const errorFromResponse = (response: { status: number, data: {} },
+                                  command: string,
+                                  params: {}): PoloniexApiError => {
+    //tslint:disable:no-magic-numbers
+    const isHttpError = response.status < 200 || response.status >= 300;
+    //tslint:enable:no-magic-numbers
+
+    const body       = response.data;
+    const bodyError  = body !== null && typeof body === 'object' ? (body as { error?: string }).error : undefined;
+    const hasBodyErr = typeof bodyError === 'string';
+
+    if (!isHttpError && !hasBodyErr) return null;
+
+    const message = hasBodyErr ? bodyError : `HTTP ${response.status}`;
+
+    return createPoloniexError(message, { body, command, params, status: response.status });
+};
+
+/**
+ * Wraps an exception thrown by the HTTP layer.  Errors with a response are classified like any other failed response;
+ * errors without one are timeouts or network failures.
+ *
+ * @param {Error} err
+ * @param {string} command
+ * @param {{}} params
+ * @returns {PoloniexApiError}
+ */
+export const errorFromException = (err: Error & { code?: string, response?: { status: number, data: {} } },
+                                   command: string,
+                                   params: {}): PoloniexApiError => {
+    if (err instanceof PoloniexApiError) return err;
+
+    if (err.response !== undefined && err.response !== null) {
+        const fromResponse = errorFromResponse(err.response, command, params);
+        if (fromResponse !== null) return fromResponse;
+    }
+
+    const details = { command, params };
+
+    return err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT' ?
+           new TimeoutError(err.message, details) :
+           new NetworkError(err.message, details);
+};
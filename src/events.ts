@@ -0,0 +1,21 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Returns the function that reports errors raised in the background (by a socket, a timer or a poll loop).  They go to
+ * the emitter's 'error' listeners or, when there are none, to the config's `onError`.  With neither, the error is
+ * emitted anyway and, like any unhandled 'error' event, thrown.
+ *
+ * @param {EventEmitter} emitter
+ * @param {{onError?(err: Error): void}} config
+ * @returns {(err: Error) => void}
+ */
+export const getErrorEmitter = (emitter: EventEmitter, config: { onError?(err: Error): void }) =>
+    (err: Error): void => {
+        if (emitter.listenerCount('error') === 0 && config.onError !== undefined && config.onError !== null) {
+            config.onError(err);
+
+            return;
+        }
+
+        emitter.emit('error', err);
+    };
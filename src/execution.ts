@@ -0,0 +1,415 @@
+import { Decimal } from 'decimal.js';
+import { IPoloniexClient } from '../index';
+import { parseOrderBook, parseOrderResult, IOrderBookEntry } from './models';
+import { getOrderManager, IOrderFillEvent, IOrderManager, ITrackedOrder } from './orderManager';
+import { DecimalValue, OrderFlag } from './orderParams';
+
+/**
+ * A market order: `amount` is taken from the book at no worse than `maxSlippage` (a fraction, e.g. '0.005') away from
+ * the best price, and no worse than `limitRate` if given.  `depth` is the number of levels fetched.
+ */
+export interface IMarketOrderParams {
+    currencyPair: string;
+    amount: DecimalValue;
+    maxSlippage: DecimalValue;
+    limitRate?: DecimalValue;
+    depth?: string;
+}
+
+/**
+ * A TWAP: `amount` is split into `slices` market orders spread evenly over `duration` milliseconds.  Whatever a slice
+ * leaves unfilled is added to the following slices.
+ */
+export interface ITwapParams extends IMarketOrderParams {
+    type: 'buy' | 'sell';
+    duration: number;
+    slices: number;
+}
+
+/**
+ * An iceberg: `amount` is offered at `rate`, but no more than `visibleAmount` at a time.  After `timeout`
+ * milliseconds (if given) the rest is cancelled.
+ */
+export interface IIcebergParams {
+    currencyPair: string;
+    type: 'buy' | 'sell';
+    rate: DecimalValue;
+    amount: DecimalValue;
+    visibleAmount: DecimalValue;
+    postOnly?: OrderFlag;
+    timeout?: number;
+}
+
+export interface IExecutionFill {
+    orderNumber: string;
+    tradeID: string;
+    rate: Decimal;
+    amount: Decimal;
+}
+
+/**
+ * The outcome of an execution.  `total` is the sum of rate * amount over the fills, and `vwap` is total / filledAmount
+ * (null if nothing was filled).  Fees are not included.
+ */
+export interface IExecutionReport {
+    currencyPair: string;
+    type: 'buy' | 'sell';
+    amount: Decimal;
+    filledAmount: Decimal;
+    total: Decimal;
+    vwap: Decimal;
+    complete: boolean;
+    orderNumbers: string[];
+    fills: IExecutionFill[];
+    startedAt: Date;
+    finishedAt: Date;
+}
+
+const defaultDepth = '100';
+
+/**
+ * Poloniex accepts at most 8 decimal places.
+ */
+const MAX_DECIMALS = 8;
+
+const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => { setTimeout(resolve, ms); });
+
+const sumOf = (values: Decimal[]): Decimal => values.reduce((acc, value) => acc.plus(value), new Decimal(0));
+
+const toReport = (currencyPair: string,
+                  type: 'buy' | 'sell',
+                  amount: Decimal,
+                  orderNumbers: string[],
+                  fills: IExecutionFill[],
+                  startedAt: Date): IExecutionReport => {
+    const filledAmount = sumOf(fills.map((fill) => fill.amount));
+    const total        = sumOf(fills.map((fill) => fill.rate.times(fill.amount)));
+
+    return {
+        amount,
+        complete    : filledAmount.gte(amount),
+        currencyPair,
+        filledAmount,
+        fills,
+        finishedAt  : new Date(),
+        orderNumbers,
+        startedAt,
+        total,
+        type,
+        vwap        : filledAmount.isZero() ? null : total.dividedBy(filledAmount),
+    };
+};
+
+/**
+ * Finds the worst rate needed to take `amount` from `levels` (best first) without crossing `limit`.
+ *
+ * @returns {Decimal} the rate, or null if even the best level is beyond the limit
+ */
+const walkBook = (levels: IOrderBookEntry[], amount: Decimal, limit: Decimal, type: 'buy' | 'sell'): Decimal => {
+    let remaining     = amount;
+    let rate: Decimal = null;
+
+    for (const level of levels) {
+        if (type === 'buy' ? level.rate.gt(limit) : level.rate.lt(limit)) break;
+
+        rate      = level.rate;
+        remaining = remaining.minus(Decimal.min(level.amount, remaining));
+        if (remaining.isZero()) break;
+    }
+
+    return rate;
+};
+
+const executeMarketOrder = async (client: IPoloniexClient,
+                                  type: 'buy' | 'sell',
+                                  params: IMarketOrderParams): Promise<IExecutionReport> => {
+    const startedAt = new Date();
+    const amount    = new Decimal(params.amount);
+    const depth     = params.depth !== undefined ? params.depth : defaultDepth;
+    const { data }  = await client.returnOrderBook({ currencyPair: params.currencyPair, depth });
+    const book      = parseOrderBook(data, params.currencyPair)[params.currencyPair];
+    const levels    = type === 'buy' ? book.asks : book.bids;
+
+    if (levels.length === 0) return toReport(params.currencyPair, type, amount, [], [], startedAt);
+
+    const slippage = new Decimal(params.maxSlippage);
+    let limit      = levels[0].rate.times(type === 'buy' ? slippage.plus(1) : new Decimal(1).minus(slippage));
+
+    if (params.limitRate !== undefined && params.limitRate !== null) {
+        limit = type === 'buy' ? Decimal.min(limit, params.limitRate) : Decimal.max(limit, params.limitRate);
+    }
+
+    const rate = walkBook(levels, amount, limit, type);
+    if (rate === null) return toReport(params.currencyPair, type, amount, [], [], startedAt);
+
+    // Immediate-or-cancel, so that nothing beyond the limit is taken and nothing is left on the book
+    const response = await client[type]({
+        amount           : amount.toFixed(),
+        currencyPair     : params.currencyPair,
+        immediateOrCancel: true,
+        rate             : rate.toFixed(),
+    });
+
+    const result = parseOrderResult(response.data);
+    const fills  = result.resultingTrades.map((trade): IExecutionFill =>
+        ({ amount: trade.amount, orderNumber: result.orderNumber, rate: trade.rate, tradeID: trade.tradeID }));
+
+    return toReport(params.currencyPair, type, amount, [result.orderNumber], fills, startedAt);
+};
+
+/**
+ * Buys `amount` at the best available prices, within the slippage guard.  Poloniex has no market orders, so this
+ * walks a #returnOrderBook snapshot and places one immediate-or-cancel order at the worst rate needed.  Whatever is
+ * not available within the guard stays unfilled.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IMarketOrderParams} params
+ * @returns {Promise<IExecutionReport>}
+ */
+export const marketBuy = (client: IPoloniexClient, params: IMarketOrderParams): Promise<IExecutionReport> =>
+    executeMarketOrder(client, 'buy', params);
+
+/**
+ * Sells `amount` at the best available prices, within the slippage guard.  See #marketBuy.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IMarketOrderParams} params
+ * @returns {Promise<IExecutionReport>}
+ */
+export const marketSell = (client: IPoloniexClient, params: IMarketOrderParams): Promise<IExecutionReport> =>
+    executeMarketOrder(client, 'sell', params);
+
+/**
+ * Executes `amount` as a series of market orders, one every `duration / slices` milliseconds starting right away.
+ *
+ * @param {IPoloniexClient} client
+ * @param {ITwapParams} params
+ * @returns {Promise<IExecutionReport>}
+ */
+export const twap = async (client: IPoloniexClient, params: ITwapParams): Promise<IExecutionReport> => {
+    const startedAt               = new Date();
+    const amount                  = new Decimal(params.amount);
+    const interval                = params.duration / params.slices;
+    const orderNumbers: string[]  = [];
+    const fills: IExecutionFill[] = [];
+
+    const { currencyPair, depth, limitRate, maxSlippage } = params;
+
+    let remaining = amount;
+
+    for (let slice = 0; slice < params.slices && remaining.gt(0); slice++) {
+        const slicesLeft  = params.slices - slice;
+        const sliceAmount = slicesLeft === 1 ?
+                            remaining :
+                            remaining.dividedBy(slicesLeft).toDecimalPlaces(MAX_DECIMALS, Decimal.ROUND_DOWN);
+
+        if (sliceAmount.gt(0)) {
+            const sliceParams = { amount: sliceAmount, currencyPair, depth, limitRate, maxSlippage };
+            const report      = await executeMarketOrder(client, params.type, sliceParams);
+
+            orderNumbers.push(...report.orderNumbers);
+            fills.push(...report.fills);
+            remaining = remaining.minus(report.filledAmount);
+        }
+
+        const nextSliceAt = startedAt.getTime() + (slice + 1) * interval;
+        if (slicesLeft > 1 && remaining.gt(0)) await sleep(Math.max(0, nextSliceAt - Date.now()));
+    }
+
+    return toReport(params.currencyPair, params.type, amount, orderNumbers, fills, startedAt);
+};
+
+/**
+ * Works `amount` at `rate` while showing no more than `visibleAmount`.  As the visible order fills it is topped up
+ * with #moveOrder; once it fills completely, the next slice is placed.  Resolves once everything is filled, the order
+ * is cancelled (by the timeout or by anyone else), or placing an order fails.
+ *
+ * Orders are followed with `orderManager` if given (which should be started), and with a manager of its own
+ * otherwise.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IIcebergParams} params
+ * @param {IOrderManager} orderManager
+ * @returns {Promise<IExecutionReport>}
+ */
+export const iceberg = async (client: IPoloniexClient,
+                              params: IIcebergParams,
+                              orderManager?: IOrderManager): Promise<IExecutionReport> => {
+    const startedAt     = new Date();
+    const amount        = new Decimal(params.amount);
+    const visibleAmount = new Decimal(params.visibleAmount);
+    const ownManager    = orderManager === undefined || orderManager === null;
+    const manager       = ownManager ? getOrderManager(client) : orderManager;
+
+    const orderNumbers: string[]  = [];
+    const fills: IExecutionFill[] = [];
+
+    // Fills that arrive while an order is being placed, before its order number is known
+    let unclaimed: IOrderFillEvent[] = [];
+    let placing                     = false;
+    let current: ITrackedOrder      = null;
+    let refilling                   = false;
+    let timedOut                    = false;
+    let timer: NodeJS.Timer         = null;
+
+    const remaining = (): Decimal => amount.minus(sumOf(fills.map((fill) => fill.amount)));
+
+    const isCurrent = (order: ITrackedOrder): boolean =>
+        current !== null &&
+        (order.orderNumber === current.orderNumber || order.previousOrderNumbers.indexOf(current.orderNumber) !== -1);
+
+    const recordFill = ({ order, fill }: IOrderFillEvent): void => {
+        fills.push({ ...fill, orderNumber: order.orderNumber });
+    };
+
+    let finish: (err?: Error) => void;
+    const done = new Promise<void>((resolve, reject) => {
+        finish = (err?: Error): void => { if (err !== undefined) { reject(err); } else { resolve(); } };
+    });
+
+    /**
+     * Cancels what is left of the current order once the timeout has fired, then finishes.
+     */
+    const cancelOnTimeout = async (): Promise<void> => {
+        const order = manager.get(current.orderNumber);
+        if (order !== null && order.status !== 'filled' && order.status !== 'cancelled') {
+            await manager.cancel(order.orderNumber);
+        }
+
+        finish();
+    };
+
+    const placeSlice = async (): Promise<void> => {
+        if (timedOut) {
+            finish();
+
+            return Promise.resolve();
+        }
+
+        const sliceAmount = Decimal.min(visibleAmount, remaining());
+
+        placing = true;
+        try {
+            current = await manager[params.type]({
+                amount      : sliceAmount.toFixed(),
+                currencyPair: params.currencyPair,
+                postOnly    : params.postOnly,
+                rate        : params.rate,
+            });
+        } finally {
+            placing = false;
+        }
+
+        orderNumbers.push(current.orderNumber);
+        unclaimed.filter((event) => isCurrent(event.order)).forEach(recordFill);
+        unclaimed = [];
+
+        // The timeout fired while the slice was being placed, and so could not cancel it
+        if (timedOut) return cancelOnTimeout();
+
+        if (current.status === 'filled') return onSliceFilled();
+
+        if (current.status === 'cancelled') {
+            finish();
+
+            return Promise.resolve();
+        }
+
+        return refill();
+    };
+
+    /**
+     * Tops the visible order back up to `visibleAmount` (or what is left), one move at a time.
+     */
+    const refill = async (): Promise<void> => {
+        if (timedOut || refilling || current === null || current.status !== 'partiallyFilled') return;
+
+        const visible = current.amount.minus(current.filledAmount);
+        const target  = Decimal.min(visibleAmount, remaining());
+        if (visible.gte(target)) return;
+
+        refilling = true;
+        try {
+            current = await manager.move({
+                amount     : target.toFixed(),
+                orderNumber: current.orderNumber,
+                postOnly   : params.postOnly,
+                rate       : params.rate,
+            });
+            orderNumbers.push(current.orderNumber);
+        } catch (err) {
+            // The order may have filled or gone in the meantime; its events tell
+            if (!timedOut && manager.get(current.orderNumber).status === 'partiallyFilled') return Promise.reject(err);
+            if (!timedOut) return Promise.resolve();
+        } finally {
+            refilling = false;
+        }
+
+        // The timeout fired during the move, and so could not cancel the order it left open
+        if (timedOut) return cancelOnTimeout();
+
+        return refill();
+    };
+
+    const onSliceFilled = (): Promise<void> => {
+        if (remaining().lte(0)) {
+            finish();
+
+            return Promise.resolve();
+        }
+
+        return placeSlice().catch(finish);
+    };
+
+    const onFill = (event: IOrderFillEvent): void => {
+        if (placing && !isCurrent(event.order)) {
+            unclaimed.push(event);
+
+            return;
+        }
+
+        if (!isCurrent(event.order)) return;
+
+        recordFill(event);
+        current = event.order;
+        refill().catch(finish);
+    };
+
+    const onFilled = (order: ITrackedOrder): void => {
+        if (placing || !isCurrent(order)) return;
+
+        current = order;
+        onSliceFilled().catch(finish);
+    };
+
+    const onCancelled = (order: ITrackedOrder): void => {
+        if (!placing && isCurrent(order)) finish();
+    };
+
+    manager.on('fill', onFill);
+    manager.on('filled', onFilled);
+    manager.on('cancelled', onCancelled);
+
+    try {
+        if (ownManager) await manager.start();
+
+        if (params.timeout !== undefined && params.timeout !== null) {
+            timer = setTimeout(() => {
+                timedOut = true;
+
+                // A slice being placed or moved is cancelled once its order number is known
+                if (!placing && !refilling && current !== null) manager.cancel(current.orderNumber).catch(finish);
+            }, params.timeout);
+        }
+
+        await Promise.all([placeSlice(), done]);
+    } finally {
+        clearTimeout(timer);
+        manager.removeListener('fill', onFill);
+        manager.removeListener('filled', onFilled);
+        manager.removeListener('cancelled', onCancelled);
+        if (ownManager) await manager.stop();
+    }
+
+    return toReport(params.currencyPair, params.type, amount, orderNumbers, fills, startedAt);
+};
@@ -0,0 +1,186 @@
+import { AxiosResponse } from 'axios';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { redactParams, FixtureNotFoundError } from './errors';
+
+/**
+ * 'record' sends requests and saves every exchange to the fixture file (replacing its contents); 'replay' serves the
+ * saved exchanges instead of sending anything.
+ */
+export type FixtureMode = 'record' | 'replay';
+
+export interface IFixtureConfig {
+    mode: FixtureMode;
+    path: string;
+}
+
+/**
+ * One recorded exchange.  Params are stored without the nonce and with secrets redacted; headers (API key and
+ * signature included) are not stored at all.  Requests that failed without a response store the error instead.
+ */
+export interface IFixture {
+    endpoint: 'public' | 'private';
+    params: { [param: string]: string };
+    response?: {
+        status: number;
+        statusText: string;
+        data: {};
+    };
+    error?: {
+        code: string;
+        message: string;
+    };
+}
+
+export interface IFixtureFile {
+    fixtures: IFixture[];
+}
+
+export interface IFixturePlayer {
+    mode: FixtureMode;
+    handle(endpoint: 'public' | 'private', params: {}, send: () => Promise<AxiosResponse>): Promise<AxiosResponse>;
+}
+
+const readFile   = promisify(fs.readFile);
+const writeFile  = promisify(fs.writeFile);
+const renameFile = promisify(fs.rename);
+
+/**
+ * Fixture files are meant to be read (and diffed) by people.
+ */
+const JSON_INDENT = 2;
+
+/**
+ * Params as they go over the wire (strings, no undefined values), minus the nonce and any secrets.
+ *
+ * @param {{}} params
+ * @returns {{[param: string]: string}}
+ */
+export const fixtureParams = (params: {}): { [param: string]: string } => {
+    const redacted = redactParams(params);
+
+    return Object.keys(redacted)
+                 .filter((param) => param !== 'nonce' && redacted[param] !== undefined && redacted[param] !== null)
+                 .sort()
+                 .reduce<{ [param: string]: string }>((acc, param) => ({ ...acc, [param]: `${redacted[param]}` }), {});
+};
+
+/**
+ * The key requests are matched on.
+ */
+const fixtureKey = (endpoint: string, params: {}): string => JSON.stringify([endpoint, fixtureParams(params)]);
+
+/**
+ * Factory function to get a fixture player for the raw agent.
+ *
+ * When replaying, identical requests are served the recorded responses in the order they were recorded; once those
+ * run out, the last one is repeated.
+ *
+ * @param {IFixtureConfig} fixtureConfig
+ * @returns {IFixturePlayer}
+ */
+export const getFixturePlayer = (fixtureConfig: IFixtureConfig): IFixturePlayer => {
+
+    const recorded: IFixture[] = [];
+    const served               = new Map<string, number>();
+
+    let writing: Promise<void>                    = Promise.resolve();
+    let loading: Promise<Map<string, IFixture[]>> = null;
+
+    /**
+     * Rewrites the whole file after each exchange, one write at a time.  Writing to a temporary file and renaming it
+     * never leaves a truncated fixture file behind.
+     */
+    const save = (fixture: IFixture): Promise<void> => {
+        recorded.push(fixture);
+
+        const contents: IFixtureFile = { fixtures: recorded };
+        writing = writing.catch(() => undefined).then(async () => {
+            await writeFile(`${fixtureConfig.path}.tmp`, JSON.stringify(contents, null, JSON_INDENT));
+            await renameFile(`${fixtureConfig.path}.tmp`, fixtureConfig.path);
+        });
+
+        return writing;
+    };
+
+    const load = (): Promise<Map<string, IFixture[]>> => {
+        if (loading === null) {
+            loading = readFile(fixtureConfig.path, 'utf8').then((contents) => {
+                const file: IFixtureFile = JSON.parse(contents);
+
+                return file.fixtures.reduce((byKey, fixture) => {
+                    const key = fixtureKey(fixture.endpoint, fixture.params);
+                    byKey.set(key, [...(byKey.has(key) ? byKey.get(key) : []), fixture]);
+
+                    return byKey;
+                }, new Map<string, IFixture[]>());
+            });
+        }
+
+        return loading;
+    };
+
+    const record = async (endpoint: 'public' | 'private',
+                          params: {},
+                          send: () => Promise<AxiosResponse>): Promise<AxiosResponse> => {
+        const fixture: IFixture = { endpoint, params: fixtureParams(params) };
+
+        let response: AxiosResponse;
+        try {
+            response = await send();
+        } catch (err) {
+            const failed: AxiosResponse = err.response;
+            if (failed !== undefined && failed !== null) {
+                fixture.response = { data: failed.data, status: failed.status, statusText: failed.statusText };
+            } else {
+                fixture.error = { code: err.code, message: err.message };
+            }
+            await save(fixture);
+
+            return Promise.reject(err);
+        }
+
+        fixture.response = { data: response.data, status: response.status, statusText: response.statusText };
+        await save(fixture);
+
+        return Promise.resolve(response);
+    };
+
+    const replay = async (endpoint: 'public' | 'private', params: {}): Promise<AxiosResponse> => {
+        const key      = fixtureKey(endpoint, params);
+        const fixtures = (await load()).get(key);
+        const command  = (params as { command?: string }).command;
+
+        if (fixtures === undefined) {
+            return Promise.reject(new FixtureNotFoundError(`no fixture for ${command}`, { command, params }));
+        }
+
+        const index = served.has(key) ? served.get(key) : 0;
+        served.set(key, index + 1);
+
+        const fixture = fixtures[Math.min(index, fixtures.length - 1)];
+
+        if (fixture.error !== undefined) {
+            return Promise.reject(Object.assign(new Error(fixture.error.message), { code: fixture.error.code }));
+        }
+
+        return Promise.resolve({ ...fixture.response, config: {}, headers: {} });
+    };
+
+    return {
+
+        mode: fixtureConfig.mode,
+
+        /**
+         * Records or replays one request.  `send` actually sends it and is never called when replaying.
+         *
+         * @param {'public' | 'private'} endpoint
+         * @param {{}} params
+         * @param {() => Promise<AxiosResponse>} send
+         * @returns {Promise<AxiosResponse>}
+         */
+        handle(endpoint: 'public' | 'private', params: {}, send: () => Promise<AxiosResponse>): Promise<AxiosResponse> {
+            return fixtureConfig.mode === 'record' ? record(endpoint, params, send) : replay(endpoint, params);
+        },
+    };
+};
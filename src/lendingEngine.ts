@@ -0,0 +1,353 @@
+import { Decimal } from 'decimal.js';
+import { EventEmitter } from 'events';
+import { IPoloniexClient } from '../index';
+import { getErrorEmitter } from './events';
+import {
+    parseAvailableAccountBalances, parseCreateLoanOffer, parseLoanOrders, parseOpenLoanOffers, ILoanOffer,
+} from './models';
+import { formatDecimal, DecimalValue } from './orderParams';
+import { iterateLendingHistory, IIterateRangeParams, IPaginationOptions } from './pagination';
+
+const MAX_DECIMALS = 8;
+
+/**
+ * Default lending engine configuration.
+ */
+const defaultLendingEngineConfig: ILendingEngineConfig = {
+    autoRenew  : false,
+    currencies : ['BTC'],
+    durations  : [
+        { duration: 2, minRate: '0' },
+        { duration: 30, minRate: '0.0005' },
+        { duration: 60, minRate: '0.001' },
+    ],
+    interval   : 60000,
+    maxOfferAge: 600000,
+    minAmount  : '0.01',
+    minRate    : '0',
+    reserve    : {},
+    tiers      : 5,
+    tierSpread : '0.2',
+};
+
+/**
+ * Offers at `minRate` (a daily rate) or above are made for `duration` days.
+ */
+export interface ILoanDuration {
+    minRate: DecimalValue;
+    duration: number;
+}
+
+/**
+ * `currencies` are the currencies to lend, and `interval` how often (ms) the engine runs a cycle once started.
+ *
+ * Whatever is available in the lending account, less `reserve` for the currency, is offered across `tiers` rates,
+ * spread evenly from the lowest offer in the loan order book (but never below `minRate`) up to `tierSpread` (a
+ * fraction) above it.  Fewer tiers are used when each would be smaller than `minAmount`.  The duration of each offer
+ * is taken from `durations` by its rate (the default durations are used if none are given).  Offers still open after
+ * `maxOfferAge` (ms) are cancelled and re-priced.  A cycle that fails while nothing listens for 'error' is reported to
+ * `onError`.
+ */
+export interface ILendingEngineConfig {
+    currencies?: string[];
+    interval?: number;
+    reserve?: { [currency: string]: DecimalValue };
+    tiers?: number;
+    tierSpread?: DecimalValue;
+    minRate?: DecimalValue;
+    minAmount?: DecimalValue;
+    maxOfferAge?: number;
+    durations?: ILoanDuration[];
+    autoRenew?: boolean;
+    onError?(err: Error): void;
+}
+
+/**
+ * An offer placed by the engine.
+ */
+export interface IPlacedLoanOffer {
+    orderID: string;
+    currency: string;
+    rate: Decimal;
+    amount: Decimal;
+    duration: number;
+}
+
+/**
+ * What a single cycle did.
+ */
+export interface ILendingCycle {
+    cancelled: ILoanOffer[];
+    placed: IPlacedLoanOffer[];
+}
+
+/**
+ * Lending history summed up for a currency.  `averageRate` is weighted by amount.
+ */
+export interface ILendingEarnings {
+    currency: string;
+    loans: number;
+    amount: Decimal;
+    interest: Decimal;
+    fees: Decimal;
+    earned: Decimal;
+    averageRate: Decimal;
+}
+
+export interface ILendingReport {
+    [currency: string]: ILendingEarnings;
+}
+
+/**
+ * The shape of a lending engine.
+ */
+export interface ILendingEngine {
+
+    start(): void;
+
+    stop(): void;
+
+    run(): Promise<ILendingCycle>;
+
+    report(params: IIterateRangeParams, paginationOptions?: IPaginationOptions): Promise<ILendingReport>;
+
+    on(event: 'offer', listener: (offer: IPlacedLoanOffer) => void): this;
+
+    on(event: 'cancel', listener: (offer: ILoanOffer) => void): this;
+
+    on(event: 'cycle', listener: (cycle: ILendingCycle) => void): this;
+
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+const roundDown = (value: Decimal): Decimal => value.toDecimalPlaces(MAX_DECIMALS, Decimal.ROUND_DOWN);
+
+/**
+ * Factory function to get a lending engine, which keeps the lending account's balances on offer.
+ *
+ * @param {IPoloniexClient} client
+ * @param {ILendingEngineConfig} lendingEngineConfig
+ * @returns {ILendingEngine}
+ */
+export const getLendingEngine = (client: IPoloniexClient,
+                                 lendingEngineConfig: ILendingEngineConfig = null): ILendingEngine => {
+
+    // Construct local config object
+    const config = { ...defaultLendingEngineConfig, ...lendingEngineConfig };
+
+    const emitter   = new EventEmitter();
+    const minAmount = new Decimal(config.minAmount);
+    const durations = [...(config.durations !== undefined && config.durations !== null && config.durations.length > 0 ?
+                           config.durations :
+                           defaultLendingEngineConfig.durations)]
+        .sort((a, b) => new Decimal(b.minRate).comparedTo(a.minRate));
+
+    let running                       = false;
+    let timer: NodeJS.Timer           = null;
+    let cycle: Promise<ILendingCycle> = null;
+
+    const emitError = getErrorEmitter(emitter, config);
+
+    const durationFor = (rate: Decimal): number => {
+        const found = durations.find((entry) => rate.gte(entry.minRate));
+
+        return found !== undefined ? found.duration : durations[durations.length - 1].duration;
+    };
+
+    const reserveFor = (currency: string): Decimal =>
+        config.reserve[currency] !== undefined ? new Decimal(config.reserve[currency]) : new Decimal(0);
+
+    /**
+     * Rates from the lowest offer (or `minRate`) up to `tierSpread` above it, one per tier.
+     */
+    const tierRates = async (currency: string, tiers: number): Promise<Decimal[]> => {
+        const { data }   = await client.returnLoanOrders({ currency });
+        const { offers } = parseLoanOrders(data);
+
+        const lowest = offers.length > 0 ? Decimal.min(...offers.map((offer) => offer.rate)) : new Decimal(0);
+        const base   = Decimal.max(lowest, config.minRate);
+        const top    = base.times(new Decimal(1).plus(config.tierSpread));
+
+        return Array.from({ length: tiers }, (_, tier) =>
+            tiers === 1 ? base : roundDown(base.plus(top.minus(base).times(tier).dividedBy(tiers - 1))));
+    };
+
+    const cancelStale = async (): Promise<ILoanOffer[]> => {
+        const { data }   = await client.returnOpenLoanOffers();
+        const openOffers = parseOpenLoanOffers(data);
+        const now        = Date.now();
+
+        const stale = config.currencies
+                            .map((currency) => openOffers[currency] !== undefined ? openOffers[currency] : [])
+                            .reduce((acc, offers) => [...acc, ...offers], [])
+                            .filter((offer) => now - offer.date.getTime() >= config.maxOfferAge);
+
+        for (const offer of stale) {
+            await client.cancelLoanOffer({ orderNumber: offer.id });
+            emitter.emit('cancel', offer);
+        }
+
+        return stale;
+    };
+
+    const lend = async (currency: string, available: Decimal): Promise<IPlacedLoanOffer[]> => {
+        const lendable = available.minus(reserveFor(currency));
+        if (lendable.lt(minAmount) || lendable.lte(0)) return [];
+
+        const tiers  = Math.max(1, Math.min(config.tiers, lendable.dividedToIntegerBy(minAmount).toNumber()));
+        const rates  = await tierRates(currency, tiers);
+        const amount = roundDown(lendable.dividedBy(tiers));
+        const placed: IPlacedLoanOffer[] = [];
+
+        for (const rate of rates) {
+            if (rate.lte(0)) continue;
+
+            const duration = durationFor(rate);
+            const { data } = await client.createLoanOffer({
+                amount     : formatDecimal(amount),
+                autoRenew  : config.autoRenew ? 1 : 0,
+                currency,
+                duration,
+                lendingRate: formatDecimal(rate),
+            });
+            const { orderID } = parseCreateLoanOffer(data);
+            const offer: IPlacedLoanOffer = { amount, currency, duration, orderID, rate };
+
+            placed.push(offer);
+            emitter.emit('offer', offer);
+        }
+
+        return placed;
+    };
+
+    const runCycle = async (): Promise<ILendingCycle> => {
+        const cancelled = await cancelStale();
+
+        const { data } = await client.returnAvailableAccountBalances({ account: 'lending' });
+        const balances = parseAvailableAccountBalances(data);
+        const lending  = balances.lending !== undefined ? balances.lending : {};
+
+        const placed: IPlacedLoanOffer[] = [];
+
+        for (const currency of config.currencies) {
+            const available = lending[currency] !== undefined ? lending[currency] : new Decimal(0);
+            placed.push(...await lend(currency, available));
+        }
+
+        const result = { cancelled, placed };
+        emitter.emit('cycle', result);
+
+        return result;
+    };
+
+    const schedule = (): void => {
+        if (!running) return;
+
+        timer = setTimeout(() => {
+            engine.run().then(schedule, (err: Error) => {
+                schedule();
+                emitError(err);
+            });
+        }, config.interval);
+    };
+
+    const engine: ILendingEngine = {
+
+        on(event: string, listener: Function): ILendingEngine {
+            emitter.on(event, listener as (...args: Array<{}>) => void);
+
+            return engine;
+        },
+
+        removeListener(event: string, listener: (...args: Array<{}>) => void): ILendingEngine {
+            emitter.removeListener(event, listener);
+
+            return engine;
+        },
+
+        /**
+         * Sums up interest, fees and earnings from #returnLendingHistory, by currency.
+         *
+         * @param {IIterateRangeParams} params
+         * @param {IPaginationOptions} paginationOptions
+         * @returns {Promise<ILendingReport>}
+         */
+        async report(params: IIterateRangeParams,
+                     paginationOptions: IPaginationOptions = null): Promise<ILendingReport> {
+            const report: ILendingReport                    = {};
+            const weighted: { [currency: string]: Decimal } = {};
+
+            for await (const entry of iterateLendingHistory(client, params, paginationOptions)) {
+                const { currency } = entry;
+
+                if (report[currency] === undefined) {
+                    report[currency] = {
+                        amount     : new Decimal(0),
+                        averageRate: null,
+                        currency,
+                        earned     : new Decimal(0),
+                        fees       : new Decimal(0),
+                        interest   : new Decimal(0),
+                        loans      : 0,
+                    };
+                    weighted[currency] = new Decimal(0);
+                }
+
+                const earnings = report[currency];
+
+                earnings.loans    = earnings.loans + 1;
+                earnings.amount   = earnings.amount.plus(entry.amount);
+                earnings.interest = earnings.interest.plus(entry.interest);
+                earnings.fees     = earnings.fees.plus(entry.fee);
+                earnings.earned   = earnings.earned.plus(entry.earned);
+                weighted[currency] = weighted[currency].plus(entry.rate.times(entry.amount));
+
+                earnings.averageRate = earnings.amount.isZero() ? null : weighted[currency].dividedBy(earnings.amount);
+            }
+
+            return report;
+        },
+
+        /**
+         * Runs a single cycle: cancels stale offers, then offers what is available beyond the reserve.  A cycle that
+         * is already running is joined rather than started over.
+         *
+         * @returns {Promise<ILendingCycle>}
+         */
+        run(): Promise<ILendingCycle> {
+            if (cycle !== null) return cycle;
+
+            const done = (): void => { cycle = null; };
+
+            cycle = runCycle();
+            cycle.then(done, done);
+
+            return cycle;
+        },
+
+        /**
+         * Runs a cycle right away and then every `interval` ms.
+         */
+        start(): void {
+            if (running) return;
+
+            running = true;
+            engine.run().then(schedule, (err: Error) => {
+                schedule();
+                emitError(err);
+            });
+        },
+
+        /**
+         * Stops running cycles.  Offers already placed stay open.
+         */
+        stop(): void {
+            running = false;
+            clearTimeout(timer);
+        },
+    };
+
+    return engine;
+};
@@ -0,0 +1,422 @@
+import { Decimal } from 'decimal.js';
+import { EventEmitter } from 'events';
+import { IPoloniexClient } from '../index';
+import { getErrorEmitter } from './events';
+import {
+    parseCloseMarginPosition, parseMarginAccountSummary, parseMarginOrderResult, parseMarginPosition, parseOpenOrders,
+    parseTicker, parseTradableBalances, IMarginAccountSummary, IMarginPosition, IResultingTrades, ITickers,
+    ITradableBalances,
+} from './models';
+import { DecimalValue } from './orderParams';
+
+const MAX_DECIMALS = 8;
+
+/**
+ * Default margin monitor configuration.
+ */
+const defaultMarginMonitorConfig: IMarginMonitorConfig = {
+    autoReduce      : null,
+    criticalDistance: '0.05',
+    criticalMargin  : '0.3',
+    pollInterval    : 10000,
+    warningDistance : '0.1',
+    warningMargin   : '0.5',
+};
+
+/**
+ * Default auto-reduce options.
+ */
+const defaultAutoReduceOptions: IAutoReduceOptions = {
+    fraction: '1',
+    slippage: '0.01',
+};
+
+export type MarginRiskLevel = 'ok' | 'warning' | 'critical';
+
+/**
+ * Critical positions are reduced by `fraction` of their amount (1, the default, closes them with
+ * #closeMarginPosition).  Partial reductions are placed with #marginSell (longs) or #marginBuy (shorts), `slippage`
+ * (a fraction) through the best bid or ask.  While such an order is still open, its position is not reduced again.
+ */
+export interface IAutoReduceOptions {
+    fraction?: DecimalValue;
+    slippage?: DecimalValue;
+}
+
+/**
+ * `warningMargin` and `criticalMargin` are the account's current margin at or below which it is at that level.
+ * `warningDistance` and `criticalDistance` are how close (as a fraction of the price) a position's price may come to
+ * its liquidation price.  `pollInterval` is in ms.  Positions are only reduced automatically if `autoReduce` is given.
+ * Failed polls and reductions go to `onError` unless an 'error' listener is attached.
+ */
+export interface IMarginMonitorConfig {
+    pollInterval?: number;
+    warningMargin?: DecimalValue;
+    criticalMargin?: DecimalValue;
+    warningDistance?: DecimalValue;
+    criticalDistance?: DecimalValue;
+    autoReduce?: IAutoReduceOptions;
+    onError?(err: Error): void;
+}
+
+/**
+ * An open position and how close it is to liquidation.  `price` is the last price, and `distance` how far it is from
+ * `liquidationPrice`, as a fraction of it (null if either is unknown).
+ */
+export interface IMarginPositionRisk {
+    currencyPair: string;
+    type: 'long' | 'short';
+    amount: Decimal;
+    basePrice: Decimal;
+    price: Decimal;
+    liquidationPrice: Decimal;
+    distance: Decimal;
+    pl: Decimal;
+    lendingFees: Decimal;
+    level: MarginRiskLevel;
+}
+
+/**
+ * The account as of a single poll.  `level` is that of the account's current margin.
+ */
+export interface IMarginRisk {
+    date: Date;
+    summary: IMarginAccountSummary;
+    currentMargin: Decimal;
+    level: MarginRiskLevel;
+    positions: IMarginPositionRisk[];
+    tradableBalances: ITradableBalances;
+}
+
+/**
+ * Emitted when the account (`currencyPair` is null) or a position changes level.  `measure` tells whether the current
+ * margin or the distance to liquidation changed level, and `threshold` is the threshold that was crossed.
+ */
+export interface IMarginAlert {
+    level: MarginRiskLevel;
+    currencyPair: string;
+    measure: 'margin' | 'liquidation';
+    value: Decimal;
+    threshold: Decimal;
+    risk: IMarginRisk;
+}
+
+/**
+ * Emitted after a position was reduced automatically.  `closed` is true if it was closed entirely.
+ */
+export interface IMarginReduction {
+    currencyPair: string;
+    type: 'long' | 'short';
+    amount: Decimal;
+    closed: boolean;
+    resultingTrades: IResultingTrades;
+}
+
+/**
+ * The shape of a margin monitor.
+ */
+export interface IMarginMonitor {
+
+    start(): void;
+
+    stop(): void;
+
+    check(): Promise<IMarginRisk>;
+
+    latest(): IMarginRisk;
+
+    on(event: 'update', listener: (risk: IMarginRisk) => void): this;
+
+    on(event: 'warning' | 'critical' | 'recovered', listener: (alert: IMarginAlert) => void): this;
+
+    on(event: 'reduce', listener: (reduction: IMarginReduction) => void): this;
+
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+/**
+ * The level of `value`, where lower is riskier.
+ */
+const levelOf = (value: Decimal, warning: DecimalValue, critical: DecimalValue): MarginRiskLevel =>
+    value === null ? 'ok' : value.lte(critical) ? 'critical' : value.lte(warning) ? 'warning' : 'ok';
+
+const toPositionRisk = (position: IMarginPosition, tickers: ITickers, config: IMarginMonitorConfig)
+    : IMarginPositionRisk => {
+    const price    = tickers[position.currencyPair] !== undefined ? tickers[position.currencyPair].last : null;
+    const distance = price !== null && !price.isZero() && position.liquidationPrice !== null ?
+                     price.minus(position.liquidationPrice).abs().dividedBy(price) :
+                     null;
+
+    return {
+        amount          : position.amount,
+        basePrice       : position.basePrice,
+        currencyPair    : position.currencyPair,
+        distance,
+        lendingFees     : position.lendingFees,
+        level           : levelOf(distance, config.warningDistance, config.criticalDistance),
+        liquidationPrice: position.liquidationPrice,
+        pl              : position.pl,
+        price,
+        type            : position.type === 'short' ? 'short' : 'long',
+    };
+};
+
+/**
+ * Factory function to get a margin monitor.  Every poll reads #returnMarginAccountSummary, #getMarginPosition,
+ * #returnTradableBalances and #returnTicker, and raises alerts when the account or a position changes level.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IMarginMonitorConfig} marginMonitorConfig
+ * @returns {IMarginMonitor}
+ */
+export const getMarginMonitor = (client: IPoloniexClient,
+                                 marginMonitorConfig: IMarginMonitorConfig = null): IMarginMonitor => {
+
+    // Construct local config object
+    const config     = { ...defaultMarginMonitorConfig, ...marginMonitorConfig };
+    const autoReduce = config.autoReduce !== undefined && config.autoReduce !== null ?
+                       { ...defaultAutoReduceOptions, ...config.autoReduce } :
+                       null;
+
+    const emitter = new EventEmitter();
+
+    // Last known level of the account ('account') and of each position (by currency pair)
+    const levels = new Map<string, MarginRiskLevel>();
+
+    // Reducing orders that may still be open, by currency pair
+    const pendingReductions = new Map<string, string>();
+
+    let running                        = false;
+    let timer: NodeJS.Timer            = null;
+    let checking: Promise<IMarginRisk> = null;
+    let current: IMarginRisk           = null;
+
+    const emitError = getErrorEmitter(emitter, config);
+
+    const alert = (key: string, alertToEmit: IMarginAlert): void => {
+        const previous = levels.has(key) ? levels.get(key) : 'ok';
+        levels.set(key, alertToEmit.level);
+
+        if (alertToEmit.level === previous) return;
+
+        emitter.emit(alertToEmit.level === 'ok' ? 'recovered' : alertToEmit.level, alertToEmit);
+    };
+
+    const thresholdFor = (level: MarginRiskLevel, warning: DecimalValue, critical: DecimalValue): Decimal =>
+        new Decimal(level === 'critical' ? critical : warning);
+
+    const raiseAlerts = (risk: IMarginRisk): void => {
+        alert('account', {
+            currencyPair: null,
+            level       : risk.level,
+            measure     : 'margin',
+            risk,
+            threshold   : thresholdFor(risk.level, config.warningMargin, config.criticalMargin),
+            value       : risk.currentMargin,
+        });
+
+        risk.positions.forEach((position) => alert(position.currencyPair, {
+            currencyPair: position.currencyPair,
+            level       : position.level,
+            measure     : 'liquidation',
+            risk,
+            threshold   : thresholdFor(position.level, config.warningDistance, config.criticalDistance),
+            value       : position.distance,
+        }));
+
+        // Positions that were closed recover
+        Array.from(levels.keys())
+             .filter((key) => key !== 'account' && !risk.positions.some((position) => position.currencyPair === key))
+             .forEach((currencyPair) => {
+                 alert(currencyPair, {
+                     currencyPair,
+                     level    : 'ok',
+                     measure  : 'liquidation',
+                     risk,
+                     threshold: new Decimal(config.warningDistance),
+                     value    : null,
+                 });
+                 levels.delete(currencyPair);
+             });
+    };
+
+    const reduce = async (position: IMarginPositionRisk, tickers: ITickers): Promise<IMarginReduction> => {
+        const { currencyPair, type } = position;
+        const fraction               = new Decimal(autoReduce.fraction);
+
+        if (fraction.gte(1)) {
+            const response = await client.closeMarginPosition({ currencyPair });
+
+            return {
+                amount         : position.amount.abs(),
+                closed         : true,
+                currencyPair,
+                resultingTrades: parseCloseMarginPosition(response.data).resultingTrades,
+                type,
+            };
+        }
+
+        const ticker = tickers[currencyPair];
+        if (ticker === undefined) {
+            emitError(new Error(`no ticker for ${currencyPair}, cannot reduce it`));
+
+            return null;
+        }
+
+        const amount = position.amount.abs().times(fraction).toDecimalPlaces(MAX_DECIMALS, Decimal.ROUND_DOWN);
+        const rate   = type === 'long' ?
+                       ticker.highestBid.times(new Decimal(1).minus(autoReduce.slippage)) :
+                       ticker.lowestAsk.times(new Decimal(1).plus(autoReduce.slippage));
+
+        const params   = { amount, currencyPair, rate: rate.toDecimalPlaces(MAX_DECIMALS) };
+        const { data } = type === 'long' ? await client.marginSell(params) : await client.marginBuy(params);
+        const result   = parseMarginOrderResult(data);
+
+        pendingReductions.set(currencyPair, result.orderNumber);
+
+        return { amount, closed: false, currencyPair, resultingTrades: result.resultingTrades, type };
+    };
+
+    /**
+     * Forgets the reducing orders that are no longer open.
+     */
+    const settleReductions = async (): Promise<void> => {
+        if (pendingReductions.size === 0) return;
+
+        const { data }   = await client.returnOpenOrders({ currencyPair: 'all' });
+        const openOrders = parseOpenOrders(data);
+
+        pendingReductions.forEach((orderNumber, currencyPair) => {
+            const orders = openOrders[currencyPair] !== undefined ? openOrders[currencyPair] : [];
+
+            if (!orders.some((order) => order.orderNumber === orderNumber)) pendingReductions.delete(currencyPair);
+        });
+    };
+
+    /**
+     * Reduces the critical positions, or every position if the account as a whole is critical.  Positions with a
+     * reducing order still open are left alone until it fills or is cancelled.
+     */
+    const reduceExposure = async (risk: IMarginRisk, tickers: ITickers): Promise<void> => {
+        await settleReductions();
+
+        const positions = risk.positions.filter((position) =>
+            (risk.level === 'critical' || position.level === 'critical') &&
+            !pendingReductions.has(position.currencyPair));
+
+        for (const position of positions) {
+            const reduction = await reduce(position, tickers);
+
+            if (reduction !== null) emitter.emit('reduce', reduction);
+        }
+    };
+
+    const poll = async (): Promise<IMarginRisk> => {
+        const [summaryResponse, positionResponse, tradableResponse, tickerResponse] = await Promise.all([
+            client.returnMarginAccountSummary(),
+            client.getMarginPosition(),
+            client.returnTradableBalances(),
+            client.returnTicker(),
+        ]);
+
+        const summary   = parseMarginAccountSummary(summaryResponse.data);
+        const tickers   = parseTicker(tickerResponse.data);
+        const positions = parseMarginPosition(positionResponse.data);
+
+        const risk: IMarginRisk = {
+            currentMargin   : summary.currentMargin,
+            date            : new Date(),
+            level           : levelOf(summary.currentMargin, config.warningMargin, config.criticalMargin),
+            positions       : Object.keys(positions)
+                                    .sort()
+                                    .map((currencyPair) => positions[currencyPair])
+                                    .filter((position) => position.type !== 'none' && !position.amount.isZero())
+                                    .map((position) => toPositionRisk(position, tickers, config)),
+            summary,
+            tradableBalances: parseTradableBalances(tradableResponse.data),
+        };
+
+        current = risk;
+        emitter.emit('update', risk);
+        raiseAlerts(risk);
+
+        if (autoReduce !== null) await reduceExposure(risk, tickers);
+
+        return risk;
+    };
+
+    const schedule = (): void => {
+        if (!running) return;
+
+        timer = setTimeout(() => {
+            monitor.check().then(schedule, (err: Error) => {
+                schedule();
+                emitError(err);
+            });
+        }, config.pollInterval);
+    };
+
+    const monitor: IMarginMonitor = {
+
+        /**
+         * Polls once, raising alerts and reducing exposure as configured.  A poll that is already running is joined
+         * rather than started over.
+         *
+         * @returns {Promise<IMarginRisk>}
+         */
+        check(): Promise<IMarginRisk> {
+            if (checking !== null) return checking;
+
+            const done = (): void => { checking = null; };
+
+            checking = poll();
+            checking.then(done, done);
+
+            return checking;
+        },
+
+        /**
+         * @returns {IMarginRisk} the result of the last poll, or null before the first one
+         */
+        latest(): IMarginRisk {
+            return current;
+        },
+
+        on(event: string, listener: Function): IMarginMonitor {
+            emitter.on(event, listener as (...args: Array<{}>) => void);
+
+            return monitor;
+        },
+
+        removeListener(event: string, listener: (...args: Array<{}>) => void): IMarginMonitor {
+            emitter.removeListener(event, listener);
+
+            return monitor;
+        },
+
+        /**
+         * Polls right away and then every `pollInterval` ms.
+         */
+        start(): void {
+            if (running) return;
+
+            running = true;
+            monitor.check().then(schedule, (err: Error) => {
+                schedule();
+                emitError(err);
+            });
+        },
+
+        /**
+         * Stops polling.
+         */
+        stop(): void {
+            running = false;
+            clearTimeout(timer);
+        },
+    };
+
+    return monitor;
+};
@@ -0,0 +1,380 @@
+import { EventEmitter } from 'events';
+import { IPoloniexClient, IPoloniexResponse, IWithdrawParams } from '../index';
+import { MarketUnavailableError } from './errors';
+import { getErrorEmitter } from './events';
+import { parseCurrencies, parseTicker, ICurrencies, ICurrency } from './models';
+import { wrapClient, ClientMethod } from './wrapClient';
+
+/**
+ * Default markets configuration.
+ */
+const defaultMarketsConfig: IMarketsConfig = {
+    refreshInterval: 300000,
+};
+
+/**
+ * `refreshInterval` is how often (ms) the registry reloads once started.  `onError` is told about failed reloads
+ * while the registry has no 'error' listener.
+ */
+export interface IMarketsConfig {
+    refreshInterval?: number;
+    onError?(err: Error): void;
+}
+
+/**
+ * A currency pair split into its base (the currency prices are quoted in) and quote currency.
+ */
+export interface ICurrencyPair {
+    currencyPair: string;
+    base: string;
+    quote: string;
+}
+
+/**
+ * A listed market, as found in returnTicker.
+ */
+export interface IMarket extends ICurrencyPair {
+    id: number;
+    isFrozen: boolean;
+}
+
+/**
+ * Emitted when a currency's `disabled`, `delisted` or `frozen` flag changed.
+ */
+export interface ICurrencyStatusChange {
+    currency: string;
+    previous: ICurrency;
+    current: ICurrency;
+}
+
+/**
+ * What changed in a refresh.  Nothing is reported as changed by the first load.
+ */
+export interface IMarketsUpdate {
+    date: Date;
+    listed: IMarket[];
+    delisted: IMarket[];
+    changed: ICurrencyStatusChange[];
+}
+
+/**
+ * The shape of a markets registry.
+ */
+export interface IMarkets {
+
+    start(): void;
+
+    stop(): void;
+
+    refresh(): Promise<IMarketsUpdate>;
+
+    isLoaded(): boolean;
+
+    currencies(): ICurrency[];
+
+    currency(currency: string): ICurrency;
+
+    markets(): IMarket[];
+
+    market(currencyPair: string): IMarket;
+
+    marketsFor(currency: string): IMarket[];
+
+    parsePair(currencyPair: string): IMarket;
+
+    tradingProblem(currencyPair: string): string;
+
+    withdrawalProblem(currency: string): string;
+
+    on(event: 'listing' | 'delisting', listener: (market: IMarket) => void): this;
+
+    on(event: 'status', listener: (change: ICurrencyStatusChange) => void): this;
+
+    on(event: 'update', listener: (update: IMarketsUpdate) => void): this;
+
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+const pairPattern = /^([A-Z0-9]+)_([A-Z0-9]+)$/;
+
+const statusFlags: Array<'delisted' | 'disabled' | 'frozen'> = ['delisted', 'disabled', 'frozen'];
+
+const tradingMethods = ['buy', 'marginBuy', 'marginSell', 'sell'];
+
+/**
+ * Splits a currency pair such as 'BTC_ETH' into its base and quote currencies, throwing a MarketUnavailableError if it
+ * is malformed.  Whether the market exists is not checked (see #IMarkets.parsePair).
+ *
+ * @param {string} currencyPair
+ * @returns {ICurrencyPair}
+ */
+export const parseCurrencyPair = (currencyPair: string): ICurrencyPair => {
+    const match = pairPattern.exec(`${currencyPair}`);
+
+    if (match === null) throw new MarketUnavailableError(`invalid currency pair ${currencyPair}`);
+
+    const [, base, quote] = match;
+
+    return { base, currencyPair, quote };
+};
+
+/**
+ * Why a currency cannot be traded or withdrawn, or null.
+ */
+const currencyProblem = (currency: string, status: ICurrency): string => {
+    if (status === undefined) return `unknown currency ${currency}`;
+
+    const flag = statusFlags.find((name) => status[name]);
+
+    return flag !== undefined ? `${currency} is ${flag}` : null;
+};
+
+/**
+ * Factory function to get a registry of markets and currencies, loaded from returnTicker and returnCurrencies.  Call
+ * #refresh (or #start, to keep it up to date) before reading from it.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IMarketsConfig} marketsConfig
+ * @returns {IMarkets}
+ */
+export const getMarkets = (client: IPoloniexClient, marketsConfig: IMarketsConfig = null): IMarkets => {
+
+    // Construct local config object
+    const config = { ...defaultMarketsConfig, ...marketsConfig };
+
+    const emitter = new EventEmitter();
+
+    let currencies: ICurrencies             = {};
+    let markets                             = new Map<string, IMarket>();
+    let loaded                              = false;
+    let running                             = false;
+    let timer: NodeJS.Timer                 = null;
+    let refreshing: Promise<IMarketsUpdate> = null;
+
+    const emitError = getErrorEmitter(emitter, config);
+
+    const diff = (nextCurrencies: ICurrencies, nextMarkets: Map<string, IMarket>): IMarketsUpdate => {
+        const update: IMarketsUpdate = { changed: [], date: new Date(), delisted: [], listed: [] };
+
+        if (!loaded) return update;
+
+        nextMarkets.forEach((market, pair) => { if (!markets.has(pair)) update.listed.push(market); });
+        markets.forEach((market, pair) => { if (!nextMarkets.has(pair)) update.delisted.push(market); });
+
+        Object.keys(nextCurrencies).forEach((currency) => {
+            const [previous, current] = [currencies[currency], nextCurrencies[currency]];
+
+            if (previous !== undefined && statusFlags.some((flag) => previous[flag] !== current[flag])) {
+                update.changed.push({ currency, current, previous });
+            }
+        });
+
+        return update;
+    };
+
+    const load = async (): Promise<IMarketsUpdate> => {
+        const [currenciesResponse, tickerResponse] = await Promise.all([
+            client.returnCurrencies(),
+            client.returnTicker(),
+        ]);
+
+        const tickers     = parseTicker(tickerResponse.data);
+        const nextMarkets = new Map<string, IMarket>();
+
+        Object.keys(tickers).sort().forEach((pair) => {
+            const { base, quote }  = parseCurrencyPair(pair);
+            const { id, isFrozen } = tickers[pair];
+
+            nextMarkets.set(pair, { base, currencyPair: pair, id, isFrozen, quote });
+        });
+
+        const nextCurrencies = parseCurrencies(currenciesResponse.data);
+        const update         = diff(nextCurrencies, nextMarkets);
+
+        [currencies, markets, loaded] = [nextCurrencies, nextMarkets, true];
+
+        update.listed.forEach((market) => emitter.emit('listing', market));
+        update.delisted.forEach((market) => emitter.emit('delisting', market));
+        update.changed.forEach((change) => emitter.emit('status', change));
+        emitter.emit('update', update);
+
+        return update;
+    };
+
+    const schedule = (): void => {
+        if (!running) return;
+
+        timer = setTimeout(() => {
+            registry.refresh().then(schedule, (err: Error) => {
+                schedule();
+                emitError(err);
+            });
+        }, config.refreshInterval);
+    };
+
+    const registry: IMarkets = {
+
+        /**
+         * @returns {ICurrency[]} every known currency, by code
+         */
+        currencies(): ICurrency[] {
+            return Object.keys(currencies).sort().map((currency) => currencies[currency]);
+        },
+
+        /**
+         * @returns {ICurrency} the currency (with its flags, `txFee` and `minConf`), or undefined if unknown
+         */
+        currency(currency: string): ICurrency {
+            return currencies[currency];
+        },
+
+        isLoaded(): boolean {
+            return loaded;
+        },
+
+        /**
+         * @returns {IMarket} the market, or undefined if it is not listed
+         */
+        market(currencyPair: string): IMarket {
+            return markets.get(currencyPair);
+        },
+
+        markets(): IMarket[] {
+            return Array.from(markets.values());
+        },
+
+        /**
+         * @returns {IMarket[]} the markets the currency is traded in, as base or quote
+         */
+        marketsFor(currency: string): IMarket[] {
+            return registry.markets().filter((market) => market.base === currency || market.quote === currency);
+        },
+
+        on(event: string, listener: Function): IMarkets {
+            emitter.on(event, listener as (...args: Array<{}>) => void);
+
+            return registry;
+        },
+
+        /**
+         * Parses a currency pair and checks that it is listed, throwing a MarketUnavailableError if not.
+         *
+         * @param {string} currencyPair
+         * @returns {IMarket}
+         */
+        parsePair(currencyPair: string): IMarket {
+            parseCurrencyPair(currencyPair);
+
+            const market = markets.get(currencyPair);
+            if (market === undefined) throw new MarketUnavailableError(`${currencyPair} is not listed`);
+
+            return market;
+        },
+
+        /**
+         * Reloads markets and currencies, emitting an event for each listing, delisting and status change.  A refresh
+         * that is already running is joined rather than started over.
+         *
+         * @returns {Promise<IMarketsUpdate>}
+         */
+        refresh(): Promise<IMarketsUpdate> {
+            if (refreshing !== null) return refreshing;
+
+            const done = (): void => { refreshing = null; };
+
+            refreshing = load();
+            refreshing.then(done, done);
+
+            return refreshing;
+        },
+
+        removeListener(event: string, listener: (...args: Array<{}>) => void): IMarkets {
+            emitter.removeListener(event, listener);
+
+            return registry;
+        },
+
+        /**
+         * Loads right away and then every `refreshInterval` ms.
+         */
+        start(): void {
+            if (running) return;
+
+            running = true;
+            registry.refresh().then(schedule, (err: Error) => {
+                schedule();
+                emitError(err);
+            });
+        },
+
+        /**
+         * Stops refreshing.
+         */
+        stop(): void {
+            running = false;
+            clearTimeout(timer);
+        },
+
+        /**
+         * @returns {string} why the pair cannot be traded (malformed, not listed, frozen, or one of its currencies
+         *                   unknown, disabled, delisted or frozen), or null
+         */
+        tradingProblem(currencyPair: string): string {
+            let pair: ICurrencyPair;
+            try {
+                pair = parseCurrencyPair(currencyPair);
+            } catch (err) {
+                return err.message;
+            }
+
+            const market = markets.get(currencyPair);
+
+            if (market === undefined) return `${currencyPair} is not listed`;
+            if (market.isFrozen) return `${currencyPair} is frozen`;
+
+            const problem = currencyProblem(pair.base, currencies[pair.base]);
+
+            return problem !== null ? problem : currencyProblem(pair.quote, currencies[pair.quote]);
+        },
+
+        /**
+         * @returns {string} why the currency cannot be withdrawn (unknown, disabled, delisted or frozen), or null
+         */
+        withdrawalProblem(currency: string): string {
+            return currencyProblem(currency, currencies[currency]);
+        },
+    };
+
+    return registry;
+};
+
+/**
+ * Returns a copy of the client that refuses (with a MarketUnavailableError) to place orders in markets, or withdraw
+ * currencies, the registry reports as unavailable.  The registry is loaded on first use if it has not been yet.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IMarkets} markets
+ * @returns {IPoloniexClient}
+ */
+export const withMarketGuards = (client: IPoloniexClient, markets: IMarkets): IPoloniexClient =>
+    wrapClient(client, (method: string, original: ClientMethod): ClientMethod => {
+        if (tradingMethods.indexOf(method) === -1 && method !== 'withdraw') return original;
+
+        return async (...args: Array<{}>): Promise<IPoloniexResponse> => {
+            const params = args[0] as { currencyPair?: string, currency?: string };
+
+            if (!markets.isLoaded()) await markets.refresh();
+
+            const problem = method === 'withdraw' ?
+                            markets.withdrawalProblem((params as IWithdrawParams).currency) :
+                            markets.tradingProblem(params.currencyPair);
+
+            if (problem !== null) {
+                return Promise.reject(new MarketUnavailableError(problem, { command: method, params }));
+            }
+
+            return original(...args);
+        };
+    });
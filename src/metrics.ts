@@ -0,0 +1,156 @@
+import { IMiddleware, IRequestContext } from './middleware';
+
+/**
+ * Counters and latency histogram for one command.  `buckets` are upper bounds in milliseconds and `counts` the number
+ * of requests that took at most that long (cumulative, as in Prometheus); `count` and `sum` cover every request.
+ */
+export interface ICommandMetrics {
+    endpoint: 'public' | 'private';
+    command: string;
+    requests: number;
+    errors: { [errorName: string]: number };
+    latency: {
+        buckets: number[];
+        counts: number[];
+        count: number;
+        sum: number;
+    };
+}
+
+/**
+ * Options for the metrics middleware.  `buckets` are the histogram's upper bounds, in milliseconds.
+ */
+export interface IMetricsConfig {
+    buckets?: number[];
+}
+
+/**
+ * Middleware counting requests and errors and timing responses, per command.
+ */
+export interface IMetricsMiddleware extends IMiddleware {
+    reset(): void;
+    snapshot(): ICommandMetrics[];
+}
+
+/**
+ * Default metrics configuration.
+ */
+const defaultMetricsConfig: IMetricsConfig = {
+    //tslint:disable-next-line:no-magic-numbers
+    buckets: [50, 100, 250, 500, 1000, 2500, 5000, 10000],
+};
+
+const MS_PER_SECOND = 1000;
+
+/**
+ * Factory function to get middleware collecting request counts, error counts (by error class) and latency histograms
+ * for each command.  Export them with #toPrometheusText.
+ *
+ * @param {IMetricsConfig} metricsConfig
+ * @returns {IMetricsMiddleware}
+ */
+export const getMetricsMiddleware = (metricsConfig: IMetricsConfig = null): IMetricsMiddleware => {
+
+    // Construct local config object
+    const config  = { ...defaultMetricsConfig, ...metricsConfig };
+    const buckets = [...config.buckets].sort((a, b) => a - b);
+
+    let metrics = new Map<string, ICommandMetrics>();
+
+    const metricsFor = (context: IRequestContext): ICommandMetrics => {
+        const key = `${context.endpoint} ${context.command}`;
+
+        if (!metrics.has(key)) {
+            metrics.set(key, {
+                command : context.command,
+                endpoint: context.endpoint,
+                errors  : {},
+                latency : { buckets, count: 0, counts: buckets.map(() => 0), sum: 0 },
+                requests: 0,
+            });
+        }
+
+        return metrics.get(key);
+    };
+
+    const observe = (context: IRequestContext): ICommandMetrics => {
+        const entry    = metricsFor(context);
+        const duration = Date.now() - context.startedAt;
+
+        entry.requests += 1;
+        entry.latency.count += 1;
+        entry.latency.sum += duration;
+        buckets.forEach((bound, i) => {
+            if (duration <= bound) entry.latency.counts[i] += 1;
+        });
+
+        return entry;
+    };
+
+    return {
+        afterResponse(context: IRequestContext): void {
+            observe(context);
+        },
+
+        onError(context: IRequestContext, err: Error): void {
+            const { errors } = observe(context);
+
+            errors[err.name] = (errors[err.name] !== undefined ? errors[err.name] : 0) + 1;
+        },
+
+        reset(): void {
+            metrics = new Map<string, ICommandMetrics>();
+        },
+
+        snapshot(): ICommandMetrics[] {
+            return Array.from(metrics.values()).map((entry) => ({
+                ...entry,
+                errors : { ...entry.errors },
+                latency: { ...entry.latency, counts: [...entry.latency.counts] },
+            }));
+        },
+    };
+};
+
+const escapeLabel = (value: string): string =>
+    `${value}`.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const labels = (values: { [label: string]: string }): string =>
+    `{${Object.keys(values).map((label) => `${label}="${escapeLabel(values[label])}"`).join(',')}}`;
+
+/**
+ * Renders metrics in the Prometheus text exposition format, with latencies in seconds.
+ *
+ * @param {ICommandMetrics[]} metrics
+ * @param {string} prefix
+ * @returns {string}
+ */
+export const toPrometheusText = (metrics: ICommandMetrics[], prefix: string = 'poloniex'): string => {
+    const lines = [
+        `# HELP ${prefix}_requests_total Requests sent to Poloniex.`,
+        `# TYPE ${prefix}_requests_total counter`,
+        ...metrics.map(({ endpoint, command, requests }) =>
+            `${prefix}_requests_total${labels({ endpoint, command })} ${requests}`),
+
+        `# HELP ${prefix}_request_errors_total Failed requests, by error class.`,
+        `# TYPE ${prefix}_request_errors_total counter`,
+        ...metrics.reduce((acc, { endpoint, command, errors }) => [
+            ...acc,
+            ...Object.keys(errors).map((error) =>
+                `${prefix}_request_errors_total${labels({ endpoint, command, error })} ${errors[error]}`),
+        ], []),
+
+        `# HELP ${prefix}_request_duration_seconds Time from sending a request to its response.`,
+        `# TYPE ${prefix}_request_duration_seconds histogram`,
+        ...metrics.reduce((acc, { endpoint, command, latency }) => [
+            ...acc,
+            ...latency.buckets.map((bound, i) => `${prefix}_request_duration_seconds_bucket` +
+                `${labels({ endpoint, command, le: `${bound / MS_PER_SECOND}` })} ${latency.counts[i]}`),
+            `${prefix}_request_duration_seconds_bucket${labels({ endpoint, command, le: '+Inf' })} ${latency.count}`,
+            `${prefix}_request_duration_seconds_sum${labels({ endpoint, command })} ${latency.sum / MS_PER_SECOND}`,
+            `${prefix}_request_duration_seconds_count${labels({ endpoint, command })} ${latency.count}`,
+        ], []),
+    ];
+
+    return `${lines.join('\n')}\n`;
+};
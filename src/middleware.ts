@@ -0,0 +1,158 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { redactParams, IRedactedParams } from './errors';
+
+/**
+ * A request on its way through the raw agent.  `request` is the axios config about to be sent (private requests are
+ * already signed, so changing their body invalidates the signature), `params` the query params or post body, and
+ * `state` a scratch space middleware may use to carry data from one hook to the next.  `startedAt` is set just before
+ * the request is sent.
+ */
+export interface IRequestContext {
+    endpoint: 'public' | 'private';
+    command: string;
+    params: {};
+    request: AxiosRequestConfig;
+    startedAt: number;
+    state: { [key: string]: {} };
+}
+
+/**
+ * Hooks run by the raw agent around every request it sends (each retry included).  `beforeRequest` hooks run in order
+ * and may reject to stop the request; `afterResponse` and `onError` hooks run in reverse order, and anything they
+ * throw is ignored, so that observing a call never changes its outcome.  `onError` receives the error the call rejects
+ * with, Poloniex error bodies included.
+ */
+export interface IMiddleware {
+    afterResponse?(context: IRequestContext, response: AxiosResponse): void | Promise<void>;
+    beforeRequest?(context: IRequestContext): void | Promise<void>;
+    onError?(context: IRequestContext, err: Error): void | Promise<void>;
+}
+
+/**
+ * A list of middleware run as one.
+ */
+export interface IMiddlewareChain {
+    afterResponse(context: IRequestContext, response: AxiosResponse): Promise<void>;
+    beforeRequest(context: IRequestContext): Promise<void>;
+    onError(context: IRequestContext, err: Error): Promise<void>;
+}
+
+/**
+ * A structured log line.  Params and headers are redacted, so `Key`, `Sign` and any key or secret never appear.
+ */
+export interface ILogEntry {
+    event: 'request' | 'response' | 'error';
+    time: string;
+    endpoint: 'public' | 'private';
+    command: string;
+    params: IRedactedParams;
+    headers?: IRedactedParams;
+    status?: number;
+    duration?: number;
+    error?: { name: string, message: string };
+    data?: {};
+}
+
+/**
+ * Options for the logging middleware.  Entries are handed to `log`, and responses are only logged with their data if
+ * `logResponseData` is set.
+ */
+export interface ILoggingConfig {
+    logRequests?: boolean;
+    logResponseData?: boolean;
+    log(entry: ILogEntry): void;
+}
+
+/**
+ * Default logging configuration.
+ */
+const defaultLoggingConfig = {
+    logRequests    : true,
+    logResponseData: false,
+};
+
+const ignoreErrors = async (hook: () => void | Promise<void>): Promise<void> => {
+    try {
+        await hook();
+    } catch (err) {
+        // Observers must not change the outcome of a call
+    }
+};
+
+/**
+ * Factory function to get a chain running each hook of the given middleware.
+ *
+ * @param {IMiddleware[]} middleware
+ * @returns {IMiddlewareChain}
+ */
+export const getMiddlewareChain = (middleware: IMiddleware[] = []): IMiddlewareChain => {
+    const reversed = [...middleware].reverse();
+
+    return {
+        async afterResponse(context: IRequestContext, response: AxiosResponse): Promise<void> {
+            for (const entry of reversed) {
+                if (entry.afterResponse !== undefined) await ignoreErrors(() => entry.afterResponse(context, response));
+            }
+        },
+
+        async beforeRequest(context: IRequestContext): Promise<void> {
+            for (const entry of middleware) {
+                if (entry.beforeRequest !== undefined) await entry.beforeRequest(context);
+            }
+        },
+
+        async onError(context: IRequestContext, err: Error): Promise<void> {
+            for (const entry of reversed) {
+                if (entry.onError !== undefined) await ignoreErrors(() => entry.onError(context, err));
+            }
+        },
+    };
+};
+
+/**
+ * Factory function to get middleware passing one structured entry per request, response and error to `log`.
+ *
+ * @param {ILoggingConfig} loggingConfig
+ * @returns {IMiddleware}
+ */
+export const getLoggingMiddleware = (loggingConfig: ILoggingConfig): IMiddleware => {
+
+    // Construct local config object
+    const config = { ...defaultLoggingConfig, ...loggingConfig };
+
+    const entry = (event: 'request' | 'response' | 'error', context: IRequestContext): ILogEntry => ({
+        command : context.command,
+        endpoint: context.endpoint,
+        event,
+        params  : redactParams(context.params),
+        time    : new Date().toISOString(),
+    });
+
+    return {
+        afterResponse(context: IRequestContext, response: AxiosResponse): void {
+            config.log({
+                ...entry('response', context),
+                duration: Date.now() - context.startedAt,
+                status  : response.status,
+                ...(config.logResponseData ? { data: response.data } : {}),
+            });
+        },
+
+        beforeRequest(context: IRequestContext): void {
+            if (!config.logRequests) return;
+
+            config.log({ ...entry('request', context), headers: redactParams(context.request.headers) });
+        },
+
+        onError(context: IRequestContext, err: Error): void {
+            const { status } = err as Error & { status?: number };
+
+            config.log({
+                ...entry('error', context),
+                duration: Date.now() - context.startedAt,
+                error   : { message: err.message, name: err.name },
+                ...(status !== undefined ? { status } : {}),
+            });
+        },
+    };
+};
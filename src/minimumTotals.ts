@@ -0,0 +1,38 @@
+import { Decimal } from 'decimal.js';
+import { RawNumber } from './models';
+
+/**
+ * The smallest order total (rate * amount) per base currency, and `defaultMinimumTotal` for the others.
+ */
+export interface IMinimumTotals {
+    minimumTotals?: { [baseCurrency: string]: RawNumber };
+    defaultMinimumTotal?: RawNumber;
+}
+
+/**
+ * The minimum totals Poloniex enforces.
+ */
+const defaultMinimumTotals: IMinimumTotals = {
+    defaultMinimumTotal: '0.0001',
+    minimumTotals      : { USDC: '1', USDT: '1' },
+};
+
+/**
+ * Returns the function giving the minimum total of a base currency.  `totals` overrides the defaults currency by
+ * currency.
+ *
+ * @param {IMinimumTotals} totals
+ * @returns {(base: string) => Decimal}
+ */
+export const getMinimumTotal = (totals: IMinimumTotals = null) => {
+    const minimumTotals       = {
+        ...defaultMinimumTotals.minimumTotals,
+        ...(totals !== null ? totals.minimumTotals : undefined),
+    };
+    const defaultMinimumTotal = totals !== null && totals.defaultMinimumTotal !== undefined ?
+                                totals.defaultMinimumTotal :
+                                defaultMinimumTotals.defaultMinimumTotal;
+
+    return (base: string): Decimal =>
+        new Decimal(minimumTotals[base] !== undefined ? minimumTotals[base] : defaultMinimumTotal);
+};
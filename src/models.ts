@@ -0,0 +1,911 @@
+import { Decimal } from 'decimal.js';
+
+export { Decimal };
+
+/**
+ * Poloniex sends most numeric values as strings, some as JSON numbers.
+ */
+export type RawNumber = string | number;
+
+/**
+ * Converts a raw numeric value to an exact decimal.
+ *
+ * @param {RawNumber} value
+ * @returns {Decimal}
+ */
+export const toDecimal = (value: RawNumber): Decimal => new Decimal(value);
+
+/**
+ * Converts a Poloniex date string (e.g. '2014-02-10 04:23:23', always UTC) to a Date.
+ *
+ * @param {string} value
+ * @returns {Date}
+ */
+export const toDate = (value: string): Date => new Date(`${value.replace(' ', 'T')}Z`);
+
+/**
+ * Converts a unix timestamp in seconds to a Date.
+ *
+ * @param {RawNumber} seconds
+ * @returns {Date}
+ */
+//tslint:disable-next-line:no-magic-numbers
+export const fromUnixTime = (seconds: RawNumber): Date => new Date(Number(seconds) * 1000);
+
+/**
+ * Poloniex flags are 0/1 as numbers or strings.
+ */
+const toBoolean = (value: RawNumber | boolean): boolean => `${value}` === '1' || value === true;
+
+const mapValues = <T, U>(data: { [key: string]: T }, fn: (value: T, key: string) => U): { [key: string]: U } =>
+    Object.keys(data).reduce<{ [key: string]: U }>((acc, key) => ({ ...acc, [key]: fn(data[key], key) }), {});
+
+// ---------------------------------------------------------------------------------------------------------------------
+// Raw (wire) shapes.  These are only used to give the parsers something better than `any` to work with, and are
+// exported so that the parsers' declarations can name them.
+// ---------------------------------------------------------------------------------------------------------------------
+
+export interface IRawTicker {
+    id: number;
+    last: string;
+    lowestAsk: string;
+    highestBid: string;
+    percentChange: string;
+    baseVolume: string;
+    quoteVolume: string;
+    isFrozen: string;
+    high24hr: string;
+    low24hr: string;
+}
+
+export interface IRawOrderBook {
+    asks: Array<[string, RawNumber]>;
+    bids: Array<[string, RawNumber]>;
+    isFrozen: string;
+    seq: number;
+}
+
+export interface IRawPublicTrade {
+    globalTradeID: number;
+    tradeID: number;
+    date: string;
+    type: 'buy' | 'sell';
+    rate: string;
+    amount: string;
+    total: string;
+}
+
+export interface IRawCandle {
+    date: number;
+    high: RawNumber;
+    low: RawNumber;
+    open: RawNumber;
+    close: RawNumber;
+    volume: RawNumber;
+    quoteVolume: RawNumber;
+    weightedAverage: RawNumber;
+}
+
+export interface IRawCurrency {
+    id: number;
+    name: string;
+    txFee: string;
+    minConf: number;
+    depositAddress: string;
+    disabled: number;
+    delisted: number;
+    frozen: number;
+}
+
+export interface IRawLoanOrder {
+    rate: string;
+    amount: string;
+    rangeMin: number;
+    rangeMax: number;
+}
+
+export interface IRawCompleteBalance {
+    available: string;
+    onOrders: string;
+    btcValue: string;
+}
+
+export interface IRawDeposit {
+    currency: string;
+    address: string;
+    amount: string;
+    confirmations: number;
+    txid: string;
+    timestamp: number;
+    status: string;
+}
+
+export interface IRawWithdrawal {
+    withdrawalNumber: number;
+    currency: string;
+    address: string;
+    amount: string;
+    timestamp: number;
+    status: string;
+    ipAddress: string;
+}
+
+export interface IRawOpenOrder {
+    orderNumber: string;
+    type: 'buy' | 'sell';
+    rate: string;
+    amount: string;
+    total: string;
+    startingAmount?: string;
+    date?: string;
+    margin?: number;
+}
+
+export interface IRawTrade {
+    globalTradeID: number;
+    tradeID: RawNumber;
+    currencyPair?: string;
+    date: string;
+    rate: string;
+    amount: string;
+    total: string;
+    fee: string;
+    orderNumber?: string;
+    type: 'buy' | 'sell';
+    category?: string;
+}
+
+export interface IRawResultingTrade {
+    tradeID: RawNumber;
+    date: string;
+    rate: string;
+    amount: string;
+    total: string;
+    type: 'buy' | 'sell';
+}
+
+export interface IRawMarginPosition {
+    amount: string;
+    total: string;
+    basePrice: string;
+    liquidationPrice: RawNumber;
+    pl: string;
+    lendingFees: string;
+    type: 'long' | 'short' | 'none';
+}
+
+export interface IRawLoanOffer {
+    id: number;
+    rate: string;
+    amount: string;
+    duration: number;
+    autoRenew: number;
+    date: string;
+}
+
+export interface IRawActiveLoan {
+    id: number;
+    currency: string;
+    rate: string;
+    amount: string;
+    range: number;
+    autoRenew?: number;
+    date: string;
+    fees: string;
+}
+
+export interface IRawLendingHistoryEntry {
+    id: number;
+    currency: string;
+    rate: string;
+    amount: string;
+    duration: string;
+    interest: string;
+    fee: string;
+    earned: string;
+    open: string;
+    close: string;
+}
+
+export interface IRawResult {
+    success?: number;
+    message?: string;
+    error?: string;
+}
+
+// ---------------------------------------------------------------------------------------------------------------------
+// Parsed models
+// ---------------------------------------------------------------------------------------------------------------------
+
+export interface IDecimals {
+    [key: string]: Decimal;
+}
+
+export interface ITicker {
+    currencyPair: string;
+    id: number;
+    last: Decimal;
+    lowestAsk: Decimal;
+    highestBid: Decimal;
+    percentChange: Decimal;
+    baseVolume: Decimal;
+    quoteVolume: Decimal;
+    isFrozen: boolean;
+    high24hr: Decimal;
+    low24hr: Decimal;
+}
+
+export interface ITickers {
+    [currencyPair: string]: ITicker;
+}
+
+/**
+ * Per-pair volumes keyed by currency, and the exchange-wide totals (the raw 'totalBTC', 'totalETH', ... keys).
+ */
+export interface IVolume24h {
+    pairs: { [currencyPair: string]: IDecimals };
+    totals: IDecimals;
+}
+
+export interface IOrderBookEntry {
+    rate: Decimal;
+    amount: Decimal;
+}
+
+export interface IOrderBookSnapshot {
+    currencyPair: string;
+    asks: IOrderBookEntry[];
+    bids: IOrderBookEntry[];
+    isFrozen: boolean;
+    seq: number;
+}
+
+/**
+ * Order books keyed by currency pair, whether one pair or 'all' was requested.
+ */
+export interface IOrderBooks {
+    [currencyPair: string]: IOrderBookSnapshot;
+}
+
+export interface IPublicTrade {
+    currencyPair: string;
+    globalTradeID: number;
+    tradeID: string;
+    date: Date;
+    type: 'buy' | 'sell';
+    rate: Decimal;
+    amount: Decimal;
+    total: Decimal;
+}
+
+export interface ICandle {
+    date: Date;
+    high: Decimal;
+    low: Decimal;
+    open: Decimal;
+    close: Decimal;
+    volume: Decimal;
+    quoteVolume: Decimal;
+    weightedAverage: Decimal;
+}
+
+export interface ICurrency {
+    currency: string;
+    id: number;
+    name: string;
+    txFee: Decimal;
+    minConf: number;
+    depositAddress: string;
+    disabled: boolean;
+    delisted: boolean;
+    frozen: boolean;
+}
+
+export interface ICurrencies {
+    [currency: string]: ICurrency;
+}
+
+export interface ILoanOrder {
+    rate: Decimal;
+    amount: Decimal;
+    rangeMin: number;
+    rangeMax: number;
+}
+
+export interface ILoanOrders {
+    offers: ILoanOrder[];
+    demands: ILoanOrder[];
+}
+
+export interface IBalance {
+    currency: string;
+    available: Decimal;
+    onOrders: Decimal;
+    btcValue: Decimal;
+}
+
+export interface ICompleteBalances {
+    [currency: string]: IBalance;
+}
+
+export interface IDepositAddresses {
+    [currency: string]: string;
+}
+
+export interface INewAddress {
+    success: boolean;
+    address: string;
+}
+
+export interface IDeposit {
+    currency: string;
+    address: string;
+    amount: Decimal;
+    confirmations: number;
+    txid: string;
+    timestamp: Date;
+    status: string;
+}
+
+export interface IWithdrawal {
+    withdrawalNumber: string;
+    currency: string;
+    address: string;
+    amount: Decimal;
+    timestamp: Date;
+    status: string;
+    ipAddress: string;
+}
+
+export interface IDepositsWithdrawals {
+    deposits: IDeposit[];
+    withdrawals: IWithdrawal[];
+}
+
+export interface IOpenOrder {
+    currencyPair: string;
+    orderNumber: string;
+    type: 'buy' | 'sell';
+    rate: Decimal;
+    amount: Decimal;
+    total: Decimal;
+    startingAmount?: Decimal;
+    date?: Date;
+    margin?: boolean;
+}
+
+/**
+ * Open orders keyed by currency pair, whether one pair or 'all' was requested.
+ */
+export interface IOpenOrders {
+    [currencyPair: string]: IOpenOrder[];
+}
+
+export interface ITrade {
+    currencyPair: string;
+    globalTradeID: number;
+    tradeID: string;
+    date: Date;
+    type: 'buy' | 'sell';
+    rate: Decimal;
+    amount: Decimal;
+    total: Decimal;
+    fee: Decimal;
+    orderNumber: string;
+    category: string;
+}
+
+/**
+ * Trades keyed by currency pair, whether one pair or 'all' was requested.
+ */
+export interface ITrades {
+    [currencyPair: string]: ITrade[];
+}
+
+export interface IResultingTrade {
+    tradeID: string;
+    date: Date;
+    type: 'buy' | 'sell';
+    rate: Decimal;
+    amount: Decimal;
+    total: Decimal;
+}
+
+export interface IResultingTrades {
+    [currencyPair: string]: IResultingTrade[];
+}
+
+export interface IOrderResult {
+    orderNumber: string;
+    resultingTrades: IResultingTrade[];
+    amountUnfilled?: Decimal;
+}
+
+export interface ISuccessResult {
+    success: boolean;
+    message: string;
+}
+
+export interface ICancelOrderResult extends ISuccessResult {
+    amount?: Decimal;
+}
+
+export interface IMoveOrderResult extends ISuccessResult {
+    orderNumber: string;
+    resultingTrades: IResultingTrades;
+}
+
+export interface IWithdrawResult {
+    response: string;
+}
+
+export interface IFeeInfo {
+    makerFee: Decimal;
+    takerFee: Decimal;
+    thirtyDayVolume: Decimal;
+    nextTier: Decimal;
+}
+
+export interface IAccountBalances {
+    [account: string]: IDecimals;
+}
+
+export interface ITradableBalances {
+    [currencyPair: string]: IDecimals;
+}
+
+export interface IMarginAccountSummary {
+    totalValue: Decimal;
+    pl: Decimal;
+    lendingFees: Decimal;
+    netValue: Decimal;
+    totalBorrowedValue: Decimal;
+    currentMargin: Decimal;
+}
+
+export interface IMarginOrderResult extends ISuccessResult {
+    orderNumber: string;
+    resultingTrades: IResultingTrades;
+}
+
+/**
+ * `liquidationPrice` is null when there is no position (Poloniex sends -1).
+ */
+export interface IMarginPosition {
+    currencyPair: string;
+    amount: Decimal;
+    total: Decimal;
+    basePrice: Decimal;
+    liquidationPrice: Decimal;
+    pl: Decimal;
+    lendingFees: Decimal;
+    type: 'long' | 'short' | 'none';
+}
+
+/**
+ * Margin positions keyed by currency pair, whether one pair or 'all' was requested.
+ */
+export interface IMarginPositions {
+    [currencyPair: string]: IMarginPosition;
+}
+
+export interface ICloseMarginPositionResult extends ISuccessResult {
+    resultingTrades: IResultingTrades;
+}
+
+export interface ICreateLoanOfferResult extends ISuccessResult {
+    orderID: string;
+}
+
+export interface ILoanOffer {
+    currency: string;
+    id: string;
+    rate: Decimal;
+    amount: Decimal;
+    duration: number;
+    autoRenew: boolean;
+    date: Date;
+}
+
+export interface ILoanOffers {
+    [currency: string]: ILoanOffer[];
+}
+
+export interface IActiveLoan {
+    id: string;
+    currency: string;
+    rate: Decimal;
+    amount: Decimal;
+    range: number;
+    autoRenew: boolean;
+    date: Date;
+    fees: Decimal;
+}
+
+export interface IActiveLoans {
+    provided: IActiveLoan[];
+    used: IActiveLoan[];
+}
+
+export interface ILendingHistoryEntry {
+    id: string;
+    currency: string;
+    rate: Decimal;
+    amount: Decimal;
+    duration: Decimal;
+    interest: Decimal;
+    fee: Decimal;
+    earned: Decimal;
+    open: Date;
+    close: Date;
+}
+
+export interface IToggleAutoRenewResult {
+    success: boolean;
+    autoRenew: boolean;
+}
+
+// ---------------------------------------------------------------------------------------------------------------------
+// Parsers
+// ---------------------------------------------------------------------------------------------------------------------
+
+const parseSuccess = (data: IRawResult): ISuccessResult =>
+    ({ message: data.message, success: toBoolean(data.success) });
+
+const parseResultingTrade = (trade: IRawResultingTrade): IResultingTrade => ({
+    amount : toDecimal(trade.amount),
+    date   : toDate(trade.date),
+    rate   : toDecimal(trade.rate),
+    total  : toDecimal(trade.total),
+    tradeID: `${trade.tradeID}`,
+    type   : trade.type,
+});
+
+const parseResultingTrades = (data: { [currencyPair: string]: IRawResultingTrade[] }): IResultingTrades =>
+    data !== undefined && data !== null ?
+    mapValues(data, (trades: IRawResultingTrade[]) => trades.map(parseResultingTrade)) :
+    {};
+
+const parseTickerEntry = (ticker: IRawTicker, currencyPair: string): ITicker => ({
+    baseVolume   : toDecimal(ticker.baseVolume),
+    currencyPair,
+    high24hr     : toDecimal(ticker.high24hr),
+    highestBid   : toDecimal(ticker.highestBid),
+    id           : ticker.id,
+    isFrozen     : toBoolean(ticker.isFrozen),
+    last         : toDecimal(ticker.last),
+    low24hr      : toDecimal(ticker.low24hr),
+    lowestAsk    : toDecimal(ticker.lowestAsk),
+    percentChange: toDecimal(ticker.percentChange),
+    quoteVolume  : toDecimal(ticker.quoteVolume),
+});
+
+export const parseTicker = (data: { [currencyPair: string]: IRawTicker }): ITickers =>
+    mapValues(data, parseTickerEntry);
+
+export const parse24Volume = (data: { [key: string]: RawNumber | { [currency: string]: string } }): IVolume24h => {
+    const totalPrefix = 'total';
+
+    return Object.keys(data).reduce<IVolume24h>((volume, key) => {
+        const value = data[key];
+
+        if (key.indexOf(totalPrefix) === 0) {
+            volume.totals[key.slice(totalPrefix.length)] = toDecimal(value as RawNumber);
+        } else {
+            volume.pairs[key] = mapValues(value as { [currency: string]: string }, toDecimal);
+        }
+
+        return volume;
+    }, { pairs: {}, totals: {} });
+};
+
+const parseOrderBookEntry = (book: IRawOrderBook, currencyPair: string): IOrderBookSnapshot => {
+    const toEntry = ([rate, amount]: [string, RawNumber]): IOrderBookEntry =>
+        ({ amount: toDecimal(amount), rate: toDecimal(rate) });
+
+    return {
+        asks    : book.asks.map(toEntry),
+        bids    : book.bids.map(toEntry),
+        currencyPair,
+        isFrozen: toBoolean(book.isFrozen),
+        seq     : book.seq,
+    };
+};
+
+/**
+ * Normalizes both the single pair and the 'all' shapes of #returnOrderBook to books keyed by currency pair.
+ *
+ * @param data
+ * @param {string} currencyPair the pair that was requested
+ * @returns {IOrderBooks}
+ */
+export const parseOrderBook = (data: IRawOrderBook | { [currencyPair: string]: IRawOrderBook },
+                               currencyPair: string = 'all'): IOrderBooks =>
+    currencyPair !== 'all' ?
+    { [currencyPair]: parseOrderBookEntry(data as IRawOrderBook, currencyPair) } :
+    mapValues(data as { [currencyPair: string]: IRawOrderBook }, parseOrderBookEntry);
+
+export const parsePublicTradeHistory = (data: IRawPublicTrade[], currencyPair: string): IPublicTrade[] =>
+    data.map((trade: IRawPublicTrade): IPublicTrade => ({
+        amount       : toDecimal(trade.amount),
+        currencyPair,
+        date         : toDate(trade.date),
+        globalTradeID: trade.globalTradeID,
+        rate         : toDecimal(trade.rate),
+        total        : toDecimal(trade.total),
+        tradeID      : `${trade.tradeID}`,
+        type         : trade.type,
+    }));
+
+export const parseChartData = (data: IRawCandle[]): ICandle[] =>
+    data.map((candle: IRawCandle): ICandle => ({
+        close          : toDecimal(candle.close),
+        date           : fromUnixTime(candle.date),
+        high           : toDecimal(candle.high),
+        low            : toDecimal(candle.low),
+        open           : toDecimal(candle.open),
+        quoteVolume    : toDecimal(candle.quoteVolume),
+        volume         : toDecimal(candle.volume),
+        weightedAverage: toDecimal(candle.weightedAverage),
+    }));
+
+export const parseCurrencies = (data: { [currency: string]: IRawCurrency }): ICurrencies =>
+    mapValues(data, (currency: IRawCurrency, key: string): ICurrency => ({
+        currency      : key,
+        delisted      : toBoolean(currency.delisted),
+        depositAddress: currency.depositAddress,
+        disabled      : toBoolean(currency.disabled),
+        frozen        : toBoolean(currency.frozen),
+        id            : currency.id,
+        minConf       : currency.minConf,
+        name          : currency.name,
+        txFee         : toDecimal(currency.txFee),
+    }));
+
+export const parseLoanOrders = (data: { offers: IRawLoanOrder[], demands: IRawLoanOrder[] }): ILoanOrders => {
+    const toLoanOrder = (order: IRawLoanOrder): ILoanOrder => ({
+        amount  : toDecimal(order.amount),
+        rangeMax: order.rangeMax,
+        rangeMin: order.rangeMin,
+        rate    : toDecimal(order.rate),
+    });
+
+    return { demands: data.demands.map(toLoanOrder), offers: data.offers.map(toLoanOrder) };
+};
+
+export const parseBalances = (data: { [currency: string]: string }): IDecimals => mapValues(data, toDecimal);
+
+export const parseCompleteBalances = (data: { [currency: string]: IRawCompleteBalance }): ICompleteBalances =>
+    mapValues(data, (balance: IRawCompleteBalance, currency: string): IBalance => ({
+        available: toDecimal(balance.available),
+        btcValue : toDecimal(balance.btcValue),
+        currency,
+        onOrders : toDecimal(balance.onOrders),
+    }));
+
+export const parseDepositAddresses = (data: { [currency: string]: string }): IDepositAddresses => ({ ...data });
+
+export const parseNewAddress = (data: { success: number, response: string }): INewAddress =>
+    ({ address: data.response, success: toBoolean(data.success) });
+
+export const parseDepositsWithdrawals = (data: { deposits: IRawDeposit[], withdrawals: IRawWithdrawal[] })
+    : IDepositsWithdrawals => ({
+    deposits   : data.deposits.map((deposit: IRawDeposit): IDeposit => ({
+        address      : deposit.address,
+        amount       : toDecimal(deposit.amount),
+        confirmations: deposit.confirmations,
+        currency     : deposit.currency,
+        status       : deposit.status,
+        timestamp    : fromUnixTime(deposit.timestamp),
+        txid         : deposit.txid,
+    })),
+    withdrawals: data.withdrawals.map((withdrawal: IRawWithdrawal): IWithdrawal => ({
+        address         : withdrawal.address,
+        amount          : toDecimal(withdrawal.amount),
+        currency        : withdrawal.currency,
+        ipAddress       : withdrawal.ipAddress,
+        status          : withdrawal.status,
+        timestamp       : fromUnixTime(withdrawal.timestamp),
+        withdrawalNumber: `${withdrawal.withdrawalNumber}`,
+    })),
+});
+
+const parseOpenOrderList = (orders: IRawOpenOrder[], currencyPair: string): IOpenOrder[] =>
+    orders.map((order: IRawOpenOrder): IOpenOrder => ({
+        amount        : toDecimal(order.amount),
+        currencyPair,
+        date          : order.date !== undefined ? toDate(order.date) : undefined,
+        margin        : order.margin !== undefined ? toBoolean(order.margin) : undefined,
+        orderNumber   : `${order.orderNumber}`,
+        rate          : toDecimal(order.rate),
+        startingAmount: order.startingAmount !== undefined ? toDecimal(order.startingAmount) : undefined,
+        total         : toDecimal(order.total),
+        type          : order.type,
+    }));
+
+/**
+ * Normalizes both the single pair (array) and the 'all' (object) shapes of #returnOpenOrders to orders keyed by
+ * currency pair.  With no open orders anywhere, 'all' comes back as an empty array.
+ *
+ * @param data
+ * @param {string} currencyPair the pair that was requested
+ * @returns {IOpenOrders}
+ */
+export const parseOpenOrders = (data: IRawOpenOrder[] | { [currencyPair: string]: IRawOpenOrder[] },
+                                currencyPair: string = 'all'): IOpenOrders =>
+    Array.isArray(data) ?
+    (currencyPair === 'all' && data.length === 0 ? {} : { [currencyPair]: parseOpenOrderList(data, currencyPair) }) :
+    mapValues(data, parseOpenOrderList);
+
+const parseTradeList = (trades: IRawTrade[], currencyPair: string): ITrade[] =>
+    trades.map((trade: IRawTrade): ITrade => ({
+        amount       : toDecimal(trade.amount),
+        category     : trade.category,
+        currencyPair : trade.currencyPair !== undefined ? trade.currencyPair : currencyPair,
+        date         : toDate(trade.date),
+        fee          : toDecimal(trade.fee),
+        globalTradeID: trade.globalTradeID,
+        orderNumber  : trade.orderNumber !== undefined ? `${trade.orderNumber}` : undefined,
+        rate         : toDecimal(trade.rate),
+        total        : toDecimal(trade.total),
+        tradeID      : `${trade.tradeID}`,
+        type         : trade.type,
+    }));
+
+/**
+ * Normalizes both the single pair (array) and the 'all' (object) shapes of the private #returnTradeHistory to trades
+ * keyed by currency pair.  With no trades anywhere, 'all' comes back as an empty array.
+ *
+ * @param data
+ * @param {string} currencyPair the pair that was requested
+ * @returns {ITrades}
+ */
+export const parsePrivateTradeHistory = (data: IRawTrade[] | { [currencyPair: string]: IRawTrade[] },
+                                         currencyPair: string = 'all'): ITrades =>
+    Array.isArray(data) ?
+    (currencyPair === 'all' && data.length === 0 ? {} : { [currencyPair]: parseTradeList(data, currencyPair) }) :
+    mapValues(data, parseTradeList);
+
+export const parseOrderTrades = (data: IRawTrade[]): ITrade[] => parseTradeList(data, undefined);
+
+export const parseOrderResult = (data: { orderNumber: RawNumber, resultingTrades: IRawResultingTrade[],
+                                         amountUnfilled?: string }): IOrderResult => ({
+    amountUnfilled : data.amountUnfilled !== undefined ? toDecimal(data.amountUnfilled) : undefined,
+    orderNumber    : `${data.orderNumber}`,
+    resultingTrades: data.resultingTrades.map(parseResultingTrade),
+});
+
+export const parseCancelOrder = (data: IRawResult & { amount?: string }): ICancelOrderResult => ({
+    ...parseSuccess(data),
+    amount: data.amount !== undefined ? toDecimal(data.amount) : undefined,
+});
+
+export const parseMoveOrder = (data: IRawResult & { orderNumber: RawNumber,
+                                                    resultingTrades: { [pair: string]: IRawResultingTrade[] } })
+    : IMoveOrderResult => ({
+    ...parseSuccess(data),
+    orderNumber    : `${data.orderNumber}`,
+    resultingTrades: parseResultingTrades(data.resultingTrades),
+});
+
+export const parseWithdraw = (data: { response: string }): IWithdrawResult => ({ response: data.response });
+
+export const parseFeeInfo = (data: { [key: string]: string }): IFeeInfo => ({
+    makerFee       : toDecimal(data.makerFee),
+    nextTier       : toDecimal(data.nextTier),
+    takerFee       : toDecimal(data.takerFee),
+    thirtyDayVolume: toDecimal(data.thirtyDayVolume),
+});
+
+export const parseAvailableAccountBalances = (data: { [account: string]: { [currency: string]: string } })
+    : IAccountBalances => mapValues(data, parseBalances);
+
+export const parseTradableBalances = (data: { [currencyPair: string]: { [currency: string]: string } })
+    : ITradableBalances => mapValues(data, parseBalances);
+
+export const parseTransferBalance = (data: IRawResult): ISuccessResult => parseSuccess(data);
+
+export const parseMarginAccountSummary = (data: { [key: string]: string }): IMarginAccountSummary => ({
+    currentMargin     : toDecimal(data.currentMargin),
+    lendingFees       : toDecimal(data.lendingFees),
+    netValue          : toDecimal(data.netValue),
+    pl                : toDecimal(data.pl),
+    totalBorrowedValue: toDecimal(data.totalBorrowedValue),
+    totalValue        : toDecimal(data.totalValue),
+});
+
+export const parseMarginOrderResult = (data: IRawResult & { orderNumber: RawNumber,
+                                                            resultingTrades: { [pair: string]: IRawResultingTrade[] } })
+    : IMarginOrderResult => ({
+    ...parseSuccess(data),
+    orderNumber    : `${data.orderNumber}`,
+    resultingTrades: parseResultingTrades(data.resultingTrades),
+});
+
+const parseMarginPositionEntry = (position: IRawMarginPosition, currencyPair: string): IMarginPosition => ({
+    amount          : toDecimal(position.amount),
+    basePrice       : toDecimal(position.basePrice),
+    currencyPair,
+    lendingFees     : toDecimal(position.lendingFees),
+    liquidationPrice: Number(position.liquidationPrice) < 0 ? null : toDecimal(position.liquidationPrice),
+    pl              : toDecimal(position.pl),
+    total           : toDecimal(position.total),
+    type            : position.type,
+});
+
+/**
+ * Normalizes both the single pair and the 'all' shapes of #getMarginPosition to positions keyed by currency pair.
+ *
+ * @param data
+ * @param {string} currencyPair the pair that was requested
+ * @returns {IMarginPositions}
+ */
+export const parseMarginPosition = (data: IRawMarginPosition | { [currencyPair: string]: IRawMarginPosition },
+                                    currencyPair: string = 'all'): IMarginPositions =>
+    currencyPair !== 'all' ?
+    { [currencyPair]: parseMarginPositionEntry(data as IRawMarginPosition, currencyPair) } :
+    mapValues(data as { [currencyPair: string]: IRawMarginPosition }, parseMarginPositionEntry);
+
+export const parseCloseMarginPosition = (data: IRawResult & {
+                                             resultingTrades: { [pair: string]: IRawResultingTrade[] },
+                                         }): ICloseMarginPositionResult => ({
+    ...parseSuccess(data),
+    resultingTrades: parseResultingTrades(data.resultingTrades),
+});
+
+export const parseCreateLoanOffer = (data: IRawResult & { orderID: RawNumber }): ICreateLoanOfferResult => ({
+    ...parseSuccess(data),
+    orderID: `${data.orderID}`,
+});
+
+export const parseCancelLoanOffer = (data: IRawResult): ISuccessResult => parseSuccess(data);
+
+export const parseOpenLoanOffers = (data: { [currency: string]: IRawLoanOffer[] }): ILoanOffers =>
+    mapValues(data, (offers: IRawLoanOffer[], currency: string) =>
+        offers.map((offer: IRawLoanOffer): ILoanOffer => ({
+            amount   : toDecimal(offer.amount),
+            autoRenew: toBoolean(offer.autoRenew),
+            currency,
+            date     : toDate(offer.date),
+            duration : offer.duration,
+            id       : `${offer.id}`,
+            rate     : toDecimal(offer.rate),
+        })));
+
+export const parseActiveLoans = (data: { provided?: IRawActiveLoan[], used?: IRawActiveLoan[] }): IActiveLoans => {
+    const toActiveLoan = (loan: IRawActiveLoan): IActiveLoan => ({
+        amount   : toDecimal(loan.amount),
+        autoRenew: toBoolean(loan.autoRenew),
+        currency : loan.currency,
+        date     : toDate(loan.date),
+        fees     : toDecimal(loan.fees),
+        id       : `${loan.id}`,
+        range    : loan.range,
+        rate     : toDecimal(loan.rate),
+    });
+
+    return {
+        provided: data.provided !== undefined ? data.provided.map(toActiveLoan) : [],
+        used    : data.used !== undefined ? data.used.map(toActiveLoan) : [],
+    };
+};
+
+export const parseLendingHistory = (data: IRawLendingHistoryEntry[]): ILendingHistoryEntry[] =>
+    data.map((entry: IRawLendingHistoryEntry): ILendingHistoryEntry => ({
+        amount  : toDecimal(entry.amount),
+        close   : toDate(entry.close),
+        currency: entry.currency,
+        duration: toDecimal(entry.duration),
+        earned  : toDecimal(entry.earned),
+        fee     : toDecimal(entry.fee),
+        id      : `${entry.id}`,
+        interest: toDecimal(entry.interest),
+        open    : toDate(entry.open),
+        rate    : toDecimal(entry.rate),
+    }));
+
+/**
+ * Poloniex reports the new auto-renew setting in the `message` field.
+ */
+export const parseToggleAutoRenew = (data: { success: number, message: RawNumber }): IToggleAutoRenewResult =>
+    ({ autoRenew: toBoolean(data.message), success: toBoolean(data.success) });
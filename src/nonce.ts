@@ -0,0 +1,187 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { promisify } from 'util';
+
+/**
+ * Issues nonces for private calls.  Nonces must increase strictly per API key, across every client (and process) that
+ * shares the key.  `minimum` asks for a nonce of at least that value, e.g. after Poloniex reported the one it expects.
+ */
+export interface INonceProvider {
+    getNonce(publicKey: string, minimum?: number): Promise<number>;
+}
+
+/**
+ * A shared store (Redis, a database, ...) that can atomically reserve the next nonce for a key.  `reserve` must return
+ * a value greater than both `minimum` and every value previously returned for `key`.
+ */
+export interface INonceStore {
+    reserve(key: string, minimum: number): Promise<number>;
+}
+
+export interface IFileNonceProviderConfig {
+    lockRetryInterval?: number;
+    lockTimeout?: number;
+    staleLockAge?: number;
+}
+
+/**
+ * Default file provider configuration.
+ */
+const defaultFileNonceProviderConfig = {
+    lockRetryInterval: 5,
+    lockTimeout      : 5000,
+    staleLockAge     : 10000,
+};
+
+const openFile   = promisify(fs.open);
+const closeFile  = promisify(fs.close);
+const readFile   = promisify(fs.readFile);
+const writeFile  = promisify(fs.writeFile);
+const renameFile = promisify(fs.rename);
+const statFile   = promisify(fs.stat);
+const unlinkFile = promisify(fs.unlink);
+
+const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => { setTimeout(resolve, ms); });
+
+/**
+ * The time based floor every nonce starts from (microsecond resolution, like the original #generateNonce).
+ *
+ * @returns {number}
+ */
+//tslint:disable-next-line:no-magic-numbers
+const timeFloor = (): number => Date.now() * 1000;
+
+/**
+ * Keys are stored by hash so that public keys never end up on disk or in a shared store.
+ *
+ * @param {string} publicKey
+ * @returns {string}
+ */
+export const nonceKey = (publicKey: string): string => crypto.createHash('sha256').update(publicKey).digest('hex');
+
+/**
+ * Poloniex reports the nonce it expects: 'Nonce must be greater than 1514764800000000. You provided 1514764799000000.'
+ *
+ * @param {string} message
+ * @returns {number} the smallest acceptable nonce, or undefined if the message does not say
+ */
+export const parseExpectedNonce = (message: string): number => {
+    const match = /greater than (\d+)/i.exec(message);
+
+    return match !== null ? Number(match[1]) + 1 : undefined;
+};
+
+/**
+ * Computes the next nonce from the last one issued for a key.
+ *
+ * @param {number} last
+ * @param {number} minimum
+ * @returns {number}
+ */
+const nextNonce = (last: number, minimum: number = 0): number =>
+    Math.max(timeFloor(), last + 1, minimum);
+
+/**
+ * Factory function to get a provider that keeps the last nonce per key in memory.  Clients in one process that share
+ * a provider never collide, even within the same millisecond.
+ *
+ * @returns {INonceProvider}
+ */
+export const getMemoryNonceProvider = (): INonceProvider => {
+    const lastIssued = new Map<string, number>();
+
+    return {
+        async getNonce(publicKey: string, minimum?: number): Promise<number> {
+            const key   = nonceKey(publicKey);
+            const nonce = nextNonce(lastIssued.has(key) ? lastIssued.get(key) : 0, minimum);
+            lastIssued.set(key, nonce);
+
+            return Promise.resolve(nonce);
+        },
+    };
+};
+
+/**
+ * The process-wide provider used by raw agents that are not given one.
+ */
+export const defaultNonceProvider: INonceProvider = getMemoryNonceProvider();
+
+/**
+ * Factory function to get a provider backed by a shared store.
+ *
+ * @param {INonceStore} store
+ * @returns {INonceProvider}
+ */
+export const getStoreNonceProvider = (store: INonceStore): INonceProvider => ({
+    getNonce(publicKey: string, minimum: number = 0): Promise<number> {
+        return store.reserve(nonceKey(publicKey), Math.max(timeFloor(), minimum));
+    },
+});
+
+/**
+ * Factory function to get a provider that shares nonces between processes through a state file guarded by a lock
+ * file (`<path>.lock`).  Locks older than `staleLockAge` are assumed to belong to a dead process and are broken.
+ *
+ * @param {string} path
+ * @param {IFileNonceProviderConfig} fileConfig
+ * @returns {INonceProvider}
+ */
+export const getFileNonceProvider = (path: string, fileConfig: IFileNonceProviderConfig = null): INonceProvider => {
+
+    // Construct local config object
+    const config   = { ...defaultFileNonceProviderConfig, ...fileConfig };
+    const lockPath = `${path}.lock`;
+
+    const acquireLock = async (): Promise<void> => {
+        const deadline = Date.now() + config.lockTimeout;
+
+        while (true) {
+            try {
+                await closeFile(await openFile(lockPath, 'wx'));
+
+                return Promise.resolve();
+            } catch (err) {
+                if (err.code !== 'EEXIST') return Promise.reject(err);
+            }
+
+            try {
+                const { mtime } = await statFile(lockPath);
+                if (Date.now() - mtime.getTime() > config.staleLockAge) await unlinkFile(lockPath);
+            } catch (err) {
+                // The lock was released between open and stat; just try again
+            }
+
+            if (Date.now() > deadline) return Promise.reject(new Error(`timed out acquiring nonce lock ${lockPath}`));
+
+            await sleep(config.lockRetryInterval);
+        }
+    };
+
+    const readState = async (): Promise<{ [key: string]: number }> => {
+        try {
+            return JSON.parse(await readFile(path, 'utf8'));
+        } catch (err) {
+            return err.code === 'ENOENT' ? {} : Promise.reject(err);
+        }
+    };
+
+    return {
+        async getNonce(publicKey: string, minimum?: number): Promise<number> {
+            await acquireLock();
+
+            try {
+                const key   = nonceKey(publicKey);
+                const state = await readState();
+                const nonce = nextNonce(state[key] !== undefined ? state[key] : 0, minimum);
+
+                // Write then rename so that a crash never leaves a truncated state file behind
+                await writeFile(`${path}.tmp`, JSON.stringify({ ...state, [key]: nonce }));
+                await renameFile(`${path}.tmp`, path);
+
+                return Promise.resolve(nonce);
+            } finally {
+                await unlinkFile(lockPath);
+            }
+        },
+    };
+};
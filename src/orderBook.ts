@@ -0,0 +1,372 @@
+import { EventEmitter } from 'events';
+import { IPoloniexClient } from '../index';
+import { getErrorEmitter } from './events';
+import { IOrderBookModifyEvent, IOrderBookSnapshotEvent, IPushClient, ITradeEvent } from './pushClient';
+
+/**
+ * Default order book configuration.
+ */
+const defaultOrderBookConfig = {
+    depth: '100',
+};
+
+/**
+ * `depth` is how many levels the REST snapshot loads.  Failed resyncs go to `onError` if nothing listens for 'error'.
+ */
+export interface IOrderBookConfig {
+    depth?: string;
+    onError?(err: Error): void;
+}
+
+/**
+ * A single price level.
+ */
+export interface IOrderBookLevel {
+    rate: string;
+    amount: string;
+}
+
+export interface IOrderBookDepth {
+    asks: IOrderBookLevel[];
+    bids: IOrderBookLevel[];
+}
+
+/**
+ * Emitted whenever a level is added, resized or removed (amount of zero).
+ */
+export interface IOrderBookChangeEvent {
+    currencyPair: string;
+    seq: number;
+    side: 'ask' | 'bid';
+    rate: string;
+    amount: string;
+}
+
+/**
+ * Emitted whenever the book has been (re)seeded from a full snapshot.
+ */
+export interface IOrderBookResyncEvent {
+    currencyPair: string;
+    seq: number;
+    source: 'rest' | 'push';
+}
+
+/**
+ * The shape of a locally maintained order book.
+ */
+export interface IOrderBook {
+
+    currencyPair: string;
+
+    seq: number;
+
+    isSynced(): boolean;
+
+    isFrozen(): boolean;
+
+    start(): Promise<void>;
+
+    stop(): Promise<void>;
+
+    resync(): Promise<void>;
+
+    applySnapshot(snapshot: IOrderBookSnapshotEvent): void;
+
+    applyUpdate(update: IOrderBookModifyEvent): void;
+
+    applyTrade(trade: ITradeEvent): void;
+
+    bestAsk(): IOrderBookLevel;
+
+    bestBid(): IOrderBookLevel;
+
+    top(levels: number): IOrderBookDepth;
+
+    on(event: 'change', listener: (e: IOrderBookChangeEvent) => void): this;
+
+    on(event: 'resync', listener: (e: IOrderBookResyncEvent) => void): this;
+
+    on(event: 'trade', listener: (e: ITradeEvent) => void): this;
+
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+/**
+ * A buffered delta is either a level update or a trade; both carry the frame sequence number.
+ */
+type Delta = { kind: 'update', update: IOrderBookModifyEvent } | { kind: 'trade', trade: ITradeEvent };
+
+const sortLevels = (levels: Map<string, string>, descending: boolean): IOrderBookLevel[] =>
+    Array.from(levels.entries())
+         .map(([rate, amount]) => ({ amount, rate }))
+         .sort((a, b) => descending ?
+                         parseFloat(b.rate) - parseFloat(a.rate) :
+                         parseFloat(a.rate) - parseFloat(b.rate));
+
+/**
+ * Factory function to get a locally maintained order book for a single currency pair.  The book is seeded from a
+ * #returnOrderBook snapshot and kept current with push deltas.  A sequence gap triggers a resync from REST.
+ *
+ * @param {string} currencyPair
+ * @param {IPoloniexClient} client
+ * @param {IPushClient} pushClient
+ * @param {IOrderBookConfig} orderBookConfig
+ * @returns {IOrderBook}
+ */
+export const getOrderBook = (currencyPair: string,
+                             client: IPoloniexClient,
+                             pushClient?: IPushClient,
+                             orderBookConfig: IOrderBookConfig = null): IOrderBook => {
+
+    // Construct local config object
+    const config = { ...defaultOrderBookConfig, ...orderBookConfig };
+
+    const emitter       = new EventEmitter();
+    const hasPushClient = pushClient !== undefined && pushClient !== null;
+    const asks          = new Map<string, string>();
+    const bids          = new Map<string, string>();
+
+    let synced                   = false;
+    let frozen                   = false;
+    let resyncing: Promise<void> = null;
+    let buffered: Delta[]        = [];
+
+    const emitError = getErrorEmitter(emitter, config);
+
+    const replaceLevels = (levels: Map<string, string>, entries: Array<[string, string]>): void => {
+        levels.clear();
+        entries.forEach(([rate, amount]) => { if (parseFloat(amount) > 0) levels.set(rate, amount); });
+    };
+
+    const deltaSeq = (delta: Delta): number => delta.kind === 'update' ? delta.update.seq : delta.trade.seq;
+
+    /**
+     * Applies a delta if it is in sequence.  Several deltas may share a sequence number (one push frame carries many
+     * entries), so the current sequence number is accepted as well as the next.
+     *
+     * @returns {boolean} false if a gap was detected
+     */
+    const applyDelta = (delta: Delta): boolean => {
+        const seq = deltaSeq(delta);
+
+        // Stale, already reflected in the snapshot
+        if (seq < book.seq) return true;
+
+        if (seq > book.seq + 1) return false;
+
+        book.seq = seq;
+
+        if (delta.kind === 'trade') {
+            emitter.emit('trade', delta.trade);
+
+            return true;
+        }
+
+        const { side, rate, amount } = delta.update;
+        const levels                 = side === 'ask' ? asks : bids;
+
+        if (parseFloat(amount) > 0) {
+            levels.set(rate, amount);
+        } else {
+            levels.delete(rate);
+        }
+
+        const event: IOrderBookChangeEvent = { amount, currencyPair, rate, seq, side };
+        emitter.emit('change', event);
+
+        return true;
+    };
+
+    const handleDelta = (delta: Delta): void => {
+
+        // Hold on to everything that arrives while a snapshot is in flight (or after a failed resync, retry)
+        if (!synced) {
+            buffered.push(delta);
+            if (resyncing === null && book.seq > 0) book.resync().catch(emitError);
+
+            return;
+        }
+
+        if (!applyDelta(delta)) {
+            buffered.push(delta);
+            book.resync().catch(emitError);
+        }
+    };
+
+    const onSnapshot = (snapshot: IOrderBookSnapshotEvent): void => {
+        if (snapshot.currencyPair === currencyPair) book.applySnapshot(snapshot);
+    };
+
+    const onUpdate = (update: IOrderBookModifyEvent): void => {
+        if (update.currencyPair === currencyPair) book.applyUpdate(update);
+    };
+
+    const onTrade = (trade: ITradeEvent): void => {
+        if (trade.currencyPair === currencyPair) book.applyTrade(trade);
+    };
+
+    const fetchSnapshot = async (): Promise<void> => {
+        synced = false;
+
+        const { data } = await client.returnOrderBook({ currencyPair, depth: config.depth });
+
+        const toEntries = (levels: Array<[string, number | string]>): Array<[string, string]> =>
+            levels.map(([rate, amount]): [string, string] => [rate, `${amount}`]);
+
+        replaceLevels(asks, toEntries(data.asks));
+        replaceLevels(bids, toEntries(data.bids));
+
+        book.seq = data.seq;
+        frozen   = data.isFrozen === '1';
+        synced   = true;
+
+        const event: IOrderBookResyncEvent = { currencyPair, seq: book.seq, source: 'rest' };
+        emitter.emit('resync', event);
+
+        // Replay whatever arrived in the meantime.  A fresh gap means the snapshot is already stale.
+        const pending = buffered;
+        buffered      = [];
+
+        for (const delta of pending) {
+            if (!applyDelta(delta)) {
+                synced   = false;
+                buffered = pending.slice(pending.indexOf(delta));
+
+                return Promise.reject(new Error(`sequence gap in ${currencyPair} after resync`));
+            }
+        }
+    };
+
+    const book: IOrderBook = {
+
+        currencyPair,
+
+        seq: 0,
+
+        /**
+         * Replaces the book with a full snapshot, e.g. the one the push feed sends on subscription.
+         *
+         * @param {IOrderBookSnapshotEvent} snapshot
+         */
+        applySnapshot(snapshot: IOrderBookSnapshotEvent): void {
+            const toEntries = (levels: { [rate: string]: string }): Array<[string, string]> =>
+                Object.keys(levels).map((rate): [string, string] => [rate, levels[rate]]);
+
+            replaceLevels(asks, toEntries(snapshot.asks));
+            replaceLevels(bids, toEntries(snapshot.bids));
+
+            book.seq = snapshot.seq;
+            synced   = true;
+            buffered = buffered.filter((delta) => deltaSeq(delta) > snapshot.seq);
+
+            const event: IOrderBookResyncEvent = { currencyPair, seq: book.seq, source: 'push' };
+            emitter.emit('resync', event);
+        },
+
+        /**
+         * Applies a sequenced trade.  Trades are emitted but do not move levels; the matching level updates do that.
+         *
+         * @param {ITradeEvent} trade
+         */
+        applyTrade(trade: ITradeEvent): void { handleDelta({ kind: 'trade', trade }); },
+
+        applyUpdate(update: IOrderBookModifyEvent): void { handleDelta({ kind: 'update', update }); },
+
+        bestAsk(): IOrderBookLevel {
+            const [best] = book.top(1).asks;
+
+            return best !== undefined ? best : null;
+        },
+
+        bestBid(): IOrderBookLevel {
+            const [best] = book.top(1).bids;
+
+            return best !== undefined ? best : null;
+        },
+
+        isFrozen(): boolean { return frozen; },
+
+        isSynced(): boolean { return synced; },
+
+        on(event: string, listener: Function): IOrderBook {
+            emitter.on(event, listener as (...args: Array<{}>) => void);
+
+            return book;
+        },
+
+        removeListener(event: string, listener: (...args: Array<{}>) => void): IOrderBook {
+            emitter.removeListener(event, listener);
+
+            return book;
+        },
+
+        /**
+         * Re-seeds the book from a #returnOrderBook snapshot.  Concurrent callers share the same request.
+         *
+         * @returns {Promise<void>}
+         */
+        async resync(): Promise<void> {
+            if (resyncing !== null) return resyncing;
+
+            resyncing = fetchSnapshot();
+
+            try {
+                await resyncing;
+
+                return Promise.resolve();
+            } catch (err) {
+                return Promise.reject(err);
+            } finally {
+                resyncing = null;
+            }
+        },
+
+        /**
+         * Attaches the book to the push client (if any), subscribes to the pair's channel and seeds from REST.
+         *
+         * @returns {Promise<void>}
+         */
+        async start(): Promise<void> {
+            if (hasPushClient) {
+                pushClient.on('orderBook', onSnapshot);
+                pushClient.on('orderBookModify', onUpdate);
+                pushClient.on('trade', onTrade);
+                await pushClient.subscribeOrderBook(currencyPair);
+            }
+
+            return book.resync();
+        },
+
+        /**
+         * Detaches the book from the push client.
+         *
+         * @returns {Promise<void>}
+         */
+        async stop(): Promise<void> {
+            if (!hasPushClient) return Promise.resolve();
+
+            pushClient.removeListener('orderBook', onSnapshot);
+            pushClient.removeListener('orderBookModify', onUpdate);
+            pushClient.removeListener('trade', onTrade);
+
+            return pushClient.unsubscribeOrderBook(currencyPair);
+        },
+
+        /**
+         * Returns the best `levels` levels on each side, best first.
+         *
+         * @param {number} levels
+         * @returns {IOrderBookDepth}
+         */
+        top(levels: number): IOrderBookDepth {
+            return {
+                asks: sortLevels(asks, false).slice(0, levels),
+                bids: sortLevels(bids, true).slice(0, levels),
+            };
+        },
+    };
+
+    return book;
+};
@@ -0,0 +1,235 @@
+import { Decimal } from 'decimal.js';
+import { IOrderBooks, IOrderBookEntry, IOrderBookSnapshot } from './models';
+import { DecimalValue } from './orderParams';
+
+/**
+ * Cumulative amounts (and totals, rate * amount) on each side.
+ */
+export interface IOrderBookDepthSummary {
+    bidAmount: Decimal;
+    bidTotal: Decimal;
+    askAmount: Decimal;
+    askTotal: Decimal;
+}
+
+/**
+ * What taking `amount` from the book would do.  `slippage` is how much worse `vwap` is than the best price, as a
+ * fraction of it.  `complete` is false if the book is not deep enough, in which case the estimate covers what there is.
+ */
+export interface IFillEstimate {
+    amount: Decimal;
+    filledAmount: Decimal;
+    total: Decimal;
+    vwap: Decimal;
+    worstRate: Decimal;
+    slippage: Decimal;
+    complete: boolean;
+}
+
+/**
+ * A level that stands out.  `distance` is how far it is from the mid price, as a fraction of it.
+ */
+export interface ILiquidityWall {
+    side: 'bid' | 'ask';
+    rate: Decimal;
+    amount: Decimal;
+    distance: Decimal;
+}
+
+/**
+ * A level is a wall if its amount is at least `minAmount`, or at least `multiple` times the median level amount on its
+ * side (5 by default).
+ */
+export interface IWallOptions {
+    minAmount?: DecimalValue;
+    multiple?: DecimalValue;
+}
+
+export interface IOrderBookSummary {
+    currencyPair: string;
+    bestBid: Decimal;
+    bestAsk: Decimal;
+    spread: Decimal;
+    midPrice: Decimal;
+    depth: IOrderBookDepthSummary;
+    imbalance: Decimal;
+}
+
+/**
+ * Default wall options.
+ */
+const defaultWallOptions = {
+    multiple: '5',
+};
+
+const sumOf = (values: Decimal[]): Decimal => values.reduce((acc, value) => acc.plus(value), new Decimal(0));
+
+//tslint:disable:no-magic-numbers
+const median = (values: Decimal[]): Decimal => {
+    const sorted = [...values].sort((a, b) => a.comparedTo(b));
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 === 1 ? sorted[middle] : sorted[middle - 1].plus(sorted[middle]).dividedBy(2);
+};
+//tslint:enable:no-magic-numbers
+
+const bestRate = (levels: IOrderBookEntry[]): Decimal => levels.length > 0 ? levels[0].rate : null;
+
+/**
+ * @param {IOrderBookSnapshot} book
+ * @returns {Decimal} the lowest ask minus the highest bid, or null if either side is empty
+ */
+export const spread = (book: IOrderBookSnapshot): Decimal => {
+    const [bid, ask] = [bestRate(book.bids), bestRate(book.asks)];
+
+    return bid !== null && ask !== null ? ask.minus(bid) : null;
+};
+
+/**
+ * @param {IOrderBookSnapshot} book
+ * @returns {Decimal} halfway between the highest bid and the lowest ask, or null if either side is empty
+ */
+export const midPrice = (book: IOrderBookSnapshot): Decimal => {
+    const [bid, ask] = [bestRate(book.bids), bestRate(book.asks)];
+
+    //tslint:disable-next-line:no-magic-numbers
+    return bid !== null && ask !== null ? bid.plus(ask).dividedBy(2) : null;
+};
+
+/**
+ * Sums up the levels within `within` (a fraction, e.g. 0.02 for 2%) of the mid price.  Without `within`, the whole
+ * book is summed up.
+ *
+ * @param {IOrderBookSnapshot} book
+ * @param {DecimalValue} within
+ * @returns {IOrderBookDepthSummary}
+ */
+export const depthWithin = (book: IOrderBookSnapshot, within?: DecimalValue): IOrderBookDepthSummary => {
+    const mid      = midPrice(book);
+    const hasRange = within !== undefined && within !== null && mid !== null;
+    const range    = hasRange ? mid.times(within) : null;
+
+    const bids = hasRange ? book.bids.filter((level) => level.rate.gte(mid.minus(range))) : book.bids;
+    const asks = hasRange ? book.asks.filter((level) => level.rate.lte(mid.plus(range))) : book.asks;
+
+    return {
+        askAmount: sumOf(asks.map((level) => level.amount)),
+        askTotal : sumOf(asks.map((level) => level.rate.times(level.amount))),
+        bidAmount: sumOf(bids.map((level) => level.amount)),
+        bidTotal : sumOf(bids.map((level) => level.rate.times(level.amount))),
+    };
+};
+
+/**
+ * Estimates buying (taking asks) or selling (taking bids) `amount` at once.
+ *
+ * @param {IOrderBookSnapshot} book
+ * @param {'buy' | 'sell'} type
+ * @param {DecimalValue} amount
+ * @returns {IFillEstimate}
+ */
+export const estimateFill = (book: IOrderBookSnapshot, type: 'buy' | 'sell', amount: DecimalValue): IFillEstimate => {
+    const levels = type === 'buy' ? book.asks : book.bids;
+    const wanted = new Decimal(amount);
+
+    let filledAmount       = new Decimal(0);
+    let total              = new Decimal(0);
+    let worstRate: Decimal = null;
+
+    for (const level of levels) {
+        if (filledAmount.gte(wanted)) break;
+
+        const taken  = Decimal.min(level.amount, wanted.minus(filledAmount));
+        filledAmount = filledAmount.plus(taken);
+        total        = total.plus(taken.times(level.rate));
+        worstRate    = level.rate;
+    }
+
+    const vwap = filledAmount.isZero() ? null : total.dividedBy(filledAmount);
+    const best = bestRate(levels);
+
+    return {
+        amount  : wanted,
+        complete: filledAmount.gte(wanted),
+        filledAmount,
+        slippage: vwap === null ? null : vwap.minus(best).abs().dividedBy(best),
+        total,
+        vwap,
+        worstRate,
+    };
+};
+
+/**
+ * Compares the bid and ask amounts within `within` of the mid price (or in the whole book): (bids - asks) /
+ * (bids + asks), from -1 (only asks) to 1 (only bids).
+ *
+ * @param {IOrderBookSnapshot} book
+ * @param {DecimalValue} within
+ * @returns {Decimal} the imbalance, or null if there is nothing in range
+ */
+export const imbalance = (book: IOrderBookSnapshot, within?: DecimalValue): Decimal => {
+    const { bidAmount, askAmount } = depthWithin(book, within);
+    const both                     = bidAmount.plus(askAmount);
+
+    return both.isZero() ? null : bidAmount.minus(askAmount).dividedBy(both);
+};
+
+/**
+ * Finds the levels that are much larger than the rest of their side, nearest to the mid price first.
+ *
+ * @param {IOrderBookSnapshot} book
+ * @param {IWallOptions} wallOptions
+ * @returns {ILiquidityWall[]}
+ */
+export const findWalls = (book: IOrderBookSnapshot, wallOptions: IWallOptions = null): ILiquidityWall[] => {
+
+    // Construct local options object
+    const options = { ...defaultWallOptions, ...wallOptions };
+    const mid     = midPrice(book);
+
+    const wallsOf = (side: 'bid' | 'ask', levels: IOrderBookEntry[]): ILiquidityWall[] => {
+        if (levels.length === 0) return [];
+
+        const threshold = options.minAmount !== undefined && options.minAmount !== null ?
+                          new Decimal(options.minAmount) :
+                          median(levels.map((level) => level.amount)).times(options.multiple);
+        const reference = mid !== null ? mid : levels[0].rate;
+
+        return levels.filter((level) => level.amount.gte(threshold))
+                     .map((level): ILiquidityWall => ({
+                         amount  : level.amount,
+                         distance: level.rate.minus(reference).abs().dividedBy(reference),
+                         rate    : level.rate,
+                         side,
+                     }));
+    };
+
+    return [...wallsOf('bid', book.bids), ...wallsOf('ask', book.asks)]
+        .sort((a, b) => a.distance.comparedTo(b.distance));
+};
+
+/**
+ * Summarizes every book of a parsed #returnOrderBook response (a single pair or 'all'), with depth and imbalance taken
+ * within `within` of the mid price.
+ *
+ * @param {IOrderBooks} books
+ * @param {DecimalValue} within
+ * @returns {{[currencyPair: string]: IOrderBookSummary}}
+ */
+export const summarizeOrderBooks = (books: IOrderBooks,
+                                    within?: DecimalValue): { [currencyPair: string]: IOrderBookSummary } =>
+    Object.keys(books).reduce<{ [currencyPair: string]: IOrderBookSummary }>((acc, currencyPair) => {
+        const book = books[currencyPair];
+
+        acc[currencyPair] = {
+            bestAsk  : bestRate(book.asks),
+            bestBid  : bestRate(book.bids),
+            currencyPair,
+            depth    : depthWithin(book, within),
+            imbalance: imbalance(book, within),
+            midPrice : midPrice(book),
+            spread   : spread(book),
+        };
+
+        return acc;
+    }, {});
@@ -0,0 +1,590 @@
+import { Decimal } from 'decimal.js';
+import { EventEmitter } from 'events';
+import { IBuyParams, IMoveOrderParams, IPoloniexClient, ISellParams } from '../index';
+import { PoloniexApiError } from './errors';
+import { getErrorEmitter } from './events';
+import { parseMoveOrder, parseOpenOrders, parseOrderResult, parseOrderTrades, IOpenOrder } from './models';
+import { serializeOrderFlags, DecimalValue } from './orderParams';
+import { IAccountTradeEvent, IOrderUpdateEvent, IPushClient } from './pushClient';
+
+/**
+ * Default order manager configuration.
+ */
+const defaultOrderManagerConfig = {
+    pollInterval: 5000,
+    timeout     : 0,
+};
+
+/**
+ * `pollInterval` is how often (ms) open orders are checked over REST, and `timeout` how long (ms) an order may stay
+ * open before its unfilled remainder is cancelled (0 for no timeout).  Failed polls and cancellations are passed to
+ * `onError` when there is no 'error' listener.
+ */
+export interface IOrderManagerConfig {
+    pollInterval?: number;
+    timeout?: number;
+    onError?(err: Error): void;
+}
+
+/**
+ * Per order options, overriding the manager's `timeout`.
+ */
+export interface ITrackOptions {
+    timeout?: number;
+}
+
+/**
+ * An order placed elsewhere, to be tracked from now on.
+ */
+export interface IOrderToTrack {
+    orderNumber: string;
+    currencyPair: string;
+    type: 'buy' | 'sell';
+    rate: DecimalValue;
+    amount: DecimalValue;
+}
+
+export type OrderStatus = 'new' | 'partiallyFilled' | 'filled' | 'cancelled';
+
+/**
+ * A tracked order.  `orderNumber` follows the order through moves; the numbers it had before are kept in
+ * `previousOrderNumbers`.  `amount` is the total amount, filled or not, and `averagePrice` is null until the first
+ * fill.
+ */
+export interface ITrackedOrder {
+    orderNumber: string;
+    previousOrderNumbers: string[];
+    currencyPair: string;
+    type: 'buy' | 'sell';
+    rate: Decimal;
+    amount: Decimal;
+    filledAmount: Decimal;
+    averagePrice: Decimal;
+    status: OrderStatus;
+    timedOut: boolean;
+}
+
+export interface IOrderFill {
+    tradeID: string;
+    rate: Decimal;
+    amount: Decimal;
+}
+
+/**
+ * Emitted for every fill, with the order as it is after the fill.
+ */
+export interface IOrderFillEvent {
+    order: ITrackedOrder;
+    fill: IOrderFill;
+}
+
+/**
+ * Emitted after a successful #moveOrder.
+ */
+export interface IOrderMoveEvent {
+    order: ITrackedOrder;
+    previousOrderNumber: string;
+}
+
+/**
+ * The shape of an order manager.
+ */
+export interface IOrderManager {
+
+    start(): Promise<void>;
+
+    stop(): Promise<void>;
+
+    refresh(): Promise<void>;
+
+    buy(queryParams: IBuyParams, options?: ITrackOptions): Promise<ITrackedOrder>;
+
+    sell(queryParams: ISellParams, options?: ITrackOptions): Promise<ITrackedOrder>;
+
+    track(order: IOrderToTrack, options?: ITrackOptions): ITrackedOrder;
+
+    move(queryParams: IMoveOrderParams): Promise<ITrackedOrder>;
+
+    cancel(orderNumber: string): Promise<ITrackedOrder>;
+
+    get(orderNumber: string): ITrackedOrder;
+
+    openOrders(): ITrackedOrder[];
+
+    whenDone(orderNumber: string): Promise<ITrackedOrder>;
+
+    on(event: 'new' | 'filled' | 'cancelled', listener: (order: ITrackedOrder) => void): this;
+
+    on(event: 'fill', listener: (e: IOrderFillEvent) => void): this;
+
+    on(event: 'moved', listener: (e: IOrderMoveEvent) => void): this;
+
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+/**
+ * What the manager knows about an order besides what it exposes.
+ */
+interface IOrderState {
+    order: ITrackedOrder;
+    tradeIDs: Set<string>;
+    total: Decimal;
+    trackedAt: number;
+    moving: boolean;
+    timer: NodeJS.Timer;
+    done: Promise<ITrackedOrder>;
+    resolve(order: ITrackedOrder): void;
+}
+
+/**
+ * How many filled or cancelled orders #get, #cancel and #whenDone still know about.
+ */
+const FINISHED_ORDERS_KEPT = 1000;
+
+const isOpen = (order: ITrackedOrder): boolean => order.status === 'new' || order.status === 'partiallyFilled';
+
+const snapshot = (order: ITrackedOrder): ITrackedOrder =>
+    ({ ...order, previousOrderNumbers: [...order.previousOrderNumbers] });
+
+/**
+ * Poloniex answers #returnOrderTrades with this error for an order without trades.
+ */
+const isOrderNotFound = (err: Error): boolean =>
+    err instanceof PoloniexApiError && /order not found/i.test(err.message);
+
+/**
+ * Factory function to get an order manager.  Orders placed (or tracked) through it are followed until they are filled
+ * or cancelled, using #returnOpenOrders and #returnOrderTrades, and account notifications from the push client (if
+ * any) for quicker fills.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IPushClient} pushClient
+ * @param {IOrderManagerConfig} orderManagerConfig
+ * @returns {IOrderManager}
+ */
+export const getOrderManager = (client: IPoloniexClient,
+                                pushClient?: IPushClient,
+                                orderManagerConfig: IOrderManagerConfig = null): IOrderManager => {
+
+    // Construct local config object
+    const config = { ...defaultOrderManagerConfig, ...orderManagerConfig };
+
+    const emitter       = new EventEmitter();
+    const hasPushClient = pushClient !== undefined && pushClient !== null;
+
+    // Open orders, keyed on current and previous order numbers alike
+    const states = new Map<string, IOrderState>();
+
+    // The last orders to be filled or cancelled, oldest first, keyed the same way
+    const finished = new Map<string, ITrackedOrder>();
+
+    let running                   = false;
+    let pollTimer: NodeJS.Timer   = null;
+    let refreshing: Promise<void> = null;
+
+    const emitError = getErrorEmitter(emitter, config);
+
+    const openStates = (): IOrderState[] =>
+        Array.from(new Set(states.values())).filter((state) => isOpen(state.order));
+
+    const finish = (state: IOrderState, status: 'filled' | 'cancelled'): void => {
+        if (!isOpen(state.order)) return;
+
+        clearTimeout(state.timer);
+        state.order.status = status;
+
+        const order = snapshot(state.order);
+        emitter.emit(status, order);
+        state.resolve(order);
+
+        [...order.previousOrderNumbers, order.orderNumber].forEach((orderNumber) => {
+            states.delete(orderNumber);
+            finished.set(orderNumber, order);
+        });
+
+        const orders = new Set(finished.values());
+        if (orders.size <= FINISHED_ORDERS_KEPT) return;
+
+        const oldest = orders.values().next().value;
+        [...oldest.previousOrderNumbers, oldest.orderNumber].forEach((orderNumber) => finished.delete(orderNumber));
+    };
+
+    const applyFill = (state: IOrderState, fill: IOrderFill): void => {
+        if (state.tradeIDs.has(fill.tradeID)) return;
+
+        state.tradeIDs.add(fill.tradeID);
+        state.total = state.total.plus(fill.rate.times(fill.amount));
+
+        const order        = state.order;
+        order.filledAmount = order.filledAmount.plus(fill.amount);
+        order.averagePrice = state.total.dividedBy(order.filledAmount);
+        if (order.status === 'new') order.status = 'partiallyFilled';
+
+        const event: IOrderFillEvent = { fill, order: snapshot(order) };
+        emitter.emit('fill', event);
+
+        if (order.filledAmount.gte(order.amount)) finish(state, 'filled');
+    };
+
+    /**
+     * Catches up on the fills of an order number.
+     */
+    const syncTrades = async (state: IOrderState, orderNumber: string): Promise<void> => {
+        try {
+            const { data } = await client.returnOrderTrades({ orderNumber });
+
+            parseOrderTrades(data).forEach((trade) =>
+                applyFill(state, { amount: trade.amount, rate: trade.rate, tradeID: trade.tradeID }));
+        } catch (err) {
+            if (!isOrderNotFound(err)) return Promise.reject(err);
+        }
+    };
+
+    /**
+     * Settles an order that is no longer open: it is filled if its trades add up, and cancelled otherwise.
+     */
+    const settle = async (state: IOrderState): Promise<void> => {
+        await syncTrades(state, state.order.orderNumber);
+        finish(state, 'cancelled');
+    };
+
+    const startTimer = (state: IOrderState, timeout: number): void => {
+        if (timeout <= 0) return;
+
+        state.timer = setTimeout(() => {
+            if (!isOpen(state.order)) return;
+
+            state.order.timedOut = true;
+            manager.cancel(state.order.orderNumber).catch(emitError);
+        }, timeout);
+    };
+
+    const poll = async (): Promise<void> => {
+        const active = openStates();
+        if (active.length === 0) return;
+
+        // Orders placed or moved while #returnOpenOrders is in flight may not be in its answer
+        const startedAt = Date.now();
+
+        const { data } = await client.returnOpenOrders({ currencyPair: 'all' });
+        const openOrders = parseOpenOrders(data);
+        const byNumber   = new Map<string, IOpenOrder>();
+
+        Object.keys(openOrders).forEach((currencyPair) =>
+            openOrders[currencyPair].forEach((open) => byNumber.set(open.orderNumber, open)));
+
+        // An order that cannot be settled is tried again next time, without holding up the others
+        const failures: Error[] = [];
+
+        for (const state of active) {
+            if (state.moving || state.trackedAt >= startedAt || !isOpen(state.order)) continue;
+
+            const open = byNumber.get(state.order.orderNumber);
+
+            try {
+                if (open === undefined) {
+                    await settle(state);
+                } else if (open.amount.lt(state.order.amount.minus(state.order.filledAmount))) {
+                    await syncTrades(state, state.order.orderNumber);
+                }
+            } catch (err) {
+                failures.push(err);
+            }
+        }
+
+        if (failures.length > 0) return Promise.reject(failures[0]);
+    };
+
+    const schedulePoll = (): void => {
+        if (!running) return;
+
+        pollTimer = setTimeout(() => {
+            manager.refresh().then(schedulePoll, (err: Error) => {
+                schedulePoll();
+                emitError(err);
+            });
+        }, config.pollInterval);
+    };
+
+    const onAccountTrade = (trade: IAccountTradeEvent): void => {
+        const state = states.get(trade.orderNumber);
+        if (state === undefined || state.order.orderNumber !== trade.orderNumber) return;
+
+        applyFill(state, { amount: new Decimal(trade.amount), rate: new Decimal(trade.rate), tradeID: trade.tradeID });
+    };
+
+    const onOrderUpdate = (update: IOrderUpdateEvent): void => {
+        const state = states.get(update.orderNumber);
+        if (state === undefined || state.order.orderNumber !== update.orderNumber || state.moving) return;
+
+        // An amount of zero means filled or cancelled, the trades tell which
+        if (new Decimal(update.amount).isZero()) settle(state).catch(emitError);
+    };
+
+    const place = async (command: 'buy' | 'sell',
+                         queryParams: IBuyParams | ISellParams,
+                         options: ITrackOptions): Promise<ITrackedOrder> => {
+        const { data } = await client[command](queryParams);
+        const result   = parseOrderResult(data);
+
+        const { currencyPair, rate, amount } = queryParams;
+        manager.track({ amount, currencyPair, orderNumber: result.orderNumber, rate, type: command }, options);
+
+        const state = states.get(result.orderNumber);
+        result.resultingTrades.forEach((trade) =>
+            applyFill(state, { amount: trade.amount, rate: trade.rate, tradeID: trade.tradeID }));
+
+        // Whatever fill-or-kill and immediate-or-cancel orders did not fill right away is gone
+        const flags = serializeOrderFlags(queryParams);
+        if (flags.fillOrKill === 1 || flags.immediateOrCancel === 1) finish(state, 'cancelled');
+
+        return snapshot(state.order);
+    };
+
+    const manager: IOrderManager = {
+
+        /**
+         * Places a buy order and tracks it.  Fills that happened right away are already applied.
+         *
+         * @param {IBuyParams} queryParams
+         * @param {ITrackOptions} options
+         * @returns {Promise<ITrackedOrder>}
+         */
+        buy(queryParams: IBuyParams, options?: ITrackOptions): Promise<ITrackedOrder> {
+            return place('buy', queryParams, options);
+        },
+
+        /**
+         * Cancels an order.  If it was filled in the meantime, it is returned as filled instead.
+         *
+         * @param {string} orderNumber
+         * @returns {Promise<ITrackedOrder>}
+         */
+        async cancel(orderNumber: string): Promise<ITrackedOrder> {
+            if (finished.has(orderNumber)) return snapshot(finished.get(orderNumber));
+
+            const state = states.get(orderNumber);
+            if (state === undefined) return Promise.reject(new Error(`order ${orderNumber} is not tracked`));
+            if (!isOpen(state.order)) return snapshot(state.order);
+
+            try {
+                await client.cancelOrder({ orderNumber: state.order.orderNumber });
+            } catch (err) {
+                await syncTrades(state, state.order.orderNumber);
+                if (!isOpen(state.order)) return snapshot(state.order);
+
+                return Promise.reject(err);
+            }
+
+            await settle(state);
+
+            return snapshot(state.order);
+        },
+
+        /**
+         * Returns an open order, or one of the last orders to be filled or cancelled (null if it is not known).
+         *
+         * @param {string} orderNumber
+         * @returns {ITrackedOrder}
+         */
+        get(orderNumber: string): ITrackedOrder {
+            if (finished.has(orderNumber)) return snapshot(finished.get(orderNumber));
+
+            const state = states.get(orderNumber);
+
+            return state !== undefined ? snapshot(state.order) : null;
+        },
+
+        /**
+         * Moves an order to a new rate (and optionally amount), following it to its new order number.  Fills of the
+         * old order number are collected first.
+         *
+         * @param {IMoveOrderParams} queryParams
+         * @returns {Promise<ITrackedOrder>}
+         */
+        async move(queryParams: IMoveOrderParams): Promise<ITrackedOrder> {
+            const state = states.get(queryParams.orderNumber);
+            if (state === undefined) {
+                return Promise.reject(new Error(`order ${queryParams.orderNumber} is not tracked`));
+            }
+
+            const previousOrderNumber = state.order.orderNumber;
+
+            state.moving = true;
+            try {
+                const { data } = await client.moveOrder({ ...queryParams, orderNumber: previousOrderNumber });
+                const result   = parseMoveOrder(data);
+
+                await syncTrades(state, previousOrderNumber);
+
+                const order = state.order;
+                order.previousOrderNumbers.push(previousOrderNumber);
+                order.orderNumber = result.orderNumber;
+                order.rate        = new Decimal(queryParams.rate);
+                if (queryParams.amount !== undefined && queryParams.amount !== null) {
+                    order.amount = order.filledAmount.plus(queryParams.amount);
+                }
+
+                if (isOpen(order)) states.set(result.orderNumber, state);
+                state.trackedAt = Date.now();
+
+                const event: IOrderMoveEvent = { order: snapshot(order), previousOrderNumber };
+                emitter.emit('moved', event);
+
+                const trades = result.resultingTrades[order.currencyPair];
+                (trades !== undefined ? trades : []).forEach((trade) =>
+                    applyFill(state, { amount: trade.amount, rate: trade.rate, tradeID: trade.tradeID }));
+
+                if (serializeOrderFlags(queryParams).immediateOrCancel === 1) finish(state, 'cancelled');
+
+                return snapshot(order);
+            } finally {
+                state.moving = false;
+            }
+        },
+
+        on(event: string, listener: Function): IOrderManager {
+            emitter.on(event, listener as (...args: Array<{}>) => void);
+
+            return manager;
+        },
+
+        /**
+         * Returns the orders that are still open, i.e. new or partially filled.
+         *
+         * @returns {ITrackedOrder[]}
+         */
+        openOrders(): ITrackedOrder[] { return openStates().map((state) => snapshot(state.order)); },
+
+        /**
+         * Checks the open orders once.  Concurrent callers share the same check.
+         *
+         * @returns {Promise<void>}
+         */
+        async refresh(): Promise<void> {
+            if (refreshing !== null) return refreshing;
+
+            refreshing = poll();
+
+            try {
+                await refreshing;
+
+                return Promise.resolve();
+            } catch (err) {
+                return Promise.reject(err);
+            } finally {
+                refreshing = null;
+            }
+        },
+
+        removeListener(event: string, listener: (...args: Array<{}>) => void): IOrderManager {
+            emitter.removeListener(event, listener);
+
+            return manager;
+        },
+
+        sell(queryParams: ISellParams, options?: ITrackOptions): Promise<ITrackedOrder> {
+            return place('sell', queryParams, options);
+        },
+
+        /**
+         * Starts polling, and listening to account notifications if there is a push client.
+         *
+         * @returns {Promise<void>}
+         */
+        async start(): Promise<void> {
+            if (running) return Promise.resolve();
+
+            running = true;
+            schedulePoll();
+
+            if (hasPushClient) {
+                pushClient.on('accountTrade', onAccountTrade);
+                pushClient.on('orderUpdate', onOrderUpdate);
+                await pushClient.subscribeAccountNotifications();
+            }
+        },
+
+        /**
+         * Stops polling and detaches from the push client.  Orders stay tracked, and timeouts still apply.
+         *
+         * @returns {Promise<void>}
+         */
+        async stop(): Promise<void> {
+            running = false;
+            clearTimeout(pollTimer);
+
+            if (!hasPushClient) return Promise.resolve();
+
+            pushClient.removeListener('accountTrade', onAccountTrade);
+            pushClient.removeListener('orderUpdate', onOrderUpdate);
+
+            return pushClient.unsubscribeAccountNotifications();
+        },
+
+        /**
+         * Tracks an order placed elsewhere (or returns the order if it is already tracked).
+         *
+         * @param {IOrderToTrack} order
+         * @param {ITrackOptions} options
+         * @returns {ITrackedOrder}
+         */
+        track(order: IOrderToTrack, options?: ITrackOptions): ITrackedOrder {
+            if (finished.has(order.orderNumber) || states.has(order.orderNumber)) return manager.get(order.orderNumber);
+
+            let resolve: (done: ITrackedOrder) => void;
+            const done = new Promise<ITrackedOrder>((resolveDone) => { resolve = resolveDone; });
+
+            const state: IOrderState = {
+                done,
+                moving   : false,
+                order    : {
+                    amount              : new Decimal(order.amount),
+                    averagePrice        : null,
+                    currencyPair        : order.currencyPair,
+                    filledAmount        : new Decimal(0),
+                    orderNumber         : order.orderNumber,
+                    previousOrderNumbers: [],
+                    rate                : new Decimal(order.rate),
+                    status              : 'new',
+                    timedOut            : false,
+                    type                : order.type,
+                },
+                resolve,
+                timer    : null,
+                total    : new Decimal(0),
+                trackedAt: Date.now(),
+                tradeIDs : new Set<string>(),
+            };
+
+            const hasTimeout = options !== undefined && options !== null && options.timeout !== undefined;
+
+            states.set(order.orderNumber, state);
+            startTimer(state, hasTimeout ? options.timeout : config.timeout);
+
+            emitter.emit('new', snapshot(state.order));
+
+            return snapshot(state.order);
+        },
+
+        /**
+         * Resolves once the order is filled or cancelled.
+         *
+         * @param {string} orderNumber
+         * @returns {Promise<ITrackedOrder>}
+         */
+        whenDone(orderNumber: string): Promise<ITrackedOrder> {
+            if (finished.has(orderNumber)) return Promise.resolve(snapshot(finished.get(orderNumber)));
+
+            const state = states.get(orderNumber);
+
+            if (state === undefined) return Promise.reject(new Error(`order ${orderNumber} is not tracked`));
+
+            return state.done;
+        },
+    };
+
+    return manager;
+};
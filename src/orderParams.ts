@@ -0,0 +1,90 @@
+import { Decimal } from 'decimal.js';
+import { RawNumber } from './models';
+
+/**
+ * Rates and amounts.  Pass strings or Decimals to avoid floating point surprises; numbers are accepted as before.
+ */
+export type DecimalValue = RawNumber | Decimal;
+
+/**
+ * An order flag.  Strings ('1'/'0') are accepted for backward compatibility.
+ */
+export type OrderFlag = boolean | RawNumber;
+
+/**
+ * How long an order stays on the book.  Each value other than GoodTillCancelled sets the matching order flag.
+ */
+export enum TimeInForce {
+    GoodTillCancelled = 'GTC',
+    FillOrKill        = 'FOK',
+    ImmediateOrCancel = 'IOC',
+    PostOnly          = 'PO',
+}
+
+export interface IOrderFlags {
+    fillOrKill?: OrderFlag;
+    immediateOrCancel?: OrderFlag;
+    postOnly?: OrderFlag;
+    timeInForce?: TimeInForce;
+}
+
+/**
+ * Flags as the API expects them.  Unset flags are left out.
+ */
+export interface ISerializedOrderFlags {
+    fillOrKill?: number;
+    immediateOrCancel?: number;
+    postOnly?: number;
+}
+
+const flagsByTimeInForce: { [timeInForce: string]: keyof ISerializedOrderFlags } = {
+    [TimeInForce.FillOrKill]       : 'fillOrKill',
+    [TimeInForce.ImmediateOrCancel]: 'immediateOrCancel',
+    [TimeInForce.PostOnly]         : 'postOnly',
+};
+
+/**
+ * Formats a rate or amount in plain notation, so that e.g. 1e-7 is sent as '0.0000001'.  Values that are not numbers
+ * are passed through for Poloniex to reject.
+ *
+ * @param {DecimalValue} value
+ * @returns {string}
+ */
+export const formatDecimal = (value: DecimalValue): string => {
+    if (value === undefined || value === null) return undefined;
+
+    try {
+        return new Decimal(value).toFixed();
+    } catch (err) {
+        return `${value}`;
+    }
+};
+
+/**
+ * @param {OrderFlag} flag
+ * @returns {number} 1 or 0, or undefined if the flag is not given
+ */
+const serializeFlag = (flag: OrderFlag): number => {
+    if (flag === undefined || flag === null) return undefined;
+
+    return flag === true || `${flag}` === '1' || `${flag}` === 'true' ? 1 : 0;
+};
+
+/**
+ * Serializes the order flags, applying `timeInForce`.
+ *
+ * @param {IOrderFlags} flags
+ * @returns {ISerializedOrderFlags}
+ */
+export const serializeOrderFlags = (flags: IOrderFlags): ISerializedOrderFlags => {
+    const serialized: ISerializedOrderFlags = {
+        fillOrKill       : serializeFlag(flags.fillOrKill),
+        immediateOrCancel: serializeFlag(flags.immediateOrCancel),
+        postOnly         : serializeFlag(flags.postOnly),
+    };
+
+    const flag = flagsByTimeInForce[flags.timeInForce];
+    if (flag !== undefined) serialized[flag] = 1;
+
+    return serialized;
+};
@@ -0,0 +1,181 @@
+import { Decimal } from 'decimal.js';
+import { IPoloniexClient, IPoloniexResponse } from '../index';
+import { OrderValidationError } from './errors';
+import { getMinimumTotal } from './minimumTotals';
+import { RawNumber } from './models';
+import { serializeOrderFlags, DecimalValue, IOrderFlags } from './orderParams';
+import { wrapClient, ClientMethod } from './wrapClient';
+
+/**
+ * The validation options accepted by #getClient.
+ *
+ *  - `minimumTotals` is the smallest order total (rate * amount) per base currency, `defaultMinimumTotal` applies to
+ *    the others,
+ *  - `checkCurrencies` rejects pairs that are not listed in returnTicker or are frozen there, and pairs with a
+ *    currency that is disabled, frozen or delisted according to returnCurrencies.  Both are cached for `currencyTtl`
+ *    milliseconds.
+ */
+export interface IOrderValidationConfig {
+    minimumTotals?: { [baseCurrency: string]: RawNumber };
+    defaultMinimumTotal?: RawNumber;
+    checkCurrencies?: boolean;
+    currencyTtl?: number;
+}
+
+/**
+ * An order as validated: the params of buy, sell, marginBuy, marginSell and moveOrder.
+ */
+export interface IValidatedOrder extends IOrderFlags {
+    currencyPair?: string;
+    rate?: DecimalValue;
+    amount?: DecimalValue;
+    lendingRate?: DecimalValue;
+}
+
+interface ICurrencyStatus {
+    delisted?: RawNumber;
+    disabled?: RawNumber;
+    frozen?: RawNumber;
+}
+
+/**
+ * What the market checks need from returnCurrencies and returnTicker.
+ */
+interface IMarketData {
+    currencies: { [currency: string]: ICurrencyStatus };
+    tickers: { [currencyPair: string]: { isFrozen?: RawNumber } };
+}
+
+/**
+ * Default validation configuration.
+ */
+const defaultOrderValidationConfig: IOrderValidationConfig = {
+    checkCurrencies: true,
+    currencyTtl    : 3600000,
+};
+
+/**
+ * Poloniex accepts at most 8 decimal places.
+ */
+const MAX_DECIMALS = 8;
+
+const placingMethods = ['buy', 'marginBuy', 'marginSell', 'sell'];
+
+const statusFlags: Array<'delisted' | 'disabled' | 'frozen'> = ['delisted', 'disabled', 'frozen'];
+
+/**
+ * Checks the parts of an order that need no market data.
+ *
+ * @param {IValidatedOrder} order
+ * @param {boolean} isMove
+ * @returns {string} why the order is invalid, or null
+ */
+const checkOrderParams = (order: IValidatedOrder, isMove: boolean): string => {
+    const values: Array<[string, DecimalValue]> = [['rate', order.rate], ['amount', order.amount]];
+    if (order.lendingRate !== undefined && order.lendingRate !== null) values.push(['lendingRate', order.lendingRate]);
+
+    for (const [name, value] of values) {
+        if (isMove && name === 'amount' && (value === undefined || value === null)) continue;
+
+        let decimal: Decimal;
+        try {
+            decimal = new Decimal(value);
+        } catch (err) {
+            return `${name} must be a number`;
+        }
+
+        if (!decimal.isFinite() || !decimal.isPositive() || decimal.isZero()) return `${name} must be positive`;
+        if (decimal.decimalPlaces() > MAX_DECIMALS) return `${name} has more than ${MAX_DECIMALS} decimal places`;
+    }
+
+    const flags = serializeOrderFlags(order);
+    const set   = Object.keys(flags).filter((flag) => (flags as { [flag: string]: number })[flag] === 1);
+
+    if (set.length > 1) return `${set.join(' and ')} are mutually exclusive`;
+    if (isMove && flags.fillOrKill === 1) return 'moveOrder does not support fillOrKill';
+
+    return null;
+};
+
+/**
+ * Returns a copy of the client that validates orders before they are signed and sent, and rejects invalid ones with
+ * an OrderValidationError.
+ *
+ * moveOrder is checked for decimals and flags only, as its market is not known up front.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IOrderValidationConfig} validationConfig
+ * @returns {IPoloniexClient}
+ */
+export const withOrderValidation = (client: IPoloniexClient,
+                                    validationConfig: IOrderValidationConfig = null): IPoloniexClient => {
+
+    // Construct local config object
+    const config          = { ...defaultOrderValidationConfig, ...validationConfig };
+    const minimumTotalFor = getMinimumTotal(validationConfig);
+
+    let marketData: Promise<IMarketData> = null;
+    let fetchedAt                         = 0;
+
+    const getMarketData = (): Promise<IMarketData> => {
+        if (marketData === null || Date.now() - fetchedAt > config.currencyTtl) {
+            fetchedAt  = Date.now();
+            marketData = Promise.all([client.returnCurrencies(), client.returnTicker()])
+                .then(([currencies, tickers]) => ({ currencies: currencies.data, tickers: tickers.data }));
+
+            // Do not cache failures
+            marketData.catch(() => { marketData = null; });
+        }
+
+        return marketData;
+    };
+
+    /**
+     * Checks the parts of an order that depend on its market.
+     */
+    const checkMarket = async (order: IValidatedOrder): Promise<string> => {
+        const pair          = `${order.currencyPair}`;
+        const [base, quote] = pair.split('_');
+
+        if (base === undefined || quote === undefined || base === '' || quote === '') {
+            return `invalid currency pair ${pair}`;
+        }
+
+        const minimum = minimumTotalFor(base);
+        if (new Decimal(order.rate).times(order.amount).lt(minimum)) return `Total must be at least ${minimum}.`;
+
+        if (!config.checkCurrencies) return null;
+
+        const { currencies, tickers } = await getMarketData();
+        const ticker                  = tickers[pair];
+
+        if (ticker === undefined) return `unknown currency pair ${pair}`;
+        if (`${ticker.isFrozen}` === '1') return `${pair} is frozen`;
+
+        for (const currency of [base, quote]) {
+            const status = currencies[currency];
+            if (status === undefined) return `unknown currency ${currency}`;
+
+            const flag = statusFlags.find((name) => `${status[name]}` === '1');
+            if (flag !== undefined) return `${pair} cannot be traded, ${currency} is ${flag}`;
+        }
+
+        return null;
+    };
+
+    return wrapClient(client, (method: string, original: ClientMethod): ClientMethod => {
+        if (placingMethods.indexOf(method) === -1 && method !== 'moveOrder') return original;
+
+        return async (...args: Array<{}>): Promise<IPoloniexResponse> => {
+            const order   = args[0] as IValidatedOrder;
+            const details = { command: method, params: order };
+
+            let problem = checkOrderParams(order, method === 'moveOrder');
+            if (problem === null && method !== 'moveOrder') problem = await checkMarket(order);
+
+            if (problem !== null) return Promise.reject(new OrderValidationError(problem, details));
+
+            return original(...args);
+        };
+    });
+};
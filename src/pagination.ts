@@ -0,0 +1,325 @@
+import { IPoloniexClient } from '../index';
+import {
+    parseChartData,
+    parseDepositsWithdrawals,
+    parseLendingHistory,
+    parsePrivateTradeHistory,
+    parsePublicTradeHistory,
+    ICandle,
+    IDeposit,
+    ILendingHistoryEntry,
+    IPublicTrade,
+    ITrade,
+    IWithdrawal,
+} from './models';
+
+/**
+ * A point in time, as a Date or in UNIX seconds.
+ */
+export type TimeBound = Date | number;
+
+/**
+ * Windowing options.  `window` is the initial (and largest) window in seconds.  A page of `pageSize` rows or more is
+ * assumed to be truncated, and the window is halved until it is not (down to one second, past which iterating
+ * rejects).  A page less than half full lets it grow back.
+ */
+export interface IPaginationOptions {
+    window?: number;
+    pageSize?: number;
+}
+
+export interface IIterateRangeParams {
+    start: TimeBound;
+    end?: TimeBound;
+}
+
+export interface IIterateTradeHistoryParams extends IIterateRangeParams {
+    currencyPair: string;
+}
+
+export interface IIterateChartDataParams extends IIterateRangeParams {
+    currencyPair: string;
+    period: number;
+}
+
+export type IDepositOrWithdrawal = IDeposit | IWithdrawal;
+
+/**
+ * Fetches the rows of the inclusive range [start, end] (UNIX seconds).
+ */
+type PageFetcher<T> = (start: number, end: number) => Promise<T[]>;
+
+/**
+ * Identity and ordering of rows.
+ */
+interface IRowFormat<T> {
+    key(row: T): string;
+    time(row: T): number;
+}
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Poloniex returns at most 1000 public trades per call (and 50,000 when lucky); assume the lower.
+ */
+const defaultTradeHistoryOptions = {
+    pageSize: 1000,
+    window  : SECONDS_PER_DAY,
+};
+
+/**
+ * The private endpoints take a `limit` of up to 10,000 rows.
+ */
+const defaultPrivateHistoryOptions = {
+    pageSize: 10000,
+    //tslint:disable-next-line:no-magic-numbers
+    window  : 30 * SECONDS_PER_DAY,
+};
+
+/**
+ * Chart data is not capped; windows of 500 candles keep responses small.
+ */
+const CANDLES_PER_WINDOW = 500;
+
+/**
+ * Deposits and withdrawals are not capped.
+ */
+const defaultDepositsWithdrawalsOptions = {
+    pageSize: Infinity,
+    //tslint:disable-next-line:no-magic-numbers
+    window  : 365 * SECONDS_PER_DAY,
+};
+
+//tslint:disable:no-magic-numbers
+const toUnixTime = (bound: TimeBound): number =>
+    bound instanceof Date ? Math.floor(bound.getTime() / 1000) : Math.floor(bound);
+
+const timeOf = (date: Date): number => date.getTime() / 1000;
+//tslint:enable:no-magic-numbers
+
+/**
+ * Trades are identified by `globalTradeID`, falling back to the per-market `tradeID`.
+ */
+const byTradeId = {
+    key : (trade: IPublicTrade | ITrade) =>
+        `${trade.globalTradeID !== undefined && trade.globalTradeID !== null ? trade.globalTradeID : trade.tradeID}`,
+    time: (trade: IPublicTrade | ITrade) => timeOf(trade.date),
+};
+
+/**
+ * Walks [start, end] window by window and yields the rows of each window in chronological order.
+ *
+ * Windows that come back with `pageSize` rows or more are assumed truncated and retried at half the size; windows that
+ * come back less than half full let the window grow back towards its initial size.  Rows already yielded by the
+ * previous window (the exchange treats both ends of a range as inclusive) are dropped.  A one-second window that is
+ * still truncated rejects, rather than silently skipping the rows the exchange left out.
+ *
+ * @param {PageFetcher<T>} fetchPage
+ * @param {IRowFormat<T>} format
+ * @param {IIterateRangeParams} range
+ * @param {{window: number, pageSize: number}} options
+ */
+async function* paginate<T>(fetchPage: PageFetcher<T>,
+                            format: IRowFormat<T>,
+                            range: IIterateRangeParams,
+                            options: { window: number, pageSize: number }): AsyncIterableIterator<T> {
+    const end           = toUnixTime(range.end !== undefined && range.end !== null ? range.end : new Date());
+    const initialWindow = Math.max(1, Math.floor(options.window));
+
+    let cursor            = toUnixTime(range.start);
+    let window            = initialWindow;
+    let seen: Set<string> = new Set<string>();
+
+    while (cursor <= end) {
+        const windowEnd = Math.min(cursor + window - 1, end);
+        const page      = await fetchPage(cursor, windowEnd);
+        const truncated = page.length >= options.pageSize;
+
+        if (truncated && window > 1) {
+            //tslint:disable-next-line:no-magic-numbers
+            window = Math.max(1, Math.floor(window / 2));
+            continue;
+        }
+
+        // Rows past the page cap cannot be reached by narrowing the window any further
+        if (truncated) throw new Error(`more than ${page.length} rows at ${cursor}, some cannot be fetched`);
+
+        // Rows with the same time keep the exchange's order
+        const keys = new Set<string>();
+        const rows = page
+            .filter((row) => {
+                const key = format.key(row);
+                if (seen.has(key) || keys.has(key)) return false;
+
+                keys.add(key);
+
+                return true;
+            })
+            .map((row, index) => ({ index, row, time: format.time(row) }))
+            .sort((a, b) => a.time !== b.time ? a.time - b.time : a.index - b.index)
+            .map(({ row }) => row);
+
+        for (const row of rows) yield row;
+
+        seen   = keys;
+        cursor = windowEnd + 1;
+        //tslint:disable-next-line:no-magic-numbers
+        if (page.length < options.pageSize / 2 && window < initialWindow) window = Math.min(initialWindow, window * 2);
+    }
+}
+
+/**
+ * Iterates the public trades of a currency pair between `start` and `end`.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IIterateTradeHistoryParams} params
+ * @param {IPaginationOptions} paginationOptions
+ * @returns {AsyncIterableIterator<IPublicTrade>}
+ */
+export function iterateTradeHistory(client: IPoloniexClient,
+                                    params: IIterateTradeHistoryParams,
+                                    paginationOptions: IPaginationOptions = null)
+    : AsyncIterableIterator<IPublicTrade> {
+    const options = { ...defaultTradeHistoryOptions, ...paginationOptions };
+
+    const fetchPage = async (start: number, end: number): Promise<IPublicTrade[]> => {
+        const { currencyPair } = params;
+        const response         = await client.returnPublicTradeHistory({
+            currencyPair,
+            end  : `${end}`,
+            start: `${start}`,
+        });
+
+        return parsePublicTradeHistory(response.data, currencyPair);
+    };
+
+    return paginate<IPublicTrade>(fetchPage, byTradeId, params, options);
+}
+
+/**
+ * Iterates the account's trades between `start` and `end`, for one currency pair or 'all'.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IIterateTradeHistoryParams} params
+ * @param {IPaginationOptions} paginationOptions
+ * @returns {AsyncIterableIterator<ITrade>}
+ */
+export function iteratePrivateTradeHistory(client: IPoloniexClient,
+                                           params: IIterateTradeHistoryParams,
+                                           paginationOptions: IPaginationOptions = null)
+    : AsyncIterableIterator<ITrade> {
+    const options = { ...defaultPrivateHistoryOptions, ...paginationOptions };
+
+    const fetchPage = async (start: number, end: number): Promise<ITrade[]> => {
+        const { currencyPair } = params;
+        const response         = await client.returnPrivateTradeHistory({
+            currencyPair,
+            end  : `${end}`,
+            limit: `${options.pageSize}`,
+            start: `${start}`,
+        });
+        const trades = parsePrivateTradeHistory(response.data, currencyPair);
+
+        return Object.keys(trades).reduce<ITrade[]>((acc, pair) => acc.concat(trades[pair]), []);
+    };
+
+    return paginate<ITrade>(fetchPage, byTradeId, params, options);
+}
+
+/**
+ * Iterates the candles of a currency pair between `start` and `end`.  `period` is the candle period in seconds.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IIterateChartDataParams} params
+ * @param {IPaginationOptions} paginationOptions
+ * @returns {AsyncIterableIterator<ICandle>}
+ */
+export function iterateChartData(client: IPoloniexClient,
+                                 params: IIterateChartDataParams,
+                                 paginationOptions: IPaginationOptions = null): AsyncIterableIterator<ICandle> {
+    const options = { pageSize: Infinity, window: params.period * CANDLES_PER_WINDOW, ...paginationOptions };
+
+    const fetchPage = async (start: number, end: number): Promise<ICandle[]> => {
+        const { currencyPair, period } = params;
+        const response                 = await client.returnChartData({
+            currencyPair,
+            end   : `${end}`,
+            period: `${period}`,
+            start : `${start}`,
+        });
+
+        // An empty range comes back as a single candle dated 0
+        return parseChartData(response.data).filter((candle) => candle.date.getTime() !== 0);
+    };
+
+    const format = {
+        key : (candle: ICandle) => `${timeOf(candle.date)}`,
+        time: (candle: ICandle) => timeOf(candle.date),
+    };
+
+    return paginate(fetchPage, format, params, options);
+}
+
+/**
+ * Iterates the account's deposits and withdrawals between `start` and `end`.  Withdrawals have a `withdrawalNumber`.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IIterateRangeParams} params
+ * @param {IPaginationOptions} paginationOptions
+ * @returns {AsyncIterableIterator<IDepositOrWithdrawal>}
+ */
+export function iterateDepositsWithdrawals(client: IPoloniexClient,
+                                           params: IIterateRangeParams,
+                                           paginationOptions: IPaginationOptions = null)
+    : AsyncIterableIterator<IDepositOrWithdrawal> {
+    const options = { ...defaultDepositsWithdrawalsOptions, ...paginationOptions };
+
+    const fetchPage = async (start: number, end: number): Promise<IDepositOrWithdrawal[]> => {
+        const response = await client.returnDepositsWithdrawals({ end: `${end}`, start: `${start}` });
+        const { deposits, withdrawals } = parseDepositsWithdrawals(response.data);
+
+        return [...deposits, ...withdrawals];
+    };
+
+    const format = {
+        key : (row: IDepositOrWithdrawal) =>
+            'withdrawalNumber' in row ?
+            `withdrawal:${(row as IWithdrawal).withdrawalNumber}` :
+            `deposit:${(row as IDeposit).txid}:${row.currency}`,
+        time: (row: IDepositOrWithdrawal) => timeOf(row.timestamp),
+    };
+
+    return paginate(fetchPage, format, params, options);
+}
+
+/**
+ * Iterates the account's lending history between `start` and `end`, ordered by the time loans closed.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IIterateRangeParams} params
+ * @param {IPaginationOptions} paginationOptions
+ * @returns {AsyncIterableIterator<ILendingHistoryEntry>}
+ */
+export function iterateLendingHistory(client: IPoloniexClient,
+                                      params: IIterateRangeParams,
+                                      paginationOptions: IPaginationOptions = null)
+    : AsyncIterableIterator<ILendingHistoryEntry> {
+    const options = { ...defaultPrivateHistoryOptions, ...paginationOptions };
+
+    const fetchPage = async (start: number, end: number): Promise<ILendingHistoryEntry[]> => {
+        const response = await client.returnLendingHistory({
+            end  : `${end}`,
+            limit: options.pageSize,
+            start: `${start}`,
+        });
+
+        return parseLendingHistory(response.data);
+    };
+
+    const format = {
+        key : (entry: ILendingHistoryEntry) => `${entry.id}`,
+        time: (entry: ILendingHistoryEntry) => timeOf(entry.close),
+    };
+
+    return paginate(fetchPage, format, params, options);
+}
@@ -0,0 +1,228 @@
+import { Decimal } from 'decimal.js';
+import { IPoloniexClient } from '../index';
+import {
+    parseAvailableAccountBalances, parseCompleteBalances, parseMarginAccountSummary, parseTicker, ITickers,
+} from './models';
+
+/**
+ * Default portfolio options.
+ */
+const defaultPortfolioOptions = {
+    includeZero  : false,
+    price        : 'last' as PortfolioPrice,
+    quoteCurrency: 'BTC',
+};
+
+/**
+ * Which ticker price to value holdings at.  'bid' is what selling would fetch: the highest bid, or one over the
+ * lowest ask when converting against the direction of a market.
+ */
+export type PortfolioPrice = 'last' | 'mid' | 'bid';
+
+/**
+ * `quoteCurrency` is the currency everything is valued in (BTC by default).  Currencies without a balance are left out
+ * unless `includeZero` is set.
+ */
+export interface IPortfolioOptions {
+    quoteCurrency?: string;
+    price?: PortfolioPrice;
+    includeZero?: boolean;
+}
+
+/**
+ * A currency held across the exchange, margin and lending accounts.  `total` is `available` plus `onOrders`, and
+ * `wallets` breaks down what is available by account.  `route` lists the markets the price was derived from, e.g.
+ * ['BTC_XMR', 'USDT_BTC'].  `rate` and `value` are null when there is no route to the quote currency.
+ */
+export interface IPortfolioHolding {
+    currency: string;
+    available: Decimal;
+    onOrders: Decimal;
+    total: Decimal;
+    wallets: { [account: string]: Decimal };
+    rate: Decimal;
+    value: Decimal;
+    route: string[];
+}
+
+/**
+ * The margin account in the quote currency.  `netValue` is the margin collateral plus unrealized P/L, less lending
+ * fees.
+ */
+export interface IPortfolioMargin {
+    totalValue: Decimal;
+    pl: Decimal;
+    lendingFees: Decimal;
+    netValue: Decimal;
+    totalBorrowedValue: Decimal;
+    currentMargin: Decimal;
+}
+
+/**
+ * `totalValue` is the value of everything outside the margin account plus the margin account's net value, so that
+ * margin collateral is not counted twice.  Holdings that could not be priced are listed in `unpriced` and left out.
+ */
+export interface IPortfolio {
+    quoteCurrency: string;
+    date: Date;
+    holdings: IPortfolioHolding[];
+    margin: IPortfolioMargin;
+    totalValue: Decimal;
+    unpriced: string[];
+}
+
+/**
+ * One way of converting a currency: into `to` at `rate`, through the market `currencyPair`.
+ */
+interface IConversion {
+    to: string;
+    rate: Decimal;
+    currencyPair: string;
+}
+
+/**
+ * The conversions the tickers allow, by currency.  A market BASE_QUOTE quotes QUOTE in BASE, so QUOTE converts into
+ * BASE at the price, and BASE into QUOTE at one over it.  Frozen markets and markets without a price are skipped.
+ */
+const getConversions = (tickers: ITickers, price: PortfolioPrice): Map<string, IConversion[]> => {
+    const conversions = new Map<string, IConversion[]>();
+
+    const addConversion = (from: string, conversion: IConversion): void => {
+        conversions.set(from, [...(conversions.has(from) ? conversions.get(from) : []), conversion]);
+    };
+
+    Object.keys(tickers).forEach((currencyPair) => {
+        const ticker        = tickers[currencyPair];
+        const [base, quote] = currencyPair.split('_');
+        //tslint:disable-next-line:no-magic-numbers
+        const mid           = ticker.highestBid.plus(ticker.lowestAsk).dividedBy(2);
+
+        const sellRate = price === 'last' ? ticker.last : price === 'mid' ? mid : ticker.highestBid;
+        const buyRate  = price === 'last' ? ticker.last : price === 'mid' ? mid : ticker.lowestAsk;
+
+        if (ticker.isFrozen || sellRate.lte(0) || buyRate.lte(0)) return;
+
+        addConversion(quote, { currencyPair, rate: sellRate, to: base });
+        addConversion(base, { currencyPair, rate: new Decimal(1).dividedBy(buyRate), to: quote });
+    });
+
+    return conversions;
+};
+
+/**
+ * Finds the rate of `currency` in `quoteCurrency` through the fewest markets.
+ */
+const findRoute = (conversions: Map<string, IConversion[]>,
+                   currency: string,
+                   quoteCurrency: string): { rate: Decimal, route: string[] } => {
+    const visited = new Set<string>([currency]);
+
+    let frontier = [{ currency, rate: new Decimal(1), route: [] as string[] }];
+
+    while (frontier.length > 0) {
+        const found = frontier.find((step) => step.currency === quoteCurrency);
+        if (found !== undefined) return { rate: found.rate, route: found.route };
+
+        const next: typeof frontier = [];
+
+        frontier.forEach((step) => {
+            const options = conversions.has(step.currency) ? conversions.get(step.currency) : [];
+
+            options.filter((conversion) => !visited.has(conversion.to)).forEach((conversion) => {
+                visited.add(conversion.to);
+                next.push({
+                    currency: conversion.to,
+                    rate    : step.rate.times(conversion.rate),
+                    route   : [...step.route, conversion.currencyPair],
+                });
+            });
+        });
+
+        frontier = next;
+    }
+
+    return null;
+};
+
+/**
+ * Values the account's holdings in every account (exchange, margin and lending) and its margin equity in a single
+ * quote currency, converting through intermediate markets where there is no direct one.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IPortfolioOptions} portfolioOptions
+ * @returns {Promise<IPortfolio>}
+ */
+export const getPortfolio = async (client: IPoloniexClient,
+                                   portfolioOptions: IPortfolioOptions = null): Promise<IPortfolio> => {
+
+    // Construct local options object
+    const options = { ...defaultPortfolioOptions, ...portfolioOptions };
+
+    const [balancesResponse, accountsResponse, tickerResponse, marginResponse] = await Promise.all([
+        client.returnCompleteBalances({ account: 'all' }),
+        client.returnAvailableAccountBalances(),
+        client.returnTicker(),
+        client.returnMarginAccountSummary(),
+    ]);
+
+    const balances    = parseCompleteBalances(balancesResponse.data);
+    const accounts    = parseAvailableAccountBalances(accountsResponse.data);
+    const conversions = getConversions(parseTicker(tickerResponse.data), options.price);
+    const summary     = parseMarginAccountSummary(marginResponse.data);
+    const btcRoute    = findRoute(conversions, 'BTC', options.quoteCurrency);
+
+    const toHolding = (currency: string): IPortfolioHolding => {
+        const { available, onOrders } = balances[currency];
+        const total                   = available.plus(onOrders);
+        const route                   = findRoute(conversions, currency, options.quoteCurrency);
+        const wallets: { [account: string]: Decimal } = {};
+
+        Object.keys(accounts).forEach((account) => {
+            if (accounts[account][currency] !== undefined) wallets[account] = accounts[account][currency];
+        });
+
+        return {
+            available,
+            currency,
+            onOrders,
+            rate : route !== null ? route.rate : null,
+            route: route !== null ? route.route : [],
+            total,
+            value: route !== null ? total.times(route.rate) : null,
+            wallets,
+        };
+    };
+
+    const holdings = Object.keys(balances)
+                           .sort()
+                           .map(toHolding)
+                           .filter((holding) => options.includeZero || !holding.total.isZero());
+
+    // The margin summary is in BTC
+    const inQuote = (value: Decimal): Decimal => btcRoute !== null ? value.times(btcRoute.rate) : null;
+
+    const margin: IPortfolioMargin = {
+        currentMargin     : summary.currentMargin,
+        lendingFees       : inQuote(summary.lendingFees),
+        netValue          : inQuote(summary.netValue),
+        pl                : inQuote(summary.pl),
+        totalBorrowedValue: inQuote(summary.totalBorrowedValue),
+        totalValue        : inQuote(summary.totalValue),
+    };
+
+    const priced        = holdings.filter((holding) => holding.value !== null);
+    const outsideMargin = priced.reduce((acc, holding) => {
+        const inMargin = holding.wallets.margin !== undefined ? holding.wallets.margin : new Decimal(0);
+
+        return acc.plus(holding.total.minus(inMargin).times(holding.rate));
+    }, new Decimal(0));
+
+    return {
+        date         : new Date(),
+        holdings,
+        margin,
+        quoteCurrency: options.quoteCurrency,
+        totalValue   : margin.netValue !== null ? outsideMargin.plus(margin.netValue) : outsideMargin,
+        unpriced     : holdings.filter((holding) => holding.value === null).map((holding) => holding.currency),
+    };
+};
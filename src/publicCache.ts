@@ -0,0 +1,238 @@
+import * as qs from 'qs';
+import { IPoloniexClient, IPoloniexRequestConfig, IPoloniexResponse } from '../index';
+import { wrapClient, ClientMethod } from './wrapClient';
+
+/**
+ * Where cached responses are kept.  Values are strings and `ttl` is in milliseconds, so a Redis client maps onto it
+ * directly (GET, SET with PX, DEL).  `get` resolves to null (or undefined) for missing or expired keys.
+ */
+export interface ICacheStore {
+    delete(key: string): Promise<void>;
+    get(key: string): Promise<string>;
+    set(key: string, value: string, ttl: number): Promise<void>;
+}
+
+/**
+ * The cache policy accepted by #getClient.
+ *
+ *  - `ttl` is how long (ms) each command's responses are served from the cache.  Commands without one are not cached,
+ *    and commands given one keep the default ttl of the others (set it to 0 to stop caching a command).
+ *  - `staleWhileRevalidate` is how long (ms) past its ttl a response is still served while it is refreshed in the
+ *    background.
+ *  - with `dedupe` (on by default), concurrent calls for the same command and params share a single request, whether
+ *    the command is cached or not.
+ *  - `keyPrefix` keeps several clients apart in a shared store, and `onError` is told about failed background refreshes
+ *    and store errors (which otherwise only make calls go to the network).
+ */
+export interface ICachePolicy {
+    ttl?: { [command: string]: number };
+    staleWhileRevalidate?: { [command: string]: number };
+    dedupe?: boolean;
+    store?: ICacheStore;
+    keyPrefix?: string;
+    onError?(err: Error): void;
+}
+
+/**
+ * A response as kept in the store.
+ */
+interface ICacheEntry {
+    cachedAt: number;
+    data: {};
+    headers: {};
+    status: number;
+    statusText: string;
+}
+
+/**
+ * Default cache policy.
+ */
+const defaultCachePolicy: ICachePolicy = {
+    dedupe              : true,
+    keyPrefix           : 'poloniex:',
+    staleWhileRevalidate: {},
+    ttl                 : {
+        return24Volume  : 30000,
+        returnCurrencies: 600000,
+        returnLoanOrders: 5000,
+        returnTicker    : 2000,
+    },
+};
+
+/**
+ * Public methods, and whether they take query params before the config override.
+ */
+const publicMethods: { [method: string]: boolean } = {
+    return24Volume          : false,
+    returnChartData         : true,
+    returnCurrencies        : false,
+    returnLoanOrders        : true,
+    returnOrderBook         : true,
+    returnPublicTradeHistory: true,
+    returnTicker            : false,
+};
+
+const compareKeys = (a: string, b: string): number => a < b ? -1 : a > b ? 1 : 0;
+
+/**
+ * Factory function to get a store that keeps responses in memory.  Expired entries are dropped as they are read, and
+ * all of them whenever `maxEntries` is reached.
+ *
+ * @param {number} maxEntries
+ * @returns {ICacheStore}
+ */
+export const getMemoryCacheStore = (maxEntries: number = 1000): ICacheStore => {
+    const entries = new Map<string, { value: string, expiresAt: number }>();
+
+    const prune = (): void => entries.forEach((entry, key) => {
+        if (entry.expiresAt <= Date.now()) entries.delete(key);
+    });
+
+    return {
+        delete(key: string): Promise<void> {
+            entries.delete(key);
+
+            return Promise.resolve();
+        },
+
+        get(key: string): Promise<string> {
+            const entry = entries.get(key);
+
+            if (entry === undefined) return Promise.resolve(null);
+            if (entry.expiresAt <= Date.now()) {
+                entries.delete(key);
+
+                return Promise.resolve(null);
+            }
+
+            return Promise.resolve(entry.value);
+        },
+
+        set(key: string, value: string, ttl: number): Promise<void> {
+            if (entries.size >= maxEntries && !entries.has(key)) prune();
+
+            // Still full of live entries: make room by dropping the oldest
+            if (entries.size >= maxEntries && !entries.has(key)) entries.delete(entries.keys().next().value);
+
+            entries.set(key, { expiresAt: Date.now() + ttl, value });
+
+            return Promise.resolve();
+        },
+    };
+};
+
+/**
+ * Returns a copy of the client whose public methods are served from a cache (for commands with a ttl) and whose
+ * concurrent identical calls share one request.  Calls with a cancel token always send their own request, so that
+ * cancelling one caller does not fail the others.
+ *
+ * Callers sharing a request get the same response object, and should not modify it.
+ *
+ * @param {IPoloniexClient} client
+ * @param {ICachePolicy} cachePolicy
+ * @returns {IPoloniexClient}
+ */
+export const withPublicCache = (client: IPoloniexClient, cachePolicy: ICachePolicy = null): IPoloniexClient => {
+
+    // Construct local policy object, with per-command settings merged into the defaults rather than replacing them
+    const given    = cachePolicy !== undefined && cachePolicy !== null ? cachePolicy : {};
+    const policy   = {
+        ...defaultCachePolicy,
+        ...given,
+        staleWhileRevalidate: { ...defaultCachePolicy.staleWhileRevalidate, ...given.staleWhileRevalidate },
+        ttl                 : { ...defaultCachePolicy.ttl, ...given.ttl },
+    };
+    const store    = policy.store !== undefined ? policy.store : getMemoryCacheStore();
+    const inFlight = new Map<string, Promise<IPoloniexResponse>>();
+
+    const reportError = (err: Error): void => {
+        if (policy.onError !== undefined) policy.onError(err);
+    };
+
+    const read = async (key: string): Promise<ICacheEntry> => {
+        try {
+            const value = await store.get(key);
+
+            return value === null || value === undefined ? null : JSON.parse(value);
+        } catch (err) {
+            reportError(err);
+
+            return null;
+        }
+    };
+
+    const write = async (key: string, response: IPoloniexResponse, lifetime: number): Promise<void> => {
+        const { data, headers, status, statusText } = response;
+        const entry: ICacheEntry                     = { cachedAt: Date.now(), data, headers, status, statusText };
+
+        try {
+            await store.set(key, JSON.stringify(entry), lifetime);
+        } catch (err) {
+            reportError(err);
+        }
+    };
+
+    const toResponse = (entry: ICacheEntry): IPoloniexResponse => {
+        const { data, headers, status, statusText } = entry;
+
+        return { config: {}, data, headers, status, statusText };
+    };
+
+    /**
+     * Sends the request, unless the same one is already on its way.  Cached commands are stored once they resolve.
+     */
+    const fetch = (key: string,
+                   send: () => Promise<IPoloniexResponse>,
+                   lifetime: number): Promise<IPoloniexResponse> => {
+        if (policy.dedupe && inFlight.has(key)) return inFlight.get(key);
+
+        const request = send().then(async (response) => {
+            if (lifetime > 0) await write(key, response, lifetime);
+            inFlight.delete(key);
+
+            return response;
+        }, (err: Error) => {
+            inFlight.delete(key);
+
+            return Promise.reject(err);
+        });
+
+        if (policy.dedupe) inFlight.set(key, request);
+
+        return request;
+    };
+
+    const serve = async (method: string, original: ClientMethod, args: Array<{}>): Promise<IPoloniexResponse> => {
+        const takesParams    = publicMethods[method];
+        const configOverride = (takesParams ? args[1] : args[0]) as IPoloniexRequestConfig;
+        const send           = (): Promise<IPoloniexResponse> => original(...args);
+
+        if (configOverride !== undefined && configOverride !== null && configOverride.cancelToken !== undefined) {
+            return send();
+        }
+
+        const key = `${policy.keyPrefix}${method}?${takesParams ? qs.stringify(args[0], { sort: compareKeys }) : ''}`;
+        const ttl = policy.ttl[method] !== undefined ? policy.ttl[method] : 0;
+
+        if (ttl <= 0) return fetch(key, send, 0);
+
+        const stale = policy.staleWhileRevalidate[method] !== undefined ? policy.staleWhileRevalidate[method] : 0;
+        const entry = await read(key);
+        const age   = entry !== null ? Date.now() - entry.cachedAt : Infinity;
+
+        if (age < ttl) return toResponse(entry);
+        if (age < ttl + stale) {
+            fetch(key, send, ttl + stale).then(undefined, reportError);
+
+            return toResponse(entry);
+        }
+
+        return fetch(key, send, ttl + stale);
+    };
+
+    return wrapClient(client, (method: string, original: ClientMethod): ClientMethod => {
+        if (publicMethods[method] === undefined) return original;
+
+        return (...args: Array<{}>): Promise<IPoloniexResponse> => serve(method, original, args);
+    });
+};
@@ -0,0 +1,663 @@
+import { EventEmitter } from 'events';
+import * as WebSocket from 'ws';
+import { signMessage, IApiAuth, IPoloniexClient } from '../index';
+import { AuthenticationError } from './errors';
+import { getErrorEmitter } from './events';
+import { defaultNonceProvider, INonceProvider } from './nonce';
+
+/**
+ * Default push configuration.
+ */
+const defaultPushConfig = {
+    heartbeatTimeout    : 5000,
+    maxReconnectInterval: 30000,
+    reconnectInterval   : 1000,
+    url                 : `wss://api2.poloniex.com`,
+};
+
+/**
+ * The numbered channels Poloniex multiplexes over a single socket.  Order book/trade channels are addressed by
+ * currency pair instead.
+ */
+export enum PushChannel {
+    AccountNotifications = 1000,
+    Ticker               = 1002,
+    Volume24h            = 1003,
+    Heartbeat            = 1010,
+}
+
+/**
+ * Maps the numeric currency pair ids used on the wire to their names (e.g. 148 => 'BTC_ETH').
+ */
+export interface ICurrencyPairIds {
+    [id: number]: string;
+}
+
+/**
+ * `onError` receives socket errors and failed resubscriptions while no 'error' listener is attached.
+ */
+export interface IPushClientConfig {
+    currencyPairIds?: ICurrencyPairIds;
+    heartbeatTimeout?: number;
+    maxReconnectInterval?: number;
+    nonceProvider?: INonceProvider;
+    reconnectInterval?: number;
+    url?: string;
+    onError?(err: Error): void;
+}
+
+export interface ITickerEvent {
+    currencyPair: string;
+    currencyPairId: number;
+    last: string;
+    lowestAsk: string;
+    highestBid: string;
+    percentChange: string;
+    baseVolume: string;
+    quoteVolume: string;
+    isFrozen: boolean;
+    high24hr: string;
+    low24hr: string;
+}
+
+export interface IVolumeEvent {
+    time: string;
+    users: number;
+    volumes: { [currency: string]: string };
+}
+
+export interface IOrderBookLevels {
+    [rate: string]: string;
+}
+
+export interface IOrderBookSnapshotEvent {
+    currencyPair: string;
+    seq: number;
+    asks: IOrderBookLevels;
+    bids: IOrderBookLevels;
+}
+
+/**
+ * An amount of zero means the level has been removed from the book.
+ */
+export interface IOrderBookModifyEvent {
+    currencyPair: string;
+    seq: number;
+    side: 'ask' | 'bid';
+    rate: string;
+    amount: string;
+}
+
+export interface ITradeEvent {
+    currencyPair: string;
+    seq: number;
+    tradeID: string;
+    type: 'buy' | 'sell';
+    rate: string;
+    amount: string;
+    timestamp: number;
+}
+
+export interface IBalanceUpdateEvent {
+    currencyId: number;
+    wallet: 'exchange' | 'margin' | 'lending';
+    amount: string;
+}
+
+export interface INewOrderEvent {
+    currencyPair: string;
+    currencyPairId: number;
+    orderNumber: string;
+    type: 'buy' | 'sell';
+    rate: string;
+    amount: string;
+    date: string;
+}
+
+/**
+ * An amount of zero means the order has been filled or cancelled.
+ */
+export interface IOrderUpdateEvent {
+    orderNumber: string;
+    amount: string;
+}
+
+export interface IAccountTradeEvent {
+    tradeID: string;
+    rate: string;
+    amount: string;
+    feeMultiplier: string;
+    fundingType: number;
+    orderNumber: string;
+}
+
+/**
+ * The shape of a Poloniex push client.
+ */
+export interface IPushClient {
+
+    auth?: IApiAuth;
+
+    connect(): Promise<void>;
+
+    disconnect(): Promise<void>;
+
+    isConnected(): boolean;
+
+    isUpgraded(): boolean;
+
+    upgrade(newAuth: IApiAuth): void;
+
+    setCurrencyPairIds(currencyPairIds: ICurrencyPairIds): void;
+
+    subscribeTicker(): Promise<void>;
+
+    unsubscribeTicker(): Promise<void>;
+
+    subscribe24hVolume(): Promise<void>;
+
+    unsubscribe24hVolume(): Promise<void>;
+
+    subscribeAccountNotifications(): Promise<void>;
+
+    unsubscribeAccountNotifications(): Promise<void>;
+
+    subscribeOrderBook(currencyPair: string): Promise<void>;
+
+    unsubscribeOrderBook(currencyPair: string): Promise<void>;
+
+    on(event: 'open' | 'close' | 'reconnecting', listener: () => void): this;
+
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    on(event: 'ticker', listener: (e: ITickerEvent) => void): this;
+
+    on(event: 'volume', listener: (e: IVolumeEvent) => void): this;
+
+    on(event: 'orderBook', listener: (e: IOrderBookSnapshotEvent) => void): this;
+
+    on(event: 'orderBookModify', listener: (e: IOrderBookModifyEvent) => void): this;
+
+    on(event: 'trade', listener: (e: ITradeEvent) => void): this;
+
+    on(event: 'balanceUpdate', listener: (e: IBalanceUpdateEvent) => void): this;
+
+    on(event: 'newOrder', listener: (e: INewOrderEvent) => void): this;
+
+    on(event: 'orderUpdate', listener: (e: IOrderUpdateEvent) => void): this;
+
+    on(event: 'accountTrade', listener: (e: IAccountTradeEvent) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+/**
+ * The shape of (un)subscribe commands.  Only the account channel needs the signing fields.
+ */
+interface ISubscriptionCommand {
+    channel: number | string;
+    command: 'subscribe' | 'unsubscribe';
+    key?: string;
+    payload?: string;
+    sign?: string;
+}
+
+/**
+ * Raw frames are JSON arrays of the form [channel, sequence, payload].
+ */
+type RawFrame = [number, number | string | null, Array<{}>];
+
+type RawTicker = [number, string, string, string, string, string, string, number, string, string];
+type RawVolume = [string, number, { [currency: string]: string }];
+type RawBookEntry = [string, {}, {}, {}, {}, {}, {}, {}];
+type RawSnapshot = [string, { currencyPair: string, orderBook: [IOrderBookLevels, IOrderBookLevels] }];
+
+/**
+ * Reads the currency pair ids out of a #returnTicker response so that ticker and new order notifications can be
+ * labelled with pair names.
+ *
+ * @param {IPoloniexClient} client
+ * @returns {Promise<ICurrencyPairIds>}
+ */
+export const getCurrencyPairIds = async (client: IPoloniexClient): Promise<ICurrencyPairIds> => {
+    const { data } = await client.returnTicker();
+
+    return Object.keys(data).reduce<ICurrencyPairIds>((ids: ICurrencyPairIds, currencyPair: string) =>
+        ({ ...ids, [data[currencyPair].id]: currencyPair }), {});
+};
+
+/**
+ * Factory function to get a new Poloniex push (WebSocket) client.
+ *
+ * @param {IApiAuth} auth
+ * @param {IPushClientConfig} pushConfig
+ * @returns {IPushClient}
+ */
+export const getPushClient = (auth?: IApiAuth, pushConfig: IPushClientConfig = null): IPushClient => {
+
+    // Construct local config object
+    const config = { ...defaultPushConfig, ...pushConfig };
+
+    const emitter         = new EventEmitter();
+    const subscriptions   = new Map<number | string, number>();
+    const bookChannels    = new Map<number, string>();
+    const currencyPairIds = { ...config.currencyPairIds };
+
+    let socket: WebSocket             = null;
+    let shouldReconnect               = false;
+    let reconnectAttempts             = 0;
+    let reconnectTimer: NodeJS.Timer  = null;
+    let heartbeatTimer: NodeJS.Timer  = null;
+    let opening: Promise<void>        = null;
+
+    const emitError = getErrorEmitter(emitter, config);
+
+    const nonceProvider = config.nonceProvider !== undefined ? config.nonceProvider : defaultNonceProvider;
+
+    const send = (message: ISubscriptionCommand): void => {
+        if (socket !== null && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const subscribeMessage = async (channel: number | string): Promise<ISubscriptionCommand> => {
+        if (channel !== PushChannel.AccountNotifications) return { command: 'subscribe', channel };
+
+        // The account channel is signed exactly like a private REST call, with 'nonce=<nonce>' as the payload.  The
+        // nonce comes from the same provider as REST nonces, since both count against the same key.
+        const nonce = await nonceProvider.getNonce(client.auth.publicKey);
+
+        return {
+            channel,
+            command: 'subscribe',
+            key    : client.auth.publicKey,
+            payload: `nonce=${nonce}`,
+            sign   : signMessage({ nonce }, client.auth.privateKey),
+        };
+    };
+
+    const subscribe = async (channel: number | string): Promise<void> => send(await subscribeMessage(channel));
+
+    /**
+     * Channels are counted per subscriber (e.g. an order book and a candle aggregator on the same pair), so that one
+     * of them unsubscribing does not stop the feed for the others.  Only the first subscription is sent.
+     */
+    const addSubscription = async (channel: number | string): Promise<void> => {
+        const count = subscriptions.has(channel) ? subscriptions.get(channel) : 0;
+        subscriptions.set(channel, count + 1);
+
+        return count === 0 ? subscribe(channel) : Promise.resolve();
+    };
+
+    /**
+     * Only the last subscriber's unsubscription is sent.
+     */
+    const removeSubscription = async (channel: number | string): Promise<void> => {
+        if (!subscriptions.has(channel)) return;
+
+        const count = subscriptions.get(channel) - 1;
+
+        if (count > 0) {
+            subscriptions.set(channel, count);
+
+            return;
+        }
+
+        subscriptions.delete(channel);
+        send({ command: 'unsubscribe', channel });
+    };
+
+    /**
+     * Poloniex sends a heartbeat every second when a socket is otherwise idle, so prolonged silence means the
+     * connection is dead even if the socket has not noticed yet.
+     */
+    const resetHeartbeat = (): void => {
+        clearTimeout(heartbeatTimer);
+        heartbeatTimer = setTimeout(() => { if (socket !== null) socket.terminate(); }, config.heartbeatTimeout);
+    };
+
+    const handleTicker = (payload: RawTicker): void => {
+        const [currencyPairId, last, lowestAsk, highestBid, percentChange, baseVolume, quoteVolume, isFrozen,
+                  high24hr, low24hr] = payload;
+
+        const event: ITickerEvent = {
+            baseVolume,
+            currencyPair: currencyPairIds[currencyPairId],
+            currencyPairId,
+            high24hr,
+            highestBid,
+            isFrozen    : isFrozen === 1,
+            last,
+            low24hr,
+            lowestAsk,
+            percentChange,
+            quoteVolume,
+        };
+
+        emitter.emit('ticker', event);
+    };
+
+    const handleVolume = (payload: RawVolume): void => {
+        const [time, users, volumes] = payload;
+        const event: IVolumeEvent    = { time, users, volumes };
+
+        emitter.emit('volume', event);
+    };
+
+    const handleBook = (channel: number, seq: number, entries: RawBookEntry[]): void => {
+        entries.forEach((entry: RawBookEntry) => {
+            const [kind] = entry;
+
+            switch (kind) {
+                case 'i': {
+                    const [, { currencyPair, orderBook: [asks, bids] }] = entry as {} as RawSnapshot;
+                    bookChannels.set(channel, currencyPair);
+
+                    const event: IOrderBookSnapshotEvent = { asks, bids, currencyPair, seq };
+                    emitter.emit('orderBook', event);
+                    break;
+                }
+                case 'o': {
+                    const [, side, rate, amount] = entry as {} as [string, number, string, string];
+
+                    const event: IOrderBookModifyEvent = {
+                        amount,
+                        currencyPair: bookChannels.get(channel),
+                        rate,
+                        seq,
+                        side        : side === 1 ? 'bid' : 'ask',
+                    };
+                    emitter.emit('orderBookModify', event);
+                    break;
+                }
+                case 't': {
+                    const [, tradeID, side, rate, amount, timestamp] =
+                              entry as {} as [string, string, number, string, string, number];
+
+                    const event: ITradeEvent = {
+                        amount,
+                        currencyPair: bookChannels.get(channel),
+                        rate,
+                        seq,
+                        timestamp,
+                        tradeID,
+                        type        : side === 1 ? 'buy' : 'sell',
+                    };
+                    emitter.emit('trade', event);
+                    break;
+                }
+                default:
+                    break;
+            }
+        });
+    };
+
+    const handleAccount = (entries: RawBookEntry[]): void => {
+        const wallets: { [code: string]: 'exchange' | 'margin' | 'lending' } =
+                  { e: 'exchange', l: 'lending', m: 'margin' };
+
+        entries.forEach((entry: RawBookEntry) => {
+            const [kind] = entry;
+
+            switch (kind) {
+                case 'b': {
+                    const [, currencyId, wallet, amount] = entry as {} as [string, number, string, string];
+
+                    const event: IBalanceUpdateEvent = { amount, currencyId, wallet: wallets[wallet] };
+                    emitter.emit('balanceUpdate', event);
+                    break;
+                }
+                case 'n': {
+                    const [, currencyPairId, orderNumber, type, rate, amount, date] =
+                              entry as {} as [string, number, number, number, string, string, string];
+
+                    const event: INewOrderEvent = {
+                        amount,
+                        currencyPair: currencyPairIds[currencyPairId],
+                        currencyPairId,
+                        date,
+                        orderNumber : `${orderNumber}`,
+                        rate,
+                        type        : type === 1 ? 'buy' : 'sell',
+                    };
+                    emitter.emit('newOrder', event);
+                    break;
+                }
+                case 'o': {
+                    const [, orderNumber, amount] = entry as {} as [string, number, string];
+
+                    const event: IOrderUpdateEvent = { amount, orderNumber: `${orderNumber}` };
+                    emitter.emit('orderUpdate', event);
+                    break;
+                }
+                case 't': {
+                    const [, tradeID, rate, amount, feeMultiplier, fundingType, orderNumber] =
+                              entry as {} as [string, number, string, string, string, number, number];
+
+                    const event: IAccountTradeEvent = {
+                        amount,
+                        feeMultiplier,
+                        fundingType,
+                        orderNumber: `${orderNumber}`,
+                        rate,
+                        tradeID    : `${tradeID}`,
+                    };
+                    emitter.emit('accountTrade', event);
+                    break;
+                }
+                default:
+                    break;
+            }
+        });
+    };
+
+    const handleMessage = (raw: WebSocket.Data): void => {
+        resetHeartbeat();
+
+        let frame: RawFrame;
+        try {
+            frame = JSON.parse(raw.toString());
+        } catch (err) {
+            emitError(err);
+
+            return;
+        }
+
+        const [channel, seq, payload] = frame;
+
+        // Heartbeats and subscription acknowledgements carry no payload
+        if (channel === PushChannel.Heartbeat || !Array.isArray(payload)) return;
+
+        switch (channel) {
+            case PushChannel.Ticker:
+                handleTicker(payload as RawTicker);
+                break;
+            case PushChannel.Volume24h:
+                handleVolume(payload as {} as RawVolume);
+                break;
+            case PushChannel.AccountNotifications:
+                handleAccount(payload as RawBookEntry[]);
+                break;
+            default:
+                handleBook(channel, seq as number, payload as RawBookEntry[]);
+        }
+    };
+
+    const scheduleReconnect = (): void => {
+        //tslint:disable-next-line:no-magic-numbers
+        const delay = Math.min(config.reconnectInterval * Math.pow(2, reconnectAttempts), config.maxReconnectInterval);
+        reconnectAttempts++;
+
+        emitter.emit('reconnecting');
+        // A failed attempt's 'close' schedules the next one
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            open().catch(emitError);
+        }, delay);
+    };
+
+    /**
+     * Opens a socket, or joins the one being opened.  Errors before it is open reject; later ones are emitted.
+     */
+    const open = (): Promise<void> => {
+        if (opening !== null) return opening;
+
+        opening = new Promise<void>((resolve, reject) => {
+            const ws   = new WebSocket(config.url);
+            let opened = false;
+            socket     = ws;
+
+            ws.on('open', () => {
+                opened            = true;
+                reconnectAttempts = 0;
+                resetHeartbeat();
+
+                // Resubscribe everything on every (re)connect
+                subscriptions.forEach((count, channel) => { subscribe(channel).catch(emitError); });
+
+                emitter.emit('open');
+                resolve();
+            });
+
+            ws.on('message', handleMessage);
+
+            ws.on('error', (err: Error) => {
+                if (opened) emitError(err);
+                else reject(err);
+            });
+
+            ws.on('close', () => {
+                clearTimeout(heartbeatTimer);
+                if (socket === ws) socket = null;
+
+                emitter.emit('close');
+                if (shouldReconnect) scheduleReconnect();
+            });
+        });
+
+        const settled = (): void => { opening = null; };
+        opening.then(settled, settled);
+
+        return opening;
+    };
+
+    const client: IPushClient = {
+
+        /**
+         * This holds the user's API keys.
+         */
+        auth,
+
+        /**
+         * Opens the socket (or joins an attempt already under way).  Once connected, dropped connections are
+         * re-established automatically and all subscriptions are renewed.
+         *
+         * @returns {Promise<void>}
+         */
+        async connect(): Promise<void> {
+            if (client.isConnected()) return Promise.resolve();
+
+            // A pending reconnect is made now instead, rather than left to open a second socket
+            shouldReconnect = true;
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+
+            try {
+                await open();
+
+                return Promise.resolve();
+            } catch (err) {
+                shouldReconnect = false;
+                clearTimeout(reconnectTimer);
+
+                return Promise.reject(err);
+            }
+        },
+
+        /**
+         * Closes the socket and stops reconnecting.
+         *
+         * @returns {Promise<void>}
+         */
+        async disconnect(): Promise<void> {
+            shouldReconnect = false;
+            clearTimeout(reconnectTimer);
+            clearTimeout(heartbeatTimer);
+
+            if (socket === null) return Promise.resolve();
+
+            const ws = socket;
+
+            return new Promise<void>((resolve) => {
+                ws.once('close', () => resolve());
+                ws.close();
+            });
+        },
+
+        isConnected(): boolean { return socket !== null && socket.readyState === WebSocket.OPEN; },
+
+        /**
+         * Checks if the user has supplied API keys.
+         *
+         * @returns {boolean}
+         */
+        isUpgraded(): boolean { return client.auth !== undefined && client.auth !== null; },
+
+        on(event: string, listener: Function): IPushClient {
+            emitter.on(event, listener as (...args: Array<{}>) => void);
+
+            return client;
+        },
+
+        removeListener(event: string, listener: (...args: Array<{}>) => void): IPushClient {
+            emitter.removeListener(event, listener);
+
+            return client;
+        },
+
+        setCurrencyPairIds(ids: ICurrencyPairIds): void { Object.assign(currencyPairIds, ids); },
+
+        subscribe24hVolume(): Promise<void> { return addSubscription(PushChannel.Volume24h); },
+
+        async subscribeAccountNotifications(): Promise<void> {
+
+            // Ensure the user has credentials
+            if (!client.isUpgraded()) {
+                return Promise.reject(new AuthenticationError(`not authenticated`, {
+                    command: 'subscribe',
+                    params : { channel: PushChannel.AccountNotifications },
+                }));
+            }
+
+            return addSubscription(PushChannel.AccountNotifications);
+        },
+
+        subscribeOrderBook(currencyPair: string): Promise<void> { return addSubscription(currencyPair); },
+
+        subscribeTicker(): Promise<void> { return addSubscription(PushChannel.Ticker); },
+
+        unsubscribe24hVolume(): Promise<void> { return removeSubscription(PushChannel.Volume24h); },
+
+        unsubscribeAccountNotifications(): Promise<void> {
+            return removeSubscription(PushChannel.AccountNotifications);
+        },
+
+        unsubscribeOrderBook(currencyPair: string): Promise<void> { return removeSubscription(currencyPair); },
+
+        unsubscribeTicker(): Promise<void> { return removeSubscription(PushChannel.Ticker); },
+
+        /**
+         * Upgrades a client with new credentials.  An active account subscription is renewed with the new keys.
+         *
+         * @param {IApiAuth} newAuth
+         */
+        upgrade(newAuth: IApiAuth): void {
+            client.auth = newAuth;
+
+            if (subscriptions.has(PushChannel.AccountNotifications)) {
+                send({ command: 'unsubscribe', channel: PushChannel.AccountNotifications });
+                subscribe(PushChannel.AccountNotifications).catch(emitError);
+            }
+        },
+    };
+
+    return client;
+};
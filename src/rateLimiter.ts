@@ -0,0 +1,209 @@
+import { QueueTimeoutError, RequestCancelledError } from './errors';
+
+/**
+ * Relative request priorities.  Higher priorities leave the queue first; equal priorities are first in, first out.
+ */
+export enum RequestPriority {
+    Low      = 0,
+    Normal   = 1,
+    High     = 2,
+    Critical = 3,
+}
+
+/**
+ * At most `requests` requests may start within any `interval` milliseconds.
+ */
+export interface IRateLimitBudget {
+    requests: number;
+    interval: number;
+}
+
+/**
+ * The rate limit policy accepted by the raw agent.  Public and private endpoints draw from separate budgets.
+ */
+export interface IRateLimitPolicy {
+    public?: IRateLimitBudget;
+    private?: IRateLimitBudget;
+    priorities?: { [command: string]: RequestPriority | number };
+    defaultPriority?: RequestPriority | number;
+    queueTimeout?: number;
+}
+
+/**
+ * Per-call scheduling options.  `cancelToken` accepts an axios CancelToken.
+ */
+export interface IScheduleOptions {
+    command?: string;
+    priority?: number;
+    queueTimeout?: number;
+    cancelToken?: { promise: Promise<{ message?: string }> };
+}
+
+export interface IRateLimiter {
+
+    budget: IRateLimitBudget;
+
+    getQueueDepth(): number;
+
+    schedule<T>(task: () => Promise<T>, options?: IScheduleOptions): Promise<T>;
+
+    clear(reason?: string): void;
+}
+
+/**
+ * Poloniex allows 6 calls per second.
+ */
+export const defaultRateLimitBudget: IRateLimitBudget = {
+    interval: 1000,
+    requests: 6,
+};
+
+/**
+ * Order management jumps the queue, bulk history reads wait.
+ */
+export const defaultCommandPriorities: { [command: string]: RequestPriority } = {
+    buy                      : RequestPriority.High,
+    cancelLoanOffer          : RequestPriority.Critical,
+    cancelOrder              : RequestPriority.Critical,
+    closeMarginPosition      : RequestPriority.Critical,
+    marginBuy                : RequestPriority.High,
+    marginSell               : RequestPriority.High,
+    moveOrder                : RequestPriority.Critical,
+    returnChartData          : RequestPriority.Low,
+    returnDepositsWithdrawals: RequestPriority.Low,
+    returnLendingHistory     : RequestPriority.Low,
+    returnTradeHistory       : RequestPriority.Low,
+    sell                     : RequestPriority.High,
+};
+
+interface IQueuedTask {
+    priority: number;
+    start(): void;
+    reject(err: Error): void;
+}
+
+/**
+ * Resolves the priority of a call: explicit option, then the policy's command table, then the default.
+ *
+ * @param {IRateLimitPolicy} policy
+ * @param {IScheduleOptions} options
+ * @returns {number}
+ */
+export const resolvePriority = (policy: IRateLimitPolicy, options: IScheduleOptions): number => {
+    if (options.priority !== undefined) return options.priority;
+
+    const priorities = { ...defaultCommandPriorities, ...policy.priorities };
+
+    if (options.command !== undefined && priorities[options.command] !== undefined) {
+        return priorities[options.command];
+    }
+
+    return policy.defaultPriority !== undefined ? policy.defaultPriority : RequestPriority.Normal;
+};
+
+/**
+ * Factory function to get a sliding window rate limiter with a priority queue.  Calls over the budget wait in the
+ * queue instead of failing.
+ *
+ * @param {IRateLimitBudget} budget
+ * @returns {IRateLimiter}
+ */
+export const getRateLimiter = (budget: IRateLimitBudget = defaultRateLimitBudget): IRateLimiter => {
+
+    const queue: IQueuedTask[] = [];
+    const started: number[]    = [];
+
+    let pumpTimer: NodeJS.Timer = null;
+
+    const dequeue = (task: IQueuedTask): boolean => {
+        const index = queue.indexOf(task);
+        if (index === -1) return false;
+
+        queue.splice(index, 1);
+
+        return true;
+    };
+
+    /**
+     * Starts as many queued tasks as the budget allows, then sleeps until the oldest start leaves the window.
+     */
+    const pump = (): void => {
+        pumpTimer = null;
+
+        while (queue.length > 0) {
+            const now = Date.now();
+            while (started.length > 0 && started[0] <= now - budget.interval) started.shift();
+
+            if (started.length >= budget.requests) {
+                pumpTimer = setTimeout(pump, started[0] + budget.interval - now);
+
+                return;
+            }
+
+            started.push(now);
+            queue.shift().start();
+        }
+    };
+
+    return {
+
+        budget,
+
+        /**
+         * Rejects every queued (not yet started) call.
+         *
+         * @param {string} reason
+         */
+        clear(reason: string = 'request queue cleared'): void {
+            queue.splice(0).forEach((task) => task.reject(new RequestCancelledError(reason)));
+        },
+
+        getQueueDepth(): number { return queue.length; },
+
+        /**
+         * Queues a task and resolves/rejects with its result once it has been allowed to run.
+         *
+         * @param {() => Promise<T>} task
+         * @param {IScheduleOptions} options
+         * @returns {Promise<T>}
+         */
+        schedule<T>(task: () => Promise<T>, options: IScheduleOptions = {}): Promise<T> {
+            return new Promise<T>((resolve, reject) => {
+                let timer: NodeJS.Timer = null;
+                const details           = { command: options.command };
+
+                const queued: IQueuedTask = {
+                    priority: options.priority !== undefined ? options.priority : RequestPriority.Normal,
+                    reject(err: Error): void {
+                        clearTimeout(timer);
+                        reject(err);
+                    },
+                    start(): void {
+                        clearTimeout(timer);
+                        task().then(resolve, reject);
+                    },
+                };
+
+                if (options.queueTimeout !== undefined && options.queueTimeout !== null) {
+                    timer = setTimeout(() => {
+                        if (dequeue(queued)) {
+                            reject(new QueueTimeoutError(`timed out waiting in request queue`, details));
+                        }
+                    }, options.queueTimeout);
+                }
+
+                if (options.cancelToken !== undefined && options.cancelToken !== null) {
+                    options.cancelToken.promise.then((cancel) => {
+                        if (dequeue(queued)) queued.reject(new RequestCancelledError(cancel.message, details));
+                    }).catch(() => undefined);
+                }
+
+                // Insert behind everything of equal or higher priority
+                const index = queue.findIndex((other) => other.priority < queued.priority);
+                queue.splice(index === -1 ? queue.length : index, 0, queued);
+
+                if (pumpTimer === null) pump();
+            });
+        },
+    };
+};
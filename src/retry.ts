@@ -0,0 +1,282 @@
+import { Decimal } from 'decimal.js';
+import { IPoloniexClient, IPoloniexResponse } from '../index';
+import { NetworkError, PoloniexApiError, QueueTimeoutError, RateLimitError, TimeoutError } from './errors';
+import { fromUnixTime, toDate } from './models';
+import { DecimalValue } from './orderParams';
+import { wrapClient, ClientMethod } from './wrapClient';
+
+/**
+ * The retry policy accepted by #getClient.
+ *
+ * Public reads are always retried.  Private methods are only retried if listed in `privateMethods`:
+ *  - reads (e.g. 'returnBalances') are simply resent with a new nonce and signature,
+ *  - 'buy', 'sell', 'marginBuy', 'marginSell' and 'withdraw' are only resent after checking that a failed attempt did
+ *    not go through.  A match dated after the first attempt was sent is taken for it; one dated up to
+ *    `verificationWindow` (ms) before it cannot be told apart from an earlier identical order, so nothing is resent,
+ *  - 'cancelOrder' and 'cancelLoanOffer' are resent as they are idempotent,
+ *  - anything else is never retried.
+ */
+export interface IRetryPolicy {
+    retries?: number;
+    minDelay?: number;
+    maxDelay?: number;
+    factor?: number;
+    jitter?: boolean;
+    privateMethods?: string[];
+    verificationWindow?: number;
+    isRetryable?(err: Error): boolean;
+}
+
+/**
+ * Default retry policy.
+ */
+const defaultRetryPolicy = {
+    factor            : 2,
+    jitter            : true,
+    maxDelay          : 10000,
+    minDelay          : 250,
+    privateMethods    : [] as string[],
+    retries           : 3,
+    verificationWindow: 10000,
+};
+
+const publicMethods = [
+    'return24Volume',
+    'returnChartData',
+    'returnCurrencies',
+    'returnLoanOrders',
+    'returnOrderBook',
+    'returnPublicTradeHistory',
+    'returnTicker',
+];
+
+const privateReadMethods = [
+    'getMarginPosition',
+    'returnActiveLoans',
+    'returnAvailableAccountBalances',
+    'returnBalances',
+    'returnCompleteBalances',
+    'returnDepositAddress',
+    'returnDepositsWithdrawals',
+    'returnFeeInfo',
+    'returnLendingHistory',
+    'returnMarginAccountSummary',
+    'returnOpenLoanOffers',
+    'returnOpenOrders',
+    'returnOrderTrades',
+    'returnPrivateTradeHistory',
+    'returnTradableBalances',
+];
+
+const idempotentMethods = ['cancelLoanOffer', 'cancelOrder'];
+
+const orderMethods: { [method: string]: 'buy' | 'sell' } = {
+    buy       : 'buy',
+    marginBuy : 'buy',
+    marginSell: 'sell',
+    sell      : 'sell',
+};
+
+const HTTP_SERVER_ERROR = 500;
+
+//tslint:disable-next-line:no-magic-numbers
+const toUnixTime = (ms: number): string => `${Math.floor(ms / 1000)}`;
+
+const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => { setTimeout(resolve, ms); });
+
+/**
+ * Timeouts (including time spent in the rate limit queue), connection failures, throttling and 5xx responses
+ * (including Cloudflare's 52x pages) are transient.
+ *
+ * @param {Error} err
+ * @returns {boolean}
+ */
+export const isTransientError = (err: Error): boolean =>
+    err instanceof TimeoutError ||
+    err instanceof QueueTimeoutError ||
+    err instanceof NetworkError ||
+    err instanceof RateLimitError ||
+    (err instanceof PoloniexApiError && err.constructor === PoloniexApiError && err.status >= HTTP_SERVER_ERROR);
+
+/**
+ * Builds a response for an order that turned out to have gone through.
+ */
+const recoveredResponse = (data: {}): IPoloniexResponse =>
+    ({ config: {}, data, headers: {}, status: 200, statusText: 'OK (recovered)' });
+
+interface IOrderParams {
+    currencyPair: string;
+    rate: DecimalValue;
+    amount: DecimalValue;
+}
+
+interface IWithdrawParams {
+    currency: string;
+    amount: number;
+    address: string;
+}
+
+/**
+ * A record matching a failed attempt, with the time (ms) the exchange gives it.  NaN if it gives none.
+ */
+interface IMatch {
+    response: IPoloniexResponse;
+    time: number;
+}
+
+/**
+ * Looks for orders matching `params` placed since `since` (or undated), first among open orders (matched on the
+ * starting amount and rate), then among trades (an order number with fills at the limit rate or better, adding up to
+ * no more than the amount).  An order that was partly filled and then cancelled (e.g. an immediate-or-cancel order)
+ * still went through.
+ *
+ * @returns {Promise<IMatch[]>}
+ */
+const findOrders = async (client: IPoloniexClient,
+                          type: 'buy' | 'sell',
+                          params: IOrderParams,
+                          since: number): Promise<IMatch[]> => {
+    const amount = new Decimal(params.amount);
+    const rate   = new Decimal(params.rate);
+
+    const { data: openOrders } = await client.returnOpenOrders({ currencyPair: params.currencyPair });
+
+    const open = (openOrders as Array<{ [key: string]: string }>)
+        .filter((order) =>
+            order.type === type &&
+            rate.eq(order.rate) &&
+            amount.eq(order.startingAmount !== undefined ? order.startingAmount : order.amount))
+        .map((order) => ({
+            response: recoveredResponse({ orderNumber: order.orderNumber, resultingTrades: [] }),
+            time    : order.date !== undefined ? toDate(order.date).getTime() : NaN,
+        }))
+        .filter((match) => !(match.time < since));
+
+    if (open.length > 0) return open;
+
+    const { data: trades } = await client.returnPrivateTradeHistory({
+        currencyPair: params.currencyPair,
+        end         : toUnixTime(Date.now()),
+        start       : toUnixTime(since),
+    });
+
+    const fills = (trades as Array<{ [key: string]: string }>).filter((trade) =>
+        trade.type === type &&
+        (type === 'buy' ? rate.gte(trade.rate) : rate.lte(trade.rate)));
+
+    const byOrder = fills.reduce<{ [orderNumber: string]: Array<{ [key: string]: string }> }>((acc, trade) => {
+        acc[trade.orderNumber] = [...(acc[trade.orderNumber] !== undefined ? acc[trade.orderNumber] : []), trade];
+
+        return acc;
+    }, {});
+
+    return Object.keys(byOrder)
+        .filter((orderNumber) =>
+            byOrder[orderNumber].reduce((sum, trade) => sum.plus(trade.amount), new Decimal(0)).lte(amount))
+        .map((orderNumber) => ({
+            response: recoveredResponse({ orderNumber, resultingTrades: byOrder[orderNumber] }),
+            time    : Math.min(...byOrder[orderNumber].map((trade) => toDate(trade.date).getTime())),
+        }));
+};
+
+/**
+ * Looks for withdrawals matching `params` made since `since`.
+ *
+ * @returns {Promise<IMatch[]>}
+ */
+const findWithdrawals = async (client: IPoloniexClient, params: IWithdrawParams, since: number): Promise<IMatch[]> => {
+    const { data } = await client.returnDepositsWithdrawals({
+        end  : toUnixTime(Date.now()),
+        start: toUnixTime(since),
+    });
+
+    return (data.withdrawals as Array<{ [key: string]: string }>)
+        .filter((entry) =>
+            entry.currency === params.currency &&
+            entry.address === params.address &&
+            new Decimal(params.amount).eq(entry.amount))
+        .map((entry) => ({
+            response: recoveredResponse({ response: `Withdrew ${entry.amount} ${entry.currency}.` }),
+            time    : fromUnixTime(entry.timestamp).getTime(),
+        }));
+};
+
+/**
+ * Returns a copy of the client that retries transient failures with exponential backoff and jitter.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IRetryPolicy} retryPolicy
+ * @returns {IPoloniexClient}
+ */
+export const withRetryPolicy = (client: IPoloniexClient, retryPolicy: IRetryPolicy): IPoloniexClient => {
+
+    // Construct local policy object
+    const policy      = { ...defaultRetryPolicy, ...retryPolicy };
+    const isRetryable = (err: Error): boolean =>
+        policy.isRetryable !== undefined ? policy.isRetryable(err) : isTransientError(err);
+
+    const backoff = (attempt: number): number => {
+        const cap = Math.min(policy.maxDelay, policy.minDelay * Math.pow(policy.factor, attempt));
+
+        return policy.jitter ? Math.random() * cap : cap;
+    };
+
+    /**
+     * Looks for records matching a non-idempotent call made since `since`.
+     */
+    const verify = (method: string, params: {}, since: number): Promise<IMatch[]> =>
+        method === 'withdraw' ?
+        findWithdrawals(client, params as IWithdrawParams, since) :
+        findOrders(client, orderMethods[method], params as IOrderParams, since);
+
+    const isAllowed = (method: string): boolean =>
+        publicMethods.indexOf(method) !== -1 ||
+        (policy.privateMethods.indexOf(method) !== -1 &&
+         (privateReadMethods.indexOf(method) !== -1 ||
+          idempotentMethods.indexOf(method) !== -1 ||
+          orderMethods[method] !== undefined ||
+          method === 'withdraw'));
+
+    const needsVerification = (method: string): boolean => orderMethods[method] !== undefined || method === 'withdraw';
+
+    return wrapClient(client, (method: string, original: ClientMethod): ClientMethod => {
+        if (!isAllowed(method)) return original;
+
+        return async (...args: Array<{}>): Promise<IPoloniexResponse> => {
+
+            // Exchange timestamps are in whole seconds
+            //tslint:disable-next-line:no-magic-numbers
+            const sentAt = Math.floor(Date.now() / 1000) * 1000;
+
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    return await original(...args);
+                } catch (err) {
+                    if (attempt >= policy.retries || !isRetryable(err)) return Promise.reject(err);
+
+                    await sleep(backoff(attempt));
+
+                    // A throttled or still queued request was never executed; anything else may have been
+                    const unsent = err instanceof RateLimitError || err instanceof QueueTimeoutError;
+
+                    if (needsVerification(method) && !unsent) {
+                        let matches: IMatch[];
+                        try {
+                            matches = await verify(method, args[0], sentAt - policy.verificationWindow);
+                        } catch (verifyErr) {
+                            return Promise.reject(err);
+                        }
+
+                        // Anything since the first attempt was sent is one of ours
+                        const recovered = matches.find((match) => match.time >= sentAt);
+                        if (recovered !== undefined) return recovered.response;
+
+                        // Something from just before it may be ours too (the exchange's clock may be behind), or an
+                        // earlier identical order: resending could place it twice
+                        if (matches.length > 0) return Promise.reject(err);
+                    }
+                }
+            }
+        };
+    });
+};
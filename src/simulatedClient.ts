@@ -0,0 +1,1314 @@
+import { Decimal } from 'decimal.js';
+import {
+    getClient,
+    signMessage,
+    IApiAuth,
+    IPoloniexClient,
+    IPoloniexRequestConfig,
+    IPoloniexResponse,
+    IPostBody,
+    IQueryParams,
+    IQueueDepth,
+    IRawAgent,
+} from '../index';
+import { errorFromResponse } from './errors';
+import { getMinimumTotal } from './minimumTotals';
+import { RawNumber } from './models';
+
+/**
+ * The accounts balances are kept in.
+ */
+export type SimulatedAccount = 'exchange' | 'margin' | 'lending';
+
+/**
+ * Options for the simulated exchange.
+ *
+ *  - `balances` are the initial exchange account balances,
+ *  - `marketData` serves public calls and, with `syncOnOrder`, refreshes the order book before each order,
+ *  - `now` is the clock, e.g. the timestamp of the recorded data being replayed,
+ *  - `minimumTotals` is the smallest order total (rate * amount) per base currency, `defaultMinimumTotal` applies to
+ *    the others.  Both default to what Poloniex enforces, as in order validation.
+ */
+export interface ISimulationConfig {
+    balances?: { [currency: string]: RawNumber };
+    makerFee?: RawNumber;
+    takerFee?: RawNumber;
+    maxLeverage?: number;
+    minimumTotals?: { [baseCurrency: string]: RawNumber };
+    defaultMinimumTotal?: RawNumber;
+    marketData?: IPoloniexClient;
+    syncOnOrder?: boolean;
+    now?(): Date;
+}
+
+/**
+ * Market liquidity as [rate, amount] levels, best first.
+ */
+export interface ISimulatedBook {
+    asks: Array<[RawNumber, RawNumber]>;
+    bids: Array<[RawNumber, RawNumber]>;
+}
+
+/**
+ * A trade printed by the rest of the market.  `type` is the taker's side.
+ */
+export interface ISimulatedTrade {
+    type: 'buy' | 'sell';
+    rate: RawNumber;
+    amount: RawNumber;
+    date?: Date;
+}
+
+/**
+ * A Poloniex client backed by a local matching engine, plus the methods that feed it market data.
+ */
+export interface ISimulatedClient extends IPoloniexClient {
+
+    setOrderBook(currencyPair: string, book: ISimulatedBook): void;
+
+    addTrade(currencyPair: string, trade: ISimulatedTrade): void;
+
+    deposit(currency: string, amount: RawNumber): void;
+
+    syncOrderBook(currencyPair: string): Promise<void>;
+}
+
+/**
+ * Default simulation configuration.  Fees are Poloniex's base tier.
+ */
+const defaultSimulationConfig: ISimulationConfig = {
+    balances   : {},
+    makerFee   : '0.0015',
+    maxLeverage: 2.5,
+    now        : (): Date => new Date(),
+    syncOnOrder: true,
+    takerFee   : '0.0025',
+};
+
+type OrderType = 'buy' | 'sell';
+
+interface ISimParams {
+    [param: string]: RawNumber;
+}
+
+interface ILevel {
+    rate: Decimal;
+    amount: Decimal;
+}
+
+interface IBook {
+    asks: ILevel[];
+    bids: ILevel[];
+    seq: number;
+}
+
+interface IOrder {
+    orderNumber: string;
+    currencyPair: string;
+    type: OrderType;
+    rate: Decimal;
+    startingAmount: Decimal;
+    amount: Decimal;
+    date: Date;
+    margin: boolean;
+}
+
+interface IPrint {
+    globalTradeID: number;
+    currencyPair: string;
+    type: OrderType;
+    rate: Decimal;
+    amount: Decimal;
+    date: Date;
+}
+
+interface IFill extends IPrint {
+    orderNumber: string;
+    side: OrderType;
+    fee: Decimal;
+    category: 'exchange' | 'marginTrade';
+}
+
+interface IPosition {
+    amount: Decimal;
+    total: Decimal;
+}
+
+interface ISimLoanOffer {
+    id: number;
+    currency: string;
+    rate: Decimal;
+    amount: Decimal;
+    duration: number;
+    autoRenew: boolean;
+    date: Date;
+}
+
+interface IDepositRecord {
+    currency: string;
+    address: string;
+    amount: Decimal;
+    txid: string;
+    date: Date;
+}
+
+interface IWithdrawalRecord {
+    withdrawalNumber: number;
+    currency: string;
+    address: string;
+    amount: Decimal;
+    date: Date;
+}
+
+/**
+ * The (JSON) body of a simulated response.
+ */
+type ResponseData = object;
+
+interface IPlacedOrder {
+    orderNumber: string;
+    resultingTrades: ResponseData[];
+    amountUnfilled?: string;
+}
+
+type CommandHandler = (params: ISimParams) => ResponseData;
+
+const DECIMALS          = 8;
+const DEFAULT_DEPTH     = 50;
+const PRIVATE_PAGE_SIZE = 500;
+const PUBLIC_PAGE_SIZE  = 200;
+const SECONDS_PER_DAY   = 86400;
+const zero              = new Decimal(0);
+
+const accounts: SimulatedAccount[] = ['exchange', 'margin', 'lending'];
+
+const commandsWithPair = ['buy', 'closeMarginPosition', 'marginBuy', 'marginSell', 'sell'];
+
+const fmt = (value: Decimal): string => value.toFixed(DECIMALS);
+
+const round = (value: Decimal): Decimal => value.toDecimalPlaces(DECIMALS, Decimal.ROUND_DOWN);
+
+//tslint:disable:no-magic-numbers
+const formatDate = (date: Date): string => date.toISOString().replace('T', ' ').slice(0, 19);
+
+const unixTime = (date: Date): number => Math.floor(date.getTime() / 1000);
+//tslint:enable:no-magic-numbers
+
+const isSet = (value: RawNumber): boolean => `${value}` === '1' || `${value}` === 'true';
+
+const isGiven = (value: RawNumber): boolean => value !== undefined && value !== null && `${value}` !== '';
+
+const sum = (values: Decimal[]): Decimal => values.reduce((acc, value) => acc.plus(value), zero);
+
+const splitPair = (currencyPair: string): [string, string] => {
+    const [base, quote] = currencyPair.split('_');
+
+    return [base, quote];
+};
+
+const opposite = (type: OrderType): OrderType => type === 'buy' ? 'sell' : 'buy';
+
+const crosses = (type: OrderType, limit: Decimal, rate: Decimal): boolean =>
+    type === 'buy' ? rate.lte(limit) : rate.gte(limit);
+
+const fail = (message: string): never => { throw new Error(message); };
+
+/**
+ * Parses a rate or amount, failing as Poloniex does unless it is a positive number with at most 8 decimal places.
+ */
+const parsePositive = (value: RawNumber, name: string): Decimal => {
+    let decimal: Decimal;
+    try {
+        decimal = new Decimal(isGiven(value) ? value : 0);
+    } catch (err) {
+        return fail(`Invalid ${name} parameter.`);
+    }
+
+    if (!decimal.isFinite() || !decimal.isPositive() || decimal.isZero() || decimal.decimalPlaces() > DECIMALS) {
+        fail(`Invalid ${name} parameter.`);
+    }
+
+    return decimal;
+};
+
+const respond = (data: ResponseData): IPoloniexResponse =>
+    ({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const formatResultingTrade = (fill: IFill): ResponseData => ({
+    amount : fmt(fill.amount),
+    date   : formatDate(fill.date),
+    rate   : fmt(fill.rate),
+    total  : fmt(round(fill.rate.times(fill.amount))),
+    tradeID: `${fill.globalTradeID}`,
+    type   : fill.side,
+});
+
+/**
+ * Factory function to get a simulated Poloniex client.  It is the regular client running on a raw agent that executes
+ * commands against local balances, order books and positions instead of the exchange, so responses and errors have
+ * the same shape as Poloniex's.
+ *
+ * Orders match against the order book set with #setOrderBook (or synced from `marketData`), taking its liquidity.
+ * Orders left open fill, at their own rate, when a later order book or #addTrade crosses them.  Loan offers are never
+ * taken.
+ *
+ * @param {ISimulationConfig} simulationConfig
+ * @returns {ISimulatedClient}
+ */
+export const getSimulatedClient = (simulationConfig: ISimulationConfig = null): ISimulatedClient => {
+
+    // Construct local config object
+    const config          = { ...defaultSimulationConfig, ...simulationConfig };
+    const makerFee        = new Decimal(config.makerFee);
+    const takerFee        = new Decimal(config.takerFee);
+    const maxLeverage     = new Decimal(config.maxLeverage);
+    const minimumTotalFor = getMinimumTotal(simulationConfig);
+
+    const balances: { [account: string]: Map<string, Decimal> } = {
+        exchange: new Map<string, Decimal>(),
+        lending : new Map<string, Decimal>(),
+        margin  : new Map<string, Decimal>(),
+    };
+    const onOrders    = new Map<string, Decimal>();
+    const books       = new Map<string, IBook>();
+    const openOrders  = new Map<string, IOrder>();
+    const positions   = new Map<string, IPosition>();
+    const loanOffers  = new Map<string, ISimLoanOffer>();
+    const addresses   = new Map<string, string>();
+    const tape: IPrint[]                   = [];
+    const fills: IFill[]                   = [];
+    const deposits: IDepositRecord[]       = [];
+    const withdrawals: IWithdrawalRecord[] = [];
+
+    let lastOrderNumber = 0;
+    let lastTradeId     = 0;
+
+    /*
+     * Balances
+     */
+
+    const balance = (account: string, currency: string): Decimal =>
+        balances[account].has(currency) ? balances[account].get(currency) : zero;
+
+    const credit = (account: string, currency: string, amount: Decimal): void => {
+        balances[account].set(currency, balance(account, currency).plus(amount));
+    };
+
+    const held = (currency: string): Decimal => onOrders.has(currency) ? onOrders.get(currency) : zero;
+
+    const hold = (currency: string, amount: Decimal): void => {
+        credit('exchange', currency, amount.negated());
+        onOrders.set(currency, held(currency).plus(amount));
+    };
+
+    const release = (currency: string, amount: Decimal): void => {
+        onOrders.set(currency, held(currency).minus(amount));
+        credit('exchange', currency, amount);
+    };
+
+    const requireFunds = (account: string, currency: string, amount: Decimal): void => {
+        if (balance(account, currency).lt(amount)) fail(`Not enough ${currency}.`);
+    };
+
+    const currencies = (): string[] => {
+        const known = new Set<string>([...Array.from(onOrders.keys()), ...Array.from(addresses.keys())]);
+        accounts.forEach((account) => balances[account].forEach((amount, currency) => known.add(currency)));
+        books.forEach((book, pair) => splitPair(pair).forEach((currency) => known.add(currency)));
+
+        return Array.from(known).sort();
+    };
+
+    /*
+     * Market data
+     */
+
+    const bookFor = (currencyPair: string): IBook => {
+        if (!books.has(currencyPair)) books.set(currencyPair, { asks: [], bids: [], seq: 0 });
+
+        return books.get(currencyPair);
+    };
+
+    const lastRate = (currencyPair: string): Decimal => {
+        const last = [...tape].reverse().find((print) => print.currencyPair === currencyPair);
+
+        return last !== undefined ? last.rate : undefined;
+    };
+
+    /**
+     * Mid price, falling back to the last trade.
+     */
+    const markPrice = (currencyPair: string): Decimal => {
+        const book = books.get(currencyPair);
+        if (book !== undefined && book.asks.length > 0 && book.bids.length > 0) {
+            //tslint:disable-next-line:no-magic-numbers
+            return book.asks[0].rate.plus(book.bids[0].rate).div(2);
+        }
+
+        return lastRate(currencyPair);
+    };
+
+    const btcValue = (currency: string, amount: Decimal): Decimal => {
+        if (currency === 'BTC') return amount;
+
+        const direct  = markPrice(`BTC_${currency}`);
+        const inverse = markPrice(`${currency}_BTC`);
+
+        if (direct !== undefined) return amount.times(direct);
+        if (inverse !== undefined) return amount.div(inverse);
+
+        return zero;
+    };
+
+    const pairs = (): string[] => {
+        const known = new Set<string>([...Array.from(books.keys()), ...Array.from(positions.keys())]);
+        tape.forEach((print) => known.add(print.currencyPair));
+
+        return Array.from(known).sort();
+    };
+
+    const recentPrints = (currencyPair: string, since: number, until: number = Infinity): IPrint[] =>
+        tape.filter((print) => print.currencyPair === currencyPair &&
+                               unixTime(print.date) >= since &&
+                               unixTime(print.date) <= until);
+
+    const printTrade = (currencyPair: string, type: OrderType, rate: Decimal, amount: Decimal, date: Date): IPrint => {
+        const print = { amount, currencyPair, date, globalTradeID: ++lastTradeId, rate, type };
+        tape.push(print);
+
+        return print;
+    };
+
+    /*
+     * Margin
+     */
+
+    const positionFor = (currencyPair: string): IPosition => {
+        if (!positions.has(currencyPair)) positions.set(currencyPair, { amount: zero, total: zero });
+
+        return positions.get(currencyPair);
+    };
+
+    const unrealizedPl = (currencyPair: string): Decimal => {
+        const position = positionFor(currencyPair);
+        const mark     = markPrice(currencyPair);
+
+        return position.amount.isZero() || mark === undefined ?
+               zero :
+               position.amount.times(mark).minus(position.total);
+    };
+
+    /**
+     * Margin balance in `base` plus the unrealized profit/loss of the positions in `base` markets.
+     */
+    const marginEquity = (base: string): Decimal =>
+        pairs().filter((pair) => splitPair(pair)[0] === base)
+               .reduce((acc, pair) => acc.plus(unrealizedPl(pair)), balance('margin', base));
+
+    const borrowed = (base: string): Decimal =>
+        sum(Array.from(positions.keys())
+                 .filter((pair) => splitPair(pair)[0] === base)
+                 .map((pair) => positions.get(pair).total.abs()));
+
+    const buyingPower = (base: string): Decimal => {
+        const power = marginEquity(base).times(maxLeverage).minus(borrowed(base));
+
+        return power.isNegative() ? zero : power;
+    };
+
+    /**
+     * Adds a fill to a position, realizing the profit/loss of whatever part of it the fill closes.
+     */
+    const applyMarginFill = (currencyPair: string, type: OrderType, rate: Decimal, amount: Decimal): void => {
+        const position = positionFor(currencyPair);
+        const signed   = type === 'buy' ? amount : amount.negated();
+
+        if (!position.amount.isZero() && position.amount.isPositive() !== signed.isPositive()) {
+            const closing   = Decimal.min(amount, position.amount.abs());
+            const basePrice = position.total.div(position.amount);
+            const direction = position.amount.isPositive() ? 1 : -1;
+
+            credit('margin', splitPair(currencyPair)[0], round(rate.minus(basePrice).times(closing).times(direction)));
+            position.total  = position.total.minus(basePrice.times(closing).times(direction));
+            position.amount = position.amount.minus(closing.times(direction));
+
+            if (position.amount.isZero()) position.total = zero;
+
+            const opening = amount.minus(closing);
+            if (opening.isZero()) return;
+
+            position.amount = position.amount.plus(type === 'buy' ? opening : opening.negated());
+            position.total  = position.total.plus(rate.times(type === 'buy' ? opening : opening.negated()));
+
+            return;
+        }
+
+        position.amount = position.amount.plus(signed);
+        position.total  = position.total.plus(rate.times(signed));
+    };
+
+    /**
+     * The price at which the position's margin would fall to Poloniex's 20% maintenance margin.
+     */
+    const liquidationPrice = (currencyPair: string): Decimal => {
+        const position = positionFor(currencyPair);
+        if (position.amount.isZero()) return new Decimal(-1);
+
+        const equity = balance('margin', splitPair(currencyPair)[0]);
+        //tslint:disable-next-line:no-magic-numbers
+        const factor = position.amount.isPositive() ? new Decimal(0.8) : new Decimal(1.2);
+        const price  = position.total.minus(equity).div(position.amount.times(factor));
+
+        return price.isPositive() ? price : new Decimal(-1);
+    };
+
+    /*
+     * Matching
+     */
+
+    /**
+     * Records a fill of `order` and settles it.  Taker fills are paid from available balances, maker fills from the
+     * amount held for the order.
+     */
+    const execute = (order: IOrder, rate: Decimal, amount: Decimal, maker: boolean): IFill => {
+        const [base, quote] = splitPair(order.currencyPair);
+        const fee           = maker ? makerFee : takerFee;
+        const total         = round(rate.times(amount));
+        const date          = config.now();
+
+        if (order.margin) {
+            applyMarginFill(order.currencyPair, order.type, rate, amount);
+            credit('margin', base, round(total.times(fee)).negated());
+        } else if (order.type === 'buy') {
+            if (maker) release(base, total);
+            credit('exchange', base, total.negated());
+            credit('exchange', quote, round(amount.times(new Decimal(1).minus(fee))));
+        } else {
+            if (maker) release(quote, amount);
+            credit('exchange', quote, amount.negated());
+            credit('exchange', base, round(total.times(new Decimal(1).minus(fee))));
+        }
+
+        order.amount = order.amount.minus(amount);
+
+        const print = printTrade(order.currencyPair, maker ? opposite(order.type) : order.type, rate, amount, date);
+        const fill  = {
+            ...print,
+            category   : order.margin ? 'marginTrade' as 'marginTrade' : 'exchange' as 'exchange',
+            fee,
+            orderNumber: order.orderNumber,
+            side       : order.type,
+        };
+        fills.push(fill);
+
+        return fill;
+    };
+
+    /**
+     * Finds the liquidity an order of `amount` at `limit` would take, without taking it.
+     */
+    const findLiquidity = (levels: ILevel[], type: OrderType, limit: Decimal, amount: Decimal): ILevel[] => {
+        const taken: ILevel[] = [];
+        let remaining         = amount;
+
+        for (const level of levels) {
+            if (remaining.isZero() || !crosses(type, limit, level.rate)) break;
+
+            const take = Decimal.min(remaining, level.amount);
+            taken.push({ amount: take, rate: level.rate });
+            remaining = remaining.minus(take);
+        }
+
+        return taken;
+    };
+
+    const takeLiquidity = (levels: ILevel[], taken: ILevel[]): void => {
+        taken.forEach((take, index) => { levels[index].amount = levels[index].amount.minus(take.amount); });
+        while (levels.length > 0 && levels[0].amount.lte(0)) levels.shift();
+    };
+
+    const removeOrder = (order: IOrder): void => {
+        openOrders.delete(order.orderNumber);
+
+        if (order.margin) return;
+
+        const [base, quote] = splitPair(order.currencyPair);
+        if (order.type === 'buy') {
+            release(base, round(order.rate.times(order.amount)));
+        } else {
+            release(quote, order.amount);
+        }
+    };
+
+    const restOrder = (order: IOrder): void => {
+        const [base, quote] = splitPair(order.currencyPair);
+
+        // Margin orders are backed by the margin account's buying power, not by held balances
+        if (!order.margin && order.type === 'buy') hold(base, round(order.rate.times(order.amount)));
+        if (!order.margin && order.type === 'sell') hold(quote, order.amount);
+
+        openOrders.set(order.orderNumber, order);
+    };
+
+    const ordersIn = (currencyPair: string, type: OrderType): IOrder[] =>
+        Array.from(openOrders.values())
+             .filter((order) => order.currencyPair === currencyPair && order.type === type)
+             .sort((a, b) => type === 'buy' ? b.rate.comparedTo(a.rate) : a.rate.comparedTo(b.rate));
+
+    /**
+     * Fills open orders the market has moved through, at their own rate, taking the liquidity that crossed them.
+     */
+    const matchOpenOrders = (currencyPair: string): void => {
+        const book = bookFor(currencyPair);
+
+        (['buy', 'sell'] as OrderType[]).forEach((type) => {
+            const levels = type === 'buy' ? book.asks : book.bids;
+
+            ordersIn(currencyPair, type).forEach((order) => {
+                const taken = findLiquidity(levels, type, order.rate, order.amount);
+                takeLiquidity(levels, taken);
+
+                const amount = sum(taken.map((take) => take.amount));
+                if (amount.isZero()) return;
+
+                execute(order, order.rate, amount, true);
+                if (order.amount.isZero()) openOrders.delete(order.orderNumber);
+            });
+        });
+    };
+
+    const requireOrderFunds = (type: OrderType, currencyPair: string, rate: Decimal, amount: Decimal,
+                               margin: boolean): void => {
+        const [base, quote] = splitPair(currencyPair);
+
+        if (!margin) {
+            if (type === 'buy') {
+                requireFunds('exchange', base, round(rate.times(amount)));
+            } else {
+                requireFunds('exchange', quote, amount);
+            }
+
+            return;
+        }
+
+        // Orders that only reduce the position need no margin
+        const position = positionFor(currencyPair).amount;
+        const reduces  = type === 'buy' ? position.isNegative() : position.isPositive();
+
+        if (!reduces && buyingPower(base).lt(rate.times(amount))) {
+            fail(`Not enough ${base} to place this margin order.`);
+        }
+    };
+
+    /**
+     * Places an order: takes the liquidity it crosses, then leaves the rest open unless it is immediate-or-cancel.
+     */
+    const placeOrder = (type: OrderType, params: ISimParams, margin: boolean): IPlacedOrder => {
+        const currencyPair = `${params.currencyPair}`;
+        const rate         = parsePositive(params.rate, 'rate');
+        const amount       = parsePositive(params.amount, 'amount');
+        const minimumTotal = minimumTotalFor(splitPair(currencyPair)[0]);
+
+        if (rate.times(amount).lt(minimumTotal)) fail(`Total must be at least ${minimumTotal}.`);
+
+        const book   = bookFor(currencyPair);
+        const levels = type === 'buy' ? book.asks : book.bids;
+
+        if (isSet(params.postOnly) && levels.length > 0 && crosses(type, rate, levels[0].rate)) {
+            fail('Unable to place post-only order at this price.');
+        }
+
+        requireOrderFunds(type, currencyPair, rate, amount, margin);
+
+        const taken  = findLiquidity(levels, type, rate, amount);
+        const filled = sum(taken.map((take) => take.amount));
+
+        if (isSet(params.fillOrKill) && filled.lt(amount)) fail('Unable to fill order completely.');
+
+        const order: IOrder = {
+            amount,
+            currencyPair,
+            date          : config.now(),
+            margin,
+            orderNumber   : `${++lastOrderNumber}`,
+            rate,
+            startingAmount: amount,
+            type,
+        };
+
+        takeLiquidity(levels, taken);
+        const trades = taken.map((take) => execute(order, take.rate, take.amount, false));
+
+        const result: IPlacedOrder = {
+            orderNumber    : order.orderNumber,
+            resultingTrades: trades.map(formatResultingTrade),
+        };
+
+        if (order.amount.isZero()) return result;
+
+        if (isSet(params.immediateOrCancel)) return { ...result, amountUnfilled: fmt(order.amount) };
+
+        restOrder(order);
+
+        return result;
+    };
+
+    const requireOrder = (orderNumber: RawNumber): IOrder =>
+        openOrders.has(`${orderNumber}`) ?
+        openOrders.get(`${orderNumber}`) :
+        fail('Invalid order number, or you are not the person who placed the order.');
+
+    const marginResult = (currencyPair: string, result: IPlacedOrder): ResponseData => ({
+        message        : 'Margin order placed.',
+        orderNumber    : result.orderNumber,
+        resultingTrades: { [currencyPair]: result.resultingTrades },
+        success        : 1,
+    });
+
+    /*
+     * Formatting
+     */
+
+    const formatOpenOrder = (order: IOrder): ResponseData => ({
+        amount        : fmt(order.amount),
+        date          : formatDate(order.date),
+        margin        : order.margin ? 1 : 0,
+        orderNumber   : order.orderNumber,
+        rate          : fmt(order.rate),
+        startingAmount: fmt(order.startingAmount),
+        total         : fmt(round(order.rate.times(order.amount))),
+        type          : order.type,
+    });
+
+    const formatFill = (fill: IFill): ResponseData => ({
+        amount       : fmt(fill.amount),
+        category     : fill.category,
+        date         : formatDate(fill.date),
+        fee          : fmt(fill.fee),
+        globalTradeID: fill.globalTradeID,
+        orderNumber  : fill.orderNumber,
+        rate         : fmt(fill.rate),
+        total        : fmt(round(fill.rate.times(fill.amount))),
+        tradeID      : `${fill.globalTradeID}`,
+        type         : fill.side,
+    });
+
+    const formatPrint = (print: IPrint): ResponseData => ({
+        amount       : fmt(print.amount),
+        date         : formatDate(print.date),
+        globalTradeID: print.globalTradeID,
+        rate         : fmt(print.rate),
+        total        : fmt(round(print.rate.times(print.amount))),
+        tradeID      : print.globalTradeID,
+        type         : print.type,
+    });
+
+    const formatBook = (book: IBook, depth: number): ResponseData => ({
+        asks    : book.asks.slice(0, depth).map((level) => [fmt(level.rate), level.amount.toNumber()]),
+        bids    : book.bids.slice(0, depth).map((level) => [fmt(level.rate), level.amount.toNumber()]),
+        isFrozen: '0',
+        seq     : book.seq,
+    });
+
+    const formatTicker = (currencyPair: string, index: number): ResponseData => {
+        const book   = bookFor(currencyPair);
+        const since  = unixTime(config.now()) - SECONDS_PER_DAY;
+        const day    = recentPrints(currencyPair, since);
+        const rates  = day.map((print) => print.rate);
+        const last   = lastRate(currencyPair);
+        const first  = day.length > 0 ? day[0].rate : last;
+        const change = last !== undefined && first !== undefined ? last.minus(first).div(first) : zero;
+
+        return {
+            baseVolume   : fmt(sum(day.map((print) => print.rate.times(print.amount)))),
+            high24hr     : fmt(rates.length > 0 ? Decimal.max(...rates) : zero),
+            highestBid   : fmt(book.bids.length > 0 ? book.bids[0].rate : zero),
+            id           : index + 1,
+            isFrozen     : '0',
+            last         : fmt(last !== undefined ? last : zero),
+            low24hr      : fmt(rates.length > 0 ? Decimal.min(...rates) : zero),
+            lowestAsk    : fmt(book.asks.length > 0 ? book.asks[0].rate : zero),
+            percentChange: fmt(change),
+            quoteVolume  : fmt(sum(day.map((print) => print.amount))),
+        };
+    };
+
+    const formatCandles = (currencyPair: string, start: number, end: number, period: number): Array<{}> => {
+        const buckets = new Map<number, IPrint[]>();
+        recentPrints(currencyPair, start, end).forEach((print) => {
+            const bucket = Math.floor(unixTime(print.date) / period) * period;
+            buckets.set(bucket, [...(buckets.has(bucket) ? buckets.get(bucket) : []), print]);
+        });
+
+        if (buckets.size === 0) {
+            return [{ close: 0, date: 0, high: 0, low: 0, open: 0, quoteVolume: 0, volume: 0, weightedAverage: 0 }];
+        }
+
+        return Array.from(buckets.keys()).sort((a, b) => a - b).map((date) => {
+            const prints = buckets.get(date);
+            const rates  = prints.map((print) => print.rate);
+            const volume = sum(prints.map((print) => print.rate.times(print.amount)));
+            const quote  = sum(prints.map((print) => print.amount));
+
+            return {
+                close          : rates[rates.length - 1].toNumber(),
+                date,
+                high           : Decimal.max(...rates).toNumber(),
+                low            : Decimal.min(...rates).toNumber(),
+                open           : rates[0].toNumber(),
+                quoteVolume    : quote.toNumber(),
+                volume         : volume.toNumber(),
+                weightedAverage: volume.div(quote).toNumber(),
+            };
+        });
+    };
+
+    const formatPosition = (currencyPair: string): ResponseData => {
+        const position = positionFor(currencyPair);
+        const type     = position.amount.isZero() ? 'none' : position.amount.isPositive() ? 'long' : 'short';
+
+        return {
+            amount          : fmt(position.amount),
+            basePrice       : fmt(position.amount.isZero() ? zero : position.total.div(position.amount)),
+            lendingFees     : fmt(zero),
+            liquidationPrice: fmt(liquidationPrice(currencyPair)),
+            pl              : fmt(unrealizedPl(currencyPair)),
+            total           : fmt(position.total),
+            type,
+        };
+    };
+
+    const formatLoanOffer = (offer: ISimLoanOffer): ResponseData => ({
+        amount   : fmt(offer.amount),
+        autoRenew: offer.autoRenew ? 1 : 0,
+        date     : formatDate(offer.date),
+        duration : offer.duration,
+        id       : offer.id,
+        rate     : fmt(offer.rate),
+    });
+
+    /**
+     * Applies a single pair or 'all' request: arrays for one pair, a map keyed by pair for 'all'.
+     */
+    const perPair = (currencyPair: RawNumber, known: string[], fn: (pair: string) => ResponseData): ResponseData =>
+        `${currencyPair}` !== 'all' ?
+        fn(`${currencyPair}`) :
+        known.reduce<{ [pair: string]: ResponseData }>((acc, pair) => ({ ...acc, [pair]: fn(pair) }), {});
+
+    const inRange = (date: Date, params: ISimParams, defaultStart: number = 0): boolean =>
+        unixTime(date) >= (isGiven(params.start) ? Number(params.start) : defaultStart) &&
+        unixTime(date) <= (isGiven(params.end) ? Number(params.end) : Infinity);
+
+    /*
+     * Commands
+     */
+
+    const publicCommands: { [command: string]: CommandHandler } = {
+        return24hVolume: () => {
+            const since  = unixTime(config.now()) - SECONDS_PER_DAY;
+            const totals = new Map<string, Decimal>();
+
+            const volumes = pairs().reduce<{ [key: string]: {} }>((acc, pair) => {
+                const [base, quote] = splitPair(pair);
+                const prints        = recentPrints(pair, since);
+                const baseVolume    = sum(prints.map((print) => print.rate.times(print.amount)));
+                totals.set(base, (totals.has(base) ? totals.get(base) : zero).plus(baseVolume));
+
+                return { ...acc, [pair]: { [base]: fmt(baseVolume), [quote]: fmt(sum(prints.map((p) => p.amount))) } };
+            }, {});
+
+            totals.forEach((total, base) => { volumes[`total${base}`] = fmt(total); });
+
+            return volumes;
+        },
+
+        returnChartData: (params) =>
+            formatCandles(`${params.currencyPair}`, Number(params.start), Number(params.end), Number(params.period)),
+
+        returnCurrencies: () => currencies().reduce<{ [currency: string]: {} }>((acc, currency, index) => ({
+            ...acc,
+            [currency]: {
+                delisted      : 0,
+                depositAddress: null,
+                disabled      : 0,
+                frozen        : 0,
+                id            : index + 1,
+                minConf       : 1,
+                name          : currency,
+                txFee         : fmt(zero),
+            },
+        }), {}),
+
+        returnLoanOrders: (params) => ({
+            demands: [],
+            offers : Array.from(loanOffers.values())
+                          .filter((offer) => offer.currency === `${params.currency}`)
+                          .map((offer) => ({
+                              amount  : fmt(offer.amount),
+                              rangeMax: offer.duration,
+                              rangeMin: offer.duration,
+                              rate    : fmt(offer.rate),
+                          })),
+        }),
+
+        returnOrderBook: (params) => {
+            const depth = isGiven(params.depth) ? Number(params.depth) : DEFAULT_DEPTH;
+
+            return perPair(isGiven(params.currencyPair) ? params.currencyPair : 'all', Array.from(books.keys()),
+                           (pair) => formatBook(bookFor(pair), depth));
+        },
+
+        returnTicker: () => pairs().reduce<{ [pair: string]: {} }>((acc, pair, index) =>
+            ({ ...acc, [pair]: formatTicker(pair, index) }), {}),
+
+        returnTradeHistory: (params) => {
+            const prints = tape.filter((print) => print.currencyPair === `${params.currencyPair}` &&
+                                                  inRange(print.date, params))
+                               .reverse();
+
+            return (isGiven(params.start) ? prints : prints.slice(0, PUBLIC_PAGE_SIZE)).map(formatPrint);
+        },
+    };
+
+    const privateCommands: { [command: string]: CommandHandler } = {
+        buy: (params) => placeOrder('buy', params, false),
+
+        cancelLoanOffer: (params) => {
+            const offer = loanOffers.get(`${params.orderNumber}`);
+            if (offer === undefined) fail('Invalid loan offer number.');
+
+            loanOffers.delete(`${params.orderNumber}`);
+            credit('lending', offer.currency, offer.amount);
+
+            return { message: 'Loan offer canceled.', success: 1 };
+        },
+
+        cancelOrder: (params) => {
+            const order = requireOrder(params.orderNumber);
+            removeOrder(order);
+
+            return { amount: fmt(order.amount), message: `Order #${order.orderNumber} canceled.`, success: 1 };
+        },
+
+        closeMarginPosition: (params) => {
+            const currencyPair = `${params.currencyPair}`;
+            const position     = positionFor(currencyPair);
+            if (position.amount.isZero()) fail('You do not have an open position in this market.');
+
+            const type: OrderType = position.amount.isPositive() ? 'sell' : 'buy';
+            const rate            = type === 'buy' ? new Decimal(Infinity) : zero;
+            const book            = bookFor(currencyPair);
+            const levels          = type === 'buy' ? book.asks : book.bids;
+            const taken           = findLiquidity(levels, type, rate, position.amount.abs());
+            const order: IOrder   = {
+                amount        : position.amount.abs(),
+                currencyPair,
+                date          : config.now(),
+                margin        : true,
+                orderNumber   : `${++lastOrderNumber}`,
+                rate,
+                startingAmount: position.amount.abs(),
+                type,
+            };
+
+            takeLiquidity(levels, taken);
+            const trades = taken.map((take) => execute(order, take.rate, take.amount, false));
+
+            return {
+                message        : 'Successfully closed margin position.',
+                resultingTrades: { [currencyPair]: trades.map(formatResultingTrade) },
+                success        : 1,
+            };
+        },
+
+        createLoanOffer: (params) => {
+            const currency = `${params.currency}`;
+            const amount   = parsePositive(params.amount, 'amount');
+            const rate     = parsePositive(params.lendingRate, 'lendingRate');
+            requireFunds('lending', currency, amount);
+
+            const offer = {
+                amount,
+                autoRenew: isSet(params.autoRenew),
+                currency,
+                date     : config.now(),
+                duration : Number(params.duration),
+                id       : ++lastOrderNumber,
+                rate,
+            };
+            credit('lending', currency, amount.negated());
+            loanOffers.set(`${offer.id}`, offer);
+
+            return { message: 'Loan order placed.', orderID: offer.id, success: 1 };
+        },
+
+        generateNewAddress: (params) => {
+            const currency = `${params.currency}`;
+            addresses.set(currency, `SIMULATED-${currency}-${addresses.size + 1}`);
+
+            return { response: addresses.get(currency), success: 1 };
+        },
+
+        getMarginPosition: (params) => perPair(params.currencyPair, pairs(), formatPosition),
+
+        marginBuy: (params) => marginResult(`${params.currencyPair}`, placeOrder('buy', params, true)),
+
+        marginSell: (params) => marginResult(`${params.currencyPair}`, placeOrder('sell', params, true)),
+
+        moveOrder: (params) => {
+            const order = requireOrder(params.orderNumber);
+            removeOrder(order);
+
+            try {
+                const result = placeOrder(order.type, {
+                    amount           : isGiven(params.amount) ? params.amount : order.amount.toString(),
+                    currencyPair     : order.currencyPair,
+                    immediateOrCancel: params.immediateOrCancel,
+                    postOnly         : params.postOnly,
+                    rate             : params.rate,
+                }, order.margin);
+
+                return {
+                    orderNumber    : result.orderNumber,
+                    resultingTrades: { [order.currencyPair]: result.resultingTrades },
+                    success        : 1,
+                };
+            } catch (err) {
+                // The original order stays as it was
+                restOrder(order);
+                throw err;
+            }
+        },
+
+        returnActiveLoans: () => ({ provided: [], used: [] }),
+
+        returnAvailableAccountBalances: (params) =>
+            accounts.filter((account) => !isGiven(params.account) || `${params.account}` === account)
+                    .reduce<{ [account: string]: {} }>((acc, account) => {
+                        const available = currencies().filter((currency) => !balance(account, currency).isZero());
+                        if (available.length === 0) return acc;
+
+                        return {
+                            ...acc,
+                            [account]: available.reduce<{ [currency: string]: string }>((result, currency) =>
+                                ({ ...result, [currency]: fmt(balance(account, currency)) }), {}),
+                        };
+                    }, {}),
+
+        returnBalances: () => currencies().reduce<{ [currency: string]: string }>((acc, currency) =>
+            ({ ...acc, [currency]: fmt(balance('exchange', currency)) }), {}),
+
+        returnCompleteBalances: (params) => currencies().reduce<{ [currency: string]: {} }>((acc, currency) => {
+            const available = `${params.account}` === 'all' ?
+                              sum(accounts.map((account) => balance(account, currency))) :
+                              balance('exchange', currency);
+
+            return {
+                ...acc,
+                [currency]: {
+                    available: fmt(available),
+                    btcValue : fmt(round(btcValue(currency, available.plus(held(currency))))),
+                    onOrders : fmt(held(currency)),
+                },
+            };
+        }, {}),
+
+        returnDepositAddress: () => Array.from(addresses.keys()).reduce<{ [currency: string]: string }>(
+            (acc, currency) => ({ ...acc, [currency]: addresses.get(currency) }), {}),
+
+        returnDepositsWithdrawals: (params) => ({
+            deposits   : deposits.filter((entry) => inRange(entry.date, params)).map((entry) => ({
+                address      : entry.address,
+                amount       : fmt(entry.amount),
+                confirmations: 1,
+                currency     : entry.currency,
+                status       : 'COMPLETE',
+                timestamp    : unixTime(entry.date),
+                txid         : entry.txid,
+            })),
+            withdrawals: withdrawals.filter((entry) => inRange(entry.date, params)).map((entry) => ({
+                address         : entry.address,
+                amount          : fmt(entry.amount),
+                currency        : entry.currency,
+                ipAddress       : '127.0.0.1',
+                status          : 'COMPLETE: simulated',
+                timestamp       : unixTime(entry.date),
+                withdrawalNumber: entry.withdrawalNumber,
+            })),
+        }),
+
+        returnFeeInfo: () => {
+            //tslint:disable-next-line:no-magic-numbers
+            const since = unixTime(config.now()) - 30 * SECONDS_PER_DAY;
+
+            return {
+                makerFee       : fmt(makerFee),
+                nextTier       : fmt(zero),
+                takerFee       : fmt(takerFee),
+                thirtyDayVolume: fmt(round(sum(fills.filter((fill) => unixTime(fill.date) >= since)
+                                                    .map((fill) => btcValue(splitPair(fill.currencyPair)[0],
+                                                                            fill.rate.times(fill.amount)))))),
+            };
+        },
+
+        returnLendingHistory: () => [],
+
+        returnMarginAccountSummary: () => {
+            const valued = (fn: (currency: string) => Decimal): Decimal =>
+                sum(currencies().map((currency) => btcValue(currency, fn(currency))));
+
+            const totalValue    = valued((currency) => balance('margin', currency));
+            const pl            = sum(pairs().map((pair) => btcValue(splitPair(pair)[0], unrealizedPl(pair))));
+            const borrowedValue = valued(borrowed);
+            const netValue      = totalValue.plus(pl);
+
+            return {
+                currentMargin     : fmt(borrowedValue.isZero() ? new Decimal(1) : netValue.div(borrowedValue)),
+                lendingFees       : fmt(zero),
+                netValue          : fmt(round(netValue)),
+                pl                : fmt(round(pl)),
+                totalBorrowedValue: fmt(round(borrowedValue)),
+                totalValue        : fmt(round(totalValue)),
+            };
+        },
+
+        returnOpenLoanOffers: () => Array.from(loanOffers.values())
+                                         .reduce<{ [currency: string]: Array<{}> }>((acc, offer) => ({
+                                             ...acc,
+                                             [offer.currency]: [...(acc[offer.currency] !== undefined ?
+                                                                    acc[offer.currency] :
+                                                                    []), formatLoanOffer(offer)],
+                                         }), {}),
+
+        returnOpenOrders: (params) => perPair(params.currencyPair, pairs(), (pair) =>
+            Array.from(openOrders.values()).filter((order) => order.currencyPair === pair).map(formatOpenOrder)),
+
+        returnOrderTrades: (params) => {
+            const trades = fills.filter((fill) => fill.orderNumber === `${params.orderNumber}`);
+            if (trades.length === 0) fail('Order not found, or you are not the person who placed it.');
+
+            return trades.map((fill) => ({ ...formatFill(fill), currencyPair: fill.currencyPair }));
+        },
+
+        returnTradableBalances: () => Array.from(books.keys()).reduce<{ [pair: string]: {} }>((acc, pair) => {
+            const [base, quote] = splitPair(pair);
+            const power         = buyingPower(base);
+            const mark          = markPrice(pair);
+
+            return {
+                ...acc,
+                [pair]: { [base]: fmt(round(power)), [quote]: fmt(mark !== undefined ? round(power.div(mark)) : zero) },
+            };
+        }, {}),
+
+        returnTradeHistory: (params) => {
+            const limit  = isGiven(params.limit) ? Number(params.limit) : PRIVATE_PAGE_SIZE;
+            //tslint:disable-next-line:no-magic-numbers
+            const since  = unixTime(config.now()) - SECONDS_PER_DAY;
+            const traded = Array.from(new Set(fills.map((fill) => fill.currencyPair))).sort();
+
+            return perPair(params.currencyPair, traded, (pair) =>
+                fills.filter((fill) => fill.currencyPair === pair && inRange(fill.date, params, since))
+                     .reverse()
+                     .slice(0, limit)
+                     .map(formatFill));
+        },
+
+        sell: (params) => placeOrder('sell', params, false),
+
+        toggleAutoRenew: (params) => {
+            const offer = loanOffers.get(`${params.orderNumber}`);
+            if (offer === undefined) fail('Invalid order number.');
+
+            offer.autoRenew = !offer.autoRenew;
+
+            return { message: offer.autoRenew ? 1 : 0, success: 1 };
+        },
+
+        transferBalance: (params) => {
+            const currency = `${params.currency}`;
+            const amount   = parsePositive(params.amount, 'amount');
+            const from     = `${params.fromAddress}`;
+            const to       = `${params.toAddress}`;
+
+            if (accounts.indexOf(from as SimulatedAccount) === -1 || accounts.indexOf(to as SimulatedAccount) === -1) {
+                fail('Invalid account.');
+            }
+
+            requireFunds(from, currency, amount);
+            credit(from, currency, amount.negated());
+            credit(to, currency, amount);
+
+            return { message: `Transferred ${amount} ${currency} from ${from} to ${to} account.`, success: 1 };
+        },
+
+        withdraw: (params) => {
+            const currency = `${params.currency}`;
+            const amount   = parsePositive(params.amount, 'amount');
+            requireFunds('exchange', currency, amount);
+
+            credit('exchange', currency, amount.negated());
+            withdrawals.push({
+                address         : `${params.address}`,
+                amount,
+                currency,
+                date            : config.now(),
+                withdrawalNumber: withdrawals.length + 1,
+            });
+
+            return { response: `Withdrew ${fmt(amount)} ${currency}.` };
+        },
+    };
+
+    /**
+     * Runs a command, turning failures into the same errors a Poloniex error response would.
+     */
+    const run = (handlers: { [command: string]: CommandHandler }, params: ISimParams): Promise<IPoloniexResponse> => {
+        const command = `${params.command}`;
+
+        try {
+            if (handlers[command] === undefined) fail(`Invalid command.`);
+
+            return Promise.resolve(respond(handlers[command](params)));
+        } catch (err) {
+            return Promise.reject(errorFromResponse({ data: { error: err.message }, status: 200 }, command, params));
+        }
+    };
+
+    const syncOrderBook = async (currencyPair: string): Promise<void> => {
+        if (config.marketData === undefined || config.marketData === null) return Promise.resolve();
+
+        const { data } = await config.marketData.returnOrderBook({ currencyPair, depth: '100' });
+        setOrderBook(currencyPair, data);
+    };
+
+    /**
+     * Finds the market an order command trades in, so that its order book can be synced first.
+     */
+    const pairOf = (params: ISimParams): string => {
+        const command = `${params.command}`;
+
+        if (commandsWithPair.indexOf(command) !== -1) return `${params.currencyPair}`;
+        if (command === 'moveOrder' && openOrders.has(`${params.orderNumber}`)) {
+            return openOrders.get(`${params.orderNumber}`).currencyPair;
+        }
+
+        return undefined;
+    };
+
+    const rawAgent: IRawAgent = {
+
+        auth: undefined as IApiAuth,
+
+        clearQueue(): void { /* Nothing is ever queued */ },
+
+        /**
+         * Serves public commands from `marketData` if configured, from the simulated market otherwise.
+         *
+         * @param {IQueryParams} queryParams
+         * @param {IPoloniexRequestConfig} configOverride
+         * @returns {Promise<IPoloniexResponse>}
+         */
+        async getPublicEndpoint(queryParams?: IQueryParams,
+                                configOverride?: IPoloniexRequestConfig): Promise<IPoloniexResponse> {
+            if (config.marketData !== undefined && config.marketData !== null) {
+                return config.marketData.rawAgent.getPublicEndpoint(queryParams, configOverride);
+            }
+
+            return run(publicCommands, queryParams as {} as ISimParams);
+        },
+
+        getQueueDepth(): IQueueDepth { return { private: 0, public: 0 }; },
+
+        isUpgraded(): boolean { return true; },
+
+        /**
+         * Executes private commands against the simulated account.
+         *
+         * @param {IPostBody} data
+         * @returns {Promise<IPoloniexResponse>}
+         */
+        async postToPrivateEndpoint(data: IPostBody): Promise<IPoloniexResponse> {
+            const params = data as {} as ISimParams;
+            const pair   = pairOf(params);
+
+            if (pair !== undefined && config.syncOnOrder) await syncOrderBook(pair);
+
+            return run(privateCommands, params);
+        },
+
+        signMessage,
+
+        upgrade(newAuth: IApiAuth): void { this.auth = newAuth; },
+    };
+
+    /**
+     * Replaces the market's order book and fills the open orders it crosses.
+     *
+     * @param {string} currencyPair
+     * @param {ISimulatedBook} book
+     */
+    const setOrderBook = (currencyPair: string, book: ISimulatedBook): void => {
+        const toLevels = (levels: Array<[RawNumber, RawNumber]>): ILevel[] =>
+            levels.map(([rate, amount]) => ({ amount: new Decimal(amount), rate: new Decimal(rate) }));
+
+        const current = bookFor(currencyPair);
+        books.set(currencyPair, { asks: toLevels(book.asks), bids: toLevels(book.bids), seq: current.seq + 1 });
+        matchOpenOrders(currencyPair);
+    };
+
+    // Initial balances
+    Object.keys(config.balances).forEach((currency) =>
+        credit('exchange', currency, new Decimal(config.balances[currency])));
+
+    return {
+        ...getClient(),
+
+        rawAgent,
+
+        /**
+         * Prints a trade by the rest of the market.  It fills open orders on the other side that it crosses, best
+         * rate first, up to its amount.
+         *
+         * @param {string} currencyPair
+         * @param {ISimulatedTrade} trade
+         */
+        addTrade(currencyPair: string, trade: ISimulatedTrade): void {
+            const rate = new Decimal(trade.rate);
+            let amount = new Decimal(trade.amount);
+
+            printTrade(currencyPair, trade.type, rate, amount, trade.date !== undefined ? trade.date : config.now());
+
+            ordersIn(currencyPair, opposite(trade.type)).forEach((order) => {
+                if (amount.isZero() || !crosses(trade.type, rate, order.rate)) return;
+
+                const filled = Decimal.min(amount, order.amount);
+                execute(order, order.rate, filled, true);
+                amount = amount.minus(filled);
+
+                if (order.amount.isZero()) openOrders.delete(order.orderNumber);
+            });
+        },
+
+        /**
+         * Credits the exchange account and records a deposit.
+         *
+         * @param {string} currency
+         * @param {RawNumber} amount
+         */
+        deposit(currency: string, amount: RawNumber): void {
+            const value = new Decimal(amount);
+            credit('exchange', currency, value);
+            deposits.push({
+                address : addresses.has(currency) ? addresses.get(currency) : undefined,
+                amount  : value,
+                currency,
+                date    : config.now(),
+                txid    : `simulated-${deposits.length + 1}`,
+            });
+        },
+
+        setOrderBook,
+
+        syncOrderBook,
+    };
+};
@@ -0,0 +1,288 @@
+import {
+    IApiAuth,
+    IAvailableBalancesParams,
+    IBuyParams,
+    ICancelLoanOfferParams,
+    ICancelOrderParams,
+    ICloseMarginPositionParams,
+    ICreateLoanOfferParams,
+    IGenerateNewAddressParams,
+    IGetMarginPositionParams,
+    IMarginBuyParams,
+    IMarginSellParams,
+    IMoveOrderParams,
+    IPoloniexClient,
+    IReturnChartDataParams,
+    IReturnCompleteBalancesParams,
+    IReturnDepositsWithdrawalsParams,
+    IReturnLendingHistoryParams,
+    IReturnLoanOrdersParams,
+    IReturnOpenOrdersParams,
+    IReturnOrderBookParams,
+    IReturnOrderTradesParams,
+    IReturnPrivateTradeHistoryParams,
+    IReturnPublicTradeHistoryParams,
+    ISellParams,
+    IToggleAutoRenvewParams,
+    ITransferBalanceParams,
+    IWithdrawParams,
+} from '../index';
+import * as models from './models';
+
+/**
+ * The shape of a Poloniex client that returns parsed models instead of raw responses.
+ */
+export interface ITypedPoloniexClient {
+
+    client: IPoloniexClient;
+
+    isUpgraded(): boolean;
+
+    upgrade(newAuth: IApiAuth): void;
+
+    returnTicker(): Promise<models.ITickers>;
+
+    return24Volume(): Promise<models.IVolume24h>;
+
+    returnOrderBook(queryParams?: IReturnOrderBookParams): Promise<models.IOrderBooks>;
+
+    returnPublicTradeHistory(queryParams: IReturnPublicTradeHistoryParams): Promise<models.IPublicTrade[]>;
+
+    returnChartData(queryParams: IReturnChartDataParams): Promise<models.ICandle[]>;
+
+    returnCurrencies(): Promise<models.ICurrencies>;
+
+    returnLoanOrders(queryParams: IReturnLoanOrdersParams): Promise<models.ILoanOrders>;
+
+    returnBalances(): Promise<models.IDecimals>;
+
+    returnCompleteBalances(queryParams?: IReturnCompleteBalancesParams): Promise<models.ICompleteBalances>;
+
+    returnDepositAddress(): Promise<models.IDepositAddresses>;
+
+    generateNewAddress(queryParams: IGenerateNewAddressParams): Promise<models.INewAddress>;
+
+    returnDepositsWithdrawals(queryParams: IReturnDepositsWithdrawalsParams): Promise<models.IDepositsWithdrawals>;
+
+    returnOpenOrders(queryParams?: IReturnOpenOrdersParams): Promise<models.IOpenOrders>;
+
+    returnPrivateTradeHistory(queryParams?: IReturnPrivateTradeHistoryParams): Promise<models.ITrades>;
+
+    returnOrderTrades(queryParams: IReturnOrderTradesParams): Promise<models.ITrade[]>;
+
+    buy(queryParams: IBuyParams): Promise<models.IOrderResult>;
+
+    sell(queryParams: ISellParams): Promise<models.IOrderResult>;
+
+    cancelOrder(queryParams: ICancelOrderParams): Promise<models.ICancelOrderResult>;
+
+    moveOrder(queryParams: IMoveOrderParams): Promise<models.IMoveOrderResult>;
+
+    withdraw(queryParams: IWithdrawParams): Promise<models.IWithdrawResult>;
+
+    returnFeeInfo(): Promise<models.IFeeInfo>;
+
+    returnAvailableAccountBalances(queryParams?: IAvailableBalancesParams): Promise<models.IAccountBalances>;
+
+    returnTradableBalances(): Promise<models.ITradableBalances>;
+
+    transferBalance(queryParams: ITransferBalanceParams): Promise<models.ISuccessResult>;
+
+    returnMarginAccountSummary(): Promise<models.IMarginAccountSummary>;
+
+    marginBuy(queryParams: IMarginBuyParams): Promise<models.IMarginOrderResult>;
+
+    marginSell(queryParams: IMarginSellParams): Promise<models.IMarginOrderResult>;
+
+    getMarginPosition(queryParams?: IGetMarginPositionParams): Promise<models.IMarginPositions>;
+
+    closeMarginPosition(queryParams: ICloseMarginPositionParams): Promise<models.ICloseMarginPositionResult>;
+
+    createLoanOffer(queryParams: ICreateLoanOfferParams): Promise<models.ICreateLoanOfferResult>;
+
+    cancelLoanOffer(queryParams: ICancelLoanOfferParams): Promise<models.ISuccessResult>;
+
+    returnOpenLoanOffers(): Promise<models.ILoanOffers>;
+
+    returnActiveLoans(): Promise<models.IActiveLoans>;
+
+    returnLendingHistory(queryParams: IReturnLendingHistoryParams): Promise<models.ILendingHistoryEntry[]>;
+
+    toggleAutoRenew(queryParams: IToggleAutoRenvewParams): Promise<models.IToggleAutoRenewResult>;
+}
+
+/**
+ * Picks the pair a request was made for, defaulting to 'all' like the client does.
+ */
+const requestedPair = (queryParams?: { currencyPair?: string }): string =>
+    queryParams !== undefined && queryParams !== null && queryParams.currencyPair !== undefined ?
+    queryParams.currencyPair :
+    'all';
+
+/**
+ * Factory function to wrap a Poloniex client so that every method resolves to a parsed model.  Numeric strings become
+ * decimals, timestamps become dates, and single pair/'all' responses share one shape.
+ *
+ * @param {IPoloniexClient} client
+ * @returns {ITypedPoloniexClient}
+ */
+export const getTypedClient = (client: IPoloniexClient): ITypedPoloniexClient => ({
+
+    client,
+
+    isUpgraded(): boolean { return client.isUpgraded(); },
+
+    upgrade(newAuth: IApiAuth): void { client.upgrade(newAuth); },
+
+    async returnTicker(): Promise<models.ITickers> {
+        return models.parseTicker((await client.returnTicker()).data);
+    },
+
+    async return24Volume(): Promise<models.IVolume24h> {
+        return models.parse24Volume((await client.return24Volume()).data);
+    },
+
+    async returnOrderBook(queryParams?: IReturnOrderBookParams): Promise<models.IOrderBooks> {
+        const { data } = await client.returnOrderBook(queryParams);
+
+        return models.parseOrderBook(data, requestedPair(queryParams));
+    },
+
+    async returnPublicTradeHistory(queryParams: IReturnPublicTradeHistoryParams): Promise<models.IPublicTrade[]> {
+        const { data } = await client.returnPublicTradeHistory(queryParams);
+
+        return models.parsePublicTradeHistory(data, queryParams.currencyPair);
+    },
+
+    async returnChartData(queryParams: IReturnChartDataParams): Promise<models.ICandle[]> {
+        return models.parseChartData((await client.returnChartData(queryParams)).data);
+    },
+
+    async returnCurrencies(): Promise<models.ICurrencies> {
+        return models.parseCurrencies((await client.returnCurrencies()).data);
+    },
+
+    async returnLoanOrders(queryParams: IReturnLoanOrdersParams): Promise<models.ILoanOrders> {
+        return models.parseLoanOrders((await client.returnLoanOrders(queryParams)).data);
+    },
+
+    async returnBalances(): Promise<models.IDecimals> {
+        return models.parseBalances((await client.returnBalances()).data);
+    },
+
+    async returnCompleteBalances(queryParams?: IReturnCompleteBalancesParams): Promise<models.ICompleteBalances> {
+        return models.parseCompleteBalances((await client.returnCompleteBalances(queryParams)).data);
+    },
+
+    async returnDepositAddress(): Promise<models.IDepositAddresses> {
+        return models.parseDepositAddresses((await client.returnDepositAddress()).data);
+    },
+
+    async generateNewAddress(queryParams: IGenerateNewAddressParams): Promise<models.INewAddress> {
+        return models.parseNewAddress((await client.generateNewAddress(queryParams)).data);
+    },
+
+    async returnDepositsWithdrawals(queryParams: IReturnDepositsWithdrawalsParams)
+        : Promise<models.IDepositsWithdrawals> {
+        return models.parseDepositsWithdrawals((await client.returnDepositsWithdrawals(queryParams)).data);
+    },
+
+    async returnOpenOrders(queryParams?: IReturnOpenOrdersParams): Promise<models.IOpenOrders> {
+        const { data } = await client.returnOpenOrders(queryParams);
+
+        return models.parseOpenOrders(data, requestedPair(queryParams));
+    },
+
+    async returnPrivateTradeHistory(queryParams?: IReturnPrivateTradeHistoryParams): Promise<models.ITrades> {
+        const { data } = await client.returnPrivateTradeHistory(queryParams);
+
+        return models.parsePrivateTradeHistory(data, requestedPair(queryParams));
+    },
+
+    async returnOrderTrades(queryParams: IReturnOrderTradesParams): Promise<models.ITrade[]> {
+        return models.parseOrderTrades((await client.returnOrderTrades(queryParams)).data);
+    },
+
+    async buy(queryParams: IBuyParams): Promise<models.IOrderResult> {
+        return models.parseOrderResult((await client.buy(queryParams)).data);
+    },
+
+    async sell(queryParams: ISellParams): Promise<models.IOrderResult> {
+        return models.parseOrderResult((await client.sell(queryParams)).data);
+    },
+
+    async cancelOrder(queryParams: ICancelOrderParams): Promise<models.ICancelOrderResult> {
+        return models.parseCancelOrder((await client.cancelOrder(queryParams)).data);
+    },
+
+    async moveOrder(queryParams: IMoveOrderParams): Promise<models.IMoveOrderResult> {
+        return models.parseMoveOrder((await client.moveOrder(queryParams)).data);
+    },
+
+    async withdraw(queryParams: IWithdrawParams): Promise<models.IWithdrawResult> {
+        return models.parseWithdraw((await client.withdraw(queryParams)).data);
+    },
+
+    async returnFeeInfo(): Promise<models.IFeeInfo> {
+        return models.parseFeeInfo((await client.returnFeeInfo()).data);
+    },
+
+    async returnAvailableAccountBalances(queryParams?: IAvailableBalancesParams): Promise<models.IAccountBalances> {
+        return models.parseAvailableAccountBalances((await client.returnAvailableAccountBalances(queryParams)).data);
+    },
+
+    async returnTradableBalances(): Promise<models.ITradableBalances> {
+        return models.parseTradableBalances((await client.returnTradableBalances()).data);
+    },
+
+    async transferBalance(queryParams: ITransferBalanceParams): Promise<models.ISuccessResult> {
+        return models.parseTransferBalance((await client.transferBalance(queryParams)).data);
+    },
+
+    async returnMarginAccountSummary(): Promise<models.IMarginAccountSummary> {
+        return models.parseMarginAccountSummary((await client.returnMarginAccountSummary()).data);
+    },
+
+    async marginBuy(queryParams: IMarginBuyParams): Promise<models.IMarginOrderResult> {
+        return models.parseMarginOrderResult((await client.marginBuy(queryParams)).data);
+    },
+
+    async marginSell(queryParams: IMarginSellParams): Promise<models.IMarginOrderResult> {
+        return models.parseMarginOrderResult((await client.marginSell(queryParams)).data);
+    },
+
+    async getMarginPosition(queryParams?: IGetMarginPositionParams): Promise<models.IMarginPositions> {
+        const { data } = await client.getMarginPosition(queryParams);
+
+        return models.parseMarginPosition(data, requestedPair(queryParams));
+    },
+
+    async closeMarginPosition(queryParams: ICloseMarginPositionParams)
+        : Promise<models.ICloseMarginPositionResult> {
+        return models.parseCloseMarginPosition((await client.closeMarginPosition(queryParams)).data);
+    },
+
+    async createLoanOffer(queryParams: ICreateLoanOfferParams): Promise<models.ICreateLoanOfferResult> {
+        return models.parseCreateLoanOffer((await client.createLoanOffer(queryParams)).data);
+    },
+
+    async cancelLoanOffer(queryParams: ICancelLoanOfferParams): Promise<models.ISuccessResult> {
+        return models.parseCancelLoanOffer((await client.cancelLoanOffer(queryParams)).data);
+    },
+
+    async returnOpenLoanOffers(): Promise<models.ILoanOffers> {
+        return models.parseOpenLoanOffers((await client.returnOpenLoanOffers()).data);
+    },
+
+    async returnActiveLoans(): Promise<models.IActiveLoans> {
+        return models.parseActiveLoans((await client.returnActiveLoans()).data);
+    },
+
+    async returnLendingHistory(queryParams: IReturnLendingHistoryParams): Promise<models.ILendingHistoryEntry[]> {
+        return models.parseLendingHistory((await client.returnLendingHistory(queryParams)).data);
+    },
+
+    async toggleAutoRenew(queryParams: IToggleAutoRenvewParams): Promise<models.IToggleAutoRenewResult> {
+        return models.parseToggleAutoRenew((await client.toggleAutoRenew(queryParams)).data);
+    },
+});
@@ -0,0 +1,327 @@
+import { Decimal } from 'decimal.js';
+import * as fs from 'fs';
+import * as qs from 'qs';
+import { promisify } from 'util';
+import { generateNonce, IPoloniexClient, IPoloniexResponse, ITransferBalanceParams, IWithdrawParams } from '../index';
+import { AuthenticationError, NetworkError, TimeoutError, WithdrawalPolicyError } from './errors';
+import { DecimalValue } from './orderParams';
+import { wrapClient, ClientMethod } from './wrapClient';
+
+const readFile   = promisify(fs.readFile);
+const writeFile  = promisify(fs.writeFile);
+const renameFile = promisify(fs.rename);
+
+const MS_PER_DAY = 86400000;
+
+/**
+ * An address funds may be withdrawn to.  If `paymentId` is given, withdrawals to the address must carry exactly that
+ * payment id (memo).
+ */
+export interface IAllowedAddress {
+    address: string;
+    paymentId?: string;
+    label?: string;
+}
+
+/**
+ * Limits per currency.  `daily` applies to the last 24 hours.
+ */
+export interface IWithdrawalLimit {
+    perTransaction?: DecimalValue;
+    daily?: DecimalValue;
+}
+
+/**
+ * A withdrawal that was sent (or may have been, if the connection failed).
+ */
+export interface IWithdrawalRecord {
+    currency: string;
+    amount: string;
+    address: string;
+    date: number;
+}
+
+/**
+ * Keeps track of past withdrawals for the daily limits.
+ */
+export interface IWithdrawalStore {
+    withdrawnSince(currency: string, since: Date): Promise<Decimal>;
+    record(withdrawal: IWithdrawalRecord): Promise<void>;
+}
+
+/**
+ * A withdrawal or transfer waiting for confirmation.  `withdrawnToday` is the amount of the currency withdrawn over
+ * the last 24 hours (withdrawals only).
+ */
+export interface IGuardedRequest {
+    command: 'withdraw' | 'transferBalance';
+    params: IWithdrawParams | ITransferBalanceParams;
+    label?: string;
+    withdrawnToday?: Decimal;
+}
+
+/**
+ * A request as it would have been sent: signed, but with its nonce not reserved from the nonce provider.
+ */
+export interface ISignedRequest {
+    method: string;
+    url: string;
+    headers: { Key: string, Sign: string };
+    body: string;
+    params: {};
+}
+
+/**
+ * The withdrawal policy accepted by #getClient.
+ *
+ *  - `allowlist` lists the addresses each currency may be withdrawn to.  Currencies without a list are refused unless
+ *    `allowUnlisted` is set.  Withdrawals of `paymentIdCurrencies` must carry a payment id.
+ *  - `limits` cap the amount of a single withdrawal and of all withdrawals over the last 24 hours, as kept in `store`
+ *    (in memory by default).
+ *  - transfers must be between two different `transferAccounts`.
+ *  - `confirm` is asked before anything is sent.  Without it, every request is refused unless `requireConfirmation`
+ *    is turned off.
+ *  - with `dryRun`, requests that pass are signed and returned instead of sent.
+ */
+export interface IWithdrawalPolicy {
+    allowlist?: { [currency: string]: Array<string | IAllowedAddress> };
+    allowUnlisted?: boolean;
+    paymentIdCurrencies?: string[];
+    limits?: { [currency: string]: IWithdrawalLimit };
+    store?: IWithdrawalStore;
+    transferAccounts?: string[];
+    requireConfirmation?: boolean;
+    dryRun?: boolean;
+    confirm?(request: IGuardedRequest): boolean | Promise<boolean>;
+}
+
+/**
+ * Default withdrawal policy.
+ */
+const defaultWithdrawalPolicy: IWithdrawalPolicy = {
+    allowlist          : {},
+    allowUnlisted      : false,
+    dryRun             : false,
+    limits             : {},
+    paymentIdCurrencies: ['BTS', 'EOS', 'SBD', 'STEEM', 'STR', 'XEM', 'XMR', 'XRP'],
+    requireConfirmation: true,
+    transferAccounts   : ['exchange', 'lending', 'margin'],
+};
+
+const isGiven = (value: {}): boolean => value !== undefined && value !== null && `${value}` !== '';
+
+const toAllowedAddress = (entry: string | IAllowedAddress): IAllowedAddress =>
+    typeof entry === 'string' ? { address: entry } : entry;
+
+/**
+ * Factory function to get a store that keeps withdrawals in memory.
+ *
+ * @returns {IWithdrawalStore}
+ */
+export const getMemoryWithdrawalStore = (): IWithdrawalStore => {
+    const records: IWithdrawalRecord[] = [];
+
+    return {
+        record(withdrawal: IWithdrawalRecord): Promise<void> {
+            records.push(withdrawal);
+
+            return Promise.resolve();
+        },
+
+        withdrawnSince(currency: string, since: Date): Promise<Decimal> {
+            return Promise.resolve(records
+                .filter((withdrawal) => withdrawal.currency === currency && withdrawal.date >= since.getTime())
+                .reduce((acc, withdrawal) => acc.plus(withdrawal.amount), new Decimal(0)));
+        },
+    };
+};
+
+/**
+ * Factory function to get a store that keeps withdrawals in a JSON file, so that daily limits hold across restarts.
+ * Records older than a day are dropped as new ones are written.
+ *
+ * @param {string} path
+ * @returns {IWithdrawalStore}
+ */
+export const getFileWithdrawalStore = (path: string): IWithdrawalStore => {
+    let writing: Promise<void> = Promise.resolve();
+
+    const load = async (): Promise<IWithdrawalRecord[]> => {
+        try {
+            return JSON.parse(await readFile(path, 'utf8'));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+
+            return Promise.reject(err);
+        }
+    };
+
+    return {
+        record(withdrawal: IWithdrawalRecord): Promise<void> {
+            writing = writing.catch(() => undefined).then(async () => {
+                const since   = Date.now() - MS_PER_DAY;
+                const records = (await load()).filter((record) => record.date >= since);
+
+                await writeFile(`${path}.tmp`, JSON.stringify([...records, withdrawal]));
+                await renameFile(`${path}.tmp`, path);
+            });
+
+            return writing;
+        },
+
+        async withdrawnSince(currency: string, since: Date): Promise<Decimal> {
+            await writing.catch(() => undefined);
+
+            return (await load())
+                .filter((withdrawal) => withdrawal.currency === currency && withdrawal.date >= since.getTime())
+                .reduce((acc, withdrawal) => acc.plus(withdrawal.amount), new Decimal(0));
+        },
+    };
+};
+
+/**
+ * Returns a copy of the client whose #withdraw and #transferBalance calls are checked against the policy (and
+ * confirmed) before they are signed and sent.  Calls that break it reject with a WithdrawalPolicyError.  Checks run one
+ * call at a time, so that concurrent withdrawals cannot slip past a daily limit together.
+ *
+ * @param {IPoloniexClient} client
+ * @param {IWithdrawalPolicy} withdrawalPolicy
+ * @returns {IPoloniexClient}
+ */
+export const withWithdrawalPolicy = (client: IPoloniexClient,
+                                     withdrawalPolicy: IWithdrawalPolicy = null): IPoloniexClient => {
+
+    // Construct local policy object
+    const policy = { ...defaultWithdrawalPolicy, ...withdrawalPolicy };
+    const store  = policy.store !== undefined ? policy.store : getMemoryWithdrawalStore();
+
+    let queue: Promise<{}> = Promise.resolve({});
+
+    /**
+     * Checks a withdrawal, returning why it breaks the policy (or null) and what it is being checked against.
+     */
+    const checkWithdrawal = async (params: IWithdrawParams): Promise<[string, IGuardedRequest]> => {
+        const request: IGuardedRequest = { command: 'withdraw', params };
+        const { currency, address }    = params;
+        const amount                   = new Decimal(params.amount);
+
+        const allowed = policy.allowlist[currency];
+        if (allowed === undefined && !policy.allowUnlisted) return [`no allowlist for ${currency}`, request];
+
+        const match = allowed !== undefined ?
+                      allowed.map(toAllowedAddress).find((entry) => entry.address === address) :
+                      { address };
+        if (match === undefined) return [`${address} is not an allowed ${currency} address`, request];
+
+        request.label = match.label;
+
+        if (isGiven(match.paymentId) && `${params.paymentId}` !== match.paymentId) {
+            return [`withdrawals to ${address} need paymentId ${match.paymentId}`, request];
+        }
+        if (policy.paymentIdCurrencies.indexOf(currency) !== -1 && !isGiven(params.paymentId)) {
+            return [`${currency} withdrawals need a paymentId`, request];
+        }
+
+        const limit = policy.limits[currency] !== undefined ? policy.limits[currency] : {};
+
+        if (isGiven(limit.perTransaction) && amount.gt(limit.perTransaction)) {
+            return [`${amount} ${currency} is over the limit of ${limit.perTransaction} per withdrawal`, request];
+        }
+
+        request.withdrawnToday = await store.withdrawnSince(currency, new Date(Date.now() - MS_PER_DAY));
+
+        if (isGiven(limit.daily) && request.withdrawnToday.plus(amount).gt(limit.daily)) {
+            return [`${amount} ${currency} would go over the daily limit of ${limit.daily}`, request];
+        }
+
+        return [null, request];
+    };
+
+    const checkTransfer = (params: ITransferBalanceParams): [string, IGuardedRequest] => {
+        const request: IGuardedRequest = { command: 'transferBalance', params };
+        const accounts                 = policy.transferAccounts;
+
+        if (accounts.indexOf(params.fromAddress) === -1 || accounts.indexOf(params.toAddress) === -1) {
+            return [`transfers are only allowed between ${accounts.join(', ')}`, request];
+        }
+        if (params.fromAddress === params.toAddress) return ['cannot transfer to the same account', request];
+
+        return [null, request];
+    };
+
+    /**
+     * Builds and signs the post body the client would send.
+     */
+    const sign = (command: string, params: IWithdrawParams | ITransferBalanceParams): IPoloniexResponse => {
+        const { rawAgent } = client;
+
+        if (!rawAgent.isUpgraded()) throw new AuthenticationError('not authenticated', { command, params });
+
+        const body = { command, nonce: generateNonce(), ...params };
+        const data: ISignedRequest = {
+            body   : qs.stringify(body),
+            headers: { Key: rawAgent.auth.publicKey, Sign: rawAgent.signMessage(body, rawAgent.auth.privateKey) },
+            method : 'POST',
+            params : body,
+            url    : '/tradingApi',
+        };
+
+        return { config: {}, data, headers: {}, status: 0, statusText: 'dry run' };
+    };
+
+    const guard = async (command: 'withdraw' | 'transferBalance',
+                         original: ClientMethod,
+                         args: Array<{}>): Promise<IPoloniexResponse> => {
+        const params  = args[0] as IWithdrawParams | ITransferBalanceParams;
+        const details = { command, params };
+
+        const amount = new Decimal(isGiven(params.amount) && !isNaN(Number(params.amount)) ? params.amount : NaN);
+        if (!amount.isFinite() || amount.lte(0)) {
+            return Promise.reject(new WithdrawalPolicyError('amount must be positive', details));
+        }
+
+        const [problem, request] = command === 'withdraw' ?
+                                   await checkWithdrawal(params as IWithdrawParams) :
+                                   checkTransfer(params as ITransferBalanceParams);
+        if (problem !== null) return Promise.reject(new WithdrawalPolicyError(problem, details));
+
+        if (policy.confirm === undefined && policy.requireConfirmation) {
+            return Promise.reject(new WithdrawalPolicyError('no confirmation callback', details));
+        }
+        if (policy.confirm !== undefined && !await policy.confirm(request)) {
+            return Promise.reject(new WithdrawalPolicyError('not confirmed', details));
+        }
+
+        if (policy.dryRun) return sign(command, params);
+
+        const record = (): Promise<void> => command !== 'withdraw' ? Promise.resolve() : store.record({
+            address : (params as IWithdrawParams).address,
+            amount  : amount.toString(),
+            currency: params.currency,
+            date    : Date.now(),
+        });
+
+        try {
+            const response = await original(...args);
+            await record();
+
+            return response;
+        } catch (err) {
+            // The withdrawal may still have gone through, so it counts towards the daily limit
+            if (err instanceof NetworkError || err instanceof TimeoutError) await record();
+
+            return Promise.reject(err);
+        }
+    };
+
+    return wrapClient(client, (method: string, original: ClientMethod): ClientMethod => {
+        if (method !== 'withdraw' && method !== 'transferBalance') return original;
+
+        return (...args: Array<{}>): Promise<IPoloniexResponse> => {
+            const result = queue.then(() => guard(method, original, args));
+            queue        = result.catch(() => ({}));
+
+            return result;
+        };
+    });
+};
@@ -0,0 +1,36 @@
+import { IPoloniexClient, IPoloniexResponse } from '../index';
+
+/**
+ * Any request method of a client.
+ */
+export type ClientMethod = (...args: Array<{}>) => Promise<IPoloniexResponse>;
+
+/**
+ * Client members that do not send requests and are never wrapped.
+ */
+const nonRequestMembers = ['isUpgraded', 'rawAgent', 'upgrade'];
+
+/**
+ * Returns a copy of a client in which every request method has been replaced by `wrap(method, original)`.  The
+ * original methods still run against the copy, so they share its raw agent.
+ *
+ * @param {T} client
+ * @param {(method: string, original: ClientMethod) => ClientMethod} wrap
+ * @returns {T}
+ */
+export const wrapClient = <T extends IPoloniexClient>(client: T,
+                                                      wrap: (method: string, original: ClientMethod) => ClientMethod)
+    : T => {
+    const wrapped = Object.assign({}, client) as T;
+    const members = wrapped as {} as { [member: string]: ClientMethod };
+
+    Object.keys(members).forEach((method) => {
+        const original = members[method];
+
+        if (typeof original !== 'function' || nonRequestMembers.indexOf(method) !== -1) return;
+
+        members[method] = wrap(method, (...args: Array<{}>) => original.apply(wrapped, args));
+    });
+
+    return wrapped;
+};
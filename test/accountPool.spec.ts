@@ -0,0 +1,60 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { getAccountPool, IPoloniexClient, IPoloniexResponse } from '../index';
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const order = (orderNumber: string): {} =>
+    ({ amount: '1', date: '2018-01-01 00:00:00', margin: 0, orderNumber, rate: '0.05', total: '0.05', type: 'buy' });
+
+/**
+ * A client for an account holding `balances` with one open BTC_ETH order.
+ */
+const account = (balances: { [currency: string]: string }, orderNumber: string): IPoloniexClient => {
+    const client = {
+        returnBalances  : (): Promise<IPoloniexResponse> => ok(balances),
+        returnOpenOrders: (): Promise<IPoloniexResponse> => ok({ BTC_ETH: [order(orderNumber)], BTC_XMR: [] }),
+    };
+
+    return client as {} as IPoloniexClient;
+};
+
+const down = (): Promise<IPoloniexResponse> => Promise.reject(new Error('down'));
+
+const broken = { returnBalances: down, returnOpenOrders: down };
+
+describe('account pool', () => {
+    const pool = getAccountPool({
+        broken : broken as {} as IPoloniexClient,
+        main   : account({ BTC: '1.5', ETH: '2' }, '1'),
+        trading: account({ BTC: '0.25' }, '2'),
+    });
+
+    it('sums balances over the accounts that answered', async () => {
+        const { byAccount, errors, total } = await pool.returnBalances();
+
+        expect(total.BTC.toFixed()).to.equal('1.75');
+        expect(total.ETH.toFixed()).to.equal('2');
+        expect(Object.keys(byAccount)).to.deep.equal(['main', 'trading']);
+        expect(errors.broken.message).to.equal('down');
+    });
+
+    it('gathers open orders by currency pair, tagged with their account', async () => {
+        const { errors, orders } = await pool.returnOpenOrders('all', ['main', 'trading']);
+
+        expect(orders.BTC_ETH.map((open) => [open.account, open.orderNumber])).to.deep.equal([
+            ['main', '1'],
+            ['trading', '2'],
+        ]);
+        expect(orders.BTC_XMR).to.deep.equal([]);
+        expect(errors).to.deep.equal({});
+    });
+
+    it('refuses unknown accounts', async () => {
+        const { errors } = await pool.fanOut((client) => client.returnBalances(), ['main', 'other']);
+
+        expect(() => pool.client('other')).to.throw('unknown account other');
+        expect(Object.keys(errors)).to.deep.equal(['other']);
+    });
+});
@@ -0,0 +1,103 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { Decimal } from 'decimal.js';
+import { buildLedger, computeGains, CostBasisMethod, IRealizedGain, ITrade } from '../index';
+
+/**
+ * An exchange trade on day `day` of 2018.
+ */
+const trade = (tradeID: string,
+               currencyPair: string,
+               type: 'buy' | 'sell',
+               day: number,
+               amount: string,
+               rate: string,
+               fee: string = '0'): ITrade => ({
+    amount       : new Decimal(amount),
+    category     : 'exchange',
+    currencyPair,
+    date         : new Date(Date.UTC(2018, 0, day)),
+    fee          : new Decimal(fee),
+    globalTradeID: Number(tradeID),
+    orderNumber  : tradeID,
+    rate         : new Decimal(rate),
+    total        : new Decimal(amount).times(rate),
+    tradeID,
+    type,
+});
+
+const gainsOf = (trades: ITrade[], method: CostBasisMethod): IRealizedGain[] =>
+    computeGains(buildLedger(trades), method);
+
+const asStrings = (gain: IRealizedGain): { [field: string]: string } => ({
+    costBasis      : gain.costBasis !== null ? gain.costBasis.toFixed() : null,
+    gain           : gain.gain !== null ? gain.gain.toFixed() : null,
+    unmatchedAmount: gain.unmatchedAmount.toFixed(),
+});
+
+describe('accounting', () => {
+
+    // 1 ETH at 0.04, 1 ETH at 0.06, then 1.5 ETH sold at 0.06
+    const trades = [
+        trade('1', 'BTC_ETH', 'buy', 1, '1', '0.04'),
+        trade('2', 'BTC_ETH', 'buy', 2, '1', '0.06'),
+        trade('3', 'BTC_ETH', 'sell', 3, '1.5', '0.06'),
+    ];
+
+    it('matches sales against the oldest purchases first with fifo', () => {
+        expect(gainsOf(trades, 'fifo').map(asStrings)).to.deep.equal([
+            { costBasis: '0.07', gain: '0.02', unmatchedAmount: '0' },
+        ]);
+    });
+
+    it('matches sales against the latest purchases first with lifo', () => {
+        expect(gainsOf(trades, 'lifo').map(asStrings)).to.deep.equal([
+            { costBasis: '0.08', gain: '0.01', unmatchedAmount: '0' },
+        ]);
+    });
+
+    it('matches sales at the average cost of what is held with average', () => {
+        const sold = [
+            ...trades,
+            trade('4', 'BTC_ETH', 'buy', 4, '1.5', '0.07'),
+            trade('5', 'BTC_ETH', 'sell', 5, '2', '0.07'),
+        ];
+
+        expect(gainsOf(sold, 'average').map(asStrings)).to.deep.equal([
+            { costBasis: '0.075', gain: '0.015', unmatchedAmount: '0' },
+
+            // 0.5 ETH left at 0.05 and 1.5 bought at 0.07 average 0.065
+            { costBasis: '0.13', gain: '0.01', unmatchedAmount: '0' },
+        ]);
+    });
+
+    it('counts fees on both sides', () => {
+        const [gain] = gainsOf([
+            trade('1', 'BTC_ETH', 'buy', 1, '1', '0.05', '0.0025'),
+            trade('2', 'BTC_ETH', 'sell', 2, '0.9975', '0.06', '0.0025'),
+        ], 'fifo');
+
+        // The whole 0.05 BTC paid is the cost of the 0.9975 ETH received
+        expect(gain.costBasis.toFixed()).to.equal('0.05');
+        expect(gain.proceeds.toFixed()).to.equal('0.059700375');
+        expect(gain.gain.toFixed()).to.equal('0.009700375');
+    });
+
+    it('gives no gain for a sale of coins bought in another market', () => {
+        const gains = gainsOf([
+            trade('1', 'BTC_ETH', 'buy', 1, '1', '0.05'),
+            trade('2', 'USDT_ETH', 'sell', 2, '1', '700'),
+        ], 'fifo');
+
+        expect(gains.map(asStrings)).to.deep.equal([{ costBasis: null, gain: null, unmatchedAmount: '1' }]);
+    });
+
+    it('gives no gain for a sale of more than was bought', () => {
+        const gains = gainsOf([
+            trade('1', 'BTC_ETH', 'buy', 1, '1', '0.05'),
+            trade('2', 'BTC_ETH', 'sell', 2, '1.5', '0.06'),
+        ], 'fifo');
+
+        expect(gains.map(asStrings)).to.deep.equal([{ costBasis: null, gain: null, unmatchedAmount: '0.5' }]);
+    });
+});
@@ -0,0 +1,108 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { Decimal } from 'decimal.js';
+import { EventEmitter } from 'events';
+import { buildCandles, getCandleBuilder, resampleCandles, IBar, IBarTrade, ICandle, IPushClient } from '../index';
+
+const T0 = Date.UTC(2018, 0, 1);
+
+/**
+ * A trade `seconds` after midnight.
+ */
+const trade = (seconds: number, rate: string, amount: string, tradeID?: string): IBarTrade =>
+    ({ amount, date: new Date(T0 + seconds * 1000), rate, tradeID });
+
+const ohlc = (bar: ICandle): string[] =>
+    [bar.open, bar.high, bar.low, bar.close, bar.volume].map((value) => value.toFixed());
+
+const startOf = (bar: ICandle): number => (bar.date.getTime() - T0) / 1000;
+
+describe('candles', () => {
+
+    it('builds time bars from trades in any order', () => {
+        const bars = buildCandles([
+            trade(70, '0.052', '1', '4'),
+            trade(5, '0.05', '2', '1'),
+            trade(30, '0.049', '1', '3'),
+            trade(30, '0.051', '2', '2'),
+        ], { interval: 60 });
+
+        expect(bars.map(startOf)).to.deep.equal([0, 60]);
+        expect(ohlc(bars[0])).to.deep.equal(['0.05', '0.051', '0.049', '0.049', '0.251']);
+        expect(bars[0].trades).to.equal(3);
+        expect(bars[0].weightedAverage.toFixed()).to.equal('0.0502');
+        expect(bars[1].closeDate.getTime()).to.equal(T0 + 120000);
+    });
+
+    it('fills gaps with flat bars at the last close', () => {
+        const bars = buildCandles([trade(5, '0.05', '1'), trade(190, '0.06', '1')], { fillGaps: true, interval: 60 });
+
+        expect(bars.map(startOf)).to.deep.equal([0, 60, 120, 180]);
+        expect(ohlc(bars[1])).to.deep.equal(['0.05', '0.05', '0.05', '0.05', '0']);
+    });
+
+    it('builds volume and tick bars', () => {
+        const trades = [trade(1, '0.05', '1'), trade(2, '0.05', '1'), trade(3, '0.05', '1'), trade(4, '0.05', '1')];
+
+        expect(buildCandles(trades, { volume: '0.1' }).map((bar) => bar.trades)).to.deep.equal([2, 2]);
+        expect(buildCandles(trades, { ticks: 3 }).map((bar) => bar.trades)).to.deep.equal([3, 1]);
+        expect(() => buildCandles(trades, { interval: 60, ticks: 3 }))
+            .to.throw('only one of interval, volume and ticks may be given');
+    });
+
+    it('resamples candles into longer periods', () => {
+        const candle = (seconds: number, rate: string): ICandle => ({
+            close          : new Decimal(rate),
+            date           : new Date(T0 + seconds * 1000),
+            high           : new Decimal(rate),
+            low            : new Decimal(rate),
+            open           : new Decimal(rate),
+            quoteVolume    : new Decimal(1),
+            volume         : new Decimal(rate),
+            weightedAverage: new Decimal(rate),
+        });
+
+        const resampled = resampleCandles([candle(300, '0.06'), candle(0, '0.05'), candle(900, '0.04')], 900);
+
+        expect(resampled.map(startOf)).to.deep.equal([0, 900]);
+        expect(ohlc(resampled[0])).to.deep.equal(['0.05', '0.06', '0.05', '0.06', '0.11']);
+        expect(resampled[0].weightedAverage.toFixed()).to.equal('0.055');
+    });
+
+    it('closes live bars on flush and ignores trades for bars already emitted', () => {
+        const bars: IBar[] = [];
+        const builder      = getCandleBuilder('BTC_ETH', null, { interval: 60 }).on('bar', (bar) => bars.push(bar));
+
+        builder.addTrade(trade(5, '0.05', '1'));
+        builder.flush(new Date(T0 + 59000));
+        expect(bars).to.deep.equal([]);
+
+        builder.flush(new Date(T0 + 60000));
+        builder.addTrade(trade(50, '0.07', '1'));
+
+        expect(bars.map(startOf)).to.deep.equal([0]);
+        expect(builder.currentBar()).to.equal(null);
+    });
+
+    it('takes the pair\'s trades from a push client once started', async () => {
+        const subscribed: string[] = [];
+        const pushClient           = Object.assign(new EventEmitter(), {
+            subscribeOrderBook(pair: string): Promise<void> {
+                subscribed.push(pair);
+
+                return Promise.resolve();
+            },
+            unsubscribeOrderBook: (): Promise<void> => Promise.resolve(),
+        });
+        const builder              = getCandleBuilder('BTC_ETH', pushClient as {} as IPushClient, { ticks: 10 });
+
+        await builder.start();
+        pushClient.emit('trade', { amount: '1', currencyPair: 'BTC_ETH', rate: '0.05', timestamp: T0 / 1000 });
+        pushClient.emit('trade', { amount: '1', currencyPair: 'BTC_XMR', rate: '0.02', timestamp: T0 / 1000 });
+        await builder.stop();
+        pushClient.emit('trade', { amount: '1', currencyPair: 'BTC_ETH', rate: '0.06', timestamp: T0 / 1000 });
+
+        expect(subscribed).to.deep.equal(['BTC_ETH']);
+        expect(builder.currentBar().trades).to.equal(1);
+    });
+});
@@ -0,0 +1,151 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { IApiAuth, IPoloniexClient, IPoloniexResponse } from '../index';
+import { formatOutput, runCli, ICliEnvironment } from '../src/cli';
+
+const KEYS = { POLONIEX_PRIVATE_KEY: 'private', POLONIEX_PUBLIC_KEY: 'public' };
+
+interface IFakeTerminal {
+    environment: Partial<ICliEnvironment>;
+    output: string[];
+    errors: string[];
+    questions: string[];
+    sent: Array<{ method: string, params: {} }>;
+    auths: IApiAuth[];
+}
+
+/**
+ * A terminal that answers every confirmation with `answer`, and a client that records what it is asked to send.
+ */
+const fakeTerminal = (env: { [name: string]: string }, answer: boolean = false): IFakeTerminal => {
+    const terminal: IFakeTerminal = { auths: [], environment: {}, errors: [], output: [], questions: [], sent: [] };
+
+    const send = (method: string) => (params: {}): Promise<IPoloniexResponse> => {
+        terminal.sent.push({ method, params });
+
+        return Promise.resolve({ config: {}, data: { success: 1 }, headers: {}, status: 200, statusText: 'OK' });
+    };
+
+    const client = ['buy', 'createLoanOffer', 'marginBuy', 'moveOrder', 'returnBalances', 'returnTicker']
+        .reduce<{ [method: string]: (params: {}) => Promise<IPoloniexResponse> }>((acc, method) =>
+            ({ ...acc, [method]: send(method) }), {});
+
+    terminal.environment = {
+        confirm   : (question: string): Promise<boolean> => {
+            terminal.questions.push(question);
+
+            return Promise.resolve(answer);
+        },
+        env,
+        getClient : (auth: IApiAuth): IPoloniexClient => {
+            terminal.auths.push(auth);
+
+            return client as {} as IPoloniexClient;
+        },
+        write     : (text: string): void => { terminal.output.push(text); },
+        writeError: (text: string): void => { terminal.errors.push(text); },
+    };
+
+    return terminal;
+};
+
+describe('command line', () => {
+
+    it('turns arguments, options and flags into query parameters', async () => {
+        const terminal = fakeTerminal(KEYS);
+
+        const code = await runCli(['buy', 'BTC_ETH', '0.05', '1', '--post-only', '--time-in-force=GTC', '-y'],
+                                  terminal.environment);
+
+        expect(code).to.equal(0);
+        expect(terminal.sent).to.deep.equal([{
+            method: 'buy',
+            params: { amount: '1', currencyPair: 'BTC_ETH', postOnly: 1, rate: '0.05', timeInForce: 'GTC' },
+        }]);
+        expect(terminal.auths).to.deep.equal([{ privateKey: 'private', publicKey: 'public' }]);
+    });
+
+    it('converts numeric parameters and applies defaults', async () => {
+        const terminal = fakeTerminal(KEYS);
+
+        await runCli(['createloanoffer', 'BTC', '0.5', '2', '0.0001', '--yes'], terminal.environment);
+
+        expect(terminal.sent[0].params).to.deep.equal({
+            amount     : 0.5,
+            autoRenew  : 0,
+            currency   : 'BTC',
+            duration   : 2,
+            lendingRate: 0.0001,
+        });
+    });
+
+    it('rejects unknown commands, unknown options and missing arguments', async () => {
+        const terminal = fakeTerminal(KEYS);
+
+        expect(await runCli(['buyall'], terminal.environment)).to.equal(2);
+        expect(await runCli(['ticker', '--depth', '5'], terminal.environment)).to.equal(1);
+        expect(await runCli(['buy', 'BTC_ETH', '0.05', '--yes'], terminal.environment)).to.equal(1);
+
+        expect(terminal.errors).to.deep.equal([
+            'Unknown command buyall, see poloniex help',
+            'Unknown option --depth',
+            'Usage: poloniex buy <currencyPair> <rate> <amount> [--time-in-force <timeInForce>] [--fill-or-kill] ' +
+            '[--immediate-or-cancel] [--post-only]',
+        ]);
+        expect(terminal.sent).to.deep.equal([]);
+    });
+
+    it('sends nothing that was not confirmed', async () => {
+        const unconfirmed = [
+            ['move', '123', '0.05'],
+            ['marginbuy', 'BTC_ETH', '0.05', '1'],
+            ['closeposition', 'BTC_ETH'],
+            ['createloanoffer', 'BTC', '0.5', '2', '0.0001'],
+        ];
+
+        for (const argv of unconfirmed) {
+            const terminal = fakeTerminal(KEYS);
+
+            expect(await runCli(argv, terminal.environment)).to.equal(1);
+            expect(terminal.questions).to.have.length(1);
+            expect(terminal.sent).to.deep.equal([]);
+        }
+    });
+
+    it('sends what was confirmed', async () => {
+        const terminal = fakeTerminal(KEYS, true);
+
+        expect(await runCli(['move', '123', '0.05', '--amount', '2'], terminal.environment)).to.equal(0);
+        expect(terminal.questions).to.deep.equal(['move orderNumber=123 rate=0.05 amount=2?']);
+        expect(terminal.sent).to.deep.equal([
+            { method: 'moveOrder', params: { amount: '2', orderNumber: '123', rate: '0.05' } },
+        ]);
+    });
+
+    it('reads no keys for public commands', async () => {
+        const terminal = fakeTerminal({ POLONIEX_CONFIG: '/nonexistent/poloniex.json' });
+
+        expect(await runCli(['ticker'], terminal.environment)).to.equal(0);
+        expect(await runCli(['ticker', '--config', '/nonexistent/poloniex.json'], terminal.environment)).to.equal(0);
+        expect(terminal.auths).to.deep.equal([undefined, undefined]);
+    });
+
+    it('refuses private commands without keys', async () => {
+        const terminal = fakeTerminal({ POLONIEX_CONFIG: '/nonexistent/poloniex.json' });
+
+        expect(await runCli(['balances'], terminal.environment)).to.equal(1);
+        expect(terminal.sent).to.deep.equal([]);
+    });
+
+    it('formats responses as tables and CSV', () => {
+        const data = { BTC_ETH: { last: '0.05', percentChange: '-0.01' }, BTC_XMR: { last: '0.02' } };
+
+        expect(formatOutput(data, 'csv')).to.equal('key,last,percentChange\nBTC_ETH,0.05,-0.01\nBTC_XMR,0.02,');
+        expect(formatOutput(data, 'table').split('\n')).to.deep.equal([
+            'key      last  percentChange',
+            '-------  ----  -------------',
+            'BTC_ETH  0.05  -0.01',
+            'BTC_XMR  0.02',
+        ]);
+    });
+});
@@ -0,0 +1,95 @@
+//tslint:disable:no-magic-numbers
+import { AxiosRequestConfig } from 'axios';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    decryptCredentials, encryptCredentials, getEnvCredentialProvider, getFileCredentialProvider,
+    getKeystoreCredentialProvider, getRotatingClient, AuthenticationError, IApiAuth, IPoloniexResponse,
+} from '../index';
+
+const accounts = {
+    main   : { privateKey: 'main-secret', publicKey: 'main-key' },
+    trading: { privateKey: 'trading-secret', publicKey: 'trading-key' },
+};
+
+const rejectionOf = <T>(call: Promise<T>): Promise<Error> =>
+    call.then(() => Promise.reject(new Error('expected the call to reject')), (err: Error) => err);
+
+describe('credentials', () => {
+    let dir: string;
+
+    const write = (name: string, contents: {}): string => {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, JSON.stringify(contents));
+
+        return file;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'credentials-'));
+    });
+
+    afterEach(() => {
+        fs.readdirSync(dir).forEach((name) => fs.unlinkSync(path.join(dir, name)));
+        fs.rmdirSync(dir);
+    });
+
+    it('are read from the environment', async () => {
+        const env = { TRADING_PRIVATE_KEY: 'trading-secret', TRADING_PUBLIC_KEY: 'trading-key' };
+
+        expect(await getEnvCredentialProvider('TRADING', env).getCredentials()).to.deep.equal(accounts.trading);
+
+        const missing = await rejectionOf(getEnvCredentialProvider('POLONIEX', env).getCredentials());
+        expect(missing).to.be.instanceof(AuthenticationError);
+        expect(missing.message).to.equal('POLONIEX_PUBLIC_KEY and POLONIEX_PRIVATE_KEY are not set');
+    });
+
+    it('are read from a file, by label when it holds several accounts', async () => {
+        const single   = write('single.json', accounts.main);
+        const multiple = write('accounts.json', accounts);
+
+        expect(await getFileCredentialProvider(single).getCredentials()).to.deep.equal(accounts.main);
+        expect(await getFileCredentialProvider(multiple, 'trading').getCredentials()).to.deep.equal(accounts.trading);
+        expect((await rejectionOf(getFileCredentialProvider(multiple, 'other').getCredentials())).message)
+            .to.equal(`no publicKey and privateKey in ${multiple} (other)`);
+    });
+
+    it('are encrypted with a passphrase and decrypted only with it', async () => {
+        const keystore = await encryptCredentials(accounts, 'correct horse', 1000);
+
+        expect(JSON.stringify(keystore)).not.to.contain('secret');
+        expect(await decryptCredentials(keystore, 'correct horse')).to.deep.equal(accounts);
+
+        const wrong = await rejectionOf(decryptCredentials(keystore, 'battery staple'));
+        expect(wrong).to.be.instanceof(AuthenticationError);
+        expect(wrong.message).to.equal('wrong passphrase or corrupt keystore');
+    });
+
+    it('are read from a keystore file', async () => {
+        const file     = write('keystore.json', await encryptCredentials(accounts, 'correct horse', 1000));
+        const provider = getKeystoreCredentialProvider(file, 'correct horse', 'main');
+
+        expect(await provider.getCredentials()).to.deep.equal(accounts.main);
+    });
+
+    it('are rotated when Poloniex rejects them, and the request sent again', async () => {
+        let current: IApiAuth = accounts.main;
+        const keys: string[]  = [];
+        const answer          = (config: AxiosRequestConfig): Promise<IPoloniexResponse> => {
+            keys.push(config.headers.Key);
+
+            const data = config.headers.Key === 'main-key' ? { error: 'Invalid API key/secret pair.' } : { BTC: '1' };
+
+            return Promise.resolve({ config, data, headers: {}, status: 200, statusText: 'OK' });
+        };
+
+        const client = await getRotatingClient({ getCredentials: () => Promise.resolve(current) }, { adapter: answer });
+        current      = accounts.trading;
+
+        expect((await client.returnBalances()).data).to.deep.equal({ BTC: '1' });
+        expect(keys).to.deep.equal(['main-key', 'trading-key']);
+        expect(await client.rotateCredentials()).to.equal(false);
+    });
+});
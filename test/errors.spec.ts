@@ -0,0 +1,78 @@
+//tslint:disable:no-magic-numbers
+import { AxiosRequestConfig } from 'axios';
+import { expect } from 'chai';
+import {
+    createPoloniexError, getClient, AuthenticationError, InsufficientFundsError, InvalidNonceError, IApiAuth,
+    IPoloniexClient, IPoloniexResponse, NetworkError, PoloniexApiError, RateLimitError, TimeoutError,
+} from '../index';
+
+const auth: IApiAuth = { privateKey: 'test-secret', publicKey: 'test-key' };
+
+/**
+ * A client whose every request is answered by `answer` instead of going out.
+ */
+const answering = (answer: (config: AxiosRequestConfig) => Promise<IPoloniexResponse>): IPoloniexClient =>
+    getClient(auth, { adapter: answer });
+
+const respond = (status: number, data: {}): IPoloniexClient =>
+    answering((config) => Promise.resolve({ config, data, headers: {}, status, statusText: '' }));
+
+const fail = (code: string, message: string): IPoloniexClient =>
+    answering(() => Promise.reject(Object.assign(new Error(message), { code })));
+
+const rejectionOf = (call: Promise<{}>): Promise<PoloniexApiError> =>
+    call.then(() => Promise.reject(new Error('expected the call to reject')), (err: PoloniexApiError) => err);
+
+describe('errors', () => {
+
+    it('resolve successful responses', async () => {
+        const { data } = await respond(200, { BTC_ETH: { last: '0.0735' } }).returnTicker();
+
+        expect(data.BTC_ETH.last).to.equal('0.0735');
+    });
+
+    it('reject error bodies with the matching error class and the failed call', async () => {
+        const err = await rejectionOf(respond(200, { error: 'Not enough BTC.' })
+            .withdraw({ address: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT', amount: 1, currency: 'BTC' }));
+
+        expect(err).to.be.instanceof(InsufficientFundsError);
+        expect(err.message).to.equal('Not enough BTC.');
+        expect(err.command).to.equal('withdraw');
+        expect(err.params).to.include({ amount: 1, currency: 'BTC' });
+        expect(err.body).to.deep.equal({ error: 'Not enough BTC.' });
+    });
+
+    it('reject HTTP errors by status', async () => {
+        const forbidden = await rejectionOf(respond(403, '<html>Forbidden</html>').returnBalances());
+        expect(forbidden).to.be.instanceof(AuthenticationError);
+        expect(forbidden.status).to.equal(403);
+
+        expect(await rejectionOf(respond(429, '').returnTicker())).to.be.instanceof(RateLimitError);
+
+        const badGateway = await rejectionOf(respond(502, '').returnTicker());
+        expect(badGateway.constructor).to.equal(PoloniexApiError);
+        expect(badGateway.message).to.equal('HTTP 502');
+    });
+
+    it('reject requests that got no response as timeouts or network failures', async () => {
+        expect(await rejectionOf(fail('ECONNABORTED', 'timeout of 5000ms exceeded').returnTicker()))
+            .to.be.instanceof(TimeoutError);
+        expect(await rejectionOf(fail('ECONNREFUSED', 'connect ECONNREFUSED').returnTicker()))
+            .to.be.instanceof(NetworkError);
+    });
+
+    it('are classified by Poloniex message first', () => {
+        expect(createPoloniexError('Nonce must be greater than 1514764800000000. You provided 1.'))
+            .to.be.instanceof(InvalidNonceError);
+        expect(createPoloniexError('Invalid API key/secret pair.', { status: 200 }))
+            .to.be.instanceof(AuthenticationError);
+        expect(createPoloniexError('Please do not make more than 6 API calls per second.', { status: 422 }))
+            .to.be.instanceof(RateLimitError);
+    });
+
+    it('never hold secrets', () => {
+        const err = new PoloniexApiError('failed', { params: { Key: 'test-key', amount: 1, secret: 's3cr3t' } });
+
+        expect(err.params).to.deep.equal({ Key: '[REDACTED]', amount: 1, secret: '[REDACTED]' });
+    });
+});
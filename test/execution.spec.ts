@@ -0,0 +1,175 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import {
+    getOrderManager, iceberg, marketBuy, marketSell, IPoloniexClient, IPoloniexResponse, PoloniexApiError,
+} from '../index';
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const trade = (tradeID: string, amount: string): {} => ({
+    amount,
+    category: 'exchange',
+    date    : '2018-01-01 00:00:00',
+    fee     : '0.0025',
+    rate    : '0.05',
+    total   : `${Number(amount) * 0.05}`,
+    tradeID,
+    type    : 'sell',
+});
+
+const notFound = (): Promise<IPoloniexResponse> =>
+    Promise.reject(new PoloniexApiError('Order not found, or you are not the person who placed it.'));
+
+const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => { setTimeout(resolve, ms); });
+
+interface IExchange {
+    book: { asks: Array<[string, number]>, bids: Array<[string, number]> };
+    open: Array<{ orderNumber: string, amount: string }>;
+    orders: Array<{ [param: string]: string | boolean }>;
+    cancelled: string[];
+    placed: number;
+    trades: { [orderNumber: string]: Array<{}> };
+    moveOrder(): Promise<IPoloniexResponse>;
+}
+
+/**
+ * A client whose book, open orders and trades are whatever the test puts in the exchange.
+ */
+const fakeExchange = (): { client: IPoloniexClient, exchange: IExchange } => {
+    const exchange: IExchange = {
+        book     : { asks: [], bids: [] },
+        cancelled: [],
+        moveOrder: (): Promise<IPoloniexResponse> => Promise.reject(new Error('unexpected move')),
+        open     : [],
+        orders   : [],
+        placed   : 0,
+        trades   : {},
+    };
+
+    const place = (params: { [param: string]: string | boolean }): Promise<IPoloniexResponse> => {
+        exchange.orders.push(params);
+        exchange.placed++;
+
+        return ok({ orderNumber: `${exchange.placed}`, resultingTrades: [] });
+    };
+
+    const client = {
+        buy: place,
+        cancelOrder(params: { orderNumber: string }): Promise<IPoloniexResponse> {
+            exchange.cancelled.push(params.orderNumber);
+
+            return ok({ success: 1 });
+        },
+        moveOrder(): Promise<IPoloniexResponse> { return exchange.moveOrder(); },
+        returnOpenOrders(): Promise<IPoloniexResponse> {
+            return ok({
+                BTC_ETH: exchange.open.map((order) =>
+                    ({ ...order, date: '2018-01-01 00:00:00', rate: '0.05', total: '0', type: 'sell' })),
+            });
+        },
+        returnOrderBook(): Promise<IPoloniexResponse> { return ok({ ...exchange.book, isFrozen: '0', seq: 1 }); },
+        returnOrderTrades(params: { orderNumber: string }): Promise<IPoloniexResponse> {
+            const trades = exchange.trades[params.orderNumber];
+
+            return trades !== undefined ? ok(trades) : notFound();
+        },
+        sell: place,
+    };
+
+    return { client: client as {} as IPoloniexClient, exchange };
+};
+
+describe('execution', () => {
+    it('buys at the worst rate needed within the slippage, immediate-or-cancel', async () => {
+        const { client, exchange } = fakeExchange();
+        exchange.book.asks = [['0.0500', 4], ['0.0502', 10], ['0.0600', 100]];
+
+        const report = await marketBuy(client, { amount: '10', currencyPair: 'BTC_ETH', maxSlippage: '0.005' });
+
+        expect(exchange.orders).to.deep.equal([
+            { amount: '10', currencyPair: 'BTC_ETH', immediateOrCancel: true, rate: '0.0502' },
+        ]);
+        expect(report.orderNumbers).to.deep.equal(['1']);
+    });
+
+    it('places nothing when the book has nothing within the limits', async () => {
+        const { client, exchange } = fakeExchange();
+        exchange.book.bids = [['0.0500', 4]];
+
+        const report = await marketSell(client, {
+            amount      : '1',
+            currencyPair: 'BTC_ETH',
+            limitRate   : '0.051',
+            maxSlippage : '0.01',
+        });
+
+        expect(exchange.orders).to.deep.equal([]);
+        expect(report.filledAmount.toFixed()).to.equal('0');
+        expect(report.complete).to.equal(false);
+    });
+
+    it('places the next iceberg slice once the visible one is filled', async () => {
+        const { client, exchange } = fakeExchange();
+        const manager              = getOrderManager(client);
+
+        const execution = iceberg(client, {
+            amount       : '4',
+            currencyPair : 'BTC_ETH',
+            rate         : '0.05',
+            type         : 'sell',
+            visibleAmount: '2',
+        }, manager);
+
+        await sleep(5);
+        exchange.trades['1'] = [trade('1', '2')];
+        await manager.refresh();
+
+        await sleep(5);
+        exchange.trades['2'] = [trade('2', '2')];
+        await manager.refresh();
+
+        const report = await execution;
+        expect(report.orderNumbers).to.deep.equal(['1', '2']);
+        expect(exchange.orders.map((order) => order.amount)).to.deep.equal(['2', '2']);
+        expect(report.filledAmount.toFixed()).to.equal('4');
+        expect(report.complete).to.equal(true);
+    });
+
+    it('cancels the order left by a move that was in progress when the timeout fired', async () => {
+        const { client, exchange } = fakeExchange();
+        const manager              = getOrderManager(client);
+
+        let finishMove: () => void;
+        exchange.moveOrder = (): Promise<IPoloniexResponse> => new Promise<IPoloniexResponse>((resolve) => {
+            finishMove = (): void => { resolve(ok({ orderNumber: '2', resultingTrades: {}, success: 1 })); };
+        });
+
+        const execution = iceberg(client, {
+            amount       : '10',
+            currencyPair : 'BTC_ETH',
+            rate         : '0.05',
+            timeout      : 30,
+            type         : 'sell',
+            visibleAmount: '2',
+        }, manager);
+
+        // A partial fill sets off a move to top the order back up
+        await sleep(5);
+        exchange.open        = [{ amount: '1', orderNumber: '1' }];
+        exchange.trades['1'] = [trade('1', '1')];
+        await manager.refresh();
+
+        await sleep(50);
+        expect(exchange.cancelled).to.deep.equal([]);
+
+        finishMove();
+
+        const report = await execution;
+        expect(exchange.cancelled).to.deep.equal(['2']);
+        expect(report.orderNumbers).to.deep.equal(['1', '2']);
+        expect(report.filledAmount.toFixed()).to.equal('1');
+        expect(report.complete).to.equal(false);
+        expect(manager.get('2').status).to.equal('cancelled');
+    });
+});
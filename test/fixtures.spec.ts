@@ -0,0 +1,100 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    fixtureParams, getClient, AuthenticationError, FixtureNotFoundError, InsufficientFundsError, IApiAuth,
+    IPoloniexClient, RateLimitError, TimeoutError,
+} from '../index';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+// Replay never sends anything, so any keys will do
+const auth: IApiAuth = { privateKey: 'test-secret', publicKey: 'test-key' };
+
+const replaying = (fixture: string): IPoloniexClient =>
+    getClient(auth, null, { fixtures: { mode: 'replay', path: path.join(fixturesDir, fixture) } });
+
+const rejectionOf = (call: Promise<{}>): Promise<Error> =>
+    call.then(() => Promise.reject(new Error('expected the call to reject')), (err: Error) => err);
+
+describe('fixture replay', () => {
+
+    describe('public endpoints', () => {
+        const client = replaying('public.json');
+
+        it('serves recorded responses', async () => {
+            const { data, status } = await client.returnTicker();
+
+            expect(status).to.equal(200);
+            expect(data.BTC_ETH.last).to.equal('0.07350000');
+        });
+
+        it('matches requests on their params', async () => {
+            const { data } = await client.returnOrderBook({ currencyPair: 'BTC_ETH', depth: '2' });
+
+            expect(data.seq).to.equal(494101583);
+        });
+
+        it('rejects error bodies with the matching error class', async () => {
+            const err = await rejectionOf(client.return24Volume());
+
+            expect(err).to.be.instanceof(RateLimitError);
+            expect(err.message).to.equal('Please do not make more than 6 API calls per second.');
+        });
+
+        it('rejects recorded timeouts as TimeoutError', async () => {
+            expect(await rejectionOf(client.returnCurrencies())).to.be.instanceof(TimeoutError);
+        });
+
+        it('rejects requests that were not recorded', async () => {
+            const err = await rejectionOf(client.returnOrderBook({ currencyPair: 'BTC_XMR' }));
+
+            expect(err).to.be.instanceof(FixtureNotFoundError);
+        });
+    });
+
+    describe('private endpoints', () => {
+        const client = replaying('private.json');
+
+        it('matches requests whatever their nonce and signature', async () => {
+            const first  = await client.returnBalances();
+            const second = await client.returnBalances();
+
+            expect(first.data).to.deep.equal({ BTC: '0.50000000', ETH: '0.00000000' });
+            expect(second.data).to.deep.equal(first.data);
+        });
+
+        it('rejects error bodies with the matching error class', async () => {
+            const err = await rejectionOf(client.buy({ amount: 10, currencyPair: 'BTC_ETH', rate: 0.05 }));
+
+            expect(err).to.be.instanceof(InsufficientFundsError);
+            expect((err as InsufficientFundsError).command).to.equal('buy');
+        });
+
+        it('rejects HTTP errors by status and message', async () => {
+            const err = await rejectionOf(client.returnOpenOrders({ currencyPair: 'BTC_ETH' }));
+
+            expect(err).to.be.instanceof(AuthenticationError);
+            expect((err as AuthenticationError).status).to.equal(403);
+        });
+    });
+
+    describe('fixtures', () => {
+        it('are stored without the nonce and with secrets redacted', () => {
+            const params = fixtureParams({ command: 'withdraw', nonce: 1514764800000000, secret: 's3cr3t', amount: 1 });
+
+            expect(params.nonce).to.equal(undefined);
+            expect(params.secret).not.to.equal('s3cr3t');
+            expect(params).to.include({ amount: '1', command: 'withdraw' });
+        });
+
+        it('hold no keys, signatures or nonces', () => {
+            fs.readdirSync(fixturesDir).forEach((file) => {
+                const contents = fs.readFileSync(path.join(fixturesDir, file), 'utf8');
+
+                expect(contents, file).not.to.match(/"(Key|Sign|nonce|secret|privateKey|publicKey)"/);
+            });
+        });
+    });
+});
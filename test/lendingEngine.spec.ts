@@ -0,0 +1,134 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { getLendingEngine, ILendingEngineConfig, IPoloniexClient, IPoloniexResponse } from '../index';
+
+const NOW = Date.UTC(2018, 0, 1, 12);
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const loanOrder = (rate: string): {} => ({ amount: '10', rangeMax: 2, rangeMin: 2, rate });
+
+const historyEntry = (id: number, close: string, amount: string, rate: string, interest: string): {} => ({
+    amount,
+    close,
+    currency: 'BTC',
+    duration: '2',
+    earned  : (Number(interest) * 0.85).toFixed(8),
+    fee     : (Number(interest) * -0.15).toFixed(8),
+    id,
+    interest,
+    open    : '2017-12-30 00:00:00',
+    rate,
+});
+
+/**
+ * A lending account holding `lending`, with the given open offers, recording the offers it is sent.
+ */
+const fakeExchange = (lending: { [currency: string]: string }, openOffers: {} = {}) => {
+    const sent: string[] = [];
+
+    const client = {
+        cancelLoanOffer(params: { orderNumber: string }): Promise<IPoloniexResponse> {
+            sent.push(`cancel ${params.orderNumber}`);
+
+            return ok({ message: 'Loan offer canceled.', success: 1 });
+        },
+        createLoanOffer(params: { amount: string, duration: number, lendingRate: string }): Promise<IPoloniexResponse> {
+            sent.push(`offer ${params.amount} at ${params.lendingRate} for ${params.duration} days`);
+
+            return ok({ message: 'Loan order placed.', orderID: sent.length, success: 1 });
+        },
+        returnAvailableAccountBalances: (): Promise<IPoloniexResponse> => ok({ lending }),
+        returnLendingHistory          : (): Promise<IPoloniexResponse> => ok([
+            historyEntry(1, '2018-01-01 00:00:00', '1', '0.0004', '0.0008'),
+            historyEntry(2, '2018-01-01 06:00:00', '3', '0.0008', '0.0048'),
+        ]),
+        returnLoanOrders              : (): Promise<IPoloniexResponse> =>
+            ok({ demands: [], offers: [loanOrder('0.0003'), loanOrder('0.00025')] }),
+        returnOpenLoanOffers          : (): Promise<IPoloniexResponse> => ok(openOffers),
+    };
+
+    const engine = (config: ILendingEngineConfig = null) => getLendingEngine(client as {} as IPoloniexClient, config);
+
+    return { client, engine, sent };
+};
+
+describe('lending engine', () => {
+    const now = Date.now;
+
+    beforeEach(() => {
+        Date.now = (): number => NOW;
+    });
+
+    afterEach(() => {
+        Date.now = now;
+    });
+
+    it('spreads what is available beyond the reserve across tiers from the lowest offer', async () => {
+        const { engine, sent } = fakeExchange({ BTC: '1.5' });
+
+        const { placed } = await engine({ reserve: { BTC: '0.5' }, tiers: 3 }).run();
+
+        expect(placed.map((offer) => offer.orderID)).to.deep.equal(['1', '2', '3']);
+        expect(sent).to.deep.equal([
+            'offer 0.33333333 at 0.00025 for 2 days',
+            'offer 0.33333333 at 0.000275 for 2 days',
+            'offer 0.33333333 at 0.0003 for 2 days',
+        ]);
+    });
+
+    it('uses fewer tiers when each would be under minAmount, and longer durations at higher rates', async () => {
+        const { engine, sent } = fakeExchange({ BTC: '0.025' });
+        const durations        = [{ duration: 2, minRate: '0' }, { duration: 30, minRate: '0.0005' }];
+
+        await engine({ durations, minRate: '0.0005' }).run();
+
+        expect(sent).to.deep.equal(['offer 0.0125 at 0.0005 for 30 days', 'offer 0.0125 at 0.0006 for 30 days']);
+    });
+
+    it('offers nothing below minAmount', async () => {
+        const { engine, sent } = fakeExchange({ BTC: '0.009' });
+
+        expect(await engine().run()).to.deep.equal({ cancelled: [], placed: [] });
+        expect(sent).to.deep.equal([]);
+    });
+
+    it('cancels offers left open past maxOfferAge before offering again', async () => {
+        const offer            = (id: number, date: string): {} =>
+            ({ amount: '0.5', autoRenew: 0, date, duration: 2, id, rate: '0.0003' });
+        const { engine, sent } = fakeExchange({}, {
+            BTC: [offer(11, '2018-01-01 11:55:00'), offer(12, '2018-01-01 11:50:00')],
+            ETH: [offer(13, '2018-01-01 00:00:00')],
+        });
+
+        const { cancelled } = await engine({ maxOfferAge: 600000 }).run();
+
+        expect(cancelled.map((stale) => stale.id)).to.deep.equal(['12']);
+        expect(sent).to.deep.equal(['cancel 12']);
+    });
+
+    it('sends failed cycles to onError', async () => {
+        const { client, engine } = fakeExchange({ BTC: '1' });
+        const errors: Error[]    = [];
+        const lending            = engine({ onError: (err) => errors.push(err) });
+        client.returnLoanOrders  = (): Promise<IPoloniexResponse> => Promise.reject(new Error('down'));
+
+        lending.start();
+        await new Promise((resolve) => setImmediate(resolve));
+        lending.stop();
+
+        expect(errors.map((err) => err.message)).to.deep.equal(['down']);
+    });
+
+    it('sums up earnings from the lending history', async () => {
+        const { engine } = fakeExchange({});
+
+        const { BTC } = await engine().report({ end: new Date(NOW), start: new Date(Date.UTC(2017, 11, 31)) });
+
+        expect(BTC.loans).to.equal(2);
+        expect(BTC.amount.toFixed()).to.equal('4');
+        expect(BTC.interest.toFixed()).to.equal('0.0056');
+        expect(BTC.averageRate.toFixed()).to.equal('0.0007');
+    });
+});
@@ -0,0 +1,151 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import {
+    getMarginMonitor, IMarginAlert, IMarginMonitorConfig, IMarginReduction, IPoloniexClient, IPoloniexResponse,
+} from '../index';
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const position = (amount: string, liquidationPrice: string): {} => ({
+    amount,
+    basePrice  : '0.05',
+    lendingFees: '0',
+    liquidationPrice,
+    pl         : '0',
+    total      : '0',
+    type       : Number(amount) < 0 ? 'short' : Number(amount) > 0 ? 'long' : 'none',
+});
+
+const ticker = (last: string): {} => ({
+    baseVolume   : '1',
+    high24hr     : last,
+    highestBid   : last,
+    id           : 148,
+    isFrozen     : '0',
+    last,
+    low24hr      : last,
+    lowestAsk    : last,
+    percentChange: '0',
+    quoteVolume  : '1',
+});
+
+/**
+ * A margin account holding whatever `account` is set to, recording the orders it is sent.
+ */
+const fakeExchange = () => {
+    const sent: string[] = [];
+    const account: { currentMargin: string, openOrders: Array<{}>, positions: {}, price: string } = {
+        currentMargin: '0.8',
+        openOrders   : [],
+        positions    : { BTC_ETH: position('10', '0.04') },
+        price        : '0.05',
+    };
+
+    const client = {
+        closeMarginPosition(params: { currencyPair: string }): Promise<IPoloniexResponse> {
+            sent.push(`closeMarginPosition ${params.currencyPair}`);
+
+            return ok({ message: 'Successfully closed margin position.', resultingTrades: {}, success: 1 });
+        },
+        getMarginPosition         : (): Promise<IPoloniexResponse> => ok(account.positions),
+        marginSell(params: { amount: {}, rate: {} }): Promise<IPoloniexResponse> {
+            sent.push(`marginSell ${params.amount} at ${params.rate}`);
+
+            return ok({ message: 'Margin order placed.', orderNumber: '1', resultingTrades: {}, success: 1 });
+        },
+        returnMarginAccountSummary: (): Promise<IPoloniexResponse> => ok({
+            currentMargin     : account.currentMargin,
+            lendingFees       : '0',
+            netValue          : '1',
+            pl                : '0',
+            totalBorrowedValue: '1',
+            totalValue        : '1',
+        }),
+        returnOpenOrders          : (): Promise<IPoloniexResponse> => ok({ BTC_ETH: account.openOrders }),
+        returnTicker              : (): Promise<IPoloniexResponse> => ok({ BTC_ETH: ticker(account.price) }),
+        returnTradableBalances    : (): Promise<IPoloniexResponse> => ok({ BTC_ETH: { BTC: '1', ETH: '20' } }),
+    };
+
+    const monitor = (config: IMarginMonitorConfig = null) => getMarginMonitor(client as {} as IPoloniexClient, config);
+
+    return { account, client, monitor, sent };
+};
+
+describe('margin monitor', () => {
+
+    it('measures the account margin and how close each position is to liquidation', async () => {
+        const { account, monitor } = fakeExchange();
+        account.currentMargin      = '0.45';
+        account.positions          = { BTC_ETH: position('10', '0.046'), BTC_XMR: position('0', '-1') };
+
+        const risk = await monitor().check();
+
+        expect(risk.level).to.equal('warning');
+        expect(risk.positions).to.have.length(1);
+        expect(risk.positions[0]).to.include({ currencyPair: 'BTC_ETH', level: 'warning', type: 'long' });
+        expect(risk.positions[0].distance.toFixed()).to.equal('0.08');
+    });
+
+    it('raises alerts only when a level changes, and recovers closed positions', async () => {
+        const { account, monitor } = fakeExchange();
+        const margin               = monitor();
+        const alerts: string[]     = [];
+        const record               = (event: string) => (alert: IMarginAlert): void => {
+            alerts.push(`${event} ${alert.currencyPair !== null ? alert.currencyPair : 'account'}`);
+        };
+
+        margin.on('warning', record('warning')).on('critical', record('critical')).on('recovered', record('recovered'));
+
+        await margin.check();
+        account.price = '0.042';
+        await margin.check();
+        await margin.check();
+        account.currentMargin = '0.3';
+        account.positions     = {};
+        await margin.check();
+
+        expect(alerts).to.deep.equal(['critical BTC_ETH', 'critical account', 'recovered BTC_ETH']);
+    });
+
+    it('closes critical positions when asked to reduce them', async () => {
+        const { account, monitor, sent } = fakeExchange();
+        const reductions: IMarginReduction[] = [];
+        account.price                        = '0.042';
+
+        await monitor({ autoReduce: {} }).on('reduce', (reduction) => reductions.push(reduction)).check();
+
+        expect(sent).to.deep.equal(['closeMarginPosition BTC_ETH']);
+        expect(reductions[0]).to.include({ closed: true, currencyPair: 'BTC_ETH', type: 'long' });
+    });
+
+    it('reduces by a fraction through the bid, once while the order is open', async () => {
+        const { account, monitor, sent } = fakeExchange();
+        const margin                     = monitor({ autoReduce: { fraction: '0.5', slippage: '0.01' } });
+        account.price                    = '0.042';
+
+        await margin.check();
+        account.openOrders = [{
+            amount: '5', date: '2018-01-01 00:00:00', margin: 1, orderNumber: '1', rate: '0.04158', total: '0.2079',
+            type  : 'sell',
+        }];
+        await margin.check();
+        account.openOrders = [];
+        await margin.check();
+
+        expect(sent).to.deep.equal(['marginSell 5 at 0.04158', 'marginSell 5 at 0.04158']);
+    });
+
+    it('sends failed polls to onError', async () => {
+        const { client, monitor } = fakeExchange();
+        const errors: Error[]     = [];
+        const margin              = monitor({ onError: (err) => errors.push(err) });
+        client.returnTicker       = (): Promise<IPoloniexResponse> => Promise.reject(new Error('down'));
+
+        margin.start();
+        await new Promise((resolve) => setImmediate(resolve));
+        margin.stop();
+
+        expect(errors.map((err) => err.message)).to.deep.equal(['down']);
+    });
+});
@@ -0,0 +1,159 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import {
+    getMarkets, parseCurrencyPair, withMarketGuards, ICurrencyStatusChange, IMarket, IPoloniexClient,
+    IPoloniexResponse, MarketUnavailableError,
+} from '../index';
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const currency = (id: number, flags: { delisted?: number, disabled?: number, frozen?: number } = {}): {} =>
+    ({ delisted: 0, disabled: 0, frozen: 0, id, minConf: 1, name: `${id}`, txFee: '0.0001', ...flags });
+
+const ticker = (id: number, isFrozen: string = '0'): {} => ({
+    baseVolume   : '1',
+    high24hr     : '1',
+    highestBid   : '1',
+    id,
+    isFrozen,
+    last         : '1',
+    low24hr      : '1',
+    lowestAsk    : '1',
+    percentChange: '0',
+    quoteVolume  : '1',
+});
+
+/**
+ * A client listing what `exchange` holds at the time it is asked, and recording what it sends.
+ */
+const fakeExchange = () => {
+    const sent: string[]                            = [];
+    const exchange: { currencies: {}, tickers: {} } = {
+        currencies: { BTC: currency(28), ETH: currency(267), USDT: currency(214), XMR: currency(256) },
+        tickers   : { BTC_ETH: ticker(148), BTC_XMR: ticker(114), USDT_BTC: ticker(121, '1') },
+    };
+
+    const client = {
+        buy(): Promise<IPoloniexResponse> {
+            sent.push('buy');
+
+            return ok({ orderNumber: '1', resultingTrades: [] });
+        },
+        returnCurrencies(): Promise<IPoloniexResponse> {
+            sent.push('returnCurrencies');
+
+            return ok(exchange.currencies);
+        },
+        returnTicker(): Promise<IPoloniexResponse> {
+            sent.push('returnTicker');
+
+            return ok(exchange.tickers);
+        },
+        withdraw(): Promise<IPoloniexResponse> {
+            sent.push('withdraw');
+
+            return ok({ response: 'Withdrew 1.00000000 ETH.' });
+        },
+    };
+
+    return { client: client as {} as IPoloniexClient, exchange, sent };
+};
+
+describe('markets', () => {
+
+    it('splits currency pairs into base and quote', () => {
+        expect(parseCurrencyPair('BTC_ETH')).to.deep.equal({ base: 'BTC', currencyPair: 'BTC_ETH', quote: 'ETH' });
+        expect(() => parseCurrencyPair('btc-eth')).to.throw(MarketUnavailableError, 'invalid currency pair btc-eth');
+    });
+
+    it('lists the markets in returnTicker', async () => {
+        const markets = getMarkets(fakeExchange().client);
+
+        await markets.refresh();
+
+        expect(markets.markets().map((market) => market.currencyPair))
+            .to.deep.equal(['BTC_ETH', 'BTC_XMR', 'USDT_BTC']);
+        expect(markets.parsePair('BTC_ETH')).to.deep.equal({
+            base: 'BTC', currencyPair: 'BTC_ETH', id: 148, isFrozen: false, quote: 'ETH',
+        });
+        expect(markets.marketsFor('XMR').map((market) => market.currencyPair)).to.deep.equal(['BTC_XMR']);
+        expect(() => markets.parsePair('BTC_DOGE')).to.throw(MarketUnavailableError, 'BTC_DOGE is not listed');
+    });
+
+    it('explains why a market cannot be traded', async () => {
+        const { client, exchange } = fakeExchange();
+        exchange.currencies        = { ...exchange.currencies, XMR: currency(256, { delisted: 1 }) };
+        const markets              = getMarkets(client);
+
+        await markets.refresh();
+
+        expect(markets.tradingProblem('BTC_ETH')).to.equal(null);
+        expect(markets.tradingProblem('BTC_XMR')).to.equal('XMR is delisted');
+        expect(markets.tradingProblem('USDT_BTC')).to.equal('USDT_BTC is frozen');
+        expect(markets.tradingProblem('BTC_DOGE')).to.equal('BTC_DOGE is not listed');
+        expect(markets.tradingProblem('btc-eth')).to.equal('invalid currency pair btc-eth');
+        expect(markets.withdrawalProblem('DOGE')).to.equal('unknown currency DOGE');
+    });
+
+    it('reports listings, delistings and status changes on refresh', async () => {
+        const { client, exchange } = fakeExchange();
+        const markets              = getMarkets(client);
+        const seen: string[]       = [];
+
+        markets
+            .on('listing', (market: IMarket) => seen.push(`listing ${market.currencyPair}`))
+            .on('delisting', (market: IMarket) => seen.push(`delisting ${market.currencyPair}`))
+            .on('status', (change: ICurrencyStatusChange) => seen.push(`status ${change.currency}`));
+
+        const first = await markets.refresh();
+        expect(first.listed).to.deep.equal([]);
+
+        exchange.currencies = { ...exchange.currencies, ETH: currency(267, { disabled: 1 }) };
+        exchange.tickers    = { BTC_ETH: ticker(148), BTC_XRP: ticker(117), USDT_BTC: ticker(121, '1') };
+        await markets.refresh();
+
+        expect(seen).to.deep.equal(['listing BTC_XRP', 'delisting BTC_XMR', 'status ETH']);
+    });
+
+    it('joins a refresh that is already running', async () => {
+        const { client, sent } = fakeExchange();
+        const markets          = getMarkets(client);
+
+        await Promise.all([markets.refresh(), markets.refresh()]);
+
+        expect(sent).to.deep.equal(['returnCurrencies', 'returnTicker']);
+    });
+
+    it('sends failed background refreshes to onError', async () => {
+        const errors: Error[] = [];
+        const client          = {
+            returnCurrencies: (): Promise<IPoloniexResponse> => Promise.reject(new Error('down')),
+            returnTicker    : (): Promise<IPoloniexResponse> => ok({}),
+        };
+        const markets         = getMarkets(client as {} as IPoloniexClient, { onError: (err) => errors.push(err) });
+
+        markets.start();
+        await new Promise((resolve) => setImmediate(resolve));
+        markets.stop();
+
+        expect(errors.map((err) => err.message)).to.deep.equal(['down']);
+    });
+
+    it('guards orders and withdrawals, loading the registry on first use', async () => {
+        const { client, exchange, sent } = fakeExchange();
+        exchange.currencies              = { ...exchange.currencies, ETH: currency(267, { frozen: 1 }) };
+        const guarded                    = withMarketGuards(client, getMarkets(client));
+
+        const order = await guarded.buy({ amount: 1, currencyPair: 'BTC_ETH', rate: 0.05 }).catch((err) => err);
+        expect(order).to.be.instanceof(MarketUnavailableError);
+        expect(order.message).to.equal('ETH is frozen');
+        expect(order.command).to.equal('buy');
+
+        const withdrawal = await guarded.withdraw({ address: 'x', amount: 1, currency: 'ETH' }).catch((err) => err);
+        expect(withdrawal.message).to.equal('ETH is frozen');
+
+        await guarded.buy({ amount: 1, currencyPair: 'BTC_XMR', rate: 0.02 });
+        expect(sent).to.deep.equal(['returnCurrencies', 'returnTicker', 'buy']);
+    });
+});
@@ -0,0 +1,102 @@
+//tslint:disable:no-magic-numbers
+import { AxiosRequestConfig } from 'axios';
+import { expect } from 'chai';
+import {
+    getClient, getLoggingMiddleware, getMetricsMiddleware, toPrometheusText, ILogEntry, IMiddleware, IPoloniexClient,
+    IPoloniexResponse, TimeoutError,
+} from '../index';
+
+const auth = { privateKey: 'test-secret', publicKey: 'test-key' };
+
+/**
+ * Answers returnCurrencies with a timeout and everything else with `{}`.
+ */
+const answer = (config: AxiosRequestConfig): Promise<IPoloniexResponse> =>
+    /returnCurrencies/.test(config.url) ?
+    Promise.reject(Object.assign(new Error('timeout of 5000ms exceeded'), { code: 'ECONNABORTED' })) :
+    Promise.resolve({ config, data: {}, headers: {}, status: 200, statusText: 'OK' });
+
+const withMiddleware = (middleware: IMiddleware[]): IPoloniexClient =>
+    getClient(auth, { adapter: answer }, { middleware });
+
+const rejectionOf = (call: Promise<{}>): Promise<Error> =>
+    call.then(() => Promise.reject(new Error('expected the call to reject')), (err: Error) => err);
+
+describe('middleware', () => {
+
+    it('sees every request, response and error', async () => {
+        const seen: string[] = [];
+        const client         = withMiddleware([{
+            afterResponse: (context) => { seen.push(`response ${context.command}`); },
+            beforeRequest: (context) => { seen.push(`request ${context.command}`); },
+            onError      : (context, err) => { seen.push(`${err.name} ${context.command}`); },
+        }]);
+
+        await client.returnTicker();
+        await rejectionOf(client.returnCurrencies());
+
+        expect(seen).to.deep.equal([
+            'request returnTicker',
+            'response returnTicker',
+            'request returnCurrencies',
+            'TimeoutError returnCurrencies',
+        ]);
+    });
+
+    it('runs beforeRequest in order and the other hooks in reverse', async () => {
+        const seen: string[] = [];
+        const named          = (name: string): IMiddleware => ({
+            afterResponse: () => { seen.push(`${name} after`); },
+            beforeRequest: () => { seen.push(`${name} before`); },
+        });
+
+        await withMiddleware([named('outer'), named('inner')]).returnTicker();
+
+        expect(seen).to.deep.equal(['outer before', 'inner before', 'inner after', 'outer after']);
+    });
+
+    it('stops requests whose beforeRequest hook throws', async () => {
+        const client = withMiddleware([{ beforeRequest: () => { throw new Error('not now'); } }]);
+
+        const err = await rejectionOf(client.returnTicker());
+
+        expect(err.message).to.equal('not now');
+        expect(err).not.to.be.instanceof(TimeoutError);
+    });
+
+    it('ignores what afterResponse and onError hooks throw', async () => {
+        const client = withMiddleware([{
+            afterResponse: () => { throw new Error('broken logger'); },
+            onError      : () => { throw new Error('broken logger'); },
+        }]);
+
+        expect((await client.returnTicker()).status).to.equal(200);
+        expect(await rejectionOf(client.returnCurrencies())).to.be.instanceof(TimeoutError);
+    });
+
+    it('logs private requests without their keys or signature', async () => {
+        const entries: ILogEntry[] = [];
+
+        await withMiddleware([getLoggingMiddleware({ log: (entry) => entries.push(entry) })]).returnBalances();
+
+        expect(entries.map((entry) => entry.event)).to.deep.equal(['request', 'response']);
+        expect(entries[0].headers).to.include({ Key: '[REDACTED]', Sign: '[REDACTED]' });
+        expect(JSON.stringify(entries)).not.to.contain('test-key');
+    });
+
+    it('counts requests and errors per command', async () => {
+        const metrics = getMetricsMiddleware({ buckets: [1000] });
+        const client  = withMiddleware([metrics]);
+
+        await client.returnTicker();
+        await client.returnTicker();
+        await rejectionOf(client.returnCurrencies());
+
+        const [ticker, currencies] = metrics.snapshot();
+        expect(ticker).to.include({ command: 'returnTicker', endpoint: 'public', requests: 2 });
+        expect(ticker.latency.counts).to.deep.equal([2]);
+        expect(currencies.errors).to.deep.equal({ TimeoutError: 1 });
+        expect(toPrometheusText(metrics.snapshot())).to.contain(
+            'poloniex_request_errors_total{endpoint="public",command="returnCurrencies",error="TimeoutError"} 1');
+    });
+});
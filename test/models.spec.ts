@@ -0,0 +1,128 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { Decimal } from 'decimal.js';
+import {
+    parse24Volume, parseDepositsWithdrawals, parseMarginOrderResult, parseOpenOrders, parseOrderBook,
+    parsePrivateTradeHistory, parseTicker, toDate,
+} from '../index';
+
+describe('parsers', () => {
+
+    it('read dates as UTC', () => {
+        expect(toDate('2018-01-01 00:00:01').toISOString()).to.equal('2018-01-01T00:00:01.000Z');
+    });
+
+    it('turn tickers into decimals and booleans', () => {
+        const tickers = parseTicker({
+            BTC_ETH: {
+                baseVolume   : '1523.4052',
+                high24hr     : '0.0754',
+                highestBid   : '0.07349',
+                id           : 148,
+                isFrozen     : '0',
+                last         : '0.0735',
+                low24hr      : '0.0721',
+                lowestAsk    : '0.07351',
+                percentChange: '-0.0123',
+                quoteVolume  : '20710.1106',
+            },
+        });
+
+        expect(tickers.BTC_ETH.currencyPair).to.equal('BTC_ETH');
+        expect(tickers.BTC_ETH.isFrozen).to.equal(false);
+        expect(tickers.BTC_ETH.last).to.be.instanceof(Decimal);
+        expect(tickers.BTC_ETH.lowestAsk.minus(tickers.BTC_ETH.highestBid).toFixed()).to.equal('0.00002');
+    });
+
+    it('key a single order book by the requested pair', () => {
+        const books = parseOrderBook({ asks: [['0.07351', 2.5]], bids: [['0.07349', 1.25]], isFrozen: '0', seq: 7 },
+                                     'BTC_ETH');
+
+        expect(books.BTC_ETH.asks[0].rate.toFixed()).to.equal('0.07351');
+        expect(books.BTC_ETH.bids[0].amount.toFixed()).to.equal('1.25');
+        expect(books.BTC_ETH.seq).to.equal(7);
+    });
+
+    it('normalize both shapes of open orders', () => {
+        const order = {
+            amount        : '0.6',
+            date          : '2018-01-01 00:00:00',
+            margin        : 0,
+            orderNumber   : '120466',
+            rate          : '0.05',
+            startingAmount: '1',
+            total         : '0.03',
+            type          : 'buy' as 'buy',
+        };
+
+        const single = parseOpenOrders([order], 'BTC_ETH');
+        const all    = parseOpenOrders({ BTC_ETH: [order], BTC_XMR: [] });
+
+        expect(single.BTC_ETH[0].orderNumber).to.equal('120466');
+        expect(single.BTC_ETH[0].startingAmount.toFixed()).to.equal('1');
+        expect(single.BTC_ETH[0].margin).to.equal(false);
+        expect(all.BTC_ETH).to.deep.equal(single.BTC_ETH);
+        expect(all.BTC_XMR).to.deep.equal([]);
+    });
+
+    it('read an empty array for all pairs as no pairs', () => {
+        expect(parseOpenOrders([], 'all')).to.deep.equal({});
+        expect(parsePrivateTradeHistory([], 'all')).to.deep.equal({});
+        expect(parseOpenOrders([], 'BTC_ETH')).to.deep.equal({ BTC_ETH: [] });
+    });
+
+    it('split 24h volume into pairs and totals', () => {
+        const volume = parse24Volume({ BTC_ETH: { BTC: '1523.4', ETH: '20710.1' }, totalBTC: '9000.5' });
+
+        expect(volume.pairs.BTC_ETH.ETH.toFixed()).to.equal('20710.1');
+        expect(volume.totals.BTC.toFixed()).to.equal('9000.5');
+    });
+
+    it('read deposits and withdrawals', () => {
+        const { deposits, withdrawals } = parseDepositsWithdrawals({
+            deposits   : [{
+                address      : '1BoatSLRHtKNngkdXEeobR76b53LETtpyT',
+                amount       : '0.5',
+                confirmations: 3,
+                currency     : 'BTC',
+                status       : 'COMPLETE',
+                timestamp    : 1514764800,
+                txid         : 'a1b2',
+            }],
+            withdrawals: [{
+                address         : '1BoatSLRHtKNngkdXEeobR76b53LETtpyT',
+                amount          : '0.1',
+                currency        : 'BTC',
+                ipAddress       : '203.0.113.7',
+                status          : 'PENDING',
+                timestamp       : 1514764800,
+                withdrawalNumber: 42,
+            }],
+        });
+
+        expect(deposits[0].timestamp.toISOString()).to.equal('2018-01-01T00:00:00.000Z');
+        expect(withdrawals[0].withdrawalNumber).to.equal('42');
+        expect(withdrawals[0].amount.toFixed()).to.equal('0.1');
+    });
+
+    it('read margin order results', () => {
+        const result = parseMarginOrderResult({
+            message        : 'Margin order placed.',
+            orderNumber    : 154407998,
+            resultingTrades: {
+                BTC_ETH: [{
+                    amount : '1',
+                    date   : '2018-01-01 00:00:00',
+                    rate   : '0.05',
+                    total  : '0.05',
+                    tradeID: '1213556',
+                    type   : 'buy',
+                }],
+            },
+            success        : 1,
+        });
+
+        expect(result.orderNumber).to.equal('154407998');
+        expect(result.resultingTrades.BTC_ETH[0].total.toFixed()).to.equal('0.05');
+    });
+});
@@ -0,0 +1,102 @@
+//tslint:disable:no-magic-numbers
+import { AxiosRequestConfig } from 'axios';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as qs from 'qs';
+import {
+    getClient, getFileNonceProvider, getMemoryNonceProvider, getStoreNonceProvider, nonceKey, parseExpectedNonce,
+    IPoloniexResponse,
+} from '../index';
+
+const NOW = Date.UTC(2018, 0, 1);
+
+const isIncreasing = (nonces: number[]): boolean => nonces.every((nonce, i) => i === 0 || nonce > nonces[i - 1]);
+
+describe('nonces', () => {
+    const now = Date.now;
+
+    beforeEach(() => {
+        Date.now = (): number => NOW;
+    });
+
+    afterEach(() => {
+        Date.now = now;
+    });
+
+    it('increase per key, even when asked for in the same millisecond', async () => {
+        const provider = getMemoryNonceProvider();
+
+        const nonces = await Promise.all([1, 2, 3, 4, 5].map(() => provider.getNonce('key')));
+
+        expect(nonces[0]).to.equal(NOW * 1000);
+        expect(isIncreasing(nonces)).to.equal(true);
+        expect(await provider.getNonce('other key')).to.equal(NOW * 1000);
+    });
+
+    it('are at least the minimum asked for', async () => {
+        const provider = getMemoryNonceProvider();
+
+        expect(await provider.getNonce('key', NOW * 1000 + 500)).to.equal(NOW * 1000 + 500);
+        expect(await provider.getNonce('key')).to.equal(NOW * 1000 + 501);
+    });
+
+    it('are reserved from a shared store by hashed key', async () => {
+        const reserved: Array<[string, number]> = [];
+        const provider                          = getStoreNonceProvider({
+            reserve: (key: string, minimum: number): Promise<number> => {
+                reserved.push([key, minimum]);
+
+                return Promise.resolve(minimum + 1);
+            },
+        });
+
+        expect(await provider.getNonce('key')).to.equal(NOW * 1000 + 1);
+        expect(reserved).to.deep.equal([[nonceKey('key'), NOW * 1000]]);
+        expect(nonceKey('key')).not.to.contain('key');
+    });
+
+    it('are shared through a state file', async () => {
+        const file   = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'nonce-')), 'nonces.json');
+        const first  = getFileNonceProvider(file);
+        const second = getFileNonceProvider(file);
+
+        const nonces: number[] = [];
+        for (const provider of [first, second, first, second]) nonces.push(await provider.getNonce('key'));
+
+        expect(isIncreasing(nonces)).to.equal(true);
+        expect(fs.existsSync(`${file}.lock`)).to.equal(false);
+        expect(fs.readFileSync(file, 'utf8')).not.to.contain('"key"');
+
+        fs.unlinkSync(file);
+        fs.rmdirSync(path.dirname(file));
+    });
+
+    it('are read from invalid nonce errors', () => {
+        expect(parseExpectedNonce('Nonce must be greater than 1514764800000000. You provided 1.'))
+            .to.equal(1514764800000001);
+        expect(parseExpectedNonce('Invalid API key/secret pair.')).to.equal(undefined);
+    });
+
+    it('are raised past the expected one when Poloniex rejects a request for its nonce', async () => {
+        const sent: number[] = [];
+        const answer         = (config: AxiosRequestConfig): Promise<IPoloniexResponse> => {
+            sent.push(Number(qs.parse(config.data).nonce));
+
+            const body = sent.length === 1 ?
+                         { error: `Nonce must be greater than ${NOW * 1000 + 1000}. You provided ${sent[0]}.` } :
+                         { BTC: '0.5' };
+
+            return Promise.resolve({ config, data: body, headers: {}, status: 200, statusText: 'OK' });
+        };
+
+        const client = getClient({ privateKey: 'secret', publicKey: 'key' }, { adapter: answer },
+                                 { nonceProvider: getMemoryNonceProvider() });
+
+        const { data } = await client.returnBalances();
+
+        expect(data).to.deep.equal({ BTC: '0.5' });
+        expect(sent).to.deep.equal([NOW * 1000, NOW * 1000 + 1001]);
+    });
+});
@@ -0,0 +1,145 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { EventEmitter } from 'events';
+import { getOrderBook, IOrderBookChangeEvent, IPoloniexClient, IPoloniexResponse, IPushClient } from '../index';
+
+interface IRawSnapshot {
+    asks: Array<[string, number]>;
+    bids: Array<[string, number]>;
+    seq: number;
+}
+
+/**
+ * A client answering each #returnOrderBook with the next of `snapshots`, once `release` is called if `held`.
+ */
+const fakeRest = (snapshots: IRawSnapshot[], held: boolean = false) => {
+    const waiting: Array<() => void> = [];
+    let requests                     = 0;
+
+    const client = {
+        returnOrderBook(): Promise<IPoloniexResponse> {
+            const snapshot = snapshots[requests];
+            requests      += 1;
+
+            if (snapshot === undefined) return Promise.reject(new Error('no more snapshots'));
+
+            const data     = { ...snapshot, isFrozen: '0' };
+            const response = { config: {}, data, headers: {}, status: 200, statusText: 'OK' };
+
+            return held ? new Promise((resolve) => waiting.push(() => resolve(response))) : Promise.resolve(response);
+        },
+    };
+
+    return {
+        client  : client as {} as IPoloniexClient,
+        release : (): void => waiting.splice(0).forEach((resolve) => resolve()),
+        requests: (): number => requests,
+    };
+};
+
+const update = (seq: number, side: 'ask' | 'bid', rate: string, amount: string) =>
+    ({ amount, currencyPair: 'BTC_ETH', rate, seq, side });
+
+const levels = (book: { top(levels: number): { asks: Array<{ rate: string }>, bids: Array<{ rate: string }> } }) => {
+    const { asks, bids } = book.top(10);
+
+    return { asks: asks.map((level) => level.rate), bids: bids.map((level) => level.rate) };
+};
+
+const tick = (): Promise<void> => new Promise<void>((resolve) => setImmediate(resolve));
+
+describe('order book', () => {
+    const first: IRawSnapshot = { asks: [['0.052', 1], ['0.051', 2]], bids: [['0.049', 1], ['0.05', 3]], seq: 10 };
+
+    it('is seeded from REST and kept current with deltas in sequence', async () => {
+        const rest              = fakeRest([first]);
+        const book              = getOrderBook('BTC_ETH', rest.client);
+        const changes: number[] = [];
+
+        book.on('change', (change: IOrderBookChangeEvent) => changes.push(change.seq));
+        await book.resync();
+
+        book.applyUpdate(update(9, 'ask', '0.06', '1'));
+        book.applyUpdate(update(11, 'ask', '0.0505', '1'));
+        book.applyUpdate(update(11, 'bid', '0.05', '0'));
+
+        expect(levels(book)).to.deep.equal({ asks: ['0.0505', '0.051', '0.052'], bids: ['0.049'] });
+        expect(book.bestBid()).to.deep.equal({ amount: '1', rate: '0.049' });
+        expect(changes).to.deep.equal([11, 11]);
+        expect(book.seq).to.equal(11);
+    });
+
+    it('replays deltas that arrive while the snapshot loads, dropping older ones', async () => {
+        const rest = fakeRest([first], true);
+        const book = getOrderBook('BTC_ETH', rest.client);
+
+        const resyncing = book.resync();
+        book.applyUpdate(update(9, 'ask', '0.052', '0'));
+        book.applyUpdate(update(11, 'ask', '0.053', '1'));
+        rest.release();
+        await resyncing;
+
+        expect(book.isSynced()).to.equal(true);
+        expect(levels(book).asks).to.deep.equal(['0.051', '0.052', '0.053']);
+        expect(book.seq).to.equal(11);
+    });
+
+    it('resyncs from REST on a sequence gap', async () => {
+        const rest              = fakeRest([first, { asks: [['0.051', 1]], bids: [['0.05', 1]], seq: 13 }]);
+        const book              = getOrderBook('BTC_ETH', rest.client);
+        const sources: string[] = [];
+
+        book.on('resync', (resync) => sources.push(`${resync.source} ${resync.seq}`));
+        await book.resync();
+
+        book.applyUpdate(update(14, 'bid', '0.0501', '1'));
+        expect(book.isSynced()).to.equal(false);
+        await tick();
+
+        expect(rest.requests()).to.equal(2);
+        expect(sources).to.deep.equal(['rest 10', 'rest 13']);
+        expect(levels(book)).to.deep.equal({ asks: ['0.051'], bids: ['0.0501', '0.05'] });
+    });
+
+    it('reports failed resyncs to onError and retries on the next delta', async () => {
+        const errors: Error[] = [];
+        const rest            = fakeRest([first]);
+        const book            = getOrderBook('BTC_ETH', rest.client, null, { onError: (err) => errors.push(err) });
+
+        await book.resync();
+        book.applyUpdate(update(12, 'ask', '0.06', '1'));
+        await tick();
+        book.applyUpdate(update(13, 'ask', '0.06', '2'));
+        await tick();
+
+        expect(errors.map((err) => err.message)).to.deep.equal(['no more snapshots', 'no more snapshots']);
+        expect(rest.requests()).to.equal(3);
+    });
+
+    it('follows its pair on the push client', async () => {
+        const subscribed: string[] = [];
+        const pushClient           = Object.assign(new EventEmitter(), {
+            subscribeOrderBook(pair: string): Promise<void> {
+                subscribed.push(`subscribe ${pair}`);
+
+                return Promise.resolve();
+            },
+            unsubscribeOrderBook(pair: string): Promise<void> {
+                subscribed.push(`unsubscribe ${pair}`);
+
+                return Promise.resolve();
+            },
+        });
+        const book                 = getOrderBook('BTC_ETH', fakeRest([first]).client, pushClient as {} as IPushClient);
+
+        await book.start();
+        pushClient.emit('orderBook', { asks: { 0.07: '1' }, bids: {}, currencyPair: 'BTC_ETH', seq: 20 });
+        pushClient.emit('orderBookModify', update(21, 'bid', '0.069', '1'));
+        pushClient.emit('orderBookModify', { ...update(22, 'bid', '0.01', '1'), currencyPair: 'BTC_XMR' });
+        await book.stop();
+        pushClient.emit('orderBookModify', update(22, 'bid', '0.068', '1'));
+
+        expect(subscribed).to.deep.equal(['subscribe BTC_ETH', 'unsubscribe BTC_ETH']);
+        expect(levels(book)).to.deep.equal({ asks: ['0.07'], bids: ['0.069'] });
+    });
+});
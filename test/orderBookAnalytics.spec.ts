@@ -0,0 +1,68 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { Decimal } from 'decimal.js';
+import {
+    depthWithin, estimateFill, findWalls, imbalance, midPrice, parseOrderBook, spread, summarizeOrderBooks,
+} from '../index';
+
+const books = parseOrderBook({
+    BTC_ETH: {
+        asks    : [['0.051', 1], ['0.052', 2], ['0.053', 1], ['0.060', 3]],
+        bids    : [['0.050', 1], ['0.049', 2], ['0.048', 20], ['0.040', 1]],
+        isFrozen: '0',
+        seq     : 1,
+    },
+    BTC_XMR: { asks: [], bids: [['0.02', 1]], isFrozen: '0', seq: 1 },
+});
+
+const book = books.BTC_ETH;
+
+describe('order book analytics', () => {
+
+    it('finds the spread and mid price', () => {
+        expect(spread(book).toFixed()).to.equal('0.001');
+        expect(midPrice(book).toFixed()).to.equal('0.0505');
+        expect(spread(books.BTC_XMR)).to.equal(null);
+    });
+
+    it('sums up the depth near the mid price', () => {
+        const depth = depthWithin(book, '0.05');
+
+        expect(depth.bidAmount.toFixed()).to.equal('23');
+        expect(depth.askAmount.toFixed()).to.equal('4');
+        expect(depth.askTotal.toFixed()).to.equal('0.208');
+        expect(depthWithin(book).askAmount.toFixed()).to.equal('7');
+        expect(imbalance(book, '0.05').equals(new Decimal(19).dividedBy(27))).to.equal(true);
+    });
+
+    it('estimates the price of taking liquidity', () => {
+        const buy = estimateFill(book, 'buy', 4);
+
+        expect(buy.vwap.toFixed()).to.equal('0.052');
+        expect(buy.worstRate.toFixed()).to.equal('0.053');
+        expect(buy.slippage.equals(new Decimal('0.001').dividedBy('0.051'))).to.equal(true);
+        expect(buy.complete).to.equal(true);
+
+        const sell = estimateFill(book, 'sell', 30);
+        expect(sell.filledAmount.toFixed()).to.equal('24');
+        expect(sell.complete).to.equal(false);
+    });
+
+    it('finds levels much larger than the rest of their side, nearest first', () => {
+        expect(findWalls(book).map((wall) => [wall.side, wall.rate.toFixed()])).to.deep.equal([['bid', '0.048']]);
+        expect(findWalls(book, { minAmount: 3 }).map((wall) => [wall.side, wall.rate.toFixed()])).to.deep.equal([
+            ['bid', '0.048'],
+            ['ask', '0.06'],
+        ]);
+    });
+
+    it('summarizes every book', () => {
+        const summaries = summarizeOrderBooks(books, '0.05');
+
+        expect(summaries.BTC_ETH.bestAsk.toFixed()).to.equal('0.051');
+        expect(summaries.BTC_XMR).to.include({ bestAsk: null, midPrice: null, spread: null });
+
+        // Without a mid price, the whole book counts
+        expect(summaries.BTC_XMR.imbalance.toFixed()).to.equal('1');
+    });
+});
@@ -0,0 +1,156 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { getOrderManager, IOrderManager, IPoloniexClient, IPoloniexResponse, PoloniexApiError } from '../index';
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const trade = (tradeID: string, amount: string): {} => ({
+    amount,
+    category: 'exchange',
+    date    : '2018-01-01 00:00:00',
+    fee     : '0.0025',
+    rate    : '0.05',
+    total   : `${Number(amount) * 0.05}`,
+    tradeID,
+    type    : 'buy',
+});
+
+const notFound = (): Promise<IPoloniexResponse> =>
+    Promise.reject(new PoloniexApiError('Order not found, or you are not the person who placed it.'));
+
+interface IExchange {
+    open: Array<{ orderNumber: string, amount: string }>;
+    placed: number;
+    trades: { [orderNumber: string]: () => Promise<IPoloniexResponse> };
+}
+
+/**
+ * A client whose open orders and trades are whatever the test puts in `open` and `trades`.
+ */
+const fakeExchange = (): { client: IPoloniexClient, exchange: IExchange } => {
+    const exchange: IExchange = { open: [], placed: 0, trades: {} };
+
+    const client = {
+        buy(): Promise<IPoloniexResponse> {
+            exchange.placed++;
+
+            return ok({ orderNumber: `${exchange.placed}`, resultingTrades: [] });
+        },
+        cancelOrder(): Promise<IPoloniexResponse> { return ok({ success: 1 }); },
+        returnOpenOrders(): Promise<IPoloniexResponse> {
+            return ok({
+                BTC_ETH: exchange.open.map((order) =>
+                    ({ ...order, date: '2018-01-01 00:00:00', rate: '0.05', total: '0', type: 'buy' })),
+            });
+        },
+        returnOrderTrades(params: { orderNumber: string }): Promise<IPoloniexResponse> {
+            const trades = exchange.trades[params.orderNumber];
+
+            return trades !== undefined ? trades() : notFound();
+        },
+    };
+
+    return { client: client as {} as IPoloniexClient, exchange };
+};
+
+/**
+ * Orders tracked in the same millisecond as a poll starts are left for the next one.
+ */
+const nextTick = (): Promise<void> => new Promise<void>((resolve) => { setTimeout(resolve, 2); });
+
+describe('order manager', () => {
+    let manager: IOrderManager;
+
+    afterEach(() => manager.stop());
+
+    it('follows an order through its fills', async () => {
+        const { client, exchange } = fakeExchange();
+        manager = getOrderManager(client);
+
+        const fills: string[] = [];
+        manager.on('fill', ({ fill }) => fills.push(fill.amount.toFixed()));
+
+        const order = await manager.buy({ amount: '2', currencyPair: 'BTC_ETH', rate: '0.05' });
+        expect(order.status).to.equal('new');
+
+        exchange.open                      = [{ amount: '1.5', orderNumber: order.orderNumber }];
+        exchange.trades[order.orderNumber] = () => ok([trade('1', '0.5')]);
+        await nextTick();
+        await manager.refresh();
+
+        expect(manager.get(order.orderNumber).status).to.equal('partiallyFilled');
+
+        exchange.open                      = [];
+        exchange.trades[order.orderNumber] = () => ok([trade('1', '0.5'), trade('2', '1.5')]);
+        await manager.refresh();
+
+        const done = await manager.whenDone(order.orderNumber);
+        expect(done.status).to.equal('filled');
+        expect(done.averagePrice.toFixed()).to.equal('0.05');
+        expect(fills).to.deep.equal(['0.5', '1.5']);
+        expect(manager.openOrders()).to.deep.equal([]);
+    });
+
+    it('marks an order that left the book without trades as cancelled', async () => {
+        const { client } = fakeExchange();
+        manager = getOrderManager(client);
+
+        const order = await manager.buy({ amount: '1', currencyPair: 'BTC_ETH', rate: '0.05' });
+        await nextTick();
+        await manager.refresh();
+
+        expect((await manager.whenDone(order.orderNumber)).status).to.equal('cancelled');
+    });
+
+    it('settles the other orders when one of them fails', async () => {
+        const { client, exchange } = fakeExchange();
+        manager = getOrderManager(client);
+
+        const first  = await manager.buy({ amount: '1', currencyPair: 'BTC_ETH', rate: '0.05' });
+        const second = await manager.buy({ amount: '1', currencyPair: 'BTC_ETH', rate: '0.05' });
+
+        exchange.trades[first.orderNumber]  = () => Promise.reject(new Error('connection reset'));
+        exchange.trades[second.orderNumber] = () => ok([trade('3', '1')]);
+        await nextTick();
+
+        const err = await manager.refresh().then(() => null, (rejected: Error) => rejected);
+        expect(err.message).to.equal('connection reset');
+        expect(manager.get(second.orderNumber).status).to.equal('filled');
+        expect(manager.get(first.orderNumber).status).to.equal('new');
+
+        delete exchange.trades[first.orderNumber];
+        await manager.refresh();
+
+        expect(manager.get(first.orderNumber).status).to.equal('cancelled');
+    });
+
+    it('only remembers the last 1000 finished orders', async () => {
+        const { client } = fakeExchange();
+        manager = getOrderManager(client);
+
+        for (let i = 1; i <= 1001; i++) {
+            manager.track({ amount: '1', currencyPair: 'BTC_ETH', orderNumber: `${i}`, rate: '0.05', type: 'buy' });
+            await manager.cancel(`${i}`);
+        }
+
+        expect(manager.get('1')).to.equal(null);
+        expect(manager.get('2').status).to.equal('cancelled');
+        expect((await manager.whenDone('1001')).status).to.equal('cancelled');
+    });
+
+    it('passes failed polls to onError when nobody listens', async () => {
+        const errors: Error[] = [];
+        const { client }      = fakeExchange();
+
+        client.returnOpenOrders = () => Promise.reject(new Error('connection reset'));
+        manager = getOrderManager(client, null, { onError: (err) => errors.push(err), pollInterval: 5 });
+
+        manager.track({ amount: '1', currencyPair: 'BTC_ETH', orderNumber: '1', rate: '0.05', type: 'buy' });
+        await manager.start();
+        await new Promise<void>((resolve) => { setTimeout(resolve, 20); });
+
+        expect(errors.length).to.be.greaterThan(0);
+        expect(errors[0].message).to.equal('connection reset');
+    });
+});
@@ -0,0 +1,105 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { Decimal } from 'decimal.js';
+import {
+    formatDecimal, withOrderValidation, IPoloniexClient, IPoloniexResponse, OrderValidationError,
+} from '../index';
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const currency = (flags: { delisted?: number, disabled?: number, frozen?: number } = {}): {} =>
+    ({ delisted: 0, disabled: 0, frozen: 0, ...flags });
+
+/**
+ * A client that lists BTC_ETH, BTC_XMR (with XMR disabled) and a frozen USDT_BTC, and records what it sends.
+ */
+const fakeExchange = (): { client: IPoloniexClient, sent: string[] } => {
+    const sent: string[] = [];
+
+    const client = {
+        buy(): Promise<IPoloniexResponse> {
+            sent.push('buy');
+
+            return ok({ orderNumber: '1', resultingTrades: [] });
+        },
+        returnCurrencies(): Promise<IPoloniexResponse> {
+            sent.push('returnCurrencies');
+
+            return ok({ BTC: currency(), ETH: currency(), USDT: currency(), XMR: currency({ disabled: 1 }) });
+        },
+        returnTicker(): Promise<IPoloniexResponse> {
+            sent.push('returnTicker');
+
+            return ok({ BTC_ETH: { isFrozen: '0' }, BTC_XMR: { isFrozen: '0' }, USDT_BTC: { isFrozen: '1' } });
+        },
+    };
+
+    return { client: withOrderValidation(client as {} as IPoloniexClient), sent };
+};
+
+const rejection = (response: Promise<IPoloniexResponse>): Promise<Error> =>
+    response.then(() => null, (err: Error) => err);
+
+describe('order validation', () => {
+
+    it('formats decimals in plain notation', () => {
+        expect(formatDecimal(1e-7)).to.equal('0.0000001');
+        expect(formatDecimal(new Decimal('2.50'))).to.equal('2.5');
+        expect(formatDecimal(undefined)).to.equal(undefined);
+    });
+
+    it('rejects bad numbers and flags without sending anything', async () => {
+        const { client, sent } = fakeExchange();
+
+        const decimals = await rejection(client.buy({ amount: '1.123456789', currencyPair: 'BTC_ETH', rate: '0.05' }));
+        expect(decimals).to.be.instanceof(OrderValidationError);
+        expect(decimals.message).to.equal('amount has more than 8 decimal places');
+
+        const flags = await rejection(client.buy({
+            amount      : '1',
+            currencyPair: 'BTC_ETH',
+            fillOrKill  : true,
+            postOnly    : true,
+            rate        : '0.05',
+        }));
+        expect(flags.message).to.equal('fillOrKill and postOnly are mutually exclusive');
+        expect(sent).to.deep.equal([]);
+    });
+
+    it('rejects totals below the minimum for the base currency', async () => {
+        const { client } = fakeExchange();
+
+        const err = await rejection(client.buy({ amount: '0.001', currencyPair: 'BTC_ETH', rate: '0.05' }));
+
+        expect(err.message).to.equal('Total must be at least 0.0001.');
+    });
+
+    it('rejects pairs that are not listed or are frozen', async () => {
+        const { client, sent } = fakeExchange();
+
+        const unlisted = await rejection(client.buy({ amount: '1', currencyPair: 'ETH_BTC', rate: '0.05' }));
+        expect(unlisted.message).to.equal('unknown currency pair ETH_BTC');
+
+        const frozen = await rejection(client.buy({ amount: '1', currencyPair: 'USDT_BTC', rate: '10000' }));
+        expect(frozen.message).to.equal('USDT_BTC is frozen');
+        expect(sent).not.to.include('buy');
+    });
+
+    it('rejects pairs with a disabled currency', async () => {
+        const { client } = fakeExchange();
+
+        const err = await rejection(client.buy({ amount: '1', currencyPair: 'BTC_XMR', rate: '0.05' }));
+
+        expect(err.message).to.equal('BTC_XMR cannot be traded, XMR is disabled');
+    });
+
+    it('sends valid orders, loading the markets once', async () => {
+        const { client, sent } = fakeExchange();
+
+        await client.buy({ amount: '1', currencyPair: 'BTC_ETH', rate: '0.05' });
+        await client.buy({ amount: '2', currencyPair: 'BTC_ETH', rate: '0.05' });
+
+        expect(sent).to.deep.equal(['returnCurrencies', 'returnTicker', 'buy', 'buy']);
+    });
+});
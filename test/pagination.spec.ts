@@ -0,0 +1,96 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { iterateChartData, iterateTradeHistory, IPoloniexClient, IPoloniexResponse } from '../index';
+
+const T0 = Date.UTC(2018, 0, 1) / 1000;
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const collect = async <T>(rows: AsyncIterableIterator<T>): Promise<T[]> => {
+    const collected: T[] = [];
+
+    for await (const row of rows) collected.push(row);
+
+    return collected;
+};
+
+/**
+ * A market with a trade at each of `times` (seconds after midnight), answering ranges newest first, like Poloniex,
+ * and recording the ranges it was asked for.
+ */
+const fakeMarket = (times: number[]) => {
+    const ranges: number[][] = [];
+
+    const client = {
+        returnPublicTradeHistory(params: { start: string, end: string }): Promise<IPoloniexResponse> {
+            const [start, end] = [Number(params.start) - T0, Number(params.end) - T0];
+            ranges.push([start, end]);
+
+            return ok(times
+                .map((time, index) => ({ index, time }))
+                .filter(({ time }) => time >= start && time <= end)
+                .reverse()
+                .map(({ index, time }) => ({
+                    amount       : '1',
+                    date         : new Date((T0 + time) * 1000).toISOString().slice(0, 19).replace('T', ' '),
+                    globalTradeID: 1000 + index,
+                    rate         : '0.05',
+                    total        : '0.05',
+                    tradeID      : index,
+                    type         : 'buy',
+                })));
+        },
+    };
+
+    return { client: client as {} as IPoloniexClient, ranges };
+};
+
+const secondsOf = (trade: { date: Date }): number => trade.date.getTime() / 1000 - T0;
+
+describe('pagination', () => {
+
+    it('halves truncated windows, grows them back and yields every trade in order', async () => {
+        const { client, ranges } = fakeMarket([0, 1, 2, 3, 4, 12, 25]);
+
+        const trades = await collect(iterateTradeHistory(client, { currencyPair: 'BTC_ETH', end: T0 + 29, start: T0 },
+                                                         { pageSize: 4, window: 10 }));
+
+        expect(trades.map(secondsOf)).to.deep.equal([0, 1, 2, 3, 4, 12, 25]);
+        expect(ranges).to.deep.equal([[0, 9], [0, 4], [0, 1], [2, 3], [4, 5], [6, 9], [10, 17], [18, 27], [28, 29]]);
+    });
+
+    it('rejects when a single second holds more trades than a page', async () => {
+        const { client } = fakeMarket([5, 5, 5]);
+
+        const err = await collect(iterateTradeHistory(client, { currencyPair: 'BTC_ETH', end: T0 + 9, start: T0 },
+                                                      { pageSize: 3, window: 10 }))
+            .then(() => null, (rejected: Error) => rejected);
+
+        expect(err.message).to.equal(`more than 3 rows at ${T0 + 5}, some cannot be fetched`);
+    });
+
+    it('takes dates as well as UNIX seconds, and leaves out the empty chart data candle', async () => {
+        const periods: string[][] = [];
+        const candle              = (date: number): {} => ({
+            close: '1', date, high: '1', low: '1', open: '1', quoteVolume: '0', volume: '0', weightedAverage: '1',
+        });
+        const client              = {
+            returnChartData(params: { start: string, end: string }): Promise<IPoloniexResponse> {
+                periods.push([params.start, params.end]);
+
+                return ok(Number(params.start) === T0 ? [candle(T0), candle(T0 + 300)] : [candle(0)]);
+            },
+        };
+
+        const candles = await collect(iterateChartData(client as {} as IPoloniexClient, {
+            currencyPair: 'BTC_ETH',
+            end         : new Date((T0 + 900) * 1000),
+            period      : 300,
+            start       : T0,
+        }, { window: 600 }));
+
+        expect(candles.map(secondsOf)).to.deep.equal([0, 300]);
+        expect(periods).to.deep.equal([[`${T0}`, `${T0 + 599}`], [`${T0 + 600}`, `${T0 + 900}`]]);
+    });
+});
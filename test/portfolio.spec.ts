@@ -0,0 +1,98 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { Decimal } from 'decimal.js';
+import { getPortfolio, IPoloniexClient, IPoloniexResponse, IPortfolioHolding } from '../index';
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const ticker = (last: string, highestBid: string = last, lowestAsk: string = last, isFrozen: string = '0'): {} => ({
+    baseVolume   : '1',
+    high24hr     : last,
+    highestBid,
+    id           : 1,
+    isFrozen,
+    last,
+    low24hr      : last,
+    lowestAsk,
+    percentChange: '0',
+    quoteVolume  : '1',
+});
+
+const balance = (available: string, onOrders: string = '0'): {} => ({ available, btcValue: '0', onOrders });
+
+/**
+ * An account holding BTC (half of it in the margin account), ETH, XMR, DOGE from a frozen market, and no LTC.
+ */
+const client = {
+    returnAvailableAccountBalances: (): Promise<IPoloniexResponse> => ok({
+        exchange: { BTC: '0.5', ETH: '10', XMR: '5' },
+        margin  : { BTC: '0.5' },
+    }),
+    returnCompleteBalances        : (): Promise<IPoloniexResponse> => ok({
+        BTC : balance('1'),
+        DOGE: balance('100'),
+        ETH : balance('10', '2'),
+        LTC : balance('0'),
+        USDT: balance('0'),
+        XMR : balance('5'),
+    }),
+    returnMarginAccountSummary    : (): Promise<IPoloniexResponse> => ok({
+        currentMargin     : '1.2',
+        lendingFees       : '0',
+        netValue          : '0.6',
+        pl                : '0.1',
+        totalBorrowedValue: '0.5',
+        totalValue        : '0.5',
+    }),
+    returnTicker                  : (): Promise<IPoloniexResponse> => ok({
+        BTC_DOGE: ticker('0.0000005', '0.0000005', '0.0000005', '1'),
+        BTC_ETH : ticker('0.05'),
+        BTC_XMR : ticker('0.02'),
+        USDT_BTC: ticker('10000', '9990', '10010'),
+    }),
+};
+
+const asStrings = (holding: IPortfolioHolding): {} => ({
+    currency: holding.currency,
+    route   : holding.route,
+    total   : holding.total.toFixed(),
+    value   : holding.value !== null ? holding.value.toFixed() : null,
+});
+
+describe('portfolio', () => {
+
+    it('values holdings in BTC by default', async () => {
+        const portfolio = await getPortfolio(client as {} as IPoloniexClient);
+
+        expect(portfolio.quoteCurrency).to.equal('BTC');
+        expect(portfolio.holdings.map(asStrings)).to.deep.equal([
+            { currency: 'BTC', route: [], total: '1', value: '1' },
+            { currency: 'DOGE', route: [], total: '100', value: null },
+            { currency: 'ETH', route: ['BTC_ETH'], total: '12', value: '0.6' },
+            { currency: 'XMR', route: ['BTC_XMR'], total: '5', value: '0.1' },
+        ]);
+        expect(portfolio.unpriced).to.deep.equal(['DOGE']);
+    });
+
+    it('routes through intermediate markets and counts margin collateral once', async () => {
+        const portfolio = await getPortfolio(client as {} as IPoloniexClient, { quoteCurrency: 'USDT' });
+        const eth       = portfolio.holdings.find((holding) => holding.currency === 'ETH');
+
+        expect(eth.route).to.deep.equal(['BTC_ETH', 'USDT_BTC']);
+        expect(eth.rate.toFixed()).to.equal('500');
+        expect(eth.wallets.exchange.toFixed()).to.equal('10');
+        expect(portfolio.margin.netValue.toFixed()).to.equal('6000');
+
+        // 0.5 BTC outside the margin account, 12 ETH and 5 XMR, plus the margin account's net value
+        expect(portfolio.totalValue.toFixed()).to.equal('18000');
+    });
+
+    it('values at what selling would fetch with bid prices', async () => {
+        const portfolio = await getPortfolio(client as {} as IPoloniexClient, { includeZero: true, price: 'bid' });
+        const usdt      = portfolio.holdings.find((holding) => holding.currency === 'USDT');
+
+        expect(usdt.rate.toFixed()).to.equal(new Decimal(1).dividedBy('10010').toFixed());
+        expect(portfolio.holdings.map((holding) => holding.currency)).to.include('LTC');
+    });
+});
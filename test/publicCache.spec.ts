@@ -0,0 +1,144 @@
+//tslint:disable:no-magic-numbers
+import axios from 'axios';
+import { expect } from 'chai';
+import * as qs from 'qs';
+import { getMemoryCacheStore, withPublicCache, ICachePolicy, IPoloniexClient, IPoloniexResponse } from '../index';
+
+const NOW = Date.UTC(2018, 0, 1);
+
+/**
+ * A client answering every public call with how many requests it has sent, and recording them.
+ */
+const fakeExchange = () => {
+    const sent: string[] = [];
+
+    const answer = (command: string) => (params?: {}): Promise<IPoloniexResponse> => {
+        sent.push(params !== undefined ? `${command}?${qs.stringify(params)}` : command);
+
+        return Promise.resolve({ config: {}, data: { sent: sent.length }, headers: {}, status: 200, statusText: 'OK' });
+    };
+
+    const client = {
+        returnBalances  : answer('returnBalances'),
+        returnCurrencies: answer('returnCurrencies'),
+        returnOrderBook : answer('returnOrderBook'),
+        returnTicker    : answer('returnTicker'),
+    };
+
+    return { sent, with: (policy: ICachePolicy = null) => withPublicCache(client as {} as IPoloniexClient, policy) };
+};
+
+describe('public cache', () => {
+    const now = Date.now;
+    let time: number;
+
+    beforeEach(() => {
+        time     = NOW;
+        Date.now = (): number => time;
+    });
+
+    afterEach(() => {
+        Date.now = now;
+    });
+
+    it('serves responses from the cache for their ttl', async () => {
+        const exchange = fakeExchange();
+        const client   = exchange.with();
+
+        expect((await client.returnTicker()).data).to.deep.equal({ sent: 1 });
+        time += 1999;
+        expect((await client.returnTicker()).data).to.deep.equal({ sent: 1 });
+        time += 1;
+        expect((await client.returnTicker()).data).to.deep.equal({ sent: 2 });
+    });
+
+    it('keeps default ttls for commands not given one and caches nothing with a ttl of 0', async () => {
+        const exchange = fakeExchange();
+        const client   = exchange.with({ ttl: { returnTicker: 0 } });
+
+        await client.returnTicker();
+        await client.returnTicker();
+        await client.returnCurrencies();
+        await client.returnCurrencies();
+
+        expect(exchange.sent).to.deep.equal(['returnTicker', 'returnTicker', 'returnCurrencies']);
+    });
+
+    it('shares one request between concurrent identical calls', async () => {
+        const exchange = fakeExchange();
+        const client   = exchange.with();
+
+        const responses = await Promise.all([
+            client.returnOrderBook({ currencyPair: 'BTC_ETH', depth: '10' }),
+            client.returnOrderBook({ depth: '10', currencyPair: 'BTC_ETH' }),
+            client.returnOrderBook({ currencyPair: 'BTC_XMR', depth: '10' }),
+        ]);
+
+        expect(responses.map((response) => response.data)).to.deep.equal([{ sent: 1 }, { sent: 1 }, { sent: 2 }]);
+        expect(exchange.sent).to.deep.equal([
+            'returnOrderBook?currencyPair=BTC_ETH&depth=10',
+            'returnOrderBook?currencyPair=BTC_XMR&depth=10',
+        ]);
+    });
+
+    it('leaves private calls alone', async () => {
+        const exchange = fakeExchange();
+        const client   = exchange.with();
+
+        await Promise.all([client.returnBalances(), client.returnBalances()]);
+
+        expect(exchange.sent).to.deep.equal(['returnBalances', 'returnBalances']);
+    });
+
+    it('serves stale responses while they are refreshed', async () => {
+        const exchange = fakeExchange();
+        const client   = exchange.with({ staleWhileRevalidate: { returnTicker: 1000 } });
+
+        await client.returnTicker();
+        time += 2500;
+
+        expect((await client.returnTicker()).data).to.deep.equal({ sent: 1 });
+        await new Promise((resolve) => setImmediate(resolve));
+        expect((await client.returnTicker()).data).to.deep.equal({ sent: 2 });
+        expect(exchange.sent).to.have.length(2);
+    });
+
+    it('sends calls with a cancel token on their own', async () => {
+        const exchange = fakeExchange();
+        const client   = exchange.with();
+
+        await client.returnTicker();
+        await client.returnTicker({ cancelToken: axios.CancelToken.source().token });
+
+        expect(exchange.sent).to.have.length(2);
+    });
+
+    it('goes to the network when the store fails', async () => {
+        const exchange        = fakeExchange();
+        const errors: Error[] = [];
+        const client          = exchange.with({
+            onError: (err) => errors.push(err),
+            store  : {
+                delete: (): Promise<void> => Promise.resolve(),
+                get   : (): Promise<string> => Promise.reject(new Error('store down')),
+                set   : (): Promise<void> => Promise.reject(new Error('store down')),
+            },
+        });
+
+        expect((await client.returnTicker()).data).to.deep.equal({ sent: 1 });
+        expect(errors.map((err) => err.message)).to.deep.equal(['store down', 'store down']);
+    });
+
+    it('keeps at most maxEntries in memory, dropping expired entries first', async () => {
+        const store = getMemoryCacheStore(2);
+
+        await store.set('a', '1', 1000);
+        await store.set('b', '2', 10);
+        time += 10;
+        await store.set('c', '3', 1000);
+        await store.set('d', '4', 1000);
+
+        expect(await Promise.all(['a', 'b', 'c', 'd'].map((key) => store.get(key))))
+            .to.deep.equal([null, null, '3', '4']);
+    });
+});
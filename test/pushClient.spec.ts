@@ -0,0 +1,132 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import * as WebSocket from 'ws';
+import { getPushClient, IPushClient, ITickerEvent, PushChannel } from '../index';
+
+const nextEvent = (client: IPushClient, event: 'open' | 'reconnecting'): Promise<void> =>
+    new Promise<void>((resolve) => {
+        const listener = (): void => {
+            client.removeListener(event, listener);
+            resolve();
+        };
+        client.on(event, listener);
+    });
+
+const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => { setTimeout(resolve, ms); });
+
+describe('push client', () => {
+    let server: WebSocket.Server;
+    let sockets: WebSocket[];
+    let received: Array<Array<{ command: string, channel: number | string }>>;
+    let client: IPushClient;
+
+    const url = (): string => `ws://127.0.0.1:${(server.address() as { port: number }).port}`;
+
+    const connectClient = (reconnectInterval: number): IPushClient => getPushClient(undefined, {
+        currencyPairIds : { 148: 'BTC_ETH' },
+        heartbeatTimeout: 60000,
+        reconnectInterval,
+        url             : url(),
+    });
+
+    beforeEach((done) => {
+        sockets  = [];
+        received = [];
+        server   = new WebSocket.Server({ host: '127.0.0.1', port: 0 }, done);
+        server.on('connection', (socket: WebSocket) => {
+            const messages: Array<{ command: string, channel: number | string }> = [];
+            sockets.push(socket);
+            received.push(messages);
+            socket.on('message', (data) => messages.push(JSON.parse(data.toString())));
+        });
+    });
+
+    afterEach(async () => {
+        await client.disconnect();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('subscribes and hands out typed events', async () => {
+        client = connectClient(10);
+        await client.connect();
+        await client.subscribeTicker();
+        await sleep(20);
+
+        expect(received[0]).to.deep.equal([{ channel: PushChannel.Ticker, command: 'subscribe' }]);
+
+        const ticker = new Promise<ITickerEvent>((resolve) => client.on('ticker', resolve));
+        sockets[0].send(JSON.stringify([PushChannel.Ticker, null,
+            [148, '0.0735', '0.07351', '0.07349', '-0.0123', '1523.4', '20710.1', 0, '0.0754', '0.0721']]));
+
+        const event = await ticker;
+        expect(event.currencyPair).to.equal('BTC_ETH');
+        expect(event.last).to.equal('0.0735');
+        expect(event.isFrozen).to.equal(false);
+    });
+
+    it('only unsubscribes when the last subscriber leaves', async () => {
+        client = connectClient(10);
+        await client.connect();
+        await client.subscribeOrderBook('BTC_ETH');
+        await client.subscribeOrderBook('BTC_ETH');
+        await client.unsubscribeOrderBook('BTC_ETH');
+        await sleep(20);
+
+        expect(received[0]).to.deep.equal([{ channel: 'BTC_ETH', command: 'subscribe' }]);
+
+        await client.unsubscribeOrderBook('BTC_ETH');
+        await sleep(20);
+
+        expect(received[0][1]).to.deep.equal({ channel: 'BTC_ETH', command: 'unsubscribe' });
+    });
+
+    it('reconnects and resubscribes when the connection drops', async () => {
+        client = connectClient(10);
+        await client.connect();
+        await client.subscribeTicker();
+        await client.subscribeOrderBook('BTC_ETH');
+
+        const reopened = nextEvent(client, 'open');
+        sockets[0].terminate();
+        await reopened;
+        await sleep(20);
+
+        expect(sockets).to.have.length(2);
+        expect(received[1]).to.deep.equal([
+            { channel: PushChannel.Ticker, command: 'subscribe' },
+            { channel: 'BTC_ETH', command: 'subscribe' },
+        ]);
+    });
+
+    it('connects straight away instead of opening a second socket while a reconnect is pending', async () => {
+        client = connectClient(100);
+        await client.connect();
+
+        const reconnecting = nextEvent(client, 'reconnecting');
+        sockets[0].terminate();
+        await reconnecting;
+
+        await Promise.all([client.connect(), client.connect()]);
+        await sleep(200);
+
+        expect(client.isConnected()).to.equal(true);
+        expect(sockets).to.have.length(2);
+    });
+
+    it('reports background errors to onError when nobody listens', async () => {
+        const errors: Error[] = [];
+
+        client = getPushClient(undefined, {
+            heartbeatTimeout: 60000,
+            onError         : (err: Error): void => { errors.push(err); },
+            url             : url(),
+        });
+        await client.connect();
+
+        sockets[0].send('not json');
+        await sleep(20);
+
+        expect(errors).to.have.length(1);
+        expect(errors[0]).to.be.instanceof(SyntaxError);
+    });
+});
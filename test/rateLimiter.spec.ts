@@ -0,0 +1,88 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { getRateLimiter, resolvePriority, QueueTimeoutError, RequestCancelledError, RequestPriority } from '../index';
+
+const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => { setTimeout(resolve, ms); });
+
+const rejectionOf = <T>(call: Promise<T>): Promise<Error> =>
+    call.then(() => Promise.reject(new Error('expected the call to reject')), (err: Error) => err);
+
+describe('rate limiter', () => {
+
+    it('starts no more requests per interval than the budget allows', async () => {
+        const limiter         = getRateLimiter({ interval: 50, requests: 2 });
+        const startedAt       = Date.now();
+        const times: number[] = [];
+        const task            = (): Promise<void> => {
+            times.push(Date.now() - startedAt);
+
+            return Promise.resolve();
+        };
+
+        await Promise.all([limiter.schedule(task), limiter.schedule(task), limiter.schedule(task)]);
+
+        expect(times[1]).to.be.lessThan(50);
+        expect(times[2]).to.be.at.least(50);
+    });
+
+    it('lets higher priorities out of the queue first', async () => {
+        const limiter         = getRateLimiter({ interval: 20, requests: 1 });
+        const order: string[] = [];
+        const task            = (name: string) => (): Promise<void> => {
+            order.push(name);
+
+            return Promise.resolve();
+        };
+
+        await Promise.all([
+            limiter.schedule(task('first')),
+            limiter.schedule(task('low'), { priority: RequestPriority.Low }),
+            limiter.schedule(task('normal')),
+            limiter.schedule(task('critical'), { priority: RequestPriority.Critical }),
+        ]);
+
+        expect(order).to.deep.equal(['first', 'critical', 'normal', 'low']);
+    });
+
+    it('rejects calls that wait too long without running them', async () => {
+        const limiter = getRateLimiter({ interval: 100, requests: 1 });
+        let ran       = 0;
+        const task    = (): Promise<void> => {
+            ran += 1;
+
+            return Promise.resolve();
+        };
+
+        await limiter.schedule(task);
+        const err = await rejectionOf(limiter.schedule(task, { command: 'buy', queueTimeout: 10 }));
+
+        expect(err).to.be.instanceof(QueueTimeoutError);
+        expect((err as QueueTimeoutError).command).to.equal('buy');
+        expect(ran).to.equal(1);
+    });
+
+    it('rejects what is still queued when cleared', async () => {
+        const limiter = getRateLimiter({ interval: 100, requests: 1 });
+
+        await limiter.schedule(() => Promise.resolve());
+        const waiting = rejectionOf(limiter.schedule(() => Promise.resolve()));
+        await sleep(5);
+
+        expect(limiter.getQueueDepth()).to.equal(1);
+        limiter.clear('shutting down');
+
+        const err = await waiting;
+        expect(err).to.be.instanceof(RequestCancelledError);
+        expect(err.message).to.equal('shutting down');
+        expect(limiter.getQueueDepth()).to.equal(0);
+    });
+
+    it('takes the priority from the call, then the command, then the default', () => {
+        const policy = { defaultPriority: RequestPriority.Low, priorities: { returnTicker: RequestPriority.High } };
+
+        expect(resolvePriority(policy, { command: 'cancelOrder', priority: 0 })).to.equal(0);
+        expect(resolvePriority(policy, { command: 'cancelOrder' })).to.equal(RequestPriority.Critical);
+        expect(resolvePriority(policy, { command: 'returnTicker' })).to.equal(RequestPriority.High);
+        expect(resolvePriority(policy, { command: 'returnBalances' })).to.equal(RequestPriority.Low);
+    });
+});
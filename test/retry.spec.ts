@@ -0,0 +1,192 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import {
+    withRetryPolicy, IPoloniexClient, IPoloniexResponse, IRetryPolicy, QueueTimeoutError, TimeoutError,
+} from '../index';
+
+/**
+ * Verification looks through history by time, so the clock is frozen.
+ */
+const NOW = Date.UTC(2018, 0, 1);
+
+const ADDRESS = '1BoatSLRHtKNngkdXEeobR76b53LETtpyT';
+
+const policy: IRetryPolicy = { jitter: false, minDelay: 1, privateMethods: ['buy', 'withdraw'], retries: 2 };
+
+const ok = (data: {}): Promise<IPoloniexResponse> =>
+    Promise.resolve({ config: {}, data, headers: {}, status: 200, statusText: 'OK' });
+
+const timeout = (): Promise<IPoloniexResponse> => Promise.reject(new TimeoutError('connect ETIMEDOUT'));
+
+/**
+ * Poloniex dates are UTC, to the second.
+ */
+const dateAt = (ms: number): string => new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+
+const openOrder = (orderNumber: string, date: string): {} =>
+    ({ amount: '1', date, orderNumber, rate: '0.05', startingAmount: '1', total: '0.05', type: 'buy' });
+
+interface IFakeExchange {
+    sent: string[];
+    client: IPoloniexClient;
+}
+
+/**
+ * A client whose `buy` and `withdraw` answer from the given queues, and whose history only holds what it is given.
+ */
+const fakeExchange = (exchange: {
+    buys?: Array<() => Promise<IPoloniexResponse>>,
+    withdrawals?: Array<() => Promise<IPoloniexResponse>>,
+    openOrders?: Array<{}>,
+    trades?: Array<{ [field: string]: string }>,
+    history?: Array<{ [field: string]: string | number }>,
+}): IFakeExchange => {
+    const sent: string[] = [];
+    const record         = (command: string): void => { sent.push(command); };
+    const since          = (params: { start: string }): number => Number(params.start) * 1000;
+
+    const client = {
+        buy(): Promise<IPoloniexResponse> {
+            record('buy');
+
+            return exchange.buys.shift()();
+        },
+        returnDepositsWithdrawals(params: { start: string }): Promise<IPoloniexResponse> {
+            record('returnDepositsWithdrawals');
+
+            return ok({
+                deposits   : [],
+                withdrawals: exchange.history.filter((entry) => Number(entry.timestamp) * 1000 >= since(params)),
+            });
+        },
+        returnOpenOrders(): Promise<IPoloniexResponse> {
+            record('returnOpenOrders');
+
+            return exchange.openOrders !== undefined ? ok(exchange.openOrders) : timeout();
+        },
+        returnPrivateTradeHistory(params: { start: string }): Promise<IPoloniexResponse> {
+            record('returnPrivateTradeHistory');
+
+            return ok(exchange.trades.filter((trade) => new Date(`${trade.date}Z`).getTime() >= since(params)));
+        },
+        withdraw(): Promise<IPoloniexResponse> {
+            record('withdraw');
+
+            return exchange.withdrawals.shift()();
+        },
+    };
+
+    return { client: withRetryPolicy(client as {} as IPoloniexClient, policy), sent };
+};
+
+describe('retry policy', () => {
+    const now = Date.now;
+
+    beforeEach(() => {
+        Date.now = (): number => NOW;
+    });
+
+    afterEach(() => {
+        Date.now = now;
+    });
+
+    const count = (sent: string[], command: string): number =>
+        sent.filter((sentCommand) => sentCommand === command).length;
+
+    it('returns a partly filled order instead of resending it', async () => {
+        const { client, sent } = fakeExchange({
+            buys      : [timeout],
+            openOrders: [],
+            trades    : [
+                { amount: '0.4', date: dateAt(NOW), orderNumber: '200', rate: '0.05', type: 'buy' },
+            ],
+        });
+
+        const response = await client.buy({
+            amount           : '1',
+            currencyPair     : 'BTC_ETH',
+            immediateOrCancel: true,
+            rate             : '0.05',
+        });
+
+        expect(response.statusText).to.equal('OK (recovered)');
+        expect(response.data.orderNumber).to.equal('200');
+        expect(response.data.resultingTrades).to.have.length(1);
+        expect(count(sent, 'buy')).to.equal(1);
+    });
+
+    it('loads nothing before the first attempt', async () => {
+        const { client, sent } = fakeExchange({ buys: [() => ok({ orderNumber: '1', resultingTrades: [] })] });
+
+        await client.buy({ amount: '1', currencyPair: 'BTC_ETH', rate: '0.05' });
+
+        expect(sent).to.deep.equal(['buy']);
+    });
+
+    it('resends when the only identical order is older than the verification window', async () => {
+        const { client, sent } = fakeExchange({
+            buys      : [timeout, () => ok({ orderNumber: '300', resultingTrades: [] })],
+            openOrders: [openOrder('101', dateAt(NOW - 120000))],
+            trades    : [],
+        });
+
+        const response = await client.buy({ amount: '1', currencyPair: 'BTC_XMR', rate: '0.05' });
+
+        expect(response.statusText).not.to.equal('OK (recovered)');
+        expect(response.data.orderNumber).to.equal('300');
+        expect(count(sent, 'buy')).to.equal(2);
+    });
+
+    it('does not resend when an identical order from just before the first attempt may be the one sent', async () => {
+        const { client, sent } = fakeExchange({
+            buys      : [timeout],
+            openOrders: [openOrder('101', dateAt(NOW - 5000))],
+            trades    : [],
+        });
+
+        const err = await client.buy({ amount: '1', currencyPair: 'BTC_XMR', rate: '0.05' })
+                                .then(() => null, (rejected: Error) => rejected);
+
+        expect(err).to.be.instanceof(TimeoutError);
+        expect(count(sent, 'buy')).to.equal(1);
+    });
+
+    it('does not resend when the check fails', async () => {
+        const { client, sent } = fakeExchange({ buys: [timeout] });
+
+        const err = await client.buy({ amount: '1', currencyPair: 'BTC_LTC', rate: '0.05' })
+                                .then(() => null, (rejected: Error) => rejected);
+
+        expect(err).to.be.instanceof(TimeoutError);
+        expect(count(sent, 'buy')).to.equal(1);
+    });
+
+    it('resends an order that timed out in the request queue without checking', async () => {
+        const { client, sent } = fakeExchange({
+            buys: [
+                () => Promise.reject(new QueueTimeoutError('timed out waiting in request queue')),
+                () => ok({ orderNumber: '400', resultingTrades: [] }),
+            ],
+        });
+
+        const response = await client.buy({ amount: '1', currencyPair: 'BTC_ETH', rate: '0.05' });
+
+        expect(response.data.orderNumber).to.equal('400');
+        expect(sent).to.deep.equal(['buy', 'buy']);
+    });
+
+    it('returns a withdrawal that went through', async () => {
+        const { client, sent } = fakeExchange({
+            history    : [
+                { address: ADDRESS, amount: '0.1', currency: 'BTC', timestamp: NOW / 1000 - 300, withdrawalNumber: 1 },
+                { address: ADDRESS, amount: '0.1', currency: 'BTC', timestamp: NOW / 1000, withdrawalNumber: 2 },
+            ],
+            withdrawals: [timeout],
+        });
+
+        const response = await client.withdraw({ address: ADDRESS, amount: 0.1, currency: 'BTC' });
+
+        expect(response.statusText).to.equal('OK (recovered)');
+        expect(sent).to.deep.equal(['withdraw', 'returnDepositsWithdrawals']);
+    });
+});
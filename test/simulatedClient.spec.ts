@@ -0,0 +1,86 @@
+//tslint:disable:no-magic-numbers
+import { expect } from 'chai';
+import { getSimulatedClient, InsufficientFundsError, ISimulatedClient, PoloniexApiError } from '../index';
+
+const NOW = new Date(Date.UTC(2018, 0, 1));
+
+const rejection = (response: Promise<{}>): Promise<Error> => response.then(() => null, (err: Error) => err);
+
+describe('simulated exchange', () => {
+    let sim: ISimulatedClient;
+
+    const btc = async (): Promise<{ available: string, onOrders: string }> =>
+        (await sim.returnCompleteBalances()).data.BTC;
+
+    beforeEach(() => {
+        sim = getSimulatedClient({ balances: { BTC: 1 }, now: (): Date => NOW });
+        sim.setOrderBook('BTC_ETH', { asks: [[0.05, 2], [0.06, 5]], bids: [[0.04, 3]] });
+    });
+
+    it('takes the liquidity an order crosses and leaves the rest open, holding its total', async () => {
+        const { data } = await sim.buy({ amount: 3, currencyPair: 'BTC_ETH', rate: 0.055 });
+
+        expect(data.resultingTrades).to.deep.equal([{
+            amount : '2.00000000',
+            date   : '2018-01-01 00:00:00',
+            rate   : '0.05000000',
+            total  : '0.10000000',
+            tradeID: '1',
+            type   : 'buy',
+        }]);
+
+        // 2 ETH less the taker fee, and 0.055 BTC held for the open ETH
+        expect((await sim.returnBalances()).data).to.deep.equal({ BTC: '0.84500000', ETH: '1.99500000' });
+        expect((await btc()).onOrders).to.equal('0.05500000');
+
+        const open = (await sim.returnOpenOrders({ currencyPair: 'BTC_ETH' })).data;
+        expect(open).to.have.length(1);
+        expect(open[0]).to.include({ amount: '1.00000000', rate: '0.05500000', startingAmount: '3.00000000' });
+    });
+
+    it('fills open orders as maker when the market trades through them', async () => {
+        await sim.buy({ amount: 3, currencyPair: 'BTC_ETH', rate: 0.055 });
+        sim.addTrade('BTC_ETH', { amount: 0.5, rate: 0.055, type: 'sell' });
+
+        // 0.5 ETH less the maker fee
+        expect((await sim.returnBalances()).data.ETH).to.equal('2.49425000');
+        expect((await btc()).onOrders).to.equal('0.02750000');
+        expect((await sim.returnOpenOrders({ currencyPair: 'BTC_ETH' })).data[0].amount).to.equal('0.50000000');
+    });
+
+    it('moves an order to a new number and rate, holding the new total', async () => {
+        const { data: placed } = await sim.buy({ amount: 3, currencyPair: 'BTC_ETH', rate: 0.055 });
+        const { data: moved }  = await sim.moveOrder({ orderNumber: placed.orderNumber, rate: 0.052 });
+
+        expect(moved.orderNumber).not.to.equal(placed.orderNumber);
+        expect(await btc()).to.include({ available: '0.84800000', onOrders: '0.05200000' });
+
+        const open = (await sim.returnOpenOrders({ currencyPair: 'BTC_ETH' })).data;
+        expect(open.map((order: { orderNumber: string }) => order.orderNumber)).to.deep.equal([moved.orderNumber]);
+    });
+
+    it('releases the hold of a cancelled order', async () => {
+        const { data: placed } = await sim.buy({ amount: 3, currencyPair: 'BTC_ETH', rate: 0.055 });
+        const { data }         = await sim.cancelOrder({ orderNumber: placed.orderNumber });
+
+        expect(data).to.include({ amount: '1.00000000', success: 1 });
+        expect(await btc()).to.include({ available: '0.90000000', onOrders: '0.00000000' });
+        expect((await sim.returnOpenOrders({ currencyPair: 'BTC_ETH' })).data).to.deep.equal([]);
+    });
+
+    it('rejects orders like Poloniex does', async () => {
+        const tooSmall = await rejection(sim.buy({ amount: 0.5, currencyPair: 'BTC_ETH', rate: 0.0001 }));
+        expect(tooSmall.message).to.equal('Total must be at least 0.0001.');
+
+        sim.setOrderBook('USDT_BTC', { asks: [[10000, 1]], bids: [[9000, 1]] });
+        const tooSmallInUsdt = await rejection(sim.sell({ amount: 0.00001, currencyPair: 'USDT_BTC', rate: 9500 }));
+        expect(tooSmallInUsdt.message).to.equal('Total must be at least 1.');
+
+        const tooBig = await rejection(sim.buy({ amount: 100, currencyPair: 'BTC_ETH', rate: 0.06 }));
+        expect(tooBig).to.be.instanceof(InsufficientFundsError);
+
+        const crossing = await rejection(sim.buy({ amount: 1, currencyPair: 'BTC_ETH', postOnly: true, rate: 0.06 }));
+        expect(crossing).to.be.instanceof(PoloniexApiError);
+        expect(crossing.message).to.equal('Unable to place post-only order at this price.');
+    });
+});
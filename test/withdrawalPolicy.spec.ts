@@ -0,0 +1,133 @@
+//tslint:disable:no-magic-numbers
+import { AxiosRequestConfig } from 'axios';
+import { expect } from 'chai';
+import * as qs from 'qs';
+import {
+    getClient, IApiAuth, IGuardedRequest, IPoloniexClient, IPoloniexResponse, ISignedRequest, IWithdrawalPolicy,
+    TimeoutError, WithdrawalPolicyError,
+} from '../index';
+
+const auth: IApiAuth = { privateKey: 'test-secret', publicKey: 'test-key' };
+
+const ADDRESS = '1BoatSLRHtKNngkdXEeobR76b53LETtpyT';
+
+describe('withdrawal policy', () => {
+    let sent: string[];
+    let confirmed: IGuardedRequest[];
+
+    /**
+     * Answers withdrawals of 0.2 with a timeout and every other request as sent.
+     */
+    const answer = (config: AxiosRequestConfig): Promise<IPoloniexResponse> => {
+        const params = qs.parse(config.data);
+        sent.push(params.command);
+
+        return params.amount === '0.2' ?
+               Promise.reject(Object.assign(new Error('connect ETIMEDOUT 104.20.12.48:443'), { code: 'ETIMEDOUT' })) :
+               Promise.resolve({
+                   config,
+                   data      : { response: `Withdrew ${Number(params.amount).toFixed(8)} ${params.currency}.` },
+                   headers   : {},
+                   status    : 200,
+                   statusText: 'OK',
+               });
+    };
+
+    const guarded = (withdrawalPolicy: IWithdrawalPolicy): IPoloniexClient => getClient(auth, { adapter: answer }, {
+        withdrawalPolicy: {
+            allowlist: { BTC: [{ address: ADDRESS, label: 'cold wallet' }] },
+            confirm  : (request) => {
+                confirmed.push(request);
+
+                return true;
+            },
+            limits   : { BTC: { daily: '0.6', perTransaction: '0.5' } },
+            ...withdrawalPolicy,
+        },
+    });
+
+    const rejectionOf = (call: Promise<{}>): Promise<Error> =>
+        call.then(() => Promise.reject(new Error('expected the call to reject')), (err: Error) => err);
+
+    beforeEach(() => {
+        sent      = [];
+        confirmed = [];
+    });
+
+    it('sends allowed withdrawals once confirmed', async () => {
+        const { data } = await guarded({}).withdraw({ address: ADDRESS, amount: 0.5, currency: 'BTC' });
+
+        expect(data.response).to.equal('Withdrew 0.50000000 BTC.');
+        expect(confirmed[0].label).to.equal('cold wallet');
+        expect(sent).to.deep.equal(['withdraw']);
+    });
+
+    it('refuses currencies without an allowlist', async () => {
+        const err = await rejectionOf(guarded({}).withdraw({ address: ADDRESS, amount: 1, currency: 'ETH' }));
+
+        expect(err).to.be.instanceof(WithdrawalPolicyError);
+        expect(err.message).to.equal('no allowlist for ETH');
+        expect(sent).to.deep.equal([]);
+    });
+
+    it('refuses addresses that are not allowed', async () => {
+        const err = await rejectionOf(guarded({}).withdraw({ address: '1Other', amount: 0.1, currency: 'BTC' }));
+
+        expect(err.message).to.equal('1Other is not an allowed BTC address');
+        expect(sent).to.deep.equal([]);
+    });
+
+    it('refuses amounts over the per-withdrawal limit', async () => {
+        const err = await rejectionOf(guarded({}).withdraw({ address: ADDRESS, amount: 0.75, currency: 'BTC' }));
+
+        expect(err.message).to.equal('0.75 BTC is over the limit of 0.5 per withdrawal');
+        expect(confirmed).to.deep.equal([]);
+    });
+
+    it('counts failed withdrawals that may have gone through towards the daily limit', async () => {
+        const client = guarded({});
+
+        expect(await rejectionOf(client.withdraw({ address: ADDRESS, amount: 0.2, currency: 'BTC' })))
+            .to.be.instanceof(TimeoutError);
+
+        await client.withdraw({ address: ADDRESS, amount: 0.5, currency: 'BTC' }).then(
+            () => expect.fail(undefined, undefined, 'expected the daily limit to be reached'),
+            (err: Error) => expect(err.message).to.equal('0.5 BTC would go over the daily limit of 0.6'));
+
+        expect(sent).to.deep.equal(['withdraw']);
+    });
+
+    it('refuses withdrawals that are not confirmed', async () => {
+        const client = guarded({ confirm: () => false });
+
+        expect((await rejectionOf(client.withdraw({ address: ADDRESS, amount: 0.1, currency: 'BTC' }))).message)
+            .to.equal('not confirmed');
+        expect(sent).to.deep.equal([]);
+    });
+
+    it('refuses everything without a confirmation callback', async () => {
+        const client = guarded({ confirm: undefined });
+
+        expect((await rejectionOf(client.withdraw({ address: ADDRESS, amount: 0.1, currency: 'BTC' }))).message)
+            .to.equal('no confirmation callback');
+    });
+
+    it('returns signed requests instead of sending them in a dry run', async () => {
+        const { data, statusText } = await guarded({ dryRun: true })
+            .withdraw({ address: ADDRESS, amount: 0.1, currency: 'BTC' });
+        const request: ISignedRequest = data;
+
+        expect(statusText).to.equal('dry run');
+        expect(request.headers.Key).to.equal('test-key');
+        expect(request.body).to.contain('command=withdraw');
+        expect(sent).to.deep.equal([]);
+    });
+
+    it('only allows transfers between known accounts', async () => {
+        const client = guarded({});
+        const err    = await rejectionOf(
+            client.transferBalance({ amount: 1, currency: 'BTC', fromAddress: 'exchange', toAddress: 'exchange' }));
+
+        expect(err.message).to.equal('cannot transfer to the same account');
+    });
+});